@@ -10,25 +10,72 @@ import {
   LogOut,
   Key,
   ChevronDown,
+  FlaskConical,
+  CalendarClock,
+  PackageSearch,
+  ShoppingCart,
+  Truck,
+  History,
+  ClipboardCheck,
+  Users,
+  ShieldAlert,
+  ScrollText,
+  BookOpen,
+  Lock,
+  Calculator,
 } from "lucide-react";
 import { useAuth } from "./contexts/AuthContext";
+import { ROLE_LABELS } from "./lib/permissions";
+import type { Permission } from "./lib/permissions";
 import Login from "./components/Login";
 import ChangePassword from "./components/ChangePassword";
 import Templates from "./components/Templates";
 import WarehouseEntry from "./components/WarehouseEntry";
 import WarehouseList from "./components/WarehouseList";
 import WarehouseTransfer from "./components/WarehouseTransfer";
+import TransferHistory from "./components/TransferHistory";
+import TransferRequests from "./components/TransferRequests";
 import WarehouseExit from "./components/WarehouseExit";
+import WarehouseConsumption from "./components/WarehouseConsumption";
 import InventoryCount from "./components/InventoryCount";
+import ExpiryReport from "./components/ExpiryReport";
+import ReorderReport from "./components/ReorderReport";
+import PurchaseOrders from "./components/PurchaseOrders";
+import SupplierReport from "./components/SupplierReport";
+import UserAccess from "./components/UserAccess";
+import AuditLog from "./components/AuditLog";
+import StockCard from "./components/StockCard";
+import AccountingPeriods from "./components/AccountingPeriods";
+import InventoryValuation from "./components/InventoryValuation";
 
-type Page = "templates" | "entry" | "list" | "transfer" | "exit" | "count";
+type Page =
+  | "templates"
+  | "orders"
+  | "entry"
+  | "list"
+  | "stockcard"
+  | "transfer"
+  | "requests"
+  | "transfers"
+  | "consumption"
+  | "exit"
+  | "count"
+  | "expiry"
+  | "reorder"
+  | "suppliers"
+  | "valuation"
+  | "users"
+  | "periods"
+  | "audit";
 
 export default function App() {
-  const { user, loading, signOut } = useAuth();
+  const { user, role, loading, can, signOut } = useAuth();
   const [currentPage, setCurrentPage] = useState<Page>("templates");
   const [showUserMenu, setShowUserMenu] = useState(false);
   const [showChangePassword, setShowChangePassword] = useState(false);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [entryPurchaseOrderId, setEntryPurchaseOrderId] = useState<string | null>(null);
+  const [transferRequestId, setTransferRequestId] = useState<string | null>(null);
 
   if (loading) {
     return (
@@ -48,35 +95,123 @@ export default function App() {
     setShowUserMenu(false);
   };
 
-  const navigation = [
-    { id: "templates" as Page, name: "Şablonlar", icon: Database },
-    { id: "entry" as Page, name: "Anbara Giriş", icon: ArrowUpRight },
-    { id: "list" as Page, name: "Anbar Siyahısı", icon: Package },
+  if (!role) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8 max-w-md w-full text-center">
+          <ShieldAlert className="w-12 h-12 text-yellow-500 mx-auto mb-4" />
+          <h2 className="text-lg font-semibold text-gray-900">Giriş icazəsi yoxdur</h2>
+          <p className="text-sm text-gray-500 mt-2">
+            Hesabınıza rol təyin edilməyib. Administratorla əlaqə saxlayın.
+          </p>
+          <button
+            onClick={handleLogout}
+            className="mt-6 inline-flex items-center gap-2 px-4 py-2 text-sm text-red-600 hover:bg-red-50 rounded-lg"
+          >
+            <LogOut className="w-4 h-4" />
+            Çıxış
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const navigation: { id: Page; name: string; icon: typeof Database; permission: Permission }[] = [
+    { id: "templates", name: "Şablonlar", icon: Database, permission: "manage_master_data" },
+    { id: "orders", name: "Satınalma Sifarişləri", icon: ShoppingCart, permission: "post_documents" },
+    { id: "entry", name: "Anbara Giriş", icon: ArrowUpRight, permission: "post_documents" },
+    { id: "list", name: "Anbar Siyahısı", icon: Package, permission: "view_stock" },
+    { id: "stockcard", name: "Məhsul Kartı", icon: BookOpen, permission: "view_stock" },
     {
-      id: "transfer" as Page,
+      id: "transfer",
       name: "Anbarlar Arası Transfer",
       icon: ArrowLeftRight,
+      permission: "post_documents",
     },
-    { id: "exit" as Page, name: "Anbardan Çıxış", icon: FileText },
-    { id: "count" as Page, name: "Anbar Sayımı", icon: ClipboardList },
+    { id: "requests", name: "Transfer Sorğuları", icon: ClipboardCheck, permission: "post_documents" },
+    { id: "transfers", name: "Transfer Tarixçəsi", icon: History, permission: "view_stock" },
+    { id: "consumption", name: "Sərfiyyat", icon: FlaskConical, permission: "post_documents" },
+    { id: "exit", name: "Anbardan Çıxış", icon: FileText, permission: "view_stock" },
+    { id: "count", name: "Anbar Sayımı", icon: ClipboardList, permission: "post_documents" },
+    { id: "expiry", name: "Son İstifadə Tarixi", icon: CalendarClock, permission: "view_stock" },
+    { id: "reorder", name: "Sifariş Hesabatı", icon: PackageSearch, permission: "view_stock" },
+    { id: "suppliers", name: "Təchizatçı Hesabatı", icon: Truck, permission: "view_stock" },
+    { id: "valuation", name: "Maya Dəyəri Hesabatı", icon: Calculator, permission: "view_stock" },
+    { id: "users", name: "İstifadəçilər", icon: Users, permission: "view_users" },
+    { id: "periods", name: "Uçot Dövrləri", icon: Lock, permission: "manage_periods" },
+    { id: "audit", name: "Audit Jurnalı", icon: ScrollText, permission: "view_audit" },
   ];
 
+  const visibleNavigation = navigation.filter((item) => can(item.permission));
+  // Falls back to the first allowed page, e.g. the default page is admin only
+  const activePage = visibleNavigation.some((item) => item.id === currentPage)
+    ? currentPage
+    : visibleNavigation[0]?.id;
+
   const renderPage = () => {
-    switch (currentPage) {
+    switch (activePage) {
       case "templates":
         return <Templates />;
+      case "orders":
+        return (
+          <PurchaseOrders
+            onCreateInvoice={(purchaseOrderId) => {
+              setEntryPurchaseOrderId(purchaseOrderId);
+              setCurrentPage("entry");
+            }}
+          />
+        );
       case "entry":
-        return <WarehouseEntry />;
+        return (
+          <WarehouseEntry
+            purchaseOrderId={entryPurchaseOrderId}
+            onPurchaseOrderLoaded={() => setEntryPurchaseOrderId(null)}
+          />
+        );
       case "list":
         return <WarehouseList />;
+      case "stockcard":
+        return <StockCard />;
       case "transfer":
-        return <WarehouseTransfer />;
+        return (
+          <WarehouseTransfer
+            transferRequestId={transferRequestId}
+            onTransferRequestLoaded={() => setTransferRequestId(null)}
+          />
+        );
+      case "requests":
+        return (
+          <TransferRequests
+            onCreateTransfer={(requestId) => {
+              setTransferRequestId(requestId);
+              setCurrentPage("transfer");
+            }}
+          />
+        );
+      case "transfers":
+        return <TransferHistory />;
+      case "consumption":
+        return <WarehouseConsumption />;
       case "exit":
         return <WarehouseExit />;
       case "count":
         return <InventoryCount />;
+      case "expiry":
+        return <ExpiryReport />;
+      case "reorder":
+        return <ReorderReport />;
+      case "suppliers":
+        return <SupplierReport />;
+      case "valuation":
+        return <InventoryValuation />;
+      case "users":
+        return <UserAccess />;
+      case "periods":
+        return <AccountingPeriods />;
+      case "audit":
+        return <AuditLog />;
       default:
-        return <Templates />;
+        return null;
     }
   };
 
@@ -98,9 +233,9 @@ export default function App() {
         </div>
 
         <nav className="flex-1 p-4 space-y-1">
-          {navigation.map((item) => {
+          {visibleNavigation.map((item) => {
             const Icon = item.icon;
-            const isActive = currentPage === item.id;
+            const isActive = activePage === item.id;
             return (
               <button
                 key={item.id}
@@ -134,7 +269,7 @@ export default function App() {
                   <p className="text-sm font-medium text-gray-900">
                     {user?.email?.split("@")[0] || "İstifadəçi"}
                   </p>
-                  <p className="text-xs text-gray-500">İstifadəçi</p>
+                  <p className="text-xs text-gray-500">{ROLE_LABELS[role]}</p>
                 </div>
               </div>
               <ChevronDown
@@ -0,0 +1,224 @@
+import { useState, useEffect } from 'react';
+import { Lock, Unlock } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import Modal from './Modal';
+import type { AccountingPeriod, AccountingPeriodStatus } from '../types/database';
+
+const MONTHS_SHOWN = 24;
+
+const STATUS_LABELS: Record<AccountingPeriodStatus, string> = {
+  open: 'Açıq',
+  closed: 'Bağlı',
+};
+
+const STATUS_CLASSES: Record<AccountingPeriodStatus, string> = {
+  open: 'bg-green-100 text-green-700',
+  closed: 'bg-gray-200 text-gray-700',
+};
+
+interface PeriodRow {
+  period_start: string;
+  status: AccountingPeriodStatus;
+  closed_at: string | null;
+  closed_by_email: string | null;
+  has_ended: boolean;
+}
+
+function monthStart(year: number, month: number): string {
+  const date = new Date(year, month, 1);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-01`;
+}
+
+function monthLabel(periodStart: string): string {
+  const [year, month] = periodStart.split('-').map(Number);
+  return new Date(year, month - 1, 1).toLocaleDateString('az-AZ', { month: 'long', year: 'numeric' });
+}
+
+export default function AccountingPeriods() {
+  const [periods, setPeriods] = useState<PeriodRow[]>([]);
+  const [confirmTarget, setConfirmTarget] = useState<PeriodRow | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [modal, setModal] = useState<{ isOpen: boolean; title: string; message: string; type: 'success' | 'error' | 'info' }>({ isOpen: false, title: '', message: '', type: 'info' });
+
+  useEffect(() => {
+    loadPeriods();
+  }, []);
+
+  const loadPeriods = async () => {
+    const { data } = await supabase
+      .from('accounting_periods')
+      .select('*')
+      .order('period_start', { ascending: false });
+
+    const stored = new Map<string, AccountingPeriod>((data || []).map((p) => [p.period_start, p]));
+    const now = new Date();
+    const currentMonth = monthStart(now.getFullYear(), now.getMonth());
+
+    // The last months are always listed; older months only once they have been closed
+    const starts = new Set<string>(stored.keys());
+    for (let i = 0; i < MONTHS_SHOWN; i++) {
+      starts.add(monthStart(now.getFullYear(), now.getMonth() - i));
+    }
+
+    setPeriods(
+      Array.from(starts)
+        .sort((a, b) => b.localeCompare(a))
+        .map((start) => {
+          const period = stored.get(start);
+          return {
+            period_start: start,
+            status: period?.status || 'open',
+            closed_at: period?.closed_at || null,
+            closed_by_email: period?.closed_by_email || null,
+            has_ended: start < currentMonth,
+          };
+        })
+    );
+  };
+
+  const togglePeriod = async () => {
+    if (!confirmTarget) return;
+
+    setLoading(true);
+
+    const { error } = await supabase.rpc(
+      confirmTarget.status === 'closed' ? 'reopen_accounting_period' : 'close_accounting_period',
+      { p_period_start: confirmTarget.period_start }
+    );
+
+    setLoading(false);
+
+    if (error) {
+      setModal({
+        isOpen: true,
+        title: 'Xəta',
+        message: error.code === 'P0001' ? error.message : 'Dövrün statusu dəyişdirilərkən xəta baş verdi',
+        type: 'error',
+      });
+      return;
+    }
+
+    setModal({
+      isOpen: true,
+      title: 'Uğurlu',
+      message: confirmTarget.status === 'closed'
+        ? `${monthLabel(confirmTarget.period_start)} dövrü açıldı`
+        : `${monthLabel(confirmTarget.period_start)} dövrü bağlandı`,
+      type: 'success',
+    });
+    setConfirmTarget(null);
+    loadPeriods();
+  };
+
+  return (
+    <div className="h-full p-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-6">
+          <h2 className="text-2xl font-semibold text-gray-900">Uçot Dövrləri</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Bağlı aylara aid qaimə, transfer, çıxış, qaytarma və sayım daxil edilə, dəyişdirilə və ya silinə bilməz
+          </p>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Ay</th>
+                  <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase">Status</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Bağlayan</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Bağlanma tarixi</th>
+                  <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase">Əməliyyat</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {periods.map((period) => (
+                  <tr key={period.period_start} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 text-sm font-medium text-gray-900 capitalize">
+                      {monthLabel(period.period_start)}
+                    </td>
+                    <td className="px-6 py-4 text-center">
+                      <span className={`inline-flex px-2 py-1 text-xs font-medium rounded ${STATUS_CLASSES[period.status]}`}>
+                        {STATUS_LABELS[period.status]}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-600">{period.closed_by_email || '-'}</td>
+                    <td className="px-6 py-4 text-sm text-gray-600">
+                      {period.closed_at ? new Date(period.closed_at).toLocaleString('az-AZ') : '-'}
+                    </td>
+                    <td className="px-6 py-4 text-center">
+                      {period.status === 'closed' ? (
+                        <button
+                          onClick={() => setConfirmTarget(period)}
+                          className="inline-flex items-center gap-1 px-3 py-1 text-sm text-blue-600 hover:bg-blue-50 rounded"
+                        >
+                          <Unlock className="w-4 h-4" />
+                          Aç
+                        </button>
+                      ) : period.has_ended ? (
+                        <button
+                          onClick={() => setConfirmTarget(period)}
+                          className="inline-flex items-center gap-1 px-3 py-1 text-sm text-red-600 hover:bg-red-50 rounded"
+                        >
+                          <Lock className="w-4 h-4" />
+                          Bağla
+                        </button>
+                      ) : (
+                        <span className="text-xs text-gray-400">Ay bitməyib</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+
+      {confirmTarget && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-md w-full">
+            <div className="p-6 border-b border-gray-200">
+              <h3 className="text-xl font-semibold text-gray-900">
+                {confirmTarget.status === 'closed' ? 'Dövrü aç' : 'Dövrü bağla'}
+              </h3>
+              <p className="text-sm text-gray-500 mt-1 capitalize">{monthLabel(confirmTarget.period_start)}</p>
+            </div>
+            <div className="p-6 text-sm text-gray-700">
+              {confirmTarget.status === 'closed'
+                ? 'Dövr açıldıqdan sonra bu aya aid sənədlər yenidən daxil edilə və dəyişdirilə bilər.'
+                : 'Dövr bağlandıqdan sonra bu aya aid sənədlər daxil edilə, dəyişdirilə və ya silinə bilməz.'}
+            </div>
+            <div className="p-6 border-t border-gray-200 flex justify-end gap-3">
+              <button
+                onClick={() => setConfirmTarget(null)}
+                className="px-6 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                Ləğv Et
+              </button>
+              <button
+                onClick={togglePeriod}
+                disabled={loading}
+                className={`flex items-center gap-2 px-6 py-2 text-white rounded-lg disabled:opacity-50 transition-colors ${
+                  confirmTarget.status === 'closed' ? 'bg-blue-600 hover:bg-blue-700' : 'bg-red-600 hover:bg-red-700'
+                }`}
+              >
+                {confirmTarget.status === 'closed' ? <Unlock className="w-4 h-4" /> : <Lock className="w-4 h-4" />}
+                {confirmTarget.status === 'closed' ? 'Aç' : 'Bağla'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <Modal
+        isOpen={modal.isOpen}
+        onClose={() => setModal({ ...modal, isOpen: false })}
+        title={modal.title}
+        message={modal.message}
+        type={modal.type}
+      />
+    </div>
+  );
+}
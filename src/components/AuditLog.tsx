@@ -0,0 +1,343 @@
+import { useState, useEffect } from 'react';
+import { Eye, Download } from 'lucide-react';
+import * as XLSX from 'xlsx';
+import { supabase } from '../lib/supabase';
+import type { AuditAction, AuditLogEntry, UserRoleAssignment, Warehouse } from '../types/database';
+
+const MAX_ENTRIES = 500;
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  insert: 'Yaradılıb',
+  update: 'Dəyişdirilib',
+  delete: 'Silinib',
+};
+
+const ACTION_CLASSES: Record<AuditAction, string> = {
+  insert: 'bg-green-100 text-green-700',
+  update: 'bg-blue-100 text-blue-700',
+  delete: 'bg-red-100 text-red-700',
+};
+
+const ENTITY_LABELS: Record<string, string> = {
+  invoices: 'Qaimə',
+  invoice_items: 'Qaimə sətri',
+  invoice_returns: 'Qaimə qaytarması',
+  transfers: 'Transfer',
+  transfer_items: 'Transfer sətri',
+  stock_out: 'Anbardan çıxış',
+  stock_out_items: 'Çıxış sətri',
+  inventory_count: 'Sayım',
+  inventory_count_items: 'Sayım sətri',
+  purchase_orders: 'Satınalma sifarişi',
+  transfer_requests: 'Transfer sorğusu',
+  accounting_periods: 'Uçot dövrü',
+};
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) return '-';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+export default function AuditLog() {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [users, setUsers] = useState<UserRoleAssignment[]>([]);
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [actorId, setActorId] = useState('');
+  const [tableName, setTableName] = useState('');
+  const [warehouseId, setWarehouseId] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [selectedEntry, setSelectedEntry] = useState<AuditLogEntry | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    loadFilters();
+  }, []);
+
+  useEffect(() => {
+    loadEntries();
+  }, [actorId, tableName, warehouseId, startDate, endDate]);
+
+  const loadFilters = async () => {
+    const [usersRes, warehousesRes] = await Promise.all([
+      supabase.from('user_roles').select('*').order('email'),
+      supabase.from('warehouses').select('*').order('name'),
+    ]);
+
+    if (usersRes.data) setUsers(usersRes.data);
+    if (warehousesRes.data) setWarehouses(warehousesRes.data);
+  };
+
+  const loadEntries = async () => {
+    setLoading(true);
+
+    let query = supabase
+      .from('audit_log')
+      .select('*')
+      .order('occurred_at', { ascending: false })
+      .limit(MAX_ENTRIES);
+
+    if (actorId) query = query.eq('actor_id', actorId);
+    if (tableName) query = query.eq('table_name', tableName);
+    if (warehouseId) query = query.contains('warehouse_ids', [warehouseId]);
+    if (startDate) query = query.gte('occurred_at', startDate);
+    if (endDate) query = query.lte('occurred_at', `${endDate}T23:59:59.999`);
+
+    const { data } = await query;
+    setEntries(data || []);
+    setLoading(false);
+  };
+
+  const warehouseNames = (ids: string[]) =>
+    ids.map((id) => warehouses.find((w) => w.id === id)?.name || 'N/A').join(' → ');
+
+  const exportToExcel = () => {
+    const exportData = entries.map((entry) => ({
+      'Tarix': new Date(entry.occurred_at).toLocaleString('az-AZ'),
+      'İstifadəçi': entry.actor_email || 'Sistem',
+      'Növ': ACTION_LABELS[entry.action],
+      'Obyekt': ENTITY_LABELS[entry.table_name] || entry.table_name,
+      'Qeyd ID': entry.row_id,
+      'Anbar': warehouseNames(entry.warehouse_ids),
+      'Dəyişikliklər': JSON.stringify(entry.diff),
+    }));
+
+    const ws = XLSX.utils.json_to_sheet(exportData);
+
+    ws['!cols'] = [
+      { wch: 20 },
+      { wch: 28 },
+      { wch: 14 },
+      { wch: 20 },
+      { wch: 38 },
+      { wch: 28 },
+      { wch: 80 },
+    ];
+
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, ws, 'Audit');
+
+    const fileName = `Audit_Jurnali_${new Date().toISOString().split('T')[0]}.xlsx`;
+    XLSX.writeFile(wb, fileName, { bookType: 'xlsx', type: 'binary' });
+  };
+
+  const selectClassName = 'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="h-full p-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-6">
+          <h2 className="text-2xl font-semibold text-gray-900">Audit Jurnalı</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Stoka təsir edən sənədlərin kim tərəfindən və nə vaxt yaradıldığı, dəyişdirildiyi və silindiyi
+          </p>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+          <div className="p-6 border-b border-gray-200">
+            <div className="flex justify-between items-center mb-4">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900">Qeydlər</h3>
+                <p className="text-sm text-gray-500 mt-1">Son {MAX_ENTRIES} qeyd göstərilir</p>
+              </div>
+              {entries.length > 0 && (
+                <button
+                  onClick={exportToExcel}
+                  className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+                >
+                  <Download className="w-4 h-4" />
+                  Excel
+                </button>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  İstifadəçi
+                </label>
+                <select value={actorId} onChange={(e) => setActorId(e.target.value)} className={selectClassName}>
+                  <option value="">Hamısı</option>
+                  {users.map((user) => (
+                    <option key={user.user_id} value={user.user_id}>{user.email || user.user_id}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Obyekt
+                </label>
+                <select value={tableName} onChange={(e) => setTableName(e.target.value)} className={selectClassName}>
+                  <option value="">Hamısı</option>
+                  {Object.entries(ENTITY_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Anbar
+                </label>
+                <select value={warehouseId} onChange={(e) => setWarehouseId(e.target.value)} className={selectClassName}>
+                  <option value="">Hamısı</option>
+                  {warehouses.map((warehouse) => (
+                    <option key={warehouse.id} value={warehouse.id}>{warehouse.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Başlanğıc tarix
+                </label>
+                <input
+                  type="date"
+                  value={startDate}
+                  onChange={(e) => setStartDate(e.target.value)}
+                  className={selectClassName}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Son tarix
+                </label>
+                <input
+                  type="date"
+                  value={endDate}
+                  onChange={(e) => setEndDate(e.target.value)}
+                  className={selectClassName}
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Tarix</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">İstifadəçi</th>
+                  <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase">Növ</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Obyekt</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Anbar</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Dəyişən sahələr</th>
+                  <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase">Əməliyyat</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {loading ? (
+                  <tr>
+                    <td colSpan={7} className="px-6 py-8 text-center text-gray-500">
+                      Yüklənir...
+                    </td>
+                  </tr>
+                ) : entries.length === 0 ? (
+                  <tr>
+                    <td colSpan={7} className="px-6 py-8 text-center text-gray-500">
+                      Qeyd tapılmadı
+                    </td>
+                  </tr>
+                ) : (
+                  entries.map((entry) => (
+                    <tr key={entry.id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 text-sm text-gray-600 whitespace-nowrap">
+                        {new Date(entry.occurred_at).toLocaleString('az-AZ')}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-900">{entry.actor_email || 'Sistem'}</td>
+                      <td className="px-6 py-4 text-center">
+                        <span className={`inline-flex px-2 py-1 text-xs font-medium rounded ${ACTION_CLASSES[entry.action]}`}>
+                          {ACTION_LABELS[entry.action]}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-900">
+                        <div>{ENTITY_LABELS[entry.table_name] || entry.table_name}</div>
+                        <div className="text-xs font-mono text-gray-500">{entry.row_id.slice(0, 8)}</div>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-600">{warehouseNames(entry.warehouse_ids) || '-'}</td>
+                      <td className="px-6 py-4 text-sm text-gray-600">
+                        {entry.action === 'update' ? Object.keys(entry.diff).join(', ') : '-'}
+                      </td>
+                      <td className="px-6 py-4 text-center">
+                        <button
+                          onClick={() => setSelectedEntry(entry)}
+                          className="p-1 text-blue-600 hover:bg-blue-50 rounded"
+                          title="Bax"
+                        >
+                          <Eye className="w-4 h-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+
+      {selectedEntry && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-4xl w-full max-h-[90vh] overflow-hidden">
+            <div className="p-6 border-b border-gray-200">
+              <h3 className="text-xl font-semibold text-gray-900">
+                {ENTITY_LABELS[selectedEntry.table_name] || selectedEntry.table_name}: {ACTION_LABELS[selectedEntry.action]}
+              </h3>
+              <div className="mt-2 grid grid-cols-2 gap-4 text-sm">
+                <div>
+                  <span className="text-gray-500">İstifadəçi:</span>{' '}
+                  <span className="font-medium">{selectedEntry.actor_email || 'Sistem'}</span>
+                </div>
+                <div>
+                  <span className="text-gray-500">Tarix:</span>{' '}
+                  <span className="font-medium">{new Date(selectedEntry.occurred_at).toLocaleString('az-AZ')}</span>
+                </div>
+                <div className="col-span-2">
+                  <span className="text-gray-500">Qeyd ID:</span>{' '}
+                  <span className="font-mono">{selectedEntry.row_id}</span>
+                </div>
+              </div>
+            </div>
+
+            <div className="p-6 overflow-auto max-h-[60vh]">
+              <table className="w-full">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Sahə</th>
+                    {selectedEntry.action !== 'insert' && (
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Əvvəl</th>
+                    )}
+                    {selectedEntry.action !== 'delete' && (
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Sonra</th>
+                    )}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {Object.entries(selectedEntry.diff).map(([field, change]) => (
+                    <tr key={field}>
+                      <td className="px-4 py-2 text-sm font-mono text-gray-700">{field}</td>
+                      {selectedEntry.action !== 'insert' && (
+                        <td className="px-4 py-2 text-sm text-gray-600 break-all">{formatValue(change.old)}</td>
+                      )}
+                      {selectedEntry.action !== 'delete' && (
+                        <td className="px-4 py-2 text-sm text-gray-900 break-all">{formatValue(change.new)}</td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="p-6 border-t border-gray-200 flex justify-end">
+              <button
+                onClick={() => setSelectedEntry(null)}
+                className="px-6 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700"
+              >
+                Bağla
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
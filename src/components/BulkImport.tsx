@@ -1,7 +1,8 @@
-import { useState, useRef } from 'react';
+import { useState, useRef, useEffect } from 'react';
 import { Upload, Download, X, AlertCircle, CheckCircle } from 'lucide-react';
 import * as XLSX from 'xlsx';
 import { supabase } from '../lib/supabase';
+import type { Supplier } from '../types/database';
 
 interface ParsedRow {
   rowNumber: number;
@@ -12,10 +13,29 @@ interface ParsedRow {
   name: string;
   qty: number;
   unit_price: number;
+  lot_number: string;
+  expiry_date: string;
   isValid: boolean;
   errors: string[];
 }
 
+// Excel dates arrive either as serial numbers or as text (YYYY-MM-DD or DD.MM.YYYY)
+function parseExcelDate(value: unknown): string | null {
+  if (typeof value === 'number') {
+    const parsed = XLSX.SSF.parse_date_code(value);
+    if (!parsed) return null;
+    return `${parsed.y}-${String(parsed.m).padStart(2, '0')}-${String(parsed.d).padStart(2, '0')}`;
+  }
+
+  const text = (value ?? '').toString().trim();
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) return text;
+
+  const local = text.match(/^(\d{2})\.(\d{2})\.(\d{4})$/);
+  if (local) return `${local[3]}-${local[2]}-${local[1]}`;
+
+  return null;
+}
+
 interface ImportSummary {
   totalRows: number;
   productsCreated: number;
@@ -28,12 +48,22 @@ export default function BulkImport({ onClose, onSuccess }: { onClose: () => void
   const [step, setStep] = useState<'upload' | 'preview' | 'importing' | 'complete'>('upload');
   const [parsedData, setParsedData] = useState<ParsedRow[]>([]);
   const [importDate, setImportDate] = useState(new Date().toISOString().split('T')[0]);
-  const [supplier, setSupplier] = useState('Bulk Import');
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [supplierId, setSupplierId] = useState('');
   const [allowCreateWarehouses, setAllowCreateWarehouses] = useState(false);
   const [importSummary, setImportSummary] = useState<ImportSummary | null>(null);
   const [progress, setProgress] = useState(0);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  useEffect(() => {
+    loadSuppliers();
+  }, []);
+
+  const loadSuppliers = async () => {
+    const { data } = await supabase.from('suppliers').select('*').order('name');
+    if (data) setSuppliers(data);
+  };
+
   const requiredColumns = ['warehouse_code', 'warehouse_name', 'type', 'code', 'name', 'qty', 'unit_price'];
 
   const handleDownloadTemplate = () => {
@@ -45,7 +75,9 @@ export default function BulkImport({ onClose, onSuccess }: { onClose: () => void
         code: 'R001',
         name: 'Sodium Chloride',
         qty: 50,
-        unit_price: 12.50
+        unit_price: 12.50,
+        lot_number: 'LOT-2024-001',
+        expiry_date: '2026-12-31'
       },
       {
         warehouse_code: 'WH001',
@@ -54,7 +86,9 @@ export default function BulkImport({ onClose, onSuccess }: { onClose: () => void
         code: 'C001',
         name: 'Test Tubes',
         qty: 100,
-        unit_price: 5.00
+        unit_price: 5.00,
+        lot_number: '',
+        expiry_date: ''
       },
       {
         warehouse_code: 'WH002',
@@ -63,7 +97,9 @@ export default function BulkImport({ onClose, onSuccess }: { onClose: () => void
         code: 'R002',
         name: 'Ethanol 96%',
         qty: 25,
-        unit_price: 18.75
+        unit_price: 18.75,
+        lot_number: 'E96-0425',
+        expiry_date: '2027-04-30'
       }
     ];
 
@@ -83,6 +119,9 @@ export default function BulkImport({ onClose, onSuccess }: { onClose: () => void
     const name = (row.name || '').toString().trim();
     const qty = Number(row.qty);
     const unitPrice = Number(row.unit_price);
+    const lotNumber = (row.lot_number || '').toString().trim();
+    const hasExpiry = row.expiry_date !== undefined && row.expiry_date !== null && row.expiry_date.toString().trim() !== '';
+    const expiryDate = hasExpiry ? parseExcelDate(row.expiry_date) : null;
 
     if (!warehouseCode) errors.push('Anbar kodu boşdur');
     if (!type) errors.push('Tip boşdur');
@@ -101,6 +140,10 @@ export default function BulkImport({ onClose, onSuccess }: { onClose: () => void
       errors.push('Vahid qiymət 0 və ya müsbət ədəd olmalıdır');
     }
 
+    if (hasExpiry && !expiryDate) {
+      errors.push('Son istifadə tarixi YYYY-MM-DD formatında olmalıdır');
+    }
+
     return {
       rowNumber: rowNum,
       warehouse_code: warehouseCode,
@@ -110,6 +153,8 @@ export default function BulkImport({ onClose, onSuccess }: { onClose: () => void
       name,
       qty,
       unit_price: unitPrice,
+      lot_number: lotNumber,
+      expiry_date: expiryDate || '',
       isValid: errors.length === 0,
       errors
     };
@@ -229,24 +274,14 @@ export default function BulkImport({ onClose, onSuccess }: { onClose: () => void
         const timestamp = Date.now();
         const invoiceCode = `BULK-IMPORT-${timestamp}-${warehouseCode}`;
 
-        const { data: invoice, error: invoiceError } = await supabase
-          .from('invoices')
-          .insert([{
-            invoice_code: invoiceCode,
-            supplier: supplier,
-            date: importDate,
-            warehouse_id: warehouseId,
-            status: 'active'
-          }])
-          .select()
-          .single();
-
-        if (invoiceError || !invoice) {
-          summary.errors.push(`Qaimə yaradıla bilmədi: ${warehouseCode}`);
-          summary.rowsSkipped += rows.length;
-          processedCount += rows.length;
-          continue;
-        }
+        const invoiceItems: {
+          product_type: string;
+          product_id: string;
+          quantity: number;
+          unit_price: number;
+          lot_number: string | null;
+          expiry_date: string | null;
+        }[] = [];
 
         for (const row of rows) {
           try {
@@ -289,28 +324,15 @@ export default function BulkImport({ onClose, onSuccess }: { onClose: () => void
             if (!productId) {
               summary.errors.push(`Sətir ${row.rowNumber}: Məhsul yaradıla bilmədi`);
               summary.rowsSkipped++;
-              processedCount++;
-              continue;
-            }
-
-            const totalPrice = row.qty * row.unit_price;
-            const { error: itemError } = await supabase
-              .from('invoice_items')
-              .insert([{
-                invoice_id: invoice.id,
+            } else {
+              invoiceItems.push({
                 product_type: row.type,
                 product_id: productId,
                 quantity: row.qty,
                 unit_price: row.unit_price,
-                total_price: totalPrice,
-                batch_date: importDate
-              }]);
-
-            if (itemError) {
-              summary.errors.push(`Sətir ${row.rowNumber}: Məhsul əlavə edilmədi`);
-              summary.rowsSkipped++;
-            } else {
-              summary.itemsImported++;
+                lot_number: row.lot_number || null,
+                expiry_date: row.expiry_date || null
+              });
             }
           } catch (error) {
             summary.errors.push(`Sətir ${row.rowNumber}: Gözlənilməz xəta`);
@@ -320,6 +342,26 @@ export default function BulkImport({ onClose, onSuccess }: { onClose: () => void
           processedCount++;
           setProgress(Math.round((processedCount / totalToProcess) * 100));
         }
+
+        if (invoiceItems.length === 0) {
+          continue;
+        }
+
+        const { error: invoiceError } = await supabase.rpc('post_invoice', {
+          p_invoice_code: invoiceCode,
+          p_supplier: suppliers.find((s) => s.id === supplierId)?.name || '',
+          p_date: importDate,
+          p_warehouse_id: warehouseId,
+          p_items: invoiceItems,
+          p_supplier_id: supplierId
+        });
+
+        if (invoiceError) {
+          summary.errors.push(`Qaimə yaradıla bilmədi: ${warehouseCode}`);
+          summary.rowsSkipped += invoiceItems.length;
+        } else {
+          summary.itemsImported += invoiceItems.length;
+        }
       }
 
       setImportSummary(summary);
@@ -389,6 +431,8 @@ export default function BulkImport({ onClose, onSuccess }: { onClose: () => void
                   <li>• <strong>name</strong> - Məhsul adı</li>
                   <li>• <strong>qty</strong> - Miqdar</li>
                   <li>• <strong>unit_price</strong> - Vahid qiymət</li>
+                  <li>• <strong>lot_number</strong> - Lot nömrəsi (istəyə bağlı)</li>
+                  <li>• <strong>expiry_date</strong> - Son istifadə tarixi, YYYY-MM-DD (istəyə bağlı)</li>
                 </ul>
               </div>
             </div>
@@ -412,12 +456,18 @@ export default function BulkImport({ onClose, onSuccess }: { onClose: () => void
                   <label className="block text-sm font-medium text-gray-700 mb-1">
                     Təchizatçı
                   </label>
-                  <input
-                    type="text"
-                    value={supplier}
-                    onChange={(e) => setSupplier(e.target.value)}
+                  <select
+                    value={supplierId}
+                    onChange={(e) => setSupplierId(e.target.value)}
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg"
-                  />
+                  >
+                    <option value="">Təchizatçı seçin</option>
+                    {suppliers.map((s) => (
+                      <option key={s.id} value={s.id}>
+                        {s.name}
+                      </option>
+                    ))}
+                  </select>
                 </div>
               </div>
 
@@ -454,6 +504,8 @@ export default function BulkImport({ onClose, onSuccess }: { onClose: () => void
                       <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">Ad</th>
                       <th className="px-3 py-2 text-right text-xs font-medium text-gray-500">Miqdar</th>
                       <th className="px-3 py-2 text-right text-xs font-medium text-gray-500">Qiymət</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">Lot</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">Son istifadə</th>
                       <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">Xətalar</th>
                     </tr>
                   </thead>
@@ -474,6 +526,8 @@ export default function BulkImport({ onClose, onSuccess }: { onClose: () => void
                         <td className="px-3 py-2">{row.name}</td>
                         <td className="px-3 py-2 text-right">{row.qty}</td>
                         <td className="px-3 py-2 text-right">{row.unit_price.toFixed(2)}</td>
+                        <td className="px-3 py-2 font-mono text-xs">{row.lot_number || '-'}</td>
+                        <td className="px-3 py-2">{row.expiry_date || '-'}</td>
                         <td className="px-3 py-2 text-xs text-red-600">
                           {row.errors.join(', ')}
                         </td>
@@ -558,7 +612,7 @@ export default function BulkImport({ onClose, onSuccess }: { onClose: () => void
             </button>
             <button
               onClick={handleImport}
-              disabled={parsedData.filter(r => r.isValid).length === 0}
+              disabled={!supplierId || parsedData.filter(r => r.isValid).length === 0}
               className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
             >
               İdxal Et
@@ -11,6 +11,7 @@ interface Count {
   warehouse_name: string;
   date: string;
   total_loss_amount: number;
+  total_surplus_amount: number;
   created_at: string;
 }
 
@@ -22,6 +23,8 @@ interface CountItem {
   real_qty: number;
   loss_qty: number;
   loss_amount: number;
+  surplus_qty: number;
+  surplus_amount: number;
 }
 
 export default function CountList() {
@@ -38,7 +41,7 @@ export default function CountList() {
     setLoading(true);
 
     const [countsRes, warehousesRes] = await Promise.all([
-      supabase.from('inventory_count').select('id, count_code, warehouse_id, date, total_loss_amount, created_at').order('date', { ascending: false }),
+      supabase.from('inventory_count').select('id, count_code, warehouse_id, date, total_loss_amount, total_surplus_amount, created_at').order('date', { ascending: false }),
       supabase.from('warehouses').select('id, name')
     ]);
 
@@ -90,11 +93,13 @@ export default function CountList() {
         real_qty: Number(item.real_qty),
         loss_qty: Number(item.loss_qty),
         loss_amount: Number(item.loss_amount),
+        surplus_qty: Number(item.surplus_qty),
+        surplus_amount: Number(item.surplus_amount),
       };
     });
 
     const ws = XLSX.utils.json_to_sheet(excelData, {
-      header: ['product_code', 'product_name', 'product_type', 'system_qty', 'real_qty', 'loss_qty', 'loss_amount'],
+      header: ['product_code', 'product_name', 'product_type', 'system_qty', 'real_qty', 'loss_qty', 'loss_amount', 'surplus_qty', 'surplus_amount'],
     });
 
     ws['A1'] = { v: 'Məhsul Kodu', t: 's' };
@@ -104,6 +109,8 @@ export default function CountList() {
     ws['E1'] = { v: 'Faktiki Miqdar', t: 's' };
     ws['F1'] = { v: 'Xərc Miqdarı', t: 's' };
     ws['G1'] = { v: 'Xərc Məbləği (₼)', t: 's' };
+    ws['H1'] = { v: 'Artıq Miqdarı', t: 's' };
+    ws['I1'] = { v: 'Artıq Məbləği (₼)', t: 's' };
 
     const colWidths = [
       { wch: 15 },
@@ -113,6 +120,8 @@ export default function CountList() {
       { wch: 15 },
       { wch: 15 },
       { wch: 18 },
+      { wch: 15 },
+      { wch: 18 },
     ];
     ws['!cols'] = colWidths;
 
@@ -180,12 +189,14 @@ export default function CountList() {
           real_qty: Number(item.real_qty),
           loss_qty: Number(item.loss_qty),
           loss_amount: Number(item.loss_amount),
+          surplus_qty: Number(item.surplus_qty),
+          surplus_amount: Number(item.surplus_amount),
         });
       }
     }
 
     const ws = XLSX.utils.json_to_sheet(allData, {
-      header: ['count_code', 'date', 'warehouse', 'product_code', 'product_name', 'product_type', 'system_qty', 'real_qty', 'loss_qty', 'loss_amount'],
+      header: ['count_code', 'date', 'warehouse', 'product_code', 'product_name', 'product_type', 'system_qty', 'real_qty', 'loss_qty', 'loss_amount', 'surplus_qty', 'surplus_amount'],
     });
 
     ws['A1'] = { v: 'Sayım Kodu', t: 's' };
@@ -198,6 +209,8 @@ export default function CountList() {
     ws['H1'] = { v: 'Faktiki Miqdar', t: 's' };
     ws['I1'] = { v: 'Xərc Miqdarı', t: 's' };
     ws['J1'] = { v: 'Xərc Məbləği (₼)', t: 's' };
+    ws['K1'] = { v: 'Artıq Miqdarı', t: 's' };
+    ws['L1'] = { v: 'Artıq Məbləği (₼)', t: 's' };
 
     const colWidths = [
       { wch: 18 },
@@ -210,6 +223,8 @@ export default function CountList() {
       { wch: 15 },
       { wch: 15 },
       { wch: 18 },
+      { wch: 15 },
+      { wch: 18 },
     ];
     ws['!cols'] = colWidths;
 
@@ -272,6 +287,9 @@ export default function CountList() {
                 <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">
                   Xərc Məbləği
                 </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                  Artıq Məbləği
+                </th>
                 <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase">
                   Əməliyyatlar
                 </th>
@@ -280,13 +298,13 @@ export default function CountList() {
             <tbody className="divide-y divide-gray-200">
               {loading ? (
                 <tr>
-                  <td colSpan={5} className="px-6 py-8 text-center text-gray-500">
+                  <td colSpan={6} className="px-6 py-8 text-center text-gray-500">
                     Yüklənir...
                   </td>
                 </tr>
               ) : counts.length === 0 ? (
                 <tr>
-                  <td colSpan={5} className="px-6 py-8 text-center text-gray-500">
+                  <td colSpan={6} className="px-6 py-8 text-center text-gray-500">
                     Hələ ki sayım yoxdur
                   </td>
                 </tr>
@@ -305,6 +323,9 @@ export default function CountList() {
                     <td className="px-6 py-4 text-sm text-right font-medium text-gray-900">
                       {count.total_loss_amount.toFixed(2)} ₼
                     </td>
+                    <td className="px-6 py-4 text-sm text-right font-medium text-gray-900">
+                      {count.total_surplus_amount.toFixed(2)} ₼
+                    </td>
                     <td className="px-6 py-4">
                       <div className="flex items-center justify-center gap-2">
                         <button
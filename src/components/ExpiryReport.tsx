@@ -0,0 +1,372 @@
+import { useState, useEffect } from 'react';
+import { AlertTriangle, CalendarClock, FileDown, Trash2 } from 'lucide-react';
+import * as XLSX from 'xlsx';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { calculateAllWarehousesStock, stockKey } from '../lib/stockCalculations';
+import type { Warehouse, StockBatch } from '../types/database';
+import Modal from './Modal';
+
+interface ExpiryRow extends StockBatch {
+  warehouse_id: string;
+  warehouse_name: string;
+  expiry_date: string;
+  days_left: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function daysBetween(from: string, to: string) {
+  return Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+}
+
+export default function ExpiryReport() {
+  const { can, canWriteWarehouse } = useAuth();
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [selectedWarehouse, setSelectedWarehouse] = useState('all');
+  const [daysAhead, setDaysAhead] = useState(30);
+  const [rows, setRows] = useState<ExpiryRow[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [writingOff, setWritingOff] = useState(false);
+  const [modal, setModal] = useState<{ isOpen: boolean; title: string; message: string; type: 'success' | 'error' | 'info' }>({ isOpen: false, title: '', message: '', type: 'info' });
+
+  useEffect(() => {
+    loadWarehouses();
+  }, []);
+
+  useEffect(() => {
+    loadExpiringBatches();
+  }, [selectedWarehouse]);
+
+  const loadWarehouses = async () => {
+    const { data } = await supabase.from('warehouses').select('*').order('name');
+    if (data) setWarehouses(data);
+  };
+
+  const loadExpiringBatches = async () => {
+    setLoading(true);
+
+    let loaded;
+    try {
+      loaded = await Promise.all([
+        supabase.from('warehouses').select('id, name'),
+        supabase.from('reagents').select('id, code, name'),
+        supabase.from('consumables').select('id, code, name'),
+        calculateAllWarehousesStock(selectedWarehouse === 'all' ? undefined : selectedWarehouse),
+      ]);
+    } catch {
+      setRows([]);
+      setModal({ isOpen: true, title: 'Xəta', message: 'Stok yüklənərkən xəta baş verdi', type: 'error' });
+      setLoading(false);
+      return;
+    }
+
+    const [warehousesRes, reagentsRes, consumablesRes, stockByWarehouse] = loaded;
+
+    const warehouseMap = new Map(warehousesRes.data?.map((w) => [w.id, w.name]) || []);
+    const allProducts = [
+      ...(reagentsRes.data || []).map((r) => ({ ...r, type: 'reagent' as const })),
+      ...(consumablesRes.data || []).map((c) => ({ ...c, type: 'consumable' as const })),
+    ];
+
+    const today = new Date().toISOString().split('T')[0];
+    const expiryRows: ExpiryRow[] = [];
+
+    for (const [warehouseId, stockByProduct] of stockByWarehouse.entries()) {
+      for (const product of allProducts) {
+        const stock = stockByProduct.get(stockKey(product.type, product.id));
+        if (!stock) continue;
+
+        for (const batch of stock.batches) {
+          if (!batch.expiry_date) continue;
+
+          expiryRows.push({
+            warehouse_id: warehouseId,
+            warehouse_name: warehouseMap.get(warehouseId) || 'N/A',
+            product_id: product.id,
+            product_code: product.code,
+            product_name: product.name,
+            product_type: product.type,
+            batch_id: batch.batch_id,
+            batch_date: batch.batch_date,
+            lot_number: batch.lot_number,
+            expiry_date: batch.expiry_date,
+            days_left: daysBetween(today, batch.expiry_date),
+            supplier: batch.supplier || '',
+            quantity: batch.quantity,
+            unit_price: batch.unit_price,
+            total_price: batch.total_price,
+          });
+        }
+      }
+    }
+
+    setRows(expiryRows.sort((a, b) => a.expiry_date.localeCompare(b.expiry_date)));
+    setLoading(false);
+  };
+
+  const expiredRows = rows.filter((row) => row.days_left < 0);
+  const expiringRows = rows.filter((row) => row.days_left >= 0 && row.days_left <= daysAhead);
+  const expiredValue = expiredRows.reduce((sum, row) => sum + row.total_price, 0);
+  const expiringValue = expiringRows.reduce((sum, row) => sum + row.total_price, 0);
+  // Storekeepers only write off batches of their own warehouses
+  const writableExpiredRows = expiredRows.filter((row) => canWriteWarehouse(row.warehouse_id));
+  const writableExpiredValue = writableExpiredRows.reduce((sum, row) => sum + row.total_price, 0);
+
+  const writeOffExpired = async () => {
+    if (writableExpiredRows.length === 0) return;
+
+    if (!confirm(`${writableExpiredRows.length} vaxtı keçmiş partiya (${writableExpiredValue.toFixed(2)} ₼) stokdan silinəcək. Davam etmək istəyirsiniz?`)) {
+      return;
+    }
+
+    setWritingOff(true);
+
+    const today = new Date().toISOString().split('T')[0];
+    const byWarehouse = new Map<string, ExpiryRow[]>();
+    for (const row of writableExpiredRows) {
+      if (!byWarehouse.has(row.warehouse_id)) {
+        byWarehouse.set(row.warehouse_id, []);
+      }
+      byWarehouse.get(row.warehouse_id)!.push(row);
+    }
+
+    const errors: string[] = [];
+
+    for (const [warehouseId, warehouseRows] of byWarehouse.entries()) {
+      const { error } = await supabase.rpc('post_stock_out', {
+        p_warehouse_id: warehouseId,
+        p_date: today,
+        p_reason: 'expired',
+        p_items: warehouseRows.map((row) => ({
+          batch_id: row.batch_id,
+          quantity: row.quantity,
+        })),
+      });
+
+      if (error) {
+        const warehouseName = warehouseRows[0].warehouse_name;
+        errors.push(`${warehouseName}: ${error.code === 'P0001' ? error.message : 'Silinmə zamanı xəta baş verdi'}`);
+      }
+    }
+
+    if (errors.length > 0) {
+      setModal({ isOpen: true, title: 'Xəta', message: errors.join('\n'), type: 'error' });
+    } else {
+      setModal({ isOpen: true, title: 'Uğurlu', message: 'Vaxtı keçmiş partiyalar stokdan silindi', type: 'success' });
+    }
+
+    setWritingOff(false);
+    await loadExpiringBatches();
+  };
+
+  const exportToExcel = () => {
+    const toSheetRow = (row: ExpiryRow) => ({
+      Anbar: row.warehouse_name,
+      'Məhsul Kodu': row.product_code,
+      'Məhsul Adı': row.product_name,
+      Tip: row.product_type === 'reagent' ? 'Reagent' : 'Sərfiyyat',
+      'Lot Nömrəsi': row.lot_number || '',
+      'Giriş Tarixi': new Date(row.batch_date).toLocaleDateString('az-AZ'),
+      'Son İstifadə Tarixi': new Date(row.expiry_date).toLocaleDateString('az-AZ'),
+      'Qalan Gün': row.days_left,
+      Miqdar: row.quantity,
+      'Vahid Qiymət (₼)': row.unit_price,
+      'Ümumi Dəyər (₼)': row.total_price,
+    });
+
+    const colWidths = [
+      { wch: 20 },
+      { wch: 15 },
+      { wch: 30 },
+      { wch: 12 },
+      { wch: 15 },
+      { wch: 12 },
+      { wch: 18 },
+      { wch: 10 },
+      { wch: 10 },
+      { wch: 15 },
+      { wch: 18 },
+    ];
+
+    const expiredWs = XLSX.utils.json_to_sheet(expiredRows.map(toSheetRow));
+    expiredWs['!cols'] = colWidths;
+    const expiringWs = XLSX.utils.json_to_sheet(expiringRows.map(toSheetRow));
+    expiringWs['!cols'] = colWidths;
+
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, expiredWs, 'Vaxti Kecmis');
+    XLSX.utils.book_append_sheet(wb, expiringWs, `${daysAhead} Gun Erzinde`);
+
+    const fileName = `Son_Istifade_Hesabati_${new Date().toISOString().split('T')[0]}.xlsx`;
+    XLSX.writeFile(wb, fileName, { bookType: 'xlsx', type: 'binary' });
+  };
+
+  const renderTable = (tableRows: ExpiryRow[], emptyText: string) => (
+    <div className="overflow-x-auto">
+      <table className="w-full">
+        <thead className="bg-gray-50 border-b border-gray-200">
+          <tr>
+            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Anbar</th>
+            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Kod</th>
+            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Ad</th>
+            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Lot</th>
+            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Son istifadə</th>
+            <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Qalan gün</th>
+            <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Miqdar</th>
+            <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Vahid qiymət</th>
+            <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Dəyər</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200">
+          {loading ? (
+            <tr>
+              <td colSpan={9} className="px-4 py-8 text-center text-gray-500">
+                Yüklənir...
+              </td>
+            </tr>
+          ) : tableRows.length === 0 ? (
+            <tr>
+              <td colSpan={9} className="px-4 py-8 text-center text-gray-500">
+                {emptyText}
+              </td>
+            </tr>
+          ) : (
+            tableRows.map((row) => (
+              <tr key={`${row.warehouse_id}_${row.batch_id}`} className="hover:bg-gray-50">
+                <td className="px-4 py-3 text-sm text-gray-900">{row.warehouse_name}</td>
+                <td className="px-4 py-3 text-sm font-mono text-gray-900">{row.product_code}</td>
+                <td className="px-4 py-3 text-sm text-gray-900">{row.product_name}</td>
+                <td className="px-4 py-3 text-sm font-mono text-gray-600">{row.lot_number || '-'}</td>
+                <td className="px-4 py-3 text-sm text-gray-600">
+                  {new Date(row.expiry_date).toLocaleDateString('az-AZ')}
+                </td>
+                <td
+                  className={`px-4 py-3 text-sm text-right font-medium ${
+                    row.days_left < 0 ? 'text-red-600' : 'text-orange-600'
+                  }`}
+                >
+                  {row.days_left}
+                </td>
+                <td className="px-4 py-3 text-sm text-right text-gray-900">{row.quantity.toFixed(2)}</td>
+                <td className="px-4 py-3 text-sm text-right text-gray-900">{row.unit_price.toFixed(2)} ₼</td>
+                <td className="px-4 py-3 text-sm text-right font-medium text-gray-900">
+                  {row.total_price.toFixed(2)} ₼
+                </td>
+              </tr>
+            ))
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+
+  return (
+    <div className="h-full p-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-6 flex justify-between items-center">
+          <div>
+            <h2 className="text-2xl font-semibold text-gray-900">Son İstifadə Tarixi</h2>
+            <p className="text-sm text-gray-500 mt-1">Vaxtı keçmiş və yaxında bitəcək partiyalar</p>
+          </div>
+          <button
+            onClick={exportToExcel}
+            disabled={loading || rows.length === 0}
+            className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 transition-colors"
+          >
+            <FileDown className="w-4 h-4" />
+            Excel-ə ixrac
+          </button>
+        </div>
+
+        <div className="space-y-6">
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Anbar
+                </label>
+                <select
+                  value={selectedWarehouse}
+                  onChange={(e) => setSelectedWarehouse(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="all">Bütün Anbarlar</option>
+                  {warehouses.map((w) => (
+                    <option key={w.id} value={w.id}>
+                      [{w.code}] {w.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Neçə gün ərzində bitənlər
+                </label>
+                <input
+                  type="number"
+                  value={daysAhead}
+                  onChange={(e) => setDaysAhead(Math.max(0, Number(e.target.value)))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  min="0"
+                  step="1"
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+            <div className="p-6 border-b border-gray-200 flex justify-between items-center">
+              <div className="flex items-center gap-3">
+                <AlertTriangle className="w-5 h-5 text-red-600" />
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900">Vaxtı keçmiş partiyalar</h3>
+                  <p className="text-sm text-gray-500 mt-1">
+                    {expiredRows.length} partiya, ümumi dəyər:{' '}
+                    <span className="font-medium text-red-600">{expiredValue.toFixed(2)} ₼</span>
+                  </p>
+                </div>
+              </div>
+              {can('post_documents') && (
+                <button
+                  onClick={writeOffExpired}
+                  disabled={loading || writingOff || writableExpiredRows.length === 0}
+                  className="flex items-center gap-2 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50 transition-colors"
+                >
+                  <Trash2 className="w-4 h-4" />
+                  Hamısını stokdan sil
+                </button>
+              )}
+            </div>
+            {renderTable(expiredRows, 'Vaxtı keçmiş partiya yoxdur')}
+          </div>
+
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+            <div className="p-6 border-b border-gray-200 flex items-center gap-3">
+              <CalendarClock className="w-5 h-5 text-orange-600" />
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900">
+                  {daysAhead} gün ərzində bitəcək partiyalar
+                </h3>
+                <p className="text-sm text-gray-500 mt-1">
+                  {expiringRows.length} partiya, ümumi dəyər:{' '}
+                  <span className="font-medium text-orange-600">{expiringValue.toFixed(2)} ₼</span>
+                </p>
+              </div>
+            </div>
+            {renderTable(expiringRows, 'Bu müddətdə bitəcək partiya yoxdur')}
+          </div>
+        </div>
+      </div>
+
+      <Modal
+        isOpen={modal.isOpen}
+        onClose={() => setModal({ ...modal, isOpen: false })}
+        title={modal.title}
+        message={modal.message}
+        type={modal.type}
+      />
+    </div>
+  );
+}
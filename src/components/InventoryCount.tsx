@@ -1,7 +1,11 @@
 import { useState, useEffect } from 'react';
 import { Search, Save } from 'lucide-react';
 import { supabase } from '../lib/supabase';
-import { calculateProductStockInWarehouse } from '../lib/stockCalculations';
+import { useAuth } from '../contexts/AuthContext';
+import { calculateWarehouseStock, stockKey } from '../lib/stockCalculations';
+import type { StockCalculationResult } from '../lib/stockCalculations';
+import { allocateQuantity, ALLOCATION_STRATEGY_LABELS } from '../lib/batchAllocation';
+import type { AllocationStrategy, BatchAllocation } from '../lib/batchAllocation';
 import CountList from './CountList';
 import Modal from './Modal';
 import type { Warehouse, ProductType } from '../types/database';
@@ -15,15 +19,40 @@ interface CountRow {
   real_qty: number;
   loss_qty: number;
   loss_amount: number;
+  surplus_qty: number;
+  surplus_amount: number;
+  surplus_unit_price: number;
   unit_price: number;
+  batches: StockCalculationResult['batches'];
+  loss_allocations: BatchAllocation[];
+}
+
+function applyRealQty(row: CountRow, realQty: number, strategy: AllocationStrategy): CountRow {
+  const lossQty = Math.max(row.system_qty - realQty, 0);
+  const surplusQty = Math.max(realQty - row.system_qty, 0);
+  const { allocations } = lossQty > 0
+    ? allocateQuantity(row.batches, lossQty, strategy)
+    : { allocations: [] };
+
+  return {
+    ...row,
+    real_qty: realQty,
+    loss_qty: lossQty,
+    loss_amount: allocations.reduce((sum, a) => sum + a.total_price, 0),
+    loss_allocations: allocations,
+    surplus_qty: surplusQty,
+    surplus_amount: surplusQty * row.surplus_unit_price,
+  };
 }
 
 export default function InventoryCount() {
+  const { canWriteWarehouse } = useAuth();
   const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
   const [selectedWarehouse, setSelectedWarehouse] = useState('');
   const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
   const [countCode, setCountCode] = useState('');
   const [countRows, setCountRows] = useState<CountRow[]>([]);
+  const [allocationStrategy, setAllocationStrategy] = useState<AllocationStrategy>('fifo');
   const [loading, setLoading] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   const [refreshListKey, setRefreshListKey] = useState(0);
@@ -43,10 +72,21 @@ export default function InventoryCount() {
 
     setLoading(true);
 
-    const [reagentsRes, consumablesRes] = await Promise.all([
-      supabase.from('reagents').select('id, code, name').order('code'),
-      supabase.from('consumables').select('id, code, name').order('code')
-    ]);
+    let loaded;
+    try {
+      loaded = await Promise.all([
+        supabase.from('reagents').select('id, code, name').order('code'),
+        supabase.from('consumables').select('id, code, name').order('code'),
+        calculateWarehouseStock(selectedWarehouse)
+      ]);
+    } catch {
+      setCountRows([]);
+      setModal({ isOpen: true, title: 'Xəta', message: 'Stok yüklənərkən xəta baş verdi', type: 'error' });
+      setLoading(false);
+      return;
+    }
+
+    const [reagentsRes, consumablesRes, stockByProduct] = loaded;
 
     const { data: reagents } = reagentsRes;
     const { data: consumables } = consumablesRes;
@@ -58,28 +98,29 @@ export default function InventoryCount() {
 
     const rows: CountRow[] = [];
 
+    // Every product is listed, so stock found for a product the system shows as
+    // out of stock can be counted and posted as a surplus
     for (const product of allProducts) {
-      const stock = await calculateProductStockInWarehouse(
-        selectedWarehouse,
-        product.id,
-        product.type
-      );
-
-      if (stock.totalQuantity > 0) {
-        const avgPrice = stock.totalValue / stock.totalQuantity;
-
-        rows.push({
-          product_id: product.id,
-          product_code: product.code,
-          product_name: product.name,
-          product_type: product.type,
-          system_qty: stock.totalQuantity,
-          real_qty: stock.totalQuantity,
-          loss_qty: 0,
-          loss_amount: 0,
-          unit_price: avgPrice,
-        });
-      }
+      const stock = stockByProduct.get(stockKey(product.type, product.id));
+      const systemQty = stock && stock.totalQuantity > 0 ? stock.totalQuantity : 0;
+      const avgPrice = stock && systemQty > 0 ? stock.totalValue / systemQty : 0;
+
+      rows.push({
+        product_id: product.id,
+        product_code: product.code,
+        product_name: product.name,
+        product_type: product.type,
+        system_qty: systemQty,
+        real_qty: systemQty,
+        loss_qty: 0,
+        loss_amount: 0,
+        surplus_qty: 0,
+        surplus_amount: 0,
+        surplus_unit_price: avgPrice,
+        unit_price: avgPrice,
+        batches: stock?.batches || [],
+        loss_allocations: [],
+      });
     }
 
     setCountRows(rows.sort((a, b) => a.product_code.localeCompare(b.product_code)));
@@ -88,22 +129,27 @@ export default function InventoryCount() {
 
   const updateRealQty = (productId: string, realQty: number) => {
     setCountRows(
-      countRows.map((row) => {
-        if (row.product_id !== productId) return row;
-
-        const lossQty = row.system_qty - realQty;
-        const lossAmount = lossQty * row.unit_price;
-
-        return {
-          ...row,
-          real_qty: realQty,
-          loss_qty: lossQty,
-          loss_amount: lossAmount,
-        };
-      })
+      countRows.map((row) =>
+        row.product_id === productId ? applyRealQty(row, realQty, allocationStrategy) : row
+      )
     );
   };
 
+  const updateSurplusPrice = (productId: string, price: number) => {
+    setCountRows(
+      countRows.map((row) =>
+        row.product_id === productId
+          ? { ...row, surplus_unit_price: price, surplus_amount: row.surplus_qty * price }
+          : row
+      )
+    );
+  };
+
+  const updateAllocationStrategy = (strategy: AllocationStrategy) => {
+    setAllocationStrategy(strategy);
+    setCountRows(countRows.map((row) => applyRealQty(row, row.real_qty, strategy)));
+  };
+
   const generateCountCode = async () => {
     const year = new Date().getFullYear();
     const { data: counts } = await supabase
@@ -137,80 +183,47 @@ export default function InventoryCount() {
       return;
     }
 
-    setLoading(true);
-
-    const totalLossAmount = countRows.reduce((sum, row) => sum + row.loss_amount, 0);
+    // Products with no stock that were not found either carry nothing to record
+    const countedRows = countRows.filter((row) => row.system_qty > 0 || row.real_qty > 0);
 
-    const { data: count, error: countError } = await supabase
-      .from('inventory_count')
-      .insert([
-        {
-          warehouse_id: selectedWarehouse,
-          date: date,
-          count_code: countCode,
-          total_loss_amount: totalLossAmount,
-        },
-      ])
-      .select()
-      .single();
-
-    if (countError || !count) {
-      setModal({ isOpen: true, title: 'Xəta', message: 'Sayım yaradılarkən xəta baş verdi', type: 'error' });
-      setLoading(false);
+    if (countedRows.length === 0) {
+      setModal({ isOpen: true, title: 'Xəbərdarlıq', message: 'Sayımda stoku olan və ya tapılan məhsul yoxdur', type: 'error' });
       return;
     }
 
-    const items = countRows.map((row) => ({
-      count_id: count.id,
-      product_type: row.product_type,
-      product_id: row.product_id,
-      system_qty: row.system_qty,
-      real_qty: row.real_qty,
-      loss_qty: row.loss_qty,
-      loss_amount: row.loss_amount,
-    }));
-
-    const { error: itemsError } = await supabase.from('inventory_count_items').insert(items);
-
-    if (itemsError) {
-      setModal({ isOpen: true, title: 'Xəta', message: 'Sayım məlumatları əlavə edilərkən xəta baş verdi', type: 'error' });
-      await supabase.from('inventory_count').delete().eq('id', count.id);
+    setLoading(true);
+
+    const { error } = await supabase.rpc('post_inventory_count', {
+      p_warehouse_id: selectedWarehouse,
+      p_date: date,
+      p_count_code: countCode,
+      p_allocation_strategy: allocationStrategy,
+      p_items: countedRows.map((row) => ({
+        product_type: row.product_type,
+        product_id: row.product_id,
+        system_qty: row.system_qty,
+        real_qty: row.real_qty,
+        loss_qty: row.loss_qty,
+        surplus_qty: row.surplus_qty,
+        surplus_unit_price: row.surplus_unit_price,
+        losses: row.loss_allocations.map((a) => ({
+          batch_id: a.batch_id,
+          quantity: a.quantity,
+        })),
+      })),
+    });
+
+    if (error) {
+      setModal({
+        isOpen: true,
+        title: 'Xəta',
+        message: error.code === 'P0001' ? error.message : 'Sayım yaradılarkən xəta baş verdi',
+        type: 'error',
+      });
       setLoading(false);
       return;
     }
 
-    const lossItems = countRows.filter((row) => row.loss_qty > 0);
-    if (lossItems.length > 0) {
-      const lossAmount = lossItems.reduce((sum, row) => sum + row.loss_amount, 0);
-
-      const { data: stockOut } = await supabase
-        .from('stock_out')
-        .insert([
-          {
-            warehouse_id: selectedWarehouse,
-            date: date,
-            reason: 'inventory_loss',
-            total_amount: lossAmount,
-          },
-        ])
-        .select()
-        .single();
-
-      if (stockOut) {
-        await supabase.from('stock_out_items').insert(
-          lossItems.map((row) => ({
-            stockout_id: stockOut.id,
-            product_type: row.product_type,
-            product_id: row.product_id,
-            batch_date: date,
-            quantity: row.loss_qty,
-            unit_price: row.unit_price,
-            total_price: row.loss_amount,
-          }))
-        );
-      }
-    }
-
     setModal({ isOpen: true, title: 'Uğurlu', message: 'Sayım uğurla yadda saxlanıldı', type: 'success' });
     setCountRows([]);
     setCountCode('');
@@ -225,6 +238,7 @@ export default function InventoryCount() {
   );
 
   const totalLoss = filteredRows.reduce((sum, row) => sum + row.loss_amount, 0);
+  const totalSurplus = filteredRows.reduce((sum, row) => sum + row.surplus_amount, 0);
 
   return (
     <div className="h-full p-8">
@@ -240,7 +254,7 @@ export default function InventoryCount() {
           <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
             <h3 className="text-lg font-semibold text-gray-900 mb-4">Sayım məlumatları</h3>
 
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Anbar seçin
@@ -252,7 +266,7 @@ export default function InventoryCount() {
                   required
                 >
                   <option value="">Seçin</option>
-                  {warehouses.map((w) => (
+                  {warehouses.filter((w) => canWriteWarehouse(w.id)).map((w) => (
                     <option key={w.id} value={w.id}>
                       [{w.code}] {w.name}
                     </option>
@@ -273,6 +287,23 @@ export default function InventoryCount() {
                 />
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Xərcin partiyalara bölünməsi
+                </label>
+                <select
+                  value={allocationStrategy}
+                  onChange={(e) => updateAllocationStrategy(e.target.value as AllocationStrategy)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {(Object.keys(ALLOCATION_STRATEGY_LABELS) as AllocationStrategy[]).map((strategy) => (
+                    <option key={strategy} value={strategy}>
+                      {ALLOCATION_STRATEGY_LABELS[strategy]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
               <div className="flex items-end">
                 <button
                   type="button"
@@ -345,6 +376,15 @@ export default function InventoryCount() {
                         <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">
                           Xərc məbləği
                         </th>
+                        <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                          Artıq
+                        </th>
+                        <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                          Artıq qiyməti
+                        </th>
+                        <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                          Artıq məbləği
+                        </th>
                       </tr>
                     </thead>
                     <tbody className="divide-y divide-gray-200">
@@ -379,7 +419,6 @@ export default function InventoryCount() {
                               }
                               className="w-28 px-2 py-1 border border-gray-300 rounded text-sm text-right"
                               min="0"
-                              max={row.system_qty}
                               step="0.01"
                             />
                           </td>
@@ -389,6 +428,11 @@ export default function InventoryCount() {
                             }`}
                           >
                             {row.loss_qty.toFixed(2)}
+                            {row.loss_allocations.map((a) => (
+                              <div key={a.batch_id} className="text-xs font-normal text-gray-500">
+                                {new Date(a.batch_date).toLocaleDateString('az-AZ')}: {a.quantity.toFixed(2)} × {a.unit_price.toFixed(2)} ₼
+                              </div>
+                            ))}
                           </td>
                           <td
                             className={`px-6 py-4 text-sm text-right font-medium ${
@@ -397,6 +441,33 @@ export default function InventoryCount() {
                           >
                             {row.loss_amount.toFixed(2)} ₼
                           </td>
+                          <td
+                            className={`px-6 py-4 text-sm text-right font-medium ${
+                              row.surplus_qty > 0 ? 'text-green-600' : 'text-gray-900'
+                            }`}
+                          >
+                            {row.surplus_qty.toFixed(2)}
+                          </td>
+                          <td className="px-6 py-4">
+                            <input
+                              type="number"
+                              value={row.surplus_unit_price}
+                              onChange={(e) =>
+                                updateSurplusPrice(row.product_id, Number(e.target.value))
+                              }
+                              disabled={row.surplus_qty <= 0}
+                              className="w-28 px-2 py-1 border border-gray-300 rounded text-sm text-right disabled:bg-gray-100 disabled:text-gray-400"
+                              min="0"
+                              step="0.01"
+                            />
+                          </td>
+                          <td
+                            className={`px-6 py-4 text-sm text-right font-medium ${
+                              row.surplus_amount > 0 ? 'text-green-600' : 'text-gray-900'
+                            }`}
+                          >
+                            {row.surplus_amount.toFixed(2)} ₼
+                          </td>
                         </tr>
                       ))}
                     </tbody>
@@ -415,6 +486,12 @@ export default function InventoryCount() {
                           {totalLoss.toFixed(2)} ₼
                         </span>
                       </div>
+                      <div className="text-lg font-semibold text-gray-900 mt-1">
+                        Ümumi artıq məbləği:{' '}
+                        <span className={totalSurplus > 0 ? 'text-green-600' : ''}>
+                          {totalSurplus.toFixed(2)} ₼
+                        </span>
+                      </div>
                     </div>
                     <button
                       type="submit"
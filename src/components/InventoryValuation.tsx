@@ -0,0 +1,373 @@
+import { useState, useEffect } from 'react';
+import { Calculator, Download } from 'lucide-react';
+import * as XLSX from 'xlsx';
+import { supabase } from '../lib/supabase';
+import { IN_TRANSIT_LOCATION, stockKey } from '../lib/stockCalculations';
+import { calculateInventoryValuation, VALUATION_METHOD_LABELS } from '../lib/valuation';
+import Modal from './Modal';
+import type { ValuationMethod, ValuationRow } from '../lib/valuation';
+import type { Warehouse, Reagent, Consumable, ProductType } from '../types/database';
+
+type GroupBy = 'category' | 'product';
+
+interface ReportRow {
+  key: string;
+  warehouse_name: string;
+  label: string;
+  code: string;
+  opening_qty: number;
+  opening_value: number;
+  receipts_qty: number;
+  receipts_value: number;
+  issues_qty: number;
+  issues_value: number;
+  consumption_value: number;
+  closing_qty: number;
+  closing_value: number;
+}
+
+const CATEGORY_LABELS: Record<ProductType, string> = {
+  reagent: 'Reagent',
+  consumable: 'Sərfiyyat',
+};
+
+const VALUE_FIELDS = [
+  'opening_qty',
+  'opening_value',
+  'receipts_qty',
+  'receipts_value',
+  'issues_qty',
+  'issues_value',
+  'consumption_value',
+  'closing_qty',
+  'closing_value',
+] as const;
+
+function formatDate(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+export default function InventoryValuation() {
+  const today = new Date();
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [reagents, setReagents] = useState<Reagent[]>([]);
+  const [consumables, setConsumables] = useState<Consumable[]>([]);
+  const [startDate, setStartDate] = useState(formatDate(new Date(today.getFullYear(), today.getMonth(), 1)));
+  const [endDate, setEndDate] = useState(formatDate(today));
+  const [method, setMethod] = useState<ValuationMethod>('fifo');
+  const [warehouseId, setWarehouseId] = useState('');
+  const [groupBy, setGroupBy] = useState<GroupBy>('category');
+  const [valuation, setValuation] = useState<ValuationRow[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [modal, setModal] = useState<{ isOpen: boolean; title: string; message: string; type: 'success' | 'error' | 'info' }>({ isOpen: false, title: '', message: '', type: 'info' });
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  // Results belong to the period and method they were calculated for
+  useEffect(() => {
+    setValuation(null);
+  }, [startDate, endDate, method]);
+
+  const loadData = async () => {
+    const [warehousesRes, reagentsRes, consumablesRes] = await Promise.all([
+      supabase.from('warehouses').select('*').order('name'),
+      supabase.from('reagents').select('*').order('code'),
+      supabase.from('consumables').select('*').order('code'),
+    ]);
+
+    if (warehousesRes.data) setWarehouses(warehousesRes.data);
+    if (reagentsRes.data) setReagents(reagentsRes.data);
+    if (consumablesRes.data) setConsumables(consumablesRes.data);
+  };
+
+  const calculate = async () => {
+    if (!startDate || !endDate || startDate > endDate) return;
+
+    setLoading(true);
+    try {
+      setValuation(await calculateInventoryValuation(startDate, endDate, method));
+    } catch {
+      setModal({ isOpen: true, title: 'Xəta', message: 'Maya dəyəri hesablanarkən xəta baş verdi', type: 'error' });
+    }
+    setLoading(false);
+  };
+
+  const productMap = new Map<string, Reagent | Consumable>([
+    ...reagents.map((r) => [stockKey('reagent', r.id), r] as const),
+    ...consumables.map((c) => [stockKey('consumable', c.id), c] as const),
+  ]);
+
+  const reportRows: ReportRow[] = (() => {
+    if (!valuation) return [];
+
+    const grouped = new Map<string, ReportRow>();
+
+    for (const row of valuation) {
+      if (warehouseId && row.warehouse_id !== warehouseId) continue;
+
+      const product = productMap.get(stockKey(row.product_type, row.product_id));
+      const groupKey = groupBy === 'category'
+        ? `${row.warehouse_id}_${row.product_type}`
+        : `${row.warehouse_id}_${stockKey(row.product_type, row.product_id)}`;
+
+      if (!grouped.has(groupKey)) {
+        grouped.set(groupKey, {
+          key: groupKey,
+          warehouse_name: row.warehouse_id === IN_TRANSIT_LOCATION
+            ? 'Yolda (tranzit)'
+            : warehouses.find((w) => w.id === row.warehouse_id)?.name || 'N/A',
+          label: groupBy === 'category' ? CATEGORY_LABELS[row.product_type] : product?.name || 'N/A',
+          code: groupBy === 'category' ? '' : product?.code || '',
+          opening_qty: 0,
+          opening_value: 0,
+          receipts_qty: 0,
+          receipts_value: 0,
+          issues_qty: 0,
+          issues_value: 0,
+          consumption_value: 0,
+          closing_qty: 0,
+          closing_value: 0,
+        });
+      }
+
+      const target = grouped.get(groupKey)!;
+      for (const field of VALUE_FIELDS) {
+        target[field] += row[field];
+      }
+    }
+
+    return Array.from(grouped.values()).sort((a, b) =>
+      a.warehouse_name.localeCompare(b.warehouse_name) || a.code.localeCompare(b.code) || a.label.localeCompare(b.label)
+    );
+  })();
+
+  const totals = reportRows.reduce(
+    (sum, row) => ({
+      opening_value: sum.opening_value + row.opening_value,
+      receipts_value: sum.receipts_value + row.receipts_value,
+      issues_value: sum.issues_value + row.issues_value,
+      consumption_value: sum.consumption_value + row.consumption_value,
+      closing_value: sum.closing_value + row.closing_value,
+    }),
+    { opening_value: 0, receipts_value: 0, issues_value: 0, consumption_value: 0, closing_value: 0 }
+  );
+
+  // Quantities of different products cannot be added up, so categories show values only
+  const showQuantities = groupBy === 'product';
+
+  const exportToExcel = () => {
+    if (reportRows.length === 0) return;
+
+    const exportData = reportRows.map((row) => ({
+      'Anbar': row.warehouse_name,
+      ...(showQuantities
+        ? { 'Məhsul Kodu': row.code, 'Məhsul Adı': row.label }
+        : { 'Kateqoriya': row.label }),
+      ...(showQuantities ? { 'Açılış Miqdarı': row.opening_qty } : {}),
+      'Açılış Dəyəri (₼)': Number(row.opening_value.toFixed(2)),
+      ...(showQuantities ? { 'Daxilolma Miqdarı': row.receipts_qty } : {}),
+      'Daxilolma Dəyəri (₼)': Number(row.receipts_value.toFixed(2)),
+      ...(showQuantities ? { 'Məxaric Miqdarı': row.issues_qty } : {}),
+      'Məxaric Dəyəri (₼)': Number(row.issues_value.toFixed(2)),
+      'Sərfiyyatın Maya Dəyəri (₼)': Number(row.consumption_value.toFixed(2)),
+      ...(showQuantities ? { 'Bağlanış Miqdarı': row.closing_qty } : {}),
+      'Bağlanış Dəyəri (₼)': Number(row.closing_value.toFixed(2)),
+    }));
+
+    const ws = XLSX.utils.json_to_sheet(exportData);
+    ws['!cols'] = Object.keys(exportData[0]).map((header) => ({ wch: Math.max(header.length + 2, 12) }));
+
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, ws, 'Qiymetlendirme');
+
+    const methodName = method === 'fifo' ? 'FIFO' : 'Orta';
+    const fileName = `Maya_Deyeri_${methodName}_${startDate}_${endDate}.xlsx`;
+    XLSX.writeFile(wb, fileName, { bookType: 'xlsx', type: 'binary' });
+  };
+
+  const inputClassName = 'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+  const columnCount = showQuantities ? 11 : 7;
+
+  return (
+    <div className="h-full p-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-6">
+          <h2 className="text-2xl font-semibold text-gray-900">Maya Dəyəri Hesabatı</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Dövr üzrə açılış, daxilolma, məxaric və bağlanış qalığının seçilmiş üsulla qiymətləndirilməsi
+          </p>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+          <div className="p-6 border-b border-gray-200">
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Başlanğıc tarix
+                </label>
+                <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className={inputClassName} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Son tarix
+                </label>
+                <input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} className={inputClassName} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Üsul
+                </label>
+                <select value={method} onChange={(e) => setMethod(e.target.value as ValuationMethod)} className={inputClassName}>
+                  {(Object.keys(VALUATION_METHOD_LABELS) as ValuationMethod[]).map((value) => (
+                    <option key={value} value={value}>{VALUATION_METHOD_LABELS[value]}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Anbar
+                </label>
+                <select value={warehouseId} onChange={(e) => setWarehouseId(e.target.value)} className={inputClassName}>
+                  <option value="">Bütün anbarlar</option>
+                  {warehouses.map((warehouse) => (
+                    <option key={warehouse.id} value={warehouse.id}>{warehouse.name}</option>
+                  ))}
+                  <option value={IN_TRANSIT_LOCATION}>Yolda (tranzit)</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Qruplaşdırma
+                </label>
+                <select value={groupBy} onChange={(e) => setGroupBy(e.target.value as GroupBy)} className={inputClassName}>
+                  <option value="category">Kateqoriya üzrə</option>
+                  <option value="product">Məhsul üzrə</option>
+                </select>
+              </div>
+            </div>
+
+            <div className="mt-4 flex justify-end gap-3">
+              {reportRows.length > 0 && (
+                <button
+                  onClick={exportToExcel}
+                  className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+                >
+                  <Download className="w-4 h-4" />
+                  Excel
+                </button>
+              )}
+              <button
+                onClick={calculate}
+                disabled={loading || !startDate || !endDate || startDate > endDate}
+                className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+              >
+                <Calculator className="w-4 h-4" />
+                Hesabla
+              </button>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th rowSpan={2} className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Anbar</th>
+                  <th rowSpan={2} className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                    {showQuantities ? 'Məhsul' : 'Kateqoriya'}
+                  </th>
+                  <th colSpan={showQuantities ? 2 : 1} className="px-4 py-2 text-center text-xs font-medium text-gray-500 uppercase">Açılış</th>
+                  <th colSpan={showQuantities ? 2 : 1} className="px-4 py-2 text-center text-xs font-medium text-gray-500 uppercase">Daxilolma</th>
+                  <th colSpan={showQuantities ? 3 : 2} className="px-4 py-2 text-center text-xs font-medium text-gray-500 uppercase">Məxaric</th>
+                  <th colSpan={showQuantities ? 2 : 1} className="px-4 py-2 text-center text-xs font-medium text-gray-500 uppercase">Bağlanış</th>
+                </tr>
+                <tr>
+                  {showQuantities && <th className="px-4 py-2 text-right text-xs font-medium text-gray-500">Miqdar</th>}
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500">Dəyər</th>
+                  {showQuantities && <th className="px-4 py-2 text-right text-xs font-medium text-gray-500">Miqdar</th>}
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500">Dəyər</th>
+                  {showQuantities && <th className="px-4 py-2 text-right text-xs font-medium text-gray-500">Miqdar</th>}
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500">Dəyər</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500">o cümlədən sərfiyyat</th>
+                  {showQuantities && <th className="px-4 py-2 text-right text-xs font-medium text-gray-500">Miqdar</th>}
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500">Dəyər</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {loading ? (
+                  <tr>
+                    <td colSpan={columnCount} className="px-4 py-8 text-center text-gray-500">
+                      Hesablanır...
+                    </td>
+                  </tr>
+                ) : !valuation ? (
+                  <tr>
+                    <td colSpan={columnCount} className="px-4 py-8 text-center text-gray-500">
+                      Dövrü və üsulu seçib "Hesabla" düyməsini basın
+                    </td>
+                  </tr>
+                ) : reportRows.length === 0 ? (
+                  <tr>
+                    <td colSpan={columnCount} className="px-4 py-8 text-center text-gray-500">
+                      Bu dövr üçün hərəkət və qalıq tapılmadı
+                    </td>
+                  </tr>
+                ) : (
+                  reportRows.map((row) => (
+                    <tr key={row.key} className="hover:bg-gray-50">
+                      <td className="px-4 py-3 text-sm text-gray-900">{row.warehouse_name}</td>
+                      <td className="px-4 py-3 text-sm text-gray-900">
+                        <div>{row.label}</div>
+                        {row.code && <div className="text-xs font-mono text-gray-500">{row.code}</div>}
+                      </td>
+                      {showQuantities && <td className="px-4 py-3 text-sm text-right text-gray-600">{row.opening_qty.toFixed(2)}</td>}
+                      <td className="px-4 py-3 text-sm text-right text-gray-900">{row.opening_value.toFixed(2)} ₼</td>
+                      {showQuantities && <td className="px-4 py-3 text-sm text-right text-gray-600">{row.receipts_qty.toFixed(2)}</td>}
+                      <td className="px-4 py-3 text-sm text-right text-green-700">{row.receipts_value.toFixed(2)} ₼</td>
+                      {showQuantities && <td className="px-4 py-3 text-sm text-right text-gray-600">{row.issues_qty.toFixed(2)}</td>}
+                      <td className="px-4 py-3 text-sm text-right text-red-700">{row.issues_value.toFixed(2)} ₼</td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-600">{row.consumption_value.toFixed(2)} ₼</td>
+                      {showQuantities && <td className="px-4 py-3 text-sm text-right text-gray-600">{row.closing_qty.toFixed(2)}</td>}
+                      <td className="px-4 py-3 text-sm text-right font-medium text-gray-900">{row.closing_value.toFixed(2)} ₼</td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+              {!loading && reportRows.length > 0 && (
+                <tfoot className="bg-gray-50 border-t border-gray-200">
+                  <tr>
+                    <td colSpan={2} className="px-4 py-3 text-sm font-semibold text-gray-900">Cəmi</td>
+                    {showQuantities && <td />}
+                    <td className="px-4 py-3 text-sm text-right font-semibold text-gray-900">{totals.opening_value.toFixed(2)} ₼</td>
+                    {showQuantities && <td />}
+                    <td className="px-4 py-3 text-sm text-right font-semibold text-green-700">{totals.receipts_value.toFixed(2)} ₼</td>
+                    {showQuantities && <td />}
+                    <td className="px-4 py-3 text-sm text-right font-semibold text-red-700">{totals.issues_value.toFixed(2)} ₼</td>
+                    <td className="px-4 py-3 text-sm text-right font-semibold text-gray-900">{totals.consumption_value.toFixed(2)} ₼</td>
+                    {showQuantities && <td />}
+                    <td className="px-4 py-3 text-sm text-right font-semibold text-gray-900">{totals.closing_value.toFixed(2)} ₼</td>
+                  </tr>
+                </tfoot>
+              )}
+            </table>
+          </div>
+        </div>
+
+        {valuation && !warehouseId && (
+          <p className="text-xs text-gray-500 mt-3">
+            Bütün anbarlar üzrə cəmdə anbarlar arası transferlər həm daxilolmada, həm də məxaricdə göstərilir.
+          </p>
+        )}
+      </div>
+
+      <Modal
+        isOpen={modal.isOpen}
+        onClose={() => setModal({ ...modal, isOpen: false })}
+        title={modal.title}
+        message={modal.message}
+        type={modal.type}
+      />
+    </div>
+  );
+}
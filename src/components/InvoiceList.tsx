@@ -1,9 +1,11 @@
 import { useState, useEffect } from 'react';
-import { Eye, RotateCcw, Search, Download } from 'lucide-react';
+import { Eye, RotateCcw, Search, Download, Pencil, Ban } from 'lucide-react';
 import { supabase } from '../lib/supabase';
-import { calculateProductStockInWarehouse } from '../lib/stockCalculations';
+import { useAuth } from '../contexts/AuthContext';
 import Modal from './Modal';
 import * as XLSX from 'xlsx';
+import { stockKey } from '../lib/stockCalculations';
+import type { InvoiceStatus, InvoiceRevision } from '../types/database';
 
 interface Invoice {
   id: string;
@@ -12,35 +14,110 @@ interface Invoice {
   date: string;
   warehouse_id: string;
   warehouse_name: string;
-  status: string;
+  status: InvoiceStatus;
+  entry_type: string;
   total_amount: number;
   created_at: string;
 }
 
 interface InvoiceItem {
+  id: string;
   product_type: 'reagent' | 'consumable';
   product_id: string;
   product_name: string;
   product_code?: string;
+  lot_number: string | null;
+  expiry_date: string | null;
   quantity: number;
   unit_price: number;
   total_price: number;
+  returned_qty: number;
 }
 
 interface Props {
   warehouseId?: string;
   onInvoiceChange?: () => void;
+  onEditInvoice?: (invoiceId: string) => void;
 }
 
-export default function InvoiceList({ warehouseId, onInvoiceChange }: Props) {
+const STATUS_LABELS: Record<InvoiceStatus, string> = {
+  active: 'Aktiv',
+  partially_returned: 'Qismən qaytarılıb',
+  returned: 'Geri qaytarılıb',
+  cancelled: 'Ləğv edilib',
+};
+
+const STATUS_CLASSES: Record<InvoiceStatus, string> = {
+  active: 'bg-green-100 text-green-700',
+  partially_returned: 'bg-orange-100 text-orange-700',
+  returned: 'bg-red-100 text-red-700',
+  cancelled: 'bg-gray-200 text-gray-700',
+};
+
+const describeRevision = (revision: InvoiceRevision, productNames: Map<string, string>): string[] => {
+  if (revision.action === 'cancel') return ['Qaimə ləğv edildi'];
+
+  const { before, after } = revision;
+  const changes: string[] = [];
+  const productName = (item: InvoiceRevision['before']['items'][number]) =>
+    productNames.get(stockKey(item.product_type, item.product_id)) || 'N/A';
+
+  if (before.invoice_code !== after.invoice_code) changes.push(`Qaimə kodu: ${before.invoice_code} → ${after.invoice_code}`);
+  if (before.supplier !== after.supplier) changes.push(`Təchizatçı: ${before.supplier} → ${after.supplier}`);
+  if (before.date !== after.date) changes.push(`Tarix: ${before.date} → ${after.date}`);
+
+  const afterItems = new Map(after.items.map(item => [item.id, item]));
+  const beforeIds = new Set(before.items.map(item => item.id));
+
+  for (const old of before.items) {
+    const updated = afterItems.get(old.id);
+    if (!updated) {
+      changes.push(`Silindi: ${productName(old)} (${Number(old.quantity)} × ${Number(old.unit_price).toFixed(2)} ₼)`);
+      continue;
+    }
+
+    if (old.product_type !== updated.product_type || old.product_id !== updated.product_id) {
+      changes.push(`Məhsul: ${productName(old)} → ${productName(updated)}`);
+    }
+    if (Number(old.quantity) !== Number(updated.quantity)) {
+      changes.push(`${productName(updated)}: miqdar ${Number(old.quantity)} → ${Number(updated.quantity)}`);
+    }
+    if (Number(old.unit_price) !== Number(updated.unit_price)) {
+      changes.push(`${productName(updated)}: qiymət ${Number(old.unit_price).toFixed(2)} → ${Number(updated.unit_price).toFixed(2)} ₼`);
+    }
+    if ((old.lot_number || '') !== (updated.lot_number || '')) {
+      changes.push(`${productName(updated)}: lot ${old.lot_number || '-'} → ${updated.lot_number || '-'}`);
+    }
+    if ((old.expiry_date || '') !== (updated.expiry_date || '')) {
+      changes.push(`${productName(updated)}: son istifadə ${old.expiry_date || '-'} → ${updated.expiry_date || '-'}`);
+    }
+  }
+
+  for (const item of after.items) {
+    if (!beforeIds.has(item.id)) {
+      changes.push(`Əlavə edildi: ${productName(item)} (${Number(item.quantity)} × ${Number(item.unit_price).toFixed(2)} ₼)`);
+    }
+  }
+
+  return changes;
+};
+
+export default function InvoiceList({ warehouseId, onInvoiceChange, onEditInvoice }: Props) {
+  const { canWriteWarehouse } = useAuth();
   const [invoices, setInvoices] = useState<Invoice[]>([]);
   const [selectedInvoice, setSelectedInvoice] = useState<Invoice | null>(null);
   const [invoiceItems, setInvoiceItems] = useState<InvoiceItem[]>([]);
+  const [revisions, setRevisions] = useState<InvoiceRevision[]>([]);
+  const [productNames, setProductNames] = useState<Map<string, string>>(new Map());
   const [searchTerm, setSearchTerm] = useState('');
   const [startDate, setStartDate] = useState('');
   const [endDate, setEndDate] = useState('');
   const [loading, setLoading] = useState(false);
   const [showModal, setShowModal] = useState(false);
+  const [returnTarget, setReturnTarget] = useState<Invoice | null>(null);
+  const [returnQuantities, setReturnQuantities] = useState<Record<string, number>>({});
+  const [returnDate, setReturnDate] = useState(new Date().toISOString().split('T')[0]);
+  const [returnNote, setReturnNote] = useState('');
   const [alertModal, setAlertModal] = useState<{ isOpen: boolean; title: string; message: string; type: 'success' | 'error' | 'info' }>({ isOpen: false, title: '', message: '', type: 'info' });
 
   useEffect(() => {
@@ -52,7 +129,7 @@ export default function InvoiceList({ warehouseId, onInvoiceChange }: Props) {
 
     let query = supabase
       .from('invoices')
-      .select('id, invoice_code, supplier, date, warehouse_id, status, created_at')
+      .select('id, invoice_code, supplier, date, warehouse_id, status, entry_type, created_at')
       .order('date', { ascending: false });
 
     if (warehouseId) {
@@ -95,18 +172,30 @@ export default function InvoiceList({ warehouseId, onInvoiceChange }: Props) {
     setLoading(false);
   };
 
-  const viewInvoice = async (invoice: Invoice) => {
-    setSelectedInvoice(invoice);
-
-    const [itemsRes, reagentsRes, consumablesRes] = await Promise.all([
-      supabase.from('invoice_items').select('product_type, product_id, quantity, unit_price, total_price').eq('invoice_id', invoice.id),
+  const loadInvoiceItems = async (invoice: Invoice): Promise<InvoiceItem[] | null> => {
+    const [itemsRes, returnsRes, reagentsRes, consumablesRes] = await Promise.all([
+      supabase.from('invoice_items').select('id, product_type, product_id, lot_number, expiry_date, quantity, unit_price, total_price').eq('invoice_id', invoice.id),
+      supabase.from('invoice_returns').select('stock_out_id').eq('invoice_id', invoice.id),
       supabase.from('reagents').select('id, name'),
       supabase.from('consumables').select('id, name')
     ]);
 
     const items = itemsRes.data;
 
-    if (!items) return;
+    if (!items) return null;
+
+    const returnedByItem = new Map<string, number>();
+    const stockOutIds = (returnsRes.data || []).map(r => r.stock_out_id);
+    if (stockOutIds.length > 0) {
+      const { data: returnedItems } = await supabase
+        .from('stock_out_items')
+        .select('batch_id, quantity')
+        .in('stockout_id', stockOutIds);
+
+      (returnedItems || []).forEach(item => {
+        returnedByItem.set(item.batch_id, (returnedByItem.get(item.batch_id) || 0) + Number(item.quantity));
+      });
+    }
 
     const { data: reagents } = reagentsRes;
     const { data: consumables } = consumablesRes;
@@ -114,111 +203,142 @@ export default function InvoiceList({ warehouseId, onInvoiceChange }: Props) {
     const reagentMap = new Map(reagents?.map(r => [r.id, r.name]) || []);
     const consumableMap = new Map(consumables?.map(c => [c.id, c.name]) || []);
 
-    const enrichedItems: InvoiceItem[] = items.map(item => ({
+    setProductNames(new Map([
+      ...(reagents || []).map(r => [stockKey('reagent', r.id), r.name] as const),
+      ...(consumables || []).map(c => [stockKey('consumable', c.id), c.name] as const),
+    ]));
+
+    return items.map(item => ({
+      id: item.id,
       product_type: item.product_type,
       product_id: item.product_id,
       product_name: item.product_type === 'reagent'
         ? reagentMap.get(item.product_id) || 'N/A'
         : consumableMap.get(item.product_id) || 'N/A',
+      lot_number: item.lot_number,
+      expiry_date: item.expiry_date,
       quantity: Number(item.quantity),
       unit_price: Number(item.unit_price),
       total_price: Number(item.total_price),
+      returned_qty: returnedByItem.get(item.id) || 0,
     }));
+  };
+
+  const viewInvoice = async (invoice: Invoice) => {
+    setSelectedInvoice(invoice);
 
-    setInvoiceItems(enrichedItems);
+    const [items, revisionsRes] = await Promise.all([
+      loadInvoiceItems(invoice),
+      supabase.from('invoice_revisions').select('*').eq('invoice_id', invoice.id).order('created_at', { ascending: false }),
+    ]);
+    if (!items) return;
+
+    setInvoiceItems(items);
+    setRevisions(revisionsRes.data || []);
     setShowModal(true);
   };
 
-  const returnInvoice = async (invoice: Invoice) => {
-    if (!confirm(`${invoice.invoice_code} qaiməsini geri qaytarmaq istədiyinizdən əminsiniz? Bu əməliyyat stokdan məhsulları çıxaracaq.`)) {
+  const cancelInvoice = async (invoice: Invoice) => {
+    const reason = prompt(`${invoice.invoice_code} qaiməsi səhv daxil edilib və ləğv ediləcək. Bu təchizatçıya qaytarma deyil. Ləğv səbəbini yazın:`);
+    if (reason === null) return;
+
+    if (!reason.trim()) {
+      setAlertModal({ isOpen: true, title: 'Xəta', message: 'Ləğv səbəbi daxil edilməlidir', type: 'error' });
       return;
     }
 
     setLoading(true);
 
-    const { data: items } = await supabase
-      .from('invoice_items')
-      .select('*')
-      .eq('invoice_id', invoice.id);
+    const { error } = await supabase.rpc('cancel_invoice', {
+      p_invoice_id: invoice.id,
+      p_reason: reason,
+    });
 
-    if (!items || items.length === 0) {
+    if (error) {
+      setAlertModal({
+        isOpen: true,
+        title: 'Xəta',
+        message: error.code === 'P0001' ? error.message : 'Qaimə ləğv edilərkən xəta baş verdi',
+        type: 'error',
+      });
       setLoading(false);
       return;
     }
 
-    for (const item of items) {
-      const stock = await calculateProductStockInWarehouse(
-        invoice.warehouse_id,
-        item.product_id,
-        item.product_type
-      );
-
-      if (stock.totalQuantity < Number(item.quantity)) {
-        setAlertModal({
-          isOpen: true,
-          title: 'Xəta',
-          message: `"${item.product_type === 'reagent' ? 'Reagent' : 'Sərfiyyat'}" üçün kifayət qədər stok yoxdur. Lazım: ${item.quantity}, Mövcud: ${stock.totalQuantity.toFixed(2)}`,
-          type: 'error'
-        });
-        setLoading(false);
-        return;
-      }
-    }
+    setAlertModal({ isOpen: true, title: 'Uğurlu', message: 'Qaimə ləğv edildi', type: 'success' });
+    loadInvoices();
+    if (onInvoiceChange) onInvoiceChange();
+    setLoading(false);
+  };
 
-    const totalAmount = items.reduce((sum, item) => sum + Number(item.total_price), 0);
-
-    const { data: stockOut, error: stockOutError } = await supabase
-      .from('stock_out')
-      .insert([
-        {
-          warehouse_id: invoice.warehouse_id,
-          date: new Date().toISOString().split('T')[0],
-          reason: 'invoice_return',
-          total_amount: totalAmount,
-        },
-      ])
-      .select()
-      .single();
-
-    if (stockOutError || !stockOut) {
-      setAlertModal({ isOpen: true, title: 'Xəta', message: 'Geri qaytarma əməliyyatı yaradılarkən xəta baş verdi', type: 'error' });
-      setLoading(false);
-      return;
-    }
+  const openReturn = async (invoice: Invoice) => {
+    const items = await loadInvoiceItems(invoice);
+    if (!items) return;
 
-    const stockOutItems = items.map(item => ({
-      stockout_id: stockOut.id,
-      product_type: item.product_type,
-      product_id: item.product_id,
-      batch_date: item.batch_date,
-      quantity: item.quantity,
-      unit_price: item.unit_price,
-      total_price: item.total_price,
-    }));
+    setReturnTarget(invoice);
+    setInvoiceItems(items);
+    setReturnQuantities({});
+    setReturnDate(new Date().toISOString().split('T')[0]);
+    setReturnNote('');
+  };
 
-    const { error: itemsError } = await supabase
-      .from('stock_out_items')
-      .insert(stockOutItems);
+  const closeReturn = () => {
+    setReturnTarget(null);
+    setInvoiceItems([]);
+    setReturnQuantities({});
+  };
 
-    if (itemsError) {
-      setAlertModal({ isOpen: true, title: 'Xəta', message: 'Məhsullar geri qaytarılarkən xəta baş verdi', type: 'error' });
-      await supabase.from('stock_out').delete().eq('id', stockOut.id);
-      setLoading(false);
+  const fillAllReturnQuantities = () => {
+    setReturnQuantities(
+      Object.fromEntries(invoiceItems.map(item => [item.id, item.quantity - item.returned_qty]))
+    );
+  };
+
+  const returnInvoiceItems = async () => {
+    if (!returnTarget) return;
+
+    const items = invoiceItems
+      .map(item => ({ invoice_item_id: item.id, quantity: returnQuantities[item.id] || 0 }))
+      .filter(item => item.quantity > 0);
+
+    if (items.length === 0) {
+      setAlertModal({ isOpen: true, title: 'Xəta', message: 'Ən azı bir sətir üçün qaytarılan miqdarı daxil edin', type: 'error' });
       return;
     }
 
-    const { error: updateError } = await supabase
-      .from('invoices')
-      .update({ status: 'returned' })
-      .eq('id', invoice.id);
+    const overReturned = invoiceItems.find(item => (returnQuantities[item.id] || 0) > item.quantity - item.returned_qty);
+    if (overReturned) {
+      setAlertModal({
+        isOpen: true,
+        title: 'Xəta',
+        message: `${overReturned.product_name} üçün qaytarıla bilən miqdar: ${(overReturned.quantity - overReturned.returned_qty).toFixed(2)}`,
+        type: 'error',
+      });
+      return;
+    }
+
+    setLoading(true);
+
+    const { error } = await supabase.rpc('return_invoice_items', {
+      p_invoice_id: returnTarget.id,
+      p_date: returnDate,
+      p_items: items,
+      p_note: returnNote || null,
+    });
 
-    if (updateError) {
-      setAlertModal({ isOpen: true, title: 'Xəta', message: 'Qaimə statusu yenilənərkən xəta baş verdi', type: 'error' });
+    if (error) {
+      setAlertModal({
+        isOpen: true,
+        title: 'Xəta',
+        message: error.code === 'P0001' ? error.message : 'Geri qaytarma əməliyyatı yaradılarkən xəta baş verdi',
+        type: 'error',
+      });
       setLoading(false);
       return;
     }
 
-    setAlertModal({ isOpen: true, title: 'Uğurlu', message: 'Qaimə uğurla geri qaytarıldı', type: 'success' });
+    setAlertModal({ isOpen: true, title: 'Uğurlu', message: 'Seçilmiş məhsullar uğurla geri qaytarıldı', type: 'success' });
+    closeReturn();
     loadInvoices();
     if (onInvoiceChange) onInvoiceChange();
     setLoading(false);
@@ -268,10 +388,12 @@ export default function InvoiceList({ warehouseId, onInvoiceChange }: Props) {
             'Məhsul Kodu': product?.code || 'N/A',
             'Məhsul Adı': product?.name || 'N/A',
             'Tip': item.product_type === 'reagent' ? 'Reagent' : 'Sərfiyyat',
+            'Lot Nömrəsi': item.lot_number || '',
+            'Son İstifadə Tarixi': item.expiry_date ? new Date(item.expiry_date).toLocaleDateString('az-AZ') : '',
             'Miqdar': Number(item.quantity),
             'Vahid Qiymət (₼)': Number(item.unit_price),
             'Məhsul Məbləği (₼)': Number(item.total_price),
-            'Status': invoice.status === 'active' ? 'Aktiv' : 'Geri qaytarılıb',
+            'Status': STATUS_LABELS[invoice.status],
           });
         }
       }
@@ -287,6 +409,8 @@ export default function InvoiceList({ warehouseId, onInvoiceChange }: Props) {
       { wch: 15 },
       { wch: 30 },
       { wch: 12 },
+      { wch: 15 },
+      { wch: 18 },
       { wch: 10 },
       { wch: 15 },
       { wch: 18 },
@@ -412,14 +536,8 @@ export default function InvoiceList({ warehouseId, onInvoiceChange }: Props) {
                       {invoice.total_amount.toFixed(2)} ₼
                     </td>
                     <td className="px-6 py-4 text-center">
-                      <span
-                        className={`inline-flex px-2 py-1 text-xs font-medium rounded ${
-                          invoice.status === 'active'
-                            ? 'bg-green-100 text-green-700'
-                            : 'bg-red-100 text-red-700'
-                        }`}
-                      >
-                        {invoice.status === 'active' ? 'Aktiv' : 'Geri qaytarılıb'}
+                      <span className={`inline-flex px-2 py-1 text-xs font-medium rounded ${STATUS_CLASSES[invoice.status]}`}>
+                        {STATUS_LABELS[invoice.status]}
                       </span>
                     </td>
                     <td className="px-6 py-4">
@@ -431,9 +549,31 @@ export default function InvoiceList({ warehouseId, onInvoiceChange }: Props) {
                         >
                           <Eye className="w-4 h-4" />
                         </button>
-                        {invoice.status === 'active' && (
+                        {canWriteWarehouse(invoice.warehouse_id) && invoice.status === 'active' && invoice.entry_type === 'purchase' && onEditInvoice && (
+                          <button
+                            onClick={() => onEditInvoice(invoice.id)}
+                            disabled={loading}
+                            className="p-1 text-blue-600 hover:bg-blue-50 rounded disabled:opacity-50"
+                            title="Düzəliş et"
+                          >
+                            <Pencil className="w-4 h-4" />
+                          </button>
+                        )}
+                        {canWriteWarehouse(invoice.warehouse_id) && invoice.status === 'active' && invoice.entry_type === 'purchase' && (
                           <button
-                            onClick={() => returnInvoice(invoice)}
+                            onClick={() => cancelInvoice(invoice)}
+                            disabled={loading}
+                            className="p-1 text-gray-600 hover:bg-gray-100 rounded disabled:opacity-50"
+                            title="Ləğv et"
+                          >
+                            <Ban className="w-4 h-4" />
+                          </button>
+                        )}
+                        {canWriteWarehouse(invoice.warehouse_id) &&
+                          (invoice.status === 'active' || invoice.status === 'partially_returned') &&
+                          invoice.entry_type === 'purchase' && (
+                          <button
+                            onClick={() => openReturn(invoice)}
                             disabled={loading}
                             className="p-1 text-red-600 hover:bg-red-50 rounded disabled:opacity-50"
                             title="Geri qaytarma"
@@ -477,10 +617,16 @@ export default function InvoiceList({ warehouseId, onInvoiceChange }: Props) {
                   <span className="text-gray-500">Status:</span>{' '}
                   <span
                     className={`font-medium ${
-                      selectedInvoice.status === 'active' ? 'text-green-600' : 'text-red-600'
+                      selectedInvoice.status === 'active'
+                        ? 'text-green-600'
+                        : selectedInvoice.status === 'partially_returned'
+                        ? 'text-orange-600'
+                        : selectedInvoice.status === 'cancelled'
+                        ? 'text-gray-600'
+                        : 'text-red-600'
                     }`}
                   >
-                    {selectedInvoice.status === 'active' ? 'Aktiv' : 'Geri qaytarılıb'}
+                    {STATUS_LABELS[selectedInvoice.status]}
                   </span>
                 </div>
               </div>
@@ -496,9 +642,18 @@ export default function InvoiceList({ warehouseId, onInvoiceChange }: Props) {
                     <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">
                       Tip
                     </th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                      Lot
+                    </th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                      Son istifadə
+                    </th>
                     <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">
                       Miqdar
                     </th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">
+                      Qaytarılıb
+                    </th>
                     <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">
                       Vahid qiymət
                     </th>
@@ -522,9 +677,18 @@ export default function InvoiceList({ warehouseId, onInvoiceChange }: Props) {
                           {item.product_type === 'reagent' ? 'Reagent' : 'Sərfiyyat'}
                         </span>
                       </td>
+                      <td className="px-4 py-3 text-sm font-mono text-gray-600">
+                        {item.lot_number || '-'}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-600">
+                        {item.expiry_date ? new Date(item.expiry_date).toLocaleDateString('az-AZ') : '-'}
+                      </td>
                       <td className="px-4 py-3 text-sm text-right text-gray-900">
                         {item.quantity.toFixed(2)}
                       </td>
+                      <td className="px-4 py-3 text-sm text-right text-red-600">
+                        {item.returned_qty > 0 ? item.returned_qty.toFixed(2) : '-'}
+                      </td>
                       <td className="px-4 py-3 text-sm text-right text-gray-900">
                         {item.unit_price.toFixed(2)} ₼
                       </td>
@@ -536,7 +700,7 @@ export default function InvoiceList({ warehouseId, onInvoiceChange }: Props) {
                 </tbody>
                 <tfoot className="bg-gray-50">
                   <tr>
-                    <td colSpan={4} className="px-4 py-3 text-sm font-semibold text-gray-900">
+                    <td colSpan={7} className="px-4 py-3 text-sm font-semibold text-gray-900">
                       Ümumi məbləğ:
                     </td>
                     <td className="px-4 py-3 text-sm text-right font-semibold text-gray-900">
@@ -545,6 +709,34 @@ export default function InvoiceList({ warehouseId, onInvoiceChange }: Props) {
                   </tr>
                 </tfoot>
               </table>
+
+              {revisions.length > 0 && (
+                <div className="mt-6">
+                  <h4 className="text-sm font-semibold text-gray-900 mb-3">Düzəliş tarixçəsi</h4>
+                  <div className="space-y-3">
+                    {revisions.map((revision) => (
+                      <div key={revision.id} className="p-3 bg-gray-50 border border-gray-200 rounded-lg text-sm">
+                        <div className="flex justify-between text-gray-600">
+                          <span>
+                            <span className="font-medium text-gray-900">
+                              {revision.action === 'cancel' ? 'Ləğv' : 'Düzəliş'}
+                            </span>
+                            {' · '}
+                            {revision.changed_by_email || 'Naməlum istifadəçi'}
+                          </span>
+                          <span>{new Date(revision.created_at).toLocaleString('az-AZ')}</span>
+                        </div>
+                        <div className="mt-1 text-gray-700">Səbəb: {revision.reason}</div>
+                        <ul className="mt-2 space-y-1 text-gray-600">
+                          {describeRevision(revision, productNames).map((change, index) => (
+                            <li key={index}>• {change}</li>
+                          ))}
+                        </ul>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
 
             <div className="p-6 border-t border-gray-200 flex justify-end">
@@ -553,6 +745,7 @@ export default function InvoiceList({ warehouseId, onInvoiceChange }: Props) {
                   setShowModal(false);
                   setSelectedInvoice(null);
                   setInvoiceItems([]);
+                  setRevisions([]);
                 }}
                 className="px-6 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700"
               >
@@ -563,6 +756,115 @@ export default function InvoiceList({ warehouseId, onInvoiceChange }: Props) {
         </div>
       )}
 
+      {returnTarget && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-4xl w-full max-h-[90vh] overflow-hidden">
+            <div className="p-6 border-b border-gray-200">
+              <h3 className="text-xl font-semibold text-gray-900">
+                Geri Qaytarma: {returnTarget.invoice_code}
+              </h3>
+              <p className="text-sm text-gray-500 mt-1">
+                Qaytarılan sətirləri və miqdarları seçin. Qalan məhsullar stokda qalır.
+              </p>
+              <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Qaytarma tarixi
+                  </label>
+                  <input
+                    type="date"
+                    value={returnDate}
+                    onChange={(e) => setReturnDate(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Qeyd
+                  </label>
+                  <input
+                    type="text"
+                    value={returnNote}
+                    onChange={(e) => setReturnNote(e.target.value)}
+                    placeholder="Məsələn: zədələnmiş qutu"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div className="p-6 overflow-auto max-h-[50vh]">
+              <table className="w-full">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Məhsul</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Lot</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Miqdar</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Qaytarılıb</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Qaytarılacaq</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {invoiceItems.map((item) => {
+                    const returnable = item.quantity - item.returned_qty;
+                    return (
+                      <tr key={item.id}>
+                        <td className="px-4 py-3 text-sm text-gray-900">{item.product_name}</td>
+                        <td className="px-4 py-3 text-sm font-mono text-gray-600">{item.lot_number || '-'}</td>
+                        <td className="px-4 py-3 text-sm text-right text-gray-900">{item.quantity.toFixed(2)}</td>
+                        <td className="px-4 py-3 text-sm text-right text-red-600">
+                          {item.returned_qty > 0 ? item.returned_qty.toFixed(2) : '-'}
+                        </td>
+                        <td className="px-4 py-3 text-right">
+                          <input
+                            type="number"
+                            min="0"
+                            max={returnable}
+                            step="0.01"
+                            value={returnQuantities[item.id] || ''}
+                            onChange={(e) =>
+                              setReturnQuantities({ ...returnQuantities, [item.id]: parseFloat(e.target.value) || 0 })
+                            }
+                            disabled={returnable <= 0}
+                            placeholder="0"
+                            className="w-28 px-2 py-1 text-sm text-right border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100"
+                          />
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="p-6 border-t border-gray-200 flex justify-between">
+              <button
+                onClick={fillAllReturnQuantities}
+                className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                Hamısını qaytar
+              </button>
+              <div className="flex gap-3">
+                <button
+                  onClick={closeReturn}
+                  className="px-6 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  Ləğv Et
+                </button>
+                <button
+                  onClick={returnInvoiceItems}
+                  disabled={loading}
+                  className="flex items-center gap-2 px-6 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50 transition-colors"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                  Geri Qaytar
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
       <Modal
         isOpen={alertModal.isOpen}
         onClose={() => setAlertModal({ ...alertModal, isOpen: false })}
@@ -0,0 +1,691 @@
+import { useState, useEffect } from 'react';
+import { Plus, Trash2, Save, Eye, Send, FileInput, Lock } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { stockKey } from '../lib/stockCalculations';
+import SearchableProductSelect from './SearchableProductSelect';
+import Modal from './Modal';
+import type {
+  Warehouse,
+  Reagent,
+  Consumable,
+  ProductType,
+  PurchaseOrder,
+  PurchaseOrderItem,
+  PurchaseOrderStatus,
+  Supplier,
+} from '../types/database';
+
+interface OrderRow {
+  id: string;
+  product_type: ProductType;
+  product_id: string;
+  ordered_qty: number;
+  unit_price: number;
+}
+
+interface OrderListItem extends PurchaseOrder {
+  warehouse_name: string;
+  total_amount: number;
+  ordered_total: number;
+  received_total: number;
+}
+
+interface OrderItemDetail extends PurchaseOrderItem {
+  product_code: string;
+  product_name: string;
+}
+
+interface Props {
+  onCreateInvoice: (purchaseOrderId: string) => void;
+}
+
+const STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: 'Qaralama',
+  sent: 'Göndərilib',
+  partially_received: 'Qismən qəbul edilib',
+  received: 'Qəbul edilib',
+  closed: 'Bağlanıb',
+};
+
+const STATUS_CLASSES: Record<PurchaseOrderStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  sent: 'bg-blue-100 text-blue-700',
+  partially_received: 'bg-orange-100 text-orange-700',
+  received: 'bg-green-100 text-green-700',
+  closed: 'bg-gray-200 text-gray-700',
+};
+
+export default function PurchaseOrders({ onCreateInvoice }: Props) {
+  const { canWriteWarehouse } = useAuth();
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [reagents, setReagents] = useState<Reagent[]>([]);
+  const [consumables, setConsumables] = useState<Consumable[]>([]);
+  const [orders, setOrders] = useState<OrderListItem[]>([]);
+  const [statusFilter, setStatusFilter] = useState<'all' | PurchaseOrderStatus>('all');
+  const [poCode, setPoCode] = useState('');
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [supplierId, setSupplierId] = useState('');
+  const [warehouseId, setWarehouseId] = useState('');
+  const [orderDate, setOrderDate] = useState(new Date().toISOString().split('T')[0]);
+  const [expectedDate, setExpectedDate] = useState('');
+  const [rows, setRows] = useState<OrderRow[]>([]);
+  const [selectedOrder, setSelectedOrder] = useState<OrderListItem | null>(null);
+  const [orderItems, setOrderItems] = useState<OrderItemDetail[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [modal, setModal] = useState<{ isOpen: boolean; title: string; message: string; type: 'success' | 'error' | 'info' }>({ isOpen: false, title: '', message: '', type: 'info' });
+
+  useEffect(() => {
+    loadData();
+    loadOrders();
+  }, []);
+
+  const loadData = async () => {
+    const [warehousesRes, suppliersRes, reagentsRes, consumablesRes] = await Promise.all([
+      supabase.from('warehouses').select('*').order('name'),
+      supabase.from('suppliers').select('*').order('name'),
+      supabase.from('reagents').select('*').order('code'),
+      supabase.from('consumables').select('*').order('code'),
+    ]);
+
+    if (warehousesRes.data) setWarehouses(warehousesRes.data);
+    if (suppliersRes.data) setSuppliers(suppliersRes.data);
+    if (reagentsRes.data) setReagents(reagentsRes.data);
+    if (consumablesRes.data) setConsumables(consumablesRes.data);
+  };
+
+  const loadOrders = async () => {
+    const [ordersRes, itemsRes, warehousesRes] = await Promise.all([
+      supabase.from('purchase_orders').select('*').order('order_date', { ascending: false }),
+      supabase.from('purchase_order_items').select('po_id, ordered_qty, unit_price, received_qty'),
+      supabase.from('warehouses').select('id, name'),
+    ]);
+
+    if (!ordersRes.data) return;
+
+    const warehouseMap = new Map(warehousesRes.data?.map((w) => [w.id, w.name]) || []);
+    const totals = new Map<string, { amount: number; ordered: number; received: number }>();
+
+    for (const item of itemsRes.data || []) {
+      const current = totals.get(item.po_id) || { amount: 0, ordered: 0, received: 0 };
+      current.amount += Number(item.ordered_qty) * Number(item.unit_price);
+      current.ordered += Number(item.ordered_qty);
+      current.received += Number(item.received_qty);
+      totals.set(item.po_id, current);
+    }
+
+    setOrders(
+      ordersRes.data.map((order) => ({
+        ...order,
+        warehouse_name: warehouseMap.get(order.warehouse_id) || 'N/A',
+        total_amount: totals.get(order.id)?.amount || 0,
+        ordered_total: totals.get(order.id)?.ordered || 0,
+        received_total: totals.get(order.id)?.received || 0,
+      }))
+    );
+  };
+
+  const addRow = () => {
+    setRows([
+      ...rows,
+      {
+        id: crypto.randomUUID(),
+        product_type: 'reagent',
+        product_id: '',
+        ordered_qty: 0,
+        unit_price: 0,
+      },
+    ]);
+  };
+
+  const updateRow = <K extends keyof OrderRow>(id: string, field: K, value: OrderRow[K]) => {
+    setRows(
+      rows.map((row) => {
+        if (row.id !== id) return row;
+        const updated = { ...row, [field]: value };
+        if (field === 'product_type') {
+          updated.product_id = '';
+        }
+        return updated;
+      })
+    );
+  };
+
+  const removeRow = (id: string) => {
+    setRows(rows.filter((row) => row.id !== id));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!poCode || !supplierId || !warehouseId || rows.length === 0) {
+      setModal({ isOpen: true, title: 'Xəta', message: 'Zəhmət olmasa bütün məlumatları doldurun', type: 'error' });
+      return;
+    }
+
+    if (rows.some((r) => !r.product_id || r.ordered_qty <= 0 || r.unit_price < 0)) {
+      setModal({ isOpen: true, title: 'Xəta', message: 'Bütün məhsul sətirləri düzgün doldurulmalıdır', type: 'error' });
+      return;
+    }
+
+    setLoading(true);
+
+    const { error } = await supabase.rpc('create_purchase_order', {
+      p_po_code: poCode,
+      p_supplier_id: supplierId,
+      p_warehouse_id: warehouseId,
+      p_order_date: orderDate,
+      p_expected_date: expectedDate || null,
+      p_items: rows.map((row) => ({
+        product_type: row.product_type,
+        product_id: row.product_id,
+        ordered_qty: row.ordered_qty,
+        unit_price: row.unit_price,
+      })),
+    });
+
+    if (error) {
+      setModal({
+        isOpen: true,
+        title: 'Xəta',
+        message: error.code === 'P0001' ? error.message : 'Sifariş yaradılarkən xəta baş verdi',
+        type: 'error',
+      });
+      setLoading(false);
+      return;
+    }
+
+    setModal({ isOpen: true, title: 'Uğurlu', message: 'Sifariş qaralama kimi yadda saxlanıldı', type: 'success' });
+    setPoCode('');
+    setSupplierId('');
+    setExpectedDate('');
+    setRows([]);
+    setLoading(false);
+    loadOrders();
+  };
+
+  const updateStatus = async (order: OrderListItem, status: PurchaseOrderStatus) => {
+    if (status === 'closed' && !confirm(`${order.po_code} sifarişi bağlanacaq və daha qəbul edilə bilməyəcək. Davam etmək istəyirsiniz?`)) {
+      return;
+    }
+
+    const { error } = await supabase.rpc('set_purchase_order_status', {
+      p_po_id: order.id,
+      p_status: status,
+    });
+
+    if (error) {
+      setModal({
+        isOpen: true,
+        title: 'Xəta',
+        message: error.code === 'P0001' ? error.message : 'Sifarişin statusu dəyişdirilə bilmədi',
+        type: 'error',
+      });
+      return;
+    }
+
+    loadOrders();
+  };
+
+  const deleteOrder = async (order: OrderListItem) => {
+    if (!confirm(`${order.po_code} sifarişini silmək istədiyinizdən əminsiniz?`)) return;
+
+    const { error } = await supabase
+      .from('purchase_orders')
+      .delete()
+      .eq('id', order.id)
+      .eq('status', 'draft');
+
+    if (error) {
+      setModal({ isOpen: true, title: 'Xəta', message: 'Sifariş silinə bilmədi', type: 'error' });
+      return;
+    }
+
+    loadOrders();
+  };
+
+  const viewOrder = async (order: OrderListItem) => {
+    const { data } = await supabase
+      .from('purchase_order_items')
+      .select('*')
+      .eq('po_id', order.id);
+
+    const productMap = new Map([
+      ...reagents.map((r) => [stockKey('reagent', r.id), r] as const),
+      ...consumables.map((c) => [stockKey('consumable', c.id), c] as const),
+    ]);
+
+    setOrderItems(
+      (data || []).map((item) => {
+        const product = productMap.get(stockKey(item.product_type, item.product_id));
+        return {
+          ...item,
+          ordered_qty: Number(item.ordered_qty),
+          unit_price: Number(item.unit_price),
+          received_qty: Number(item.received_qty),
+          product_code: product?.code || 'N/A',
+          product_name: product?.name || 'N/A',
+        };
+      })
+    );
+    setSelectedOrder(order);
+  };
+
+  const filteredOrders = statusFilter === 'all'
+    ? orders
+    : orders.filter((order) => order.status === statusFilter);
+
+  const totalAmount = rows.reduce((sum, row) => sum + row.ordered_qty * row.unit_price, 0);
+
+  return (
+    <div className="h-full p-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-6">
+          <h2 className="text-2xl font-semibold text-gray-900">Satınalma Sifarişləri</h2>
+          <p className="text-sm text-gray-500 mt-1">Təchizatçılara verilən sifarişlər və onların qəbulu</p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Yeni sifariş</h3>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Sifariş kodu
+                </label>
+                <input
+                  type="text"
+                  value={poCode}
+                  onChange={(e) => setPoCode(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder="PO-001"
+                  required
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Təchizatçı
+                </label>
+                <select
+                  value={supplierId}
+                  onChange={(e) => setSupplierId(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  required
+                >
+                  <option value="">Təchizatçı seçin</option>
+                  {suppliers.map((s) => (
+                    <option key={s.id} value={s.id}>
+                      {s.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Anbar
+                </label>
+                <select
+                  value={warehouseId}
+                  onChange={(e) => setWarehouseId(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  required
+                >
+                  <option value="">Anbar seçin</option>
+                  {warehouses.filter((w) => canWriteWarehouse(w.id)).map((w) => (
+                    <option key={w.id} value={w.id}>
+                      [{w.code}] {w.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Sifariş tarixi
+                </label>
+                <input
+                  type="date"
+                  value={orderDate}
+                  onChange={(e) => setOrderDate(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  required
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Gözlənilən tarix
+                </label>
+                <input
+                  type="date"
+                  value={expectedDate}
+                  onChange={(e) => setExpectedDate(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+            <div className="p-6 border-b border-gray-200 flex justify-between items-center">
+              <h3 className="text-lg font-semibold text-gray-900">Sifariş sətirləri</h3>
+              <button
+                type="button"
+                onClick={addRow}
+                className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                <Plus className="w-4 h-4" />
+                Sətir əlavə et
+              </button>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-gray-50 border-b border-gray-200">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Tip</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Məhsul</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Miqdar</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Vahid qiymət</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Ümumi</th>
+                    <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase">Əməliyyat</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {rows.map((row) => (
+                    <tr key={row.id}>
+                      <td className="px-4 py-3">
+                        <select
+                          value={row.product_type}
+                          onChange={(e) => updateRow(row.id, 'product_type', e.target.value as ProductType)}
+                          className="px-2 py-1 border border-gray-300 rounded text-sm"
+                        >
+                          <option value="reagent">Reagent</option>
+                          <option value="consumable">Sərfiyyat</option>
+                        </select>
+                      </td>
+                      <td className="px-4 py-3">
+                        <SearchableProductSelect
+                          products={row.product_type === 'reagent' ? reagents : consumables}
+                          value={row.product_id}
+                          onChange={(productId) => updateRow(row.id, 'product_id', productId)}
+                          productType={row.product_type}
+                          placeholder="Məhsul seçin"
+                        />
+                      </td>
+                      <td className="px-4 py-3">
+                        <input
+                          type="number"
+                          value={row.ordered_qty || ''}
+                          onChange={(e) => updateRow(row.id, 'ordered_qty', Number(e.target.value))}
+                          className="w-24 px-2 py-1 border border-gray-300 rounded text-sm"
+                          min="0"
+                          step="0.01"
+                        />
+                      </td>
+                      <td className="px-4 py-3">
+                        <input
+                          type="number"
+                          value={row.unit_price || ''}
+                          onChange={(e) => updateRow(row.id, 'unit_price', Number(e.target.value))}
+                          className="w-28 px-2 py-1 border border-gray-300 rounded text-sm"
+                          min="0"
+                          step="0.01"
+                        />
+                      </td>
+                      <td className="px-4 py-3 text-sm font-medium text-gray-900">
+                        {(row.ordered_qty * row.unit_price).toFixed(2)} ₼
+                      </td>
+                      <td className="px-4 py-3 text-center">
+                        <button
+                          type="button"
+                          onClick={() => removeRow(row.id)}
+                          className="p-1 text-red-600 hover:bg-red-50 rounded"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                  {rows.length === 0 && (
+                    <tr>
+                      <td colSpan={6} className="px-4 py-8 text-center text-gray-500">
+                        Məhsul əlavə etmək üçün "Sətir əlavə et" düyməsini klikləyin
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+
+            {rows.length > 0 && (
+              <div className="p-6 border-t border-gray-200 bg-gray-50">
+                <div className="flex justify-between items-center">
+                  <div className="text-lg font-semibold text-gray-900">
+                    Ümumi məbləğ: {totalAmount.toFixed(2)} ₼
+                  </div>
+                  <button
+                    type="submit"
+                    disabled={loading}
+                    className="flex items-center gap-2 px-6 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 transition-colors"
+                  >
+                    <Save className="w-4 h-4" />
+                    Sifarişi yadda saxla
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        </form>
+
+        <div className="mt-6 bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+          <div className="p-6 border-b border-gray-200 flex justify-between items-center">
+            <h3 className="text-lg font-semibold text-gray-900">Sifarişlər</h3>
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as 'all' | PurchaseOrderStatus)}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="all">Bütün statuslar</option>
+              {(Object.keys(STATUS_LABELS) as PurchaseOrderStatus[]).map((status) => (
+                <option key={status} value={status}>
+                  {STATUS_LABELS[status]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Kod</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Firma</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Anbar</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Tarix</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Gözlənilən</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Məbləğ</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Qəbul / Sifariş</th>
+                  <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase">Status</th>
+                  <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase">Əməliyyat</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {filteredOrders.map((order) => (
+                  <tr key={order.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 text-sm font-mono text-gray-900">{order.po_code}</td>
+                    <td className="px-4 py-3 text-sm text-gray-900">{order.supplier}</td>
+                    <td className="px-4 py-3 text-sm text-gray-600">{order.warehouse_name}</td>
+                    <td className="px-4 py-3 text-sm text-gray-600">
+                      {new Date(order.order_date).toLocaleDateString('az-AZ')}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-600">
+                      {order.expected_date ? new Date(order.expected_date).toLocaleDateString('az-AZ') : '-'}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-right font-medium text-gray-900">
+                      {order.total_amount.toFixed(2)} ₼
+                    </td>
+                    <td className="px-4 py-3 text-sm text-right text-gray-900">
+                      {order.received_total.toFixed(2)} / {order.ordered_total.toFixed(2)}
+                    </td>
+                    <td className="px-4 py-3 text-center">
+                      <span className={`inline-flex px-2 py-1 text-xs font-medium rounded ${STATUS_CLASSES[order.status]}`}>
+                        {STATUS_LABELS[order.status]}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="flex justify-center gap-2">
+                        <button
+                          onClick={() => viewOrder(order)}
+                          className="p-1 text-gray-600 hover:bg-gray-100 rounded"
+                          title="Bax"
+                        >
+                          <Eye className="w-4 h-4" />
+                        </button>
+                        {order.status === 'draft' && canWriteWarehouse(order.warehouse_id) && (
+                          <>
+                            <button
+                              onClick={() => updateStatus(order, 'sent')}
+                              className="p-1 text-blue-600 hover:bg-blue-50 rounded"
+                              title="Göndərildi kimi qeyd et"
+                            >
+                              <Send className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => deleteOrder(order)}
+                              className="p-1 text-red-600 hover:bg-red-50 rounded"
+                              title="Sil"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          </>
+                        )}
+                        {(order.status === 'sent' || order.status === 'partially_received') && canWriteWarehouse(order.warehouse_id) && (
+                          <>
+                            <button
+                              onClick={() => onCreateInvoice(order.id)}
+                              className="p-1 text-green-600 hover:bg-green-50 rounded"
+                              title="Qaimə yarat"
+                            >
+                              <FileInput className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => updateStatus(order, 'closed')}
+                              className="p-1 text-gray-600 hover:bg-gray-100 rounded"
+                              title="Bağla"
+                            >
+                              <Lock className="w-4 h-4" />
+                            </button>
+                          </>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+                {filteredOrders.length === 0 && (
+                  <tr>
+                    <td colSpan={9} className="px-4 py-8 text-center text-gray-500">
+                      Sifariş tapılmadı
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+
+      {selectedOrder && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-4xl w-full max-h-[90vh] overflow-hidden">
+            <div className="p-6 border-b border-gray-200">
+              <h3 className="text-xl font-semibold text-gray-900">
+                Sifariş Detalları: {selectedOrder.po_code}
+              </h3>
+              <div className="mt-2 grid grid-cols-2 gap-4 text-sm">
+                <div>
+                  <span className="text-gray-500">Firma:</span>{' '}
+                  <span className="font-medium">{selectedOrder.supplier}</span>
+                </div>
+                <div>
+                  <span className="text-gray-500">Anbar:</span>{' '}
+                  <span className="font-medium">{selectedOrder.warehouse_name}</span>
+                </div>
+                <div>
+                  <span className="text-gray-500">Tarix:</span>{' '}
+                  <span className="font-medium">
+                    {new Date(selectedOrder.order_date).toLocaleDateString('az-AZ')}
+                  </span>
+                </div>
+                <div>
+                  <span className="text-gray-500">Status:</span>{' '}
+                  <span className="font-medium">{STATUS_LABELS[selectedOrder.status]}</span>
+                </div>
+              </div>
+            </div>
+
+            <div className="p-6 overflow-auto max-h-[60vh]">
+              <table className="w-full">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Kod</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Məhsul</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Sifariş</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Qəbul</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Fərq</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Vahid qiymət</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {orderItems.map((item) => {
+                    const variance = item.received_qty - item.ordered_qty;
+                    return (
+                      <tr key={item.id}>
+                        <td className="px-4 py-3 text-sm font-mono text-gray-900">{item.product_code}</td>
+                        <td className="px-4 py-3 text-sm text-gray-900">{item.product_name}</td>
+                        <td className="px-4 py-3 text-sm text-right text-gray-900">{item.ordered_qty.toFixed(2)}</td>
+                        <td className="px-4 py-3 text-sm text-right text-gray-900">{item.received_qty.toFixed(2)}</td>
+                        <td
+                          className={`px-4 py-3 text-sm text-right font-medium ${
+                            variance < 0 ? 'text-red-600' : variance > 0 ? 'text-orange-600' : 'text-green-600'
+                          }`}
+                        >
+                          {variance > 0 ? '+' : ''}
+                          {variance.toFixed(2)}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-right text-gray-900">{item.unit_price.toFixed(2)} ₼</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="p-6 border-t border-gray-200 flex justify-end">
+              <button
+                onClick={() => {
+                  setSelectedOrder(null);
+                  setOrderItems([]);
+                }}
+                className="px-6 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700"
+              >
+                Bağla
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <Modal
+        isOpen={modal.isOpen}
+        onClose={() => setModal({ ...modal, isOpen: false })}
+        title={modal.title}
+        message={modal.message}
+        type={modal.type}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,294 @@
+import { useState, useEffect } from 'react';
+import { FileDown, Search } from 'lucide-react';
+import * as XLSX from 'xlsx';
+import { supabase } from '../lib/supabase';
+import { calculateAllWarehousesStock, stockKey } from '../lib/stockCalculations';
+import Modal from './Modal';
+import {
+  fetchStockLevels,
+  getStockLevelStatus,
+  suggestedOrderQty,
+  STOCK_LEVEL_STATUS_LABELS,
+} from '../lib/stockLevels';
+import type { StockLevelStatus } from '../lib/stockLevels';
+import type { Warehouse, ProductType } from '../types/database';
+
+interface ReorderRow {
+  warehouse_id: string;
+  warehouse_name: string;
+  product_id: string;
+  product_code: string;
+  product_name: string;
+  product_type: ProductType;
+  quantity: number;
+  min_qty: number;
+  reorder_point: number;
+  max_qty: number | null;
+  status: StockLevelStatus;
+  order_qty: number;
+}
+
+const STATUS_ORDER: Record<StockLevelStatus, number> = { below_min: 0, reorder: 1, ok: 2 };
+
+export default function ReorderReport() {
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [selectedWarehouse, setSelectedWarehouse] = useState('all');
+  const [onlyReorder, setOnlyReorder] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [rows, setRows] = useState<ReorderRow[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [modal, setModal] = useState<{ isOpen: boolean; title: string; message: string; type: 'success' | 'error' | 'info' }>({ isOpen: false, title: '', message: '', type: 'info' });
+
+  useEffect(() => {
+    loadWarehouses();
+  }, []);
+
+  useEffect(() => {
+    loadReorderRows();
+  }, [selectedWarehouse]);
+
+  const loadWarehouses = async () => {
+    const { data } = await supabase.from('warehouses').select('*').order('name');
+    if (data) setWarehouses(data);
+  };
+
+  const loadReorderRows = async () => {
+    setLoading(true);
+
+    const warehouseId = selectedWarehouse === 'all' ? undefined : selectedWarehouse;
+    let loaded;
+    try {
+      loaded = await Promise.all([
+        supabase.from('warehouses').select('id, name'),
+        supabase.from('reagents').select('id, code, name'),
+        supabase.from('consumables').select('id, code, name'),
+        calculateAllWarehousesStock(warehouseId),
+        fetchStockLevels(warehouseId),
+      ]);
+    } catch {
+      setModal({ isOpen: true, title: 'Xəta', message: 'Stok yüklənərkən xəta baş verdi', type: 'error' });
+      setLoading(false);
+      return;
+    }
+
+    const [warehousesRes, reagentsRes, consumablesRes, stockByWarehouse, levelsByWarehouse] = loaded;
+
+    const warehouseMap = new Map(warehousesRes.data?.map((w) => [w.id, w.name]) || []);
+    const productMap = new Map([
+      ...(reagentsRes.data || []).map((r) => [stockKey('reagent', r.id), r] as const),
+      ...(consumablesRes.data || []).map((c) => [stockKey('consumable', c.id), c] as const),
+    ]);
+
+    const reorderRows: ReorderRow[] = [];
+
+    for (const [levelWarehouseId, levels] of levelsByWarehouse.entries()) {
+      for (const [key, level] of levels.entries()) {
+        const product = productMap.get(key);
+        if (!product) continue;
+
+        const quantity = Math.max(stockByWarehouse.get(levelWarehouseId)?.get(key)?.totalQuantity || 0, 0);
+
+        reorderRows.push({
+          warehouse_id: levelWarehouseId,
+          warehouse_name: warehouseMap.get(levelWarehouseId) || 'N/A',
+          product_id: level.product_id,
+          product_code: product.code,
+          product_name: product.name,
+          product_type: level.product_type,
+          quantity,
+          min_qty: level.min_qty,
+          reorder_point: level.reorder_point,
+          max_qty: level.max_qty,
+          status: getStockLevelStatus(quantity, level),
+          order_qty: suggestedOrderQty(quantity, level),
+        });
+      }
+    }
+
+    setRows(
+      reorderRows.sort((a, b) => {
+        const statusCompare = STATUS_ORDER[a.status] - STATUS_ORDER[b.status];
+        if (statusCompare !== 0) return statusCompare;
+        const warehouseCompare = a.warehouse_name.localeCompare(b.warehouse_name);
+        if (warehouseCompare !== 0) return warehouseCompare;
+        return a.product_code.localeCompare(b.product_code);
+      })
+    );
+    setLoading(false);
+  };
+
+  const filteredRows = rows.filter(
+    (row) =>
+      (!onlyReorder || row.status !== 'ok') &&
+      (row.product_code.toLowerCase().includes(searchTerm.toLowerCase()) ||
+        row.product_name.toLowerCase().includes(searchTerm.toLowerCase()))
+  );
+
+  const exportToExcel = () => {
+    const dataForSheet = filteredRows.map((row) => ({
+      Anbar: row.warehouse_name,
+      'Məhsul Kodu': row.product_code,
+      'Məhsul Adı': row.product_name,
+      Tip: row.product_type === 'reagent' ? 'Reagent' : 'Sərfiyyat',
+      'Mövcud Stok': row.quantity,
+      Minimum: row.min_qty,
+      'Sifariş Nöqtəsi': row.reorder_point,
+      Maksimum: row.max_qty ?? '',
+      Vəziyyət: STOCK_LEVEL_STATUS_LABELS[row.status],
+      'Sifariş Miqdarı': row.order_qty,
+    }));
+
+    const ws = XLSX.utils.json_to_sheet(dataForSheet);
+    ws['!cols'] = [
+      { wch: 20 },
+      { wch: 15 },
+      { wch: 30 },
+      { wch: 12 },
+      { wch: 12 },
+      { wch: 10 },
+      { wch: 15 },
+      { wch: 10 },
+      { wch: 18 },
+      { wch: 15 },
+    ];
+
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, ws, 'Sifaris');
+
+    const fileName = `Sifaris_Hesabati_${new Date().toISOString().split('T')[0]}.xlsx`;
+    XLSX.writeFile(wb, fileName, { bookType: 'xlsx', type: 'binary' });
+  };
+
+  return (
+    <div className="h-full p-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-6 flex justify-between items-center">
+          <div>
+            <h2 className="text-2xl font-semibold text-gray-900">Sifariş Hesabatı</h2>
+            <p className="text-sm text-gray-500 mt-1">Stok səviyyələri ilə cari stokun müqayisəsi</p>
+          </div>
+          <button
+            onClick={exportToExcel}
+            disabled={loading || filteredRows.length === 0}
+            className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 transition-colors"
+          >
+            <FileDown className="w-4 h-4" />
+            Excel-ə ixrac
+          </button>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+          <div className="p-6 border-b border-gray-200 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <select
+                value={selectedWarehouse}
+                onChange={(e) => setSelectedWarehouse(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="all">Bütün Anbarlar</option>
+                {warehouses.map((w) => (
+                  <option key={w.id} value={w.id}>
+                    [{w.code}] {w.name}
+                  </option>
+                ))}
+              </select>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={onlyReorder}
+                  onChange={(e) => setOnlyReorder(e.target.checked)}
+                  className="w-4 h-4 text-blue-600 rounded"
+                />
+                Yalnız sifariş tələb edənlər
+              </label>
+            </div>
+
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
+              <input
+                type="text"
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                placeholder="Kod və ya ad ilə axtar..."
+                className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Anbar</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Kod</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Ad</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Mövcud</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Min</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Sifariş nöqtəsi</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Maks</th>
+                  <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase">Vəziyyət</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Sifariş miqdarı</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {loading ? (
+                  <tr>
+                    <td colSpan={9} className="px-4 py-8 text-center text-gray-500">
+                      Yüklənir...
+                    </td>
+                  </tr>
+                ) : filteredRows.length === 0 ? (
+                  <tr>
+                    <td colSpan={9} className="px-4 py-8 text-center text-gray-500">
+                      {rows.length === 0
+                        ? 'Stok səviyyələri Şablonlar bölməsində təyin edilməyib'
+                        : 'Sifariş tələb edən məhsul yoxdur'}
+                    </td>
+                  </tr>
+                ) : (
+                  filteredRows.map((row) => (
+                    <tr key={`${row.warehouse_id}_${row.product_type}_${row.product_id}`} className="hover:bg-gray-50">
+                      <td className="px-4 py-3 text-sm text-gray-900">{row.warehouse_name}</td>
+                      <td className="px-4 py-3 text-sm font-mono text-gray-900">{row.product_code}</td>
+                      <td className="px-4 py-3 text-sm text-gray-900">{row.product_name}</td>
+                      <td className="px-4 py-3 text-sm text-right font-medium text-gray-900">{row.quantity.toFixed(2)}</td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-600">{row.min_qty.toFixed(2)}</td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-600">{row.reorder_point.toFixed(2)}</td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-600">
+                        {row.max_qty === null ? '-' : row.max_qty.toFixed(2)}
+                      </td>
+                      <td className="px-4 py-3 text-center">
+                        <span
+                          className={`inline-flex px-2 py-1 text-xs font-medium rounded ${
+                            row.status === 'below_min'
+                              ? 'bg-red-100 text-red-700'
+                              : row.status === 'reorder'
+                              ? 'bg-orange-100 text-orange-700'
+                              : 'bg-green-100 text-green-700'
+                          }`}
+                        >
+                          {STOCK_LEVEL_STATUS_LABELS[row.status]}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-right font-semibold text-gray-900">
+                        {row.order_qty > 0 ? row.order_qty.toFixed(2) : '-'}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+
+      <Modal
+        isOpen={modal.isOpen}
+        onClose={() => setModal({ ...modal, isOpen: false })}
+        title={modal.title}
+        message={modal.message}
+        type={modal.type}
+      />
+    </div>
+  );
+}
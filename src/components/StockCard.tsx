@@ -0,0 +1,475 @@
+import { useState, useEffect } from 'react';
+import { Download } from 'lucide-react';
+import * as XLSX from 'xlsx';
+import { supabase } from '../lib/supabase';
+import { fetchStockMovements, stockKey } from '../lib/stockCalculations';
+import SearchableProductSelect from './SearchableProductSelect';
+import Modal from './Modal';
+import type {
+  Warehouse,
+  Reagent,
+  Consumable,
+  ProductType,
+  StockMovement,
+  StockMovementType,
+  StockDocumentType,
+} from '../types/database';
+
+interface DocumentLine {
+  id: string;
+  product_type: ProductType;
+  product_id: string;
+  lot_number: string | null;
+  quantity: number;
+  unit_price: number;
+  total_price: number;
+}
+
+interface SourceDocument {
+  title: string;
+  date: string;
+  details: { label: string; value: string }[];
+  lines: DocumentLine[];
+}
+
+const MOVEMENT_LABELS: Record<StockMovementType, string> = {
+  purchase: 'Alış',
+  inventory_surplus: 'Sayım Artığı',
+  transfer_in: 'Transfer Girişi',
+  transfer_out: 'Transfer Çıxışı',
+  consumption: 'Sərfiyyat',
+  expired: 'Vaxtı Keçmiş',
+  inventory_loss: 'Sayım Xərci',
+  transit_loss: 'Tranzit İtkisi',
+  invoice_return: 'Qaimə Geri Qaytarma',
+};
+
+const MOVEMENT_CLASSES: Record<StockMovementType, string> = {
+  purchase: 'bg-green-100 text-green-700',
+  inventory_surplus: 'bg-teal-100 text-teal-700',
+  transfer_in: 'bg-blue-100 text-blue-700',
+  transfer_out: 'bg-blue-100 text-blue-700',
+  consumption: 'bg-purple-100 text-purple-700',
+  expired: 'bg-red-100 text-red-700',
+  inventory_loss: 'bg-orange-100 text-orange-700',
+  transit_loss: 'bg-yellow-100 text-yellow-700',
+  invoice_return: 'bg-gray-100 text-gray-700',
+};
+
+const DOCUMENT_LABELS: Record<StockDocumentType, string> = {
+  invoice: 'Qaimə',
+  transfer: 'Transfer',
+  stock_out: 'Anbardan Çıxış',
+};
+
+function documentName(movement: StockMovement): string {
+  return movement.document_code || `${DOCUMENT_LABELS[movement.document_type]} ${movement.document_id.slice(0, 8)}`;
+}
+
+export default function StockCard() {
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [reagents, setReagents] = useState<Reagent[]>([]);
+  const [consumables, setConsumables] = useState<Consumable[]>([]);
+  const [warehouseId, setWarehouseId] = useState('');
+  const [productType, setProductType] = useState<ProductType>('reagent');
+  const [productId, setProductId] = useState('');
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [selectedDocument, setSelectedDocument] = useState<SourceDocument | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [modal, setModal] = useState<{ isOpen: boolean; title: string; message: string; type: 'success' | 'error' | 'info' }>({ isOpen: false, title: '', message: '', type: 'info' });
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  useEffect(() => {
+    loadMovements();
+  }, [warehouseId, productType, productId]);
+
+  const loadData = async () => {
+    const [warehousesRes, reagentsRes, consumablesRes] = await Promise.all([
+      supabase.from('warehouses').select('*').order('name'),
+      supabase.from('reagents').select('*').order('code'),
+      supabase.from('consumables').select('*').order('code'),
+    ]);
+
+    if (warehousesRes.data) setWarehouses(warehousesRes.data);
+    if (reagentsRes.data) setReagents(reagentsRes.data);
+    if (consumablesRes.data) setConsumables(consumablesRes.data);
+  };
+
+  const loadMovements = async () => {
+    if (!warehouseId || !productId) {
+      setMovements([]);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      setMovements(await fetchStockMovements({ warehouseId, productType, productId }));
+    } catch {
+      setMovements([]);
+      setModal({ isOpen: true, title: 'Xəta', message: 'Hərəkətlər yüklənərkən xəta baş verdi', type: 'error' });
+    }
+    setLoading(false);
+  };
+
+  const warehouseName = (id: string) => warehouses.find((w) => w.id === id)?.name || 'N/A';
+
+  const productMap = new Map<string, Reagent | Consumable>([
+    ...reagents.map((r) => [stockKey('reagent', r.id), r] as const),
+    ...consumables.map((c) => [stockKey('consumable', c.id), c] as const),
+  ]);
+  const product = productMap.get(stockKey(productType, productId));
+
+  const openDocument = async (movement: StockMovement) => {
+    if (movement.document_type === 'invoice') {
+      const { data } = await supabase
+        .from('invoices')
+        .select('*, invoice_items(*)')
+        .eq('id', movement.document_id)
+        .maybeSingle();
+      if (!data) return;
+
+      setSelectedDocument({
+        title: `Qaimə: ${data.invoice_code}`,
+        date: data.date,
+        details: [
+          { label: 'Təchizatçı', value: data.supplier || '-' },
+          { label: 'Anbar', value: warehouseName(data.warehouse_id) },
+        ],
+        lines: data.invoice_items,
+      });
+    } else if (movement.document_type === 'transfer') {
+      const { data } = await supabase
+        .from('transfers')
+        .select('*, transfer_items(*)')
+        .eq('id', movement.document_id)
+        .maybeSingle();
+      if (!data) return;
+
+      setSelectedDocument({
+        title: 'Transfer',
+        date: data.date,
+        details: [
+          { label: 'Haradan', value: warehouseName(data.from_warehouse_id) },
+          { label: 'Haraya', value: warehouseName(data.to_warehouse_id) },
+          {
+            label: 'Qəbul tarixi',
+            value: data.received_date ? new Date(data.received_date).toLocaleDateString('az-AZ') : 'Yolda',
+          },
+        ],
+        lines: data.transfer_items,
+      });
+    } else {
+      const { data } = await supabase
+        .from('stock_out')
+        .select('*, stock_out_items(*)')
+        .eq('id', movement.document_id)
+        .maybeSingle();
+      if (!data) return;
+
+      setSelectedDocument({
+        title: `Anbardan Çıxış: ${MOVEMENT_LABELS[data.reason as StockMovementType] || data.reason}`,
+        date: data.date,
+        details: [
+          { label: 'Anbar', value: warehouseName(data.warehouse_id) },
+          ...(movement.document_code ? [{ label: 'Qaimə', value: movement.document_code }] : []),
+        ],
+        lines: data.stock_out_items,
+      });
+    }
+  };
+
+  const totalIn = movements.reduce((sum, m) => sum + (m.quantity > 0 ? m.quantity : 0), 0);
+  const totalOut = movements.reduce((sum, m) => sum + (m.quantity < 0 ? -m.quantity : 0), 0);
+  const lastMovement = movements[movements.length - 1];
+
+  const exportToExcel = () => {
+    if (!product || movements.length === 0) return;
+
+    const exportData = movements.map((m) => ({
+      'Tarix': new Date(m.movement_date).toLocaleDateString('az-AZ'),
+      'Növ': MOVEMENT_LABELS[m.movement_type],
+      'Sənəd': documentName(m),
+      'Qarşı tərəf': m.counterparty || '-',
+      'Lot': m.lot_number || '-',
+      'Giriş': m.quantity > 0 ? m.quantity : '',
+      'Çıxış': m.quantity < 0 ? -m.quantity : '',
+      'Qiymət (₼)': m.unit_price.toFixed(2),
+      'Qalıq': m.balance_quantity,
+      'Qalıq Dəyəri (₼)': m.balance_value.toFixed(2),
+    }));
+
+    const ws = XLSX.utils.json_to_sheet(exportData);
+
+    ws['!cols'] = [
+      { wch: 12 },
+      { wch: 20 },
+      { wch: 22 },
+      { wch: 25 },
+      { wch: 15 },
+      { wch: 10 },
+      { wch: 10 },
+      { wch: 12 },
+      { wch: 10 },
+      { wch: 16 },
+    ];
+
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, ws, 'Məhsul Kartı');
+
+    const warehouseCode = warehouses.find((w) => w.id === warehouseId)?.code || 'Anbar';
+    const fileName = `Mehsul_Karti_${product.code}_${warehouseCode}_${new Date().toISOString().split('T')[0]}.xlsx`;
+    XLSX.writeFile(wb, fileName, { bookType: 'xlsx', type: 'binary' });
+  };
+
+  const selectClassName = 'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="h-full p-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-6">
+          <h2 className="text-2xl font-semibold text-gray-900">Məhsul Kartı</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Məhsulun anbardakı bütün hərəkətləri, hər hərəkətdən sonrakı qalıq və dəyəri ilə
+          </p>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+          <div className="p-6 border-b border-gray-200">
+            <div className="flex justify-between items-center mb-4">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900">Hərəkətlər</h3>
+                {product && (
+                  <p className="text-sm text-gray-500 mt-1">
+                    {product.code} – {product.name}
+                  </p>
+                )}
+              </div>
+              {movements.length > 0 && (
+                <button
+                  onClick={exportToExcel}
+                  className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+                >
+                  <Download className="w-4 h-4" />
+                  Excel
+                </button>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Anbar
+                </label>
+                <select value={warehouseId} onChange={(e) => setWarehouseId(e.target.value)} className={selectClassName}>
+                  <option value="">Anbar seçin</option>
+                  {warehouses.map((warehouse) => (
+                    <option key={warehouse.id} value={warehouse.id}>{warehouse.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Tip
+                </label>
+                <select
+                  value={productType}
+                  onChange={(e) => {
+                    setProductType(e.target.value as ProductType);
+                    setProductId('');
+                  }}
+                  className={selectClassName}
+                >
+                  <option value="reagent">Reagent</option>
+                  <option value="consumable">Sərfiyyat</option>
+                </select>
+              </div>
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Məhsul
+                </label>
+                <SearchableProductSelect
+                  products={productType === 'reagent' ? reagents : consumables}
+                  value={productId}
+                  onChange={setProductId}
+                  productType={productType}
+                  placeholder="Məhsul seçin"
+                />
+              </div>
+            </div>
+
+            {movements.length > 0 && (
+              <div className="mt-4 grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div className="bg-green-50 rounded-lg p-3">
+                  <p className="text-xs text-green-700">Cəmi giriş</p>
+                  <p className="text-lg font-semibold text-green-900">{totalIn.toFixed(2)}</p>
+                </div>
+                <div className="bg-red-50 rounded-lg p-3">
+                  <p className="text-xs text-red-700">Cəmi çıxış</p>
+                  <p className="text-lg font-semibold text-red-900">{totalOut.toFixed(2)}</p>
+                </div>
+                <div className="bg-blue-50 rounded-lg p-3">
+                  <p className="text-xs text-blue-700">Qalıq</p>
+                  <p className="text-lg font-semibold text-blue-900">{lastMovement.balance_quantity.toFixed(2)}</p>
+                </div>
+                <div className="bg-blue-50 rounded-lg p-3">
+                  <p className="text-xs text-blue-700">Qalıq dəyəri</p>
+                  <p className="text-lg font-semibold text-blue-900">{lastMovement.balance_value.toFixed(2)} ₼</p>
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Tarix</th>
+                  <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase">Növ</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Sənəd</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Qarşı tərəf</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Lot</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Giriş</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Çıxış</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Qiymət</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Qalıq</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Qalıq Dəyəri</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {!warehouseId || !productId ? (
+                  <tr>
+                    <td colSpan={10} className="px-4 py-8 text-center text-gray-500">
+                      Anbar və məhsul seçin
+                    </td>
+                  </tr>
+                ) : loading ? (
+                  <tr>
+                    <td colSpan={10} className="px-4 py-8 text-center text-gray-500">
+                      Yüklənir...
+                    </td>
+                  </tr>
+                ) : movements.length === 0 ? (
+                  <tr>
+                    <td colSpan={10} className="px-4 py-8 text-center text-gray-500">
+                      Hərəkət tapılmadı
+                    </td>
+                  </tr>
+                ) : (
+                  movements.map((m) => (
+                    <tr key={m.line_id} className="hover:bg-gray-50">
+                      <td className="px-4 py-3 text-sm text-gray-600 whitespace-nowrap">
+                        {new Date(m.movement_date).toLocaleDateString('az-AZ')}
+                      </td>
+                      <td className="px-4 py-3 text-center">
+                        <span className={`inline-flex px-2 py-1 text-xs font-medium rounded whitespace-nowrap ${MOVEMENT_CLASSES[m.movement_type]}`}>
+                          {MOVEMENT_LABELS[m.movement_type]}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        <button
+                          onClick={() => openDocument(m)}
+                          className="text-blue-600 hover:text-blue-800 hover:underline"
+                        >
+                          {documentName(m)}
+                        </button>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-600">{m.counterparty || '-'}</td>
+                      <td className="px-4 py-3 text-sm text-gray-600">{m.lot_number || '-'}</td>
+                      <td className="px-4 py-3 text-sm text-right text-green-700">
+                        {m.quantity > 0 ? m.quantity.toFixed(2) : ''}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-right text-red-700">
+                        {m.quantity < 0 ? (-m.quantity).toFixed(2) : ''}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-600">{m.unit_price.toFixed(2)} ₼</td>
+                      <td className="px-4 py-3 text-sm text-right font-medium text-gray-900">
+                        {m.balance_quantity.toFixed(2)}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-900">
+                        {m.balance_value.toFixed(2)} ₼
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+
+      {selectedDocument && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-4xl w-full max-h-[90vh] overflow-hidden">
+            <div className="p-6 border-b border-gray-200">
+              <h3 className="text-xl font-semibold text-gray-900">{selectedDocument.title}</h3>
+              <div className="mt-2 grid grid-cols-2 gap-4 text-sm">
+                <div>
+                  <span className="text-gray-500">Tarix:</span>{' '}
+                  <span className="font-medium">{new Date(selectedDocument.date).toLocaleDateString('az-AZ')}</span>
+                </div>
+                {selectedDocument.details.map((detail) => (
+                  <div key={detail.label}>
+                    <span className="text-gray-500">{detail.label}:</span>{' '}
+                    <span className="font-medium">{detail.value}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="p-6 overflow-auto max-h-[60vh]">
+              <table className="w-full">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Məhsul</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Lot</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Miqdar</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Qiymət</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Cəmi</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {selectedDocument.lines.map((line) => {
+                    const lineProduct = productMap.get(stockKey(line.product_type, line.product_id));
+                    const isCurrent = line.product_type === productType && line.product_id === productId;
+                    return (
+                      <tr key={line.id} className={isCurrent ? 'bg-blue-50' : ''}>
+                        <td className="px-4 py-2 text-sm text-gray-900">
+                          <div>{lineProduct?.name || 'N/A'}</div>
+                          <div className="text-xs font-mono text-gray-500">{lineProduct?.code}</div>
+                        </td>
+                        <td className="px-4 py-2 text-sm text-gray-600">{line.lot_number || '-'}</td>
+                        <td className="px-4 py-2 text-sm text-right">{Number(line.quantity).toFixed(2)}</td>
+                        <td className="px-4 py-2 text-sm text-right">{Number(line.unit_price).toFixed(2)} ₼</td>
+                        <td className="px-4 py-2 text-sm text-right font-medium">{Number(line.total_price).toFixed(2)} ₼</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="p-6 border-t border-gray-200 flex justify-end">
+              <button
+                onClick={() => setSelectedDocument(null)}
+                className="px-6 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700"
+              >
+                Bağla
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <Modal
+        isOpen={modal.isOpen}
+        onClose={() => setModal({ ...modal, isOpen: false })}
+        title={modal.title}
+        message={modal.message}
+        type={modal.type}
+      />
+    </div>
+  );
+}
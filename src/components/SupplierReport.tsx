@@ -0,0 +1,565 @@
+import { useState, useEffect } from 'react';
+import { FileSpreadsheet, TrendingUp } from 'lucide-react';
+import * as XLSX from 'xlsx';
+import { supabase } from '../lib/supabase';
+import { stockKey } from '../lib/stockCalculations';
+import type { Supplier, ProductType } from '../types/database';
+
+interface PurchaseLine {
+  supplier_id: string;
+  invoice_id: string;
+  invoice_code: string;
+  date: string;
+  product_type: ProductType;
+  product_id: string;
+  unit_price: number;
+  total_price: number;
+}
+
+interface ReturnLine {
+  supplier_id: string;
+  invoice_id: string;
+  date: string;
+  total_price: number;
+}
+
+interface SpendRow {
+  supplier_id: string;
+  supplier_name: string;
+  month: string;
+  invoice_count: number;
+  spend: number;
+  returned_invoice_count: number;
+  returned_amount: number;
+  net_spend: number;
+}
+
+interface PriceRow {
+  id: string;
+  supplier_name: string;
+  product_code: string;
+  product_name: string;
+  product_type: ProductType;
+  date: string;
+  invoice_code: string;
+  unit_price: number;
+  previous_price: number | null;
+  change_pct: number | null;
+  flagged: boolean;
+}
+
+const currentMonth = new Date().toISOString().slice(0, 7);
+
+const monthEnd = (month: string) => {
+  const [year, monthNumber] = month.split('-');
+  return `${year}-${monthNumber}-${new Date(parseInt(year), parseInt(monthNumber), 0).getDate()}`;
+};
+
+export default function SupplierReport() {
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [productMap, setProductMap] = useState<Map<string, { code: string; name: string }>>(new Map());
+  const [purchaseLines, setPurchaseLines] = useState<PurchaseLine[]>([]);
+  const [returnLines, setReturnLines] = useState<ReturnLine[]>([]);
+  const [selectedSupplier, setSelectedSupplier] = useState('all');
+  const [fromMonth, setFromMonth] = useState(`${currentMonth.slice(0, 4)}-01`);
+  const [toMonth, setToMonth] = useState(currentMonth);
+  const [threshold, setThreshold] = useState(10);
+  const [onlyIncreases, setOnlyIncreases] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    loadReportData();
+  }, []);
+
+  const loadReportData = async () => {
+    setLoading(true);
+
+    const [suppliersRes, invoicesRes, invoiceItemsRes, returnsRes, reagentsRes, consumablesRes] = await Promise.all([
+      supabase.from('suppliers').select('*').order('name'),
+      supabase.from('invoices').select('id, invoice_code, date, supplier_id, created_at').eq('entry_type', 'purchase').neq('status', 'cancelled').not('supplier_id', 'is', null),
+      supabase.from('invoice_items').select('id, invoice_id, product_type, product_id, unit_price, total_price'),
+      supabase.from('stock_out').select('id, date').eq('reason', 'invoice_return'),
+      supabase.from('reagents').select('id, code, name'),
+      supabase.from('consumables').select('id, code, name'),
+    ]);
+
+    const returnIds = (returnsRes.data || []).map((r) => r.id);
+    const returnItemsRes = returnIds.length > 0
+      ? await supabase.from('stock_out_items').select('stockout_id, batch_id, total_price').in('stockout_id', returnIds)
+      : { data: [] };
+
+    const invoices = [...(invoicesRes.data || [])].sort(
+      (a, b) => a.date.localeCompare(b.date) || a.created_at.localeCompare(b.created_at)
+    );
+    const invoiceOrder = new Map(invoices.map((inv, index) => [inv.id, index]));
+    const invoiceMap = new Map(invoices.map((inv) => [inv.id, inv]));
+    const itemInvoiceMap = new Map((invoiceItemsRes.data || []).map((item) => [item.id, item.invoice_id]));
+    const returnDateMap = new Map((returnsRes.data || []).map((r) => [r.id, r.date]));
+
+    const purchases: PurchaseLine[] = [];
+    for (const item of invoiceItemsRes.data || []) {
+      const invoice = invoiceMap.get(item.invoice_id);
+      if (!invoice) continue;
+
+      purchases.push({
+        supplier_id: invoice.supplier_id,
+        invoice_id: invoice.id,
+        invoice_code: invoice.invoice_code,
+        date: invoice.date,
+        product_type: item.product_type,
+        product_id: item.product_id,
+        unit_price: Number(item.unit_price),
+        total_price: Number(item.total_price),
+      });
+    }
+    purchases.sort((a, b) => (invoiceOrder.get(a.invoice_id) || 0) - (invoiceOrder.get(b.invoice_id) || 0));
+
+    const returns: ReturnLine[] = [];
+    for (const item of returnItemsRes.data || []) {
+      const invoice = invoiceMap.get(itemInvoiceMap.get(item.batch_id) || '');
+      if (!invoice) continue;
+
+      returns.push({
+        supplier_id: invoice.supplier_id,
+        invoice_id: invoice.id,
+        date: returnDateMap.get(item.stockout_id) || invoice.date,
+        total_price: Number(item.total_price),
+      });
+    }
+
+    setSuppliers(suppliersRes.data || []);
+    setProductMap(
+      new Map([
+        ...(reagentsRes.data || []).map((r) => [stockKey('reagent', r.id), { code: r.code, name: r.name }] as const),
+        ...(consumablesRes.data || []).map((c) => [stockKey('consumable', c.id), { code: c.code, name: c.name }] as const),
+      ])
+    );
+    setPurchaseLines(purchases);
+    setReturnLines(returns);
+    setLoading(false);
+  };
+
+  const supplierNameMap = new Map(suppliers.map((s) => [s.id, s.name]));
+  const startDate = `${fromMonth}-01`;
+  const endDate = toMonth ? monthEnd(toMonth) : '';
+  const inRange = (date: string) => (!fromMonth || date >= startDate) && (!toMonth || date <= endDate);
+  const matchesSupplier = (supplierId: string) => selectedSupplier === 'all' || supplierId === selectedSupplier;
+
+  const buildSpendRows = (): SpendRow[] => {
+    const spendMap = new Map<string, SpendRow & { invoiceIds: Set<string>; returnedInvoiceIds: Set<string> }>();
+
+    const getRow = (supplierId: string, month: string) => {
+      const key = `${supplierId}_${month}`;
+      let row = spendMap.get(key);
+      if (!row) {
+        row = {
+          supplier_id: supplierId,
+          supplier_name: supplierNameMap.get(supplierId) || 'N/A',
+          month,
+          invoice_count: 0,
+          spend: 0,
+          returned_invoice_count: 0,
+          returned_amount: 0,
+          net_spend: 0,
+          invoiceIds: new Set(),
+          returnedInvoiceIds: new Set(),
+        };
+        spendMap.set(key, row);
+      }
+      return row;
+    };
+
+    for (const line of purchaseLines) {
+      if (!inRange(line.date) || !matchesSupplier(line.supplier_id)) continue;
+      const row = getRow(line.supplier_id, line.date.slice(0, 7));
+      row.invoiceIds.add(line.invoice_id);
+      row.spend += line.total_price;
+    }
+
+    for (const line of returnLines) {
+      if (!inRange(line.date) || !matchesSupplier(line.supplier_id)) continue;
+      const row = getRow(line.supplier_id, line.date.slice(0, 7));
+      row.returnedInvoiceIds.add(line.invoice_id);
+      row.returned_amount += line.total_price;
+    }
+
+    return Array.from(spendMap.values())
+      .map(({ invoiceIds, returnedInvoiceIds, ...row }) => ({
+        ...row,
+        invoice_count: invoiceIds.size,
+        returned_invoice_count: returnedInvoiceIds.size,
+        net_spend: row.spend - row.returned_amount,
+      }))
+      .sort((a, b) => a.supplier_name.localeCompare(b.supplier_name) || a.month.localeCompare(b.month));
+  };
+
+  const buildPriceRows = (): PriceRow[] => {
+    const lastPrice = new Map<string, number>();
+    const priceRows: PriceRow[] = [];
+
+    // Lines are in posting order, so the previous purchase is always seen first,
+    // even when it falls before the selected period
+    purchaseLines.forEach((line, index) => {
+      const key = `${line.supplier_id}_${stockKey(line.product_type, line.product_id)}`;
+      const previousPrice = lastPrice.get(key) ?? null;
+      lastPrice.set(key, line.unit_price);
+
+      if (!inRange(line.date) || !matchesSupplier(line.supplier_id)) return;
+
+      const changePct = previousPrice !== null && previousPrice > 0
+        ? ((line.unit_price - previousPrice) / previousPrice) * 100
+        : null;
+      const product = productMap.get(stockKey(line.product_type, line.product_id));
+
+      priceRows.push({
+        id: `${line.invoice_id}_${index}`,
+        supplier_name: supplierNameMap.get(line.supplier_id) || 'N/A',
+        product_code: product?.code || 'N/A',
+        product_name: product?.name || 'N/A',
+        product_type: line.product_type,
+        date: line.date,
+        invoice_code: line.invoice_code,
+        unit_price: line.unit_price,
+        previous_price: previousPrice,
+        change_pct: changePct,
+        flagged: changePct !== null && changePct > threshold,
+      });
+    });
+
+    return priceRows.sort(
+      (a, b) =>
+        a.supplier_name.localeCompare(b.supplier_name) ||
+        a.product_code.localeCompare(b.product_code) ||
+        a.date.localeCompare(b.date)
+    );
+  };
+
+  const spendRows = buildSpendRows();
+  const priceRows = buildPriceRows();
+  const visiblePriceRows = onlyIncreases ? priceRows.filter((row) => row.flagged) : priceRows;
+  const flaggedCount = priceRows.filter((row) => row.flagged).length;
+
+  const totals = spendRows.reduce(
+    (sum, row) => ({
+      invoice_count: sum.invoice_count + row.invoice_count,
+      spend: sum.spend + row.spend,
+      returned_invoice_count: sum.returned_invoice_count + row.returned_invoice_count,
+      returned_amount: sum.returned_amount + row.returned_amount,
+      net_spend: sum.net_spend + row.net_spend,
+    }),
+    { invoice_count: 0, spend: 0, returned_invoice_count: 0, returned_amount: 0, net_spend: 0 }
+  );
+
+  const exportToExcel = () => {
+    const spendData = spendRows.map((row) => ({
+      supplier: row.supplier_name,
+      month: row.month,
+      invoice_count: row.invoice_count,
+      spend: Number(row.spend.toFixed(2)),
+      returned_invoice_count: row.returned_invoice_count,
+      returned_amount: Number(row.returned_amount.toFixed(2)),
+      net_spend: Number(row.net_spend.toFixed(2)),
+    }));
+
+    const spendSheet = XLSX.utils.json_to_sheet(spendData, {
+      header: ['supplier', 'month', 'invoice_count', 'spend', 'returned_invoice_count', 'returned_amount', 'net_spend'],
+    });
+
+    spendSheet['A1'] = { v: 'Təchizatçı', t: 's' };
+    spendSheet['B1'] = { v: 'Ay', t: 's' };
+    spendSheet['C1'] = { v: 'Qaimə Sayı', t: 's' };
+    spendSheet['D1'] = { v: 'Xərc (₼)', t: 's' };
+    spendSheet['E1'] = { v: 'Qaytarılan Qaimə', t: 's' };
+    spendSheet['F1'] = { v: 'Qaytarılan Məbləğ (₼)', t: 's' };
+    spendSheet['G1'] = { v: 'Xalis Xərc (₼)', t: 's' };
+
+    spendSheet['!cols'] = [
+      { wch: 30 },
+      { wch: 10 },
+      { wch: 12 },
+      { wch: 15 },
+      { wch: 18 },
+      { wch: 22 },
+      { wch: 18 },
+    ];
+
+    const priceData = priceRows.map((row) => ({
+      supplier: row.supplier_name,
+      product_code: row.product_code,
+      product_name: row.product_name,
+      product_type: row.product_type === 'reagent' ? 'Reagent' : 'Sərfiyyat',
+      date: new Date(row.date).toLocaleDateString('az-AZ'),
+      invoice_code: row.invoice_code,
+      unit_price: row.unit_price,
+      previous_price: row.previous_price ?? '',
+      change_pct: row.change_pct === null ? '' : Number(row.change_pct.toFixed(2)),
+      flagged: row.flagged ? 'Bəli' : '',
+    }));
+
+    const priceSheet = XLSX.utils.json_to_sheet(priceData, {
+      header: ['supplier', 'product_code', 'product_name', 'product_type', 'date', 'invoice_code', 'unit_price', 'previous_price', 'change_pct', 'flagged'],
+    });
+
+    priceSheet['A1'] = { v: 'Təchizatçı', t: 's' };
+    priceSheet['B1'] = { v: 'Məhsul Kodu', t: 's' };
+    priceSheet['C1'] = { v: 'Məhsul Adı', t: 's' };
+    priceSheet['D1'] = { v: 'Tip', t: 's' };
+    priceSheet['E1'] = { v: 'Tarix', t: 's' };
+    priceSheet['F1'] = { v: 'Qaimə Kodu', t: 's' };
+    priceSheet['G1'] = { v: 'Vahid Qiymət (₼)', t: 's' };
+    priceSheet['H1'] = { v: 'Əvvəlki Qiymət (₼)', t: 's' };
+    priceSheet['I1'] = { v: 'Dəyişiklik (%)', t: 's' };
+    priceSheet['J1'] = { v: `Artım > ${threshold}%`, t: 's' };
+
+    priceSheet['!cols'] = [
+      { wch: 30 },
+      { wch: 15 },
+      { wch: 30 },
+      { wch: 12 },
+      { wch: 12 },
+      { wch: 15 },
+      { wch: 15 },
+      { wch: 18 },
+      { wch: 15 },
+      { wch: 12 },
+    ];
+
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, spendSheet, 'Xərclər');
+    XLSX.utils.book_append_sheet(wb, priceSheet, 'Qiymət Tarixçəsi');
+
+    XLSX.writeFile(wb, `Techizatcilar_${fromMonth}_${toMonth}.xlsx`, {
+      bookType: 'xlsx',
+      type: 'binary',
+    });
+  };
+
+  const formatMonth = (month: string) => {
+    const [year, monthNumber] = month.split('-');
+    return `${monthNumber}.${year}`;
+  };
+
+  return (
+    <div className="h-full p-8">
+      <div className="max-w-7xl mx-auto space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h2 className="text-2xl font-semibold text-gray-900">Təchizatçı Hesabatı</h2>
+            <p className="text-sm text-gray-500 mt-1">Aylıq xərclər, geri qaytarmalar və qiymət tarixçəsi</p>
+          </div>
+          <button
+            onClick={exportToExcel}
+            disabled={loading || (spendRows.length === 0 && priceRows.length === 0)}
+            className="flex items-center gap-2 px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 transition-colors"
+          >
+            <FileSpreadsheet className="w-4 h-4" />
+            Hesabat (Excel)
+          </button>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Təchizatçı</label>
+              <select
+                value={selectedSupplier}
+                onChange={(e) => setSelectedSupplier(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="all">Bütün Təchizatçılar</option>
+                {suppliers.map((s) => (
+                  <option key={s.id} value={s.id}>
+                    {s.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Başlanğıc ay</label>
+              <input
+                type="month"
+                value={fromMonth}
+                onChange={(e) => setFromMonth(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Son ay</label>
+              <input
+                type="month"
+                value={toMonth}
+                onChange={(e) => setToMonth(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Qiymət artımı həddi (%)</label>
+              <input
+                type="number"
+                min="0"
+                step="0.1"
+                value={threshold}
+                onChange={(e) => setThreshold(parseFloat(e.target.value) || 0)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+          <div className="p-6 border-b border-gray-200">
+            <h3 className="text-lg font-semibold text-gray-900">Aylıq Xərclər</h3>
+            <p className="text-sm text-gray-500 mt-1">Qaytarmalar qaytarılma ayında göstərilir</p>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Təchizatçı</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Ay</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Qaimə sayı</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Xərc</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Qaytarılan qaimə</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Qaytarılan məbləğ</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Xalis xərc</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {loading ? (
+                  <tr>
+                    <td colSpan={7} className="px-4 py-8 text-center text-gray-500">
+                      Yüklənir...
+                    </td>
+                  </tr>
+                ) : spendRows.length === 0 ? (
+                  <tr>
+                    <td colSpan={7} className="px-4 py-8 text-center text-gray-500">
+                      Seçilmiş dövrdə alış yoxdur
+                    </td>
+                  </tr>
+                ) : (
+                  spendRows.map((row) => (
+                    <tr key={`${row.supplier_id}_${row.month}`} className="hover:bg-gray-50">
+                      <td className="px-4 py-3 text-sm font-medium text-gray-900">{row.supplier_name}</td>
+                      <td className="px-4 py-3 text-sm text-gray-600">{formatMonth(row.month)}</td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-900">{row.invoice_count}</td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-900">{row.spend.toFixed(2)} ₼</td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-900">
+                        {row.returned_invoice_count > 0 ? row.returned_invoice_count : '-'}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-right text-red-600">
+                        {row.returned_amount > 0 ? `${row.returned_amount.toFixed(2)} ₼` : '-'}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-right font-semibold text-gray-900">{row.net_spend.toFixed(2)} ₼</td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+              {!loading && spendRows.length > 0 && (
+                <tfoot className="bg-gray-50 border-t border-gray-200">
+                  <tr>
+                    <td colSpan={2} className="px-4 py-3 text-sm font-semibold text-gray-900">Cəmi</td>
+                    <td className="px-4 py-3 text-sm text-right font-semibold text-gray-900">{totals.invoice_count}</td>
+                    <td className="px-4 py-3 text-sm text-right font-semibold text-gray-900">{totals.spend.toFixed(2)} ₼</td>
+                    <td className="px-4 py-3 text-sm text-right font-semibold text-gray-900">{totals.returned_invoice_count}</td>
+                    <td className="px-4 py-3 text-sm text-right font-semibold text-red-600">{totals.returned_amount.toFixed(2)} ₼</td>
+                    <td className="px-4 py-3 text-sm text-right font-semibold text-gray-900">{totals.net_spend.toFixed(2)} ₼</td>
+                  </tr>
+                </tfoot>
+              )}
+            </table>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+          <div className="p-6 border-b border-gray-200 flex justify-between items-center">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">Qiymət Tarixçəsi</h3>
+              <p className="text-sm text-gray-500 mt-1">
+                Hər alış eyni təchizatçıdan əvvəlki alışla müqayisə olunur
+                {flaggedCount > 0 && (
+                  <span className="ml-2 text-red-600 font-medium">
+                    {flaggedCount} qiymət artımı {threshold}%-dən çoxdur
+                  </span>
+                )}
+              </p>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={onlyIncreases}
+                onChange={(e) => setOnlyIncreases(e.target.checked)}
+                className="w-4 h-4 text-blue-600 rounded"
+              />
+              Yalnız qiymət artımları
+            </label>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Təchizatçı</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Kod</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Ad</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Tarix</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Qaimə</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Qiymət</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Əvvəlki</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Dəyişiklik</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {loading ? (
+                  <tr>
+                    <td colSpan={8} className="px-4 py-8 text-center text-gray-500">
+                      Yüklənir...
+                    </td>
+                  </tr>
+                ) : visiblePriceRows.length === 0 ? (
+                  <tr>
+                    <td colSpan={8} className="px-4 py-8 text-center text-gray-500">
+                      {onlyIncreases ? 'Həddi aşan qiymət artımı yoxdur' : 'Seçilmiş dövrdə alış yoxdur'}
+                    </td>
+                  </tr>
+                ) : (
+                  visiblePriceRows.map((row) => (
+                    <tr key={row.id} className={row.flagged ? 'bg-red-50' : 'hover:bg-gray-50'}>
+                      <td className="px-4 py-3 text-sm text-gray-900">{row.supplier_name}</td>
+                      <td className="px-4 py-3 text-sm font-mono text-gray-900">{row.product_code}</td>
+                      <td className="px-4 py-3 text-sm text-gray-900">{row.product_name}</td>
+                      <td className="px-4 py-3 text-sm text-gray-600">{new Date(row.date).toLocaleDateString('az-AZ')}</td>
+                      <td className="px-4 py-3 text-sm text-gray-600">{row.invoice_code}</td>
+                      <td className="px-4 py-3 text-sm text-right font-medium text-gray-900">{row.unit_price.toFixed(2)} ₼</td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-600">
+                        {row.previous_price === null ? '-' : `${row.previous_price.toFixed(2)} ₼`}
+                      </td>
+                      <td
+                        className={`px-4 py-3 text-sm text-right font-medium ${
+                          row.flagged
+                            ? 'text-red-600'
+                            : row.change_pct !== null && row.change_pct < 0
+                            ? 'text-green-600'
+                            : 'text-gray-600'
+                        }`}
+                      >
+                        {row.change_pct === null ? (
+                          '-'
+                        ) : (
+                          <span className="inline-flex items-center gap-1">
+                            {row.flagged && <TrendingUp className="w-4 h-4" />}
+                            {row.change_pct > 0 ? '+' : ''}
+                            {row.change_pct.toFixed(1)}%
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,16 +2,20 @@ import { useState } from 'react';
 import WarehousesTab from './templates/WarehousesTab';
 import ReagentsTab from './templates/ReagentsTab';
 import ConsumablesTab from './templates/ConsumablesTab';
+import StockLevelsTab from './templates/StockLevelsTab';
+import SuppliersTab from './templates/SuppliersTab';
 
-type Tab = 'warehouses' | 'reagents' | 'consumables';
+type Tab = 'warehouses' | 'suppliers' | 'reagents' | 'consumables' | 'stockLevels';
 
 export default function Templates() {
   const [activeTab, setActiveTab] = useState<Tab>('warehouses');
 
   const tabs = [
     { id: 'warehouses' as Tab, name: 'Anbarlar' },
+    { id: 'suppliers' as Tab, name: 'Təchizatçılar' },
     { id: 'reagents' as Tab, name: 'Reagentlər' },
     { id: 'consumables' as Tab, name: 'Sərfiyyat malları' },
+    { id: 'stockLevels' as Tab, name: 'Stok səviyyələri' },
   ];
 
   return (
@@ -41,8 +45,10 @@ export default function Templates() {
 
       <div className="flex-1 overflow-auto p-8">
         {activeTab === 'warehouses' && <WarehousesTab />}
+        {activeTab === 'suppliers' && <SuppliersTab />}
         {activeTab === 'reagents' && <ReagentsTab />}
         {activeTab === 'consumables' && <ConsumablesTab />}
+        {activeTab === 'stockLevels' && <StockLevelsTab />}
       </div>
     </div>
   );
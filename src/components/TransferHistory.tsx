@@ -0,0 +1,760 @@
+import { useState, useEffect } from 'react';
+import { Eye, Undo2, Download, PackageCheck } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import Modal from './Modal';
+import * as XLSX from 'xlsx';
+import type { Transfer, TransferStatus, Warehouse } from '../types/database';
+
+interface TransferRow extends Transfer {
+  from_warehouse_name: string;
+  to_warehouse_name: string;
+  item_count: number;
+  reversed_by: string | null;
+}
+
+interface TransferItemRow {
+  id: string;
+  transfer_id: string;
+  product_type: 'reagent' | 'consumable';
+  product_code: string;
+  product_name: string;
+  lot_number: string | null;
+  expiry_date: string | null;
+  batch_date: string;
+  quantity: number;
+  received_quantity: number | null;
+  unit_price: number;
+  total_price: number;
+}
+
+const STATUS_LABELS: Record<TransferStatus, string> = {
+  in_transit: 'Yolda',
+  received: 'Qəbul edilib',
+};
+
+const STATUS_CLASSES: Record<TransferStatus, string> = {
+  in_transit: 'bg-yellow-100 text-yellow-700',
+  received: 'bg-green-100 text-green-700',
+};
+
+export default function TransferHistory() {
+  const { canWriteWarehouse } = useAuth();
+  const [transfers, setTransfers] = useState<TransferRow[]>([]);
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [fromWarehouseId, setFromWarehouseId] = useState('');
+  const [toWarehouseId, setToWarehouseId] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [selectedTransfer, setSelectedTransfer] = useState<TransferRow | null>(null);
+  const [transferItems, setTransferItems] = useState<TransferItemRow[]>([]);
+  const [receiveTarget, setReceiveTarget] = useState<TransferRow | null>(null);
+  const [receivedQuantities, setReceivedQuantities] = useState<Record<string, number>>({});
+  const [receiveDate, setReceiveDate] = useState(new Date().toISOString().split('T')[0]);
+  const [receiveNote, setReceiveNote] = useState('');
+  const [reverseTarget, setReverseTarget] = useState<TransferRow | null>(null);
+  const [reverseDate, setReverseDate] = useState(new Date().toISOString().split('T')[0]);
+  const [alertModal, setAlertModal] = useState<{ isOpen: boolean; title: string; message: string; type: 'success' | 'error' | 'info' }>({ isOpen: false, title: '', message: '', type: 'info' });
+
+  useEffect(() => {
+    loadTransfers();
+  }, []);
+
+  const loadTransfers = async () => {
+    setLoading(true);
+
+    const [transfersRes, warehousesRes] = await Promise.all([
+      supabase
+        .from('transfers')
+        .select('id, from_warehouse_id, to_warehouse_id, date, total_amount, status, received_date, receipt_note, received_by, reversal_of, created_by, created_at, transfer_items(id)')
+        .order('date', { ascending: false })
+        .order('created_at', { ascending: false }),
+      supabase.from('warehouses').select('*').order('name')
+    ]);
+
+    const transfersData = transfersRes.data;
+
+    if (!transfersData) {
+      setLoading(false);
+      return;
+    }
+
+    setWarehouses(warehousesRes.data || []);
+    const warehouseMap = new Map(warehousesRes.data?.map(w => [w.id, w.name]) || []);
+
+    const reversedBy = new Map<string, string>();
+    transfersData.forEach(transfer => {
+      if (transfer.reversal_of) reversedBy.set(transfer.reversal_of, transfer.id);
+    });
+
+    setTransfers(transfersData.map(({ transfer_items, ...transfer }) => ({
+      ...transfer,
+      total_amount: Number(transfer.total_amount),
+      from_warehouse_name: warehouseMap.get(transfer.from_warehouse_id) || 'N/A',
+      to_warehouse_name: warehouseMap.get(transfer.to_warehouse_id) || 'N/A',
+      item_count: transfer_items?.length || 0,
+      reversed_by: reversedBy.get(transfer.id) || null,
+    })));
+    setLoading(false);
+  };
+
+  const loadTransferItems = async (transferIds: string[]): Promise<TransferItemRow[]> => {
+    const [itemsRes, reagentsRes, consumablesRes] = await Promise.all([
+      supabase
+        .from('transfer_items')
+        .select('id, transfer_id, product_type, product_id, lot_number, expiry_date, batch_date, quantity, received_quantity, unit_price, total_price')
+        .in('transfer_id', transferIds)
+        .order('batch_date'),
+      supabase.from('reagents').select('id, code, name'),
+      supabase.from('consumables').select('id, code, name')
+    ]);
+
+    const reagentMap = new Map(reagentsRes.data?.map(r => [r.id, r]) || []);
+    const consumableMap = new Map(consumablesRes.data?.map(c => [c.id, c]) || []);
+
+    return (itemsRes.data || []).map(item => {
+      const product = item.product_type === 'reagent'
+        ? reagentMap.get(item.product_id)
+        : consumableMap.get(item.product_id);
+
+      return {
+        id: item.id,
+        transfer_id: item.transfer_id,
+        product_type: item.product_type,
+        product_code: product?.code || 'N/A',
+        product_name: product?.name || 'N/A',
+        lot_number: item.lot_number,
+        expiry_date: item.expiry_date,
+        batch_date: item.batch_date,
+        quantity: Number(item.quantity),
+        received_quantity: item.received_quantity === null ? null : Number(item.received_quantity),
+        unit_price: Number(item.unit_price),
+        total_price: Number(item.total_price),
+      };
+    });
+  };
+
+  const viewTransfer = async (transfer: TransferRow) => {
+    const items = await loadTransferItems([transfer.id]);
+    setSelectedTransfer(transfer);
+    setTransferItems(items);
+  };
+
+  const closeDetails = () => {
+    setSelectedTransfer(null);
+    setTransferItems([]);
+  };
+
+  const openReceive = async (transfer: TransferRow) => {
+    const items = await loadTransferItems([transfer.id]);
+
+    setReceiveTarget(transfer);
+    setTransferItems(items);
+    setReceivedQuantities(Object.fromEntries(items.map(item => [item.id, item.quantity])));
+    setReceiveDate(new Date().toISOString().split('T')[0]);
+    setReceiveNote('');
+  };
+
+  const closeReceive = () => {
+    setReceiveTarget(null);
+    setTransferItems([]);
+    setReceivedQuantities({});
+  };
+
+  const receiveTransfer = async () => {
+    if (!receiveTarget) return;
+
+    const invalid = transferItems.find(item => {
+      const received = receivedQuantities[item.id] ?? 0;
+      return received < 0 || received > item.quantity;
+    });
+    if (invalid) {
+      setAlertModal({
+        isOpen: true,
+        title: 'Xəta',
+        message: `${invalid.product_name} üçün qəbul edilən miqdar 0 ilə ${invalid.quantity.toFixed(2)} arasında olmalıdır`,
+        type: 'error',
+      });
+      return;
+    }
+
+    setLoading(true);
+
+    const { data: lossStockOutId, error } = await supabase.rpc('receive_transfer', {
+      p_transfer_id: receiveTarget.id,
+      p_date: receiveDate,
+      p_items: transferItems.map(item => ({
+        transfer_item_id: item.id,
+        received_quantity: receivedQuantities[item.id] ?? 0,
+      })),
+      p_note: receiveNote || null,
+    });
+
+    if (error) {
+      setAlertModal({
+        isOpen: true,
+        title: 'Xəta',
+        message: error.code === 'P0001' ? error.message : 'Transfer qəbul edilərkən xəta baş verdi',
+        type: 'error',
+      });
+      setLoading(false);
+      return;
+    }
+
+    setAlertModal({
+      isOpen: true,
+      title: 'Uğurlu',
+      message: lossStockOutId
+        ? 'Transfer qəbul edildi. Çatışmayan miqdar tranzit itkisi kimi qeydə alındı'
+        : 'Transfer tam qəbul edildi',
+      type: 'success',
+    });
+    closeReceive();
+    loadTransfers();
+  };
+
+  const openReverse = (transfer: TransferRow) => {
+    setReverseTarget(transfer);
+    setReverseDate(new Date().toISOString().split('T')[0]);
+  };
+
+  const reverseTransfer = async () => {
+    if (!reverseTarget) return;
+
+    setLoading(true);
+
+    const { error } = await supabase.rpc('reverse_transfer', {
+      p_transfer_id: reverseTarget.id,
+      p_date: reverseDate,
+    });
+
+    if (error) {
+      setAlertModal({
+        isOpen: true,
+        title: 'Xəta',
+        message: error.code === 'P0001' ? error.message : 'Transfer geri qaytarılarkən xəta baş verdi',
+        type: 'error',
+      });
+      setLoading(false);
+      return;
+    }
+
+    setAlertModal({
+      isOpen: true,
+      title: 'Uğurlu',
+      message: `Məhsullar ${reverseTarget.to_warehouse_name} anbarından ${reverseTarget.from_warehouse_name} anbarına geri göndərildi`,
+      type: 'success',
+    });
+    setReverseTarget(null);
+    loadTransfers();
+  };
+
+  const filteredTransfers = transfers.filter(transfer => {
+    if (fromWarehouseId && transfer.from_warehouse_id !== fromWarehouseId) return false;
+    if (toWarehouseId && transfer.to_warehouse_id !== toWarehouseId) return false;
+    if (startDate && transfer.date < startDate) return false;
+    if (endDate && transfer.date > endDate) return false;
+    return true;
+  });
+
+  const exportToExcel = async () => {
+    if (filteredTransfers.length === 0) return;
+
+    const items = await loadTransferItems(filteredTransfers.map(t => t.id));
+
+    const exportData = filteredTransfers.flatMap(transfer =>
+      items.filter(item => item.transfer_id === transfer.id).map(item => ({
+        'Transfer Tarixi': new Date(transfer.date).toLocaleDateString('az-AZ'),
+        'Göndərən Anbar': transfer.from_warehouse_name,
+        'Qəbul Edən Anbar': transfer.to_warehouse_name,
+        'Məhsul Kodu': item.product_code,
+        'Məhsul Adı': item.product_name,
+        'Tip': item.product_type === 'reagent' ? 'Reagent' : 'Sərfiyyat',
+        'Lot Nömrəsi': item.lot_number || '',
+        'Son İstifadə Tarixi': item.expiry_date ? new Date(item.expiry_date).toLocaleDateString('az-AZ') : '',
+        'Partiya Tarixi': new Date(item.batch_date).toLocaleDateString('az-AZ'),
+        'Göndərilən Miqdar': item.quantity,
+        'Qəbul Edilən Miqdar': item.received_quantity ?? '',
+        'Vahid Qiymət (₼)': item.unit_price,
+        'Məbləğ (₼)': item.total_price,
+        'Status': STATUS_LABELS[transfer.status],
+        'Qeyd': transfer.reversal_of ? 'Geri qaytarma' : transfer.reversed_by ? 'Geri qaytarılıb' : '',
+      }))
+    );
+
+    const ws = XLSX.utils.json_to_sheet(exportData);
+
+    ws['!cols'] = [
+      { wch: 14 },
+      { wch: 20 },
+      { wch: 20 },
+      { wch: 15 },
+      { wch: 30 },
+      { wch: 12 },
+      { wch: 15 },
+      { wch: 18 },
+      { wch: 14 },
+      { wch: 18 },
+      { wch: 20 },
+      { wch: 15 },
+      { wch: 15 },
+      { wch: 14 },
+      { wch: 16 },
+    ];
+
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, ws, 'Transferlər');
+
+    const fileName = `Transfer_Tarixcesi_${new Date().toISOString().split('T')[0]}.xlsx`;
+    XLSX.writeFile(wb, fileName, { bookType: 'xlsx', type: 'binary' });
+  };
+
+  const selectClassName = 'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="h-full p-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-6">
+          <h2 className="text-2xl font-semibold text-gray-900">Transfer Tarixçəsi</h2>
+          <p className="text-sm text-gray-500 mt-1">Anbarlar arası transferlər və onların geri qaytarılması</p>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+          <div className="p-6 border-b border-gray-200">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg font-semibold text-gray-900">Transfer siyahısı</h3>
+              {filteredTransfers.length > 0 && (
+                <button
+                  onClick={exportToExcel}
+                  className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+                >
+                  <Download className="w-4 h-4" />
+                  Excel
+                </button>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Göndərən anbar
+                </label>
+                <select
+                  value={fromWarehouseId}
+                  onChange={(e) => setFromWarehouseId(e.target.value)}
+                  className={selectClassName}
+                >
+                  <option value="">Hamısı</option>
+                  {warehouses.map(warehouse => (
+                    <option key={warehouse.id} value={warehouse.id}>{warehouse.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Qəbul edən anbar
+                </label>
+                <select
+                  value={toWarehouseId}
+                  onChange={(e) => setToWarehouseId(e.target.value)}
+                  className={selectClassName}
+                >
+                  <option value="">Hamısı</option>
+                  {warehouses.map(warehouse => (
+                    <option key={warehouse.id} value={warehouse.id}>{warehouse.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Başlanğıc tarix
+                </label>
+                <input
+                  type="date"
+                  value={startDate}
+                  onChange={(e) => setStartDate(e.target.value)}
+                  className={selectClassName}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Son tarix
+                </label>
+                <input
+                  type="date"
+                  value={endDate}
+                  onChange={(e) => setEndDate(e.target.value)}
+                  className={selectClassName}
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Tarix</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Göndərən</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Qəbul edən</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Məhsul sayı</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Məbləğ</th>
+                  <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase">Status</th>
+                  <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase">Əməliyyatlar</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {loading && transfers.length === 0 ? (
+                  <tr>
+                    <td colSpan={7} className="px-6 py-8 text-center text-gray-500">
+                      Yüklənir...
+                    </td>
+                  </tr>
+                ) : filteredTransfers.length === 0 ? (
+                  <tr>
+                    <td colSpan={7} className="px-6 py-8 text-center text-gray-500">
+                      {transfers.length > 0 ? 'Nəticə tapılmadı' : 'Hələ ki transfer yoxdur'}
+                    </td>
+                  </tr>
+                ) : (
+                  filteredTransfers.map((transfer) => (
+                    <tr key={transfer.id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 text-sm text-gray-600">
+                        {new Date(transfer.date).toLocaleDateString('az-AZ')}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-900">{transfer.from_warehouse_name}</td>
+                      <td className="px-6 py-4 text-sm text-gray-900">{transfer.to_warehouse_name}</td>
+                      <td className="px-6 py-4 text-sm text-right text-gray-600">{transfer.item_count}</td>
+                      <td className="px-6 py-4 text-sm text-right font-medium text-gray-900">
+                        {transfer.total_amount.toFixed(2)} ₼
+                      </td>
+                      <td className="px-6 py-4 text-center">
+                        <div className="flex flex-col items-center gap-1">
+                          <span className={`inline-flex px-2 py-1 text-xs font-medium rounded ${STATUS_CLASSES[transfer.status]}`}>
+                            {STATUS_LABELS[transfer.status]}
+                          </span>
+                          {transfer.reversal_of && (
+                            <span className="inline-flex px-2 py-1 text-xs font-medium rounded bg-orange-100 text-orange-700">
+                              Geri qaytarma
+                            </span>
+                          )}
+                          {transfer.reversed_by && (
+                            <span className="inline-flex px-2 py-1 text-xs font-medium rounded bg-red-100 text-red-700">
+                              Geri qaytarılıb
+                            </span>
+                          )}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4">
+                        <div className="flex items-center justify-center gap-2">
+                          <button
+                            onClick={() => viewTransfer(transfer)}
+                            className="p-1 text-blue-600 hover:bg-blue-50 rounded"
+                            title="Bax"
+                          >
+                            <Eye className="w-4 h-4" />
+                          </button>
+                          {transfer.status === 'in_transit' && canWriteWarehouse(transfer.to_warehouse_id) && (
+                            <button
+                              onClick={() => openReceive(transfer)}
+                              disabled={loading}
+                              className="p-1 text-green-600 hover:bg-green-50 rounded disabled:opacity-50"
+                              title="Qəbul et"
+                            >
+                              <PackageCheck className="w-4 h-4" />
+                            </button>
+                          )}
+                          {transfer.status === 'received' &&
+                            !transfer.reversal_of &&
+                            !transfer.reversed_by &&
+                            canWriteWarehouse(transfer.to_warehouse_id) && (
+                            <button
+                              onClick={() => openReverse(transfer)}
+                              disabled={loading}
+                              className="p-1 text-red-600 hover:bg-red-50 rounded disabled:opacity-50"
+                              title="Transferi geri qaytar"
+                            >
+                              <Undo2 className="w-4 h-4" />
+                            </button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        {selectedTransfer && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white rounded-lg shadow-xl max-w-5xl w-full max-h-[90vh] overflow-hidden">
+              <div className="p-6 border-b border-gray-200">
+                <h3 className="text-xl font-semibold text-gray-900">Transfer Detalları</h3>
+                <div className="mt-2 grid grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <span className="text-gray-500">Göndərən:</span>{' '}
+                    <span className="font-medium">{selectedTransfer.from_warehouse_name}</span>
+                  </div>
+                  <div>
+                    <span className="text-gray-500">Qəbul edən:</span>{' '}
+                    <span className="font-medium">{selectedTransfer.to_warehouse_name}</span>
+                  </div>
+                  <div>
+                    <span className="text-gray-500">Tarix:</span>{' '}
+                    <span className="font-medium">
+                      {new Date(selectedTransfer.date).toLocaleDateString('az-AZ')}
+                    </span>
+                  </div>
+                  <div>
+                    <span className="text-gray-500">Status:</span>{' '}
+                    <span className="font-medium">
+                      {STATUS_LABELS[selectedTransfer.status]}
+                      {selectedTransfer.reversal_of
+                        ? ' · Geri qaytarma transferi'
+                        : selectedTransfer.reversed_by
+                        ? ' · Geri qaytarılıb'
+                        : ''}
+                    </span>
+                  </div>
+                  {selectedTransfer.received_date && (
+                    <div>
+                      <span className="text-gray-500">Qəbul tarixi:</span>{' '}
+                      <span className="font-medium">
+                        {new Date(selectedTransfer.received_date).toLocaleDateString('az-AZ')}
+                      </span>
+                    </div>
+                  )}
+                  {selectedTransfer.receipt_note && (
+                    <div>
+                      <span className="text-gray-500">Qəbul qeydi:</span>{' '}
+                      <span className="font-medium">{selectedTransfer.receipt_note}</span>
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              <div className="p-6 overflow-auto max-h-[60vh]">
+                <table className="w-full">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Kod</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Məhsul</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Lot</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Son istifadə</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Partiya tarixi</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Göndərilib</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Qəbul edilib</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Vahid qiymət</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Ümumi</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {transferItems.map((item) => (
+                      <tr key={item.id}>
+                        <td className="px-4 py-3 text-sm font-mono text-gray-600">{item.product_code}</td>
+                        <td className="px-4 py-3 text-sm text-gray-900">{item.product_name}</td>
+                        <td className="px-4 py-3 text-sm font-mono text-gray-600">{item.lot_number || '-'}</td>
+                        <td className="px-4 py-3 text-sm text-gray-600">
+                          {item.expiry_date ? new Date(item.expiry_date).toLocaleDateString('az-AZ') : '-'}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-600">
+                          {new Date(item.batch_date).toLocaleDateString('az-AZ')}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-right text-gray-900">{item.quantity.toFixed(2)}</td>
+                        <td
+                          className={`px-4 py-3 text-sm text-right ${
+                            item.received_quantity !== null && item.received_quantity < item.quantity
+                              ? 'text-red-600 font-medium'
+                              : 'text-gray-900'
+                          }`}
+                        >
+                          {item.received_quantity !== null ? item.received_quantity.toFixed(2) : '-'}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-right text-gray-900">{item.unit_price.toFixed(2)} ₼</td>
+                        <td className="px-4 py-3 text-sm text-right font-medium text-gray-900">{item.total_price.toFixed(2)} ₼</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                  <tfoot className="bg-gray-50">
+                    <tr>
+                      <td colSpan={8} className="px-4 py-3 text-sm font-semibold text-gray-900">
+                        Ümumi məbləğ:
+                      </td>
+                      <td className="px-4 py-3 text-sm text-right font-semibold text-gray-900">
+                        {selectedTransfer.total_amount.toFixed(2)} ₼
+                      </td>
+                    </tr>
+                  </tfoot>
+                </table>
+              </div>
+
+              <div className="p-6 border-t border-gray-200 flex justify-end">
+                <button
+                  onClick={closeDetails}
+                  className="px-6 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700"
+                >
+                  Bağla
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {receiveTarget && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white rounded-lg shadow-xl max-w-4xl w-full max-h-[90vh] overflow-hidden">
+              <div className="p-6 border-b border-gray-200">
+                <h3 className="text-xl font-semibold text-gray-900">Transferi Qəbul Et</h3>
+                <p className="text-sm text-gray-500 mt-1">
+                  {receiveTarget.from_warehouse_name} → {receiveTarget.to_warehouse_name}. Faktiki gələn miqdarları daxil
+                  edin; çatışmayan miqdar tranzit itkisi kimi qeydə alınacaq.
+                </p>
+                <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Qəbul tarixi
+                    </label>
+                    <input
+                      type="date"
+                      value={receiveDate}
+                      min={receiveTarget.date}
+                      onChange={(e) => setReceiveDate(e.target.value)}
+                      className={selectClassName}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Qeyd
+                    </label>
+                    <input
+                      type="text"
+                      value={receiveNote}
+                      onChange={(e) => setReceiveNote(e.target.value)}
+                      placeholder="Məsələn: 2 qutu zədələnib"
+                      className={selectClassName}
+                    />
+                  </div>
+                </div>
+              </div>
+
+              <div className="p-6 overflow-auto max-h-[50vh]">
+                <table className="w-full">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Məhsul</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Lot</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Göndərilib</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Qəbul edilir</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Fərq</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {transferItems.map((item) => {
+                      const shortage = item.quantity - (receivedQuantities[item.id] ?? 0);
+                      return (
+                        <tr key={item.id}>
+                          <td className="px-4 py-3 text-sm text-gray-900">
+                            <div>{item.product_name}</div>
+                            <div className="text-xs font-mono text-gray-500">{item.product_code}</div>
+                          </td>
+                          <td className="px-4 py-3 text-sm font-mono text-gray-600">{item.lot_number || '-'}</td>
+                          <td className="px-4 py-3 text-sm text-right text-gray-900">{item.quantity.toFixed(2)}</td>
+                          <td className="px-4 py-3 text-right">
+                            <input
+                              type="number"
+                              min="0"
+                              max={item.quantity}
+                              step="0.01"
+                              value={receivedQuantities[item.id] ?? ''}
+                              onChange={(e) =>
+                                setReceivedQuantities({ ...receivedQuantities, [item.id]: parseFloat(e.target.value) || 0 })
+                              }
+                              className="w-28 px-2 py-1 text-sm text-right border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                            />
+                          </td>
+                          <td className={`px-4 py-3 text-sm text-right ${shortage > 0 ? 'text-red-600 font-medium' : 'text-gray-400'}`}>
+                            {shortage > 0 ? `-${shortage.toFixed(2)}` : '-'}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="p-6 border-t border-gray-200 flex justify-end gap-3">
+                <button
+                  onClick={closeReceive}
+                  className="px-6 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  Ləğv Et
+                </button>
+                <button
+                  onClick={receiveTransfer}
+                  disabled={loading}
+                  className="flex items-center gap-2 px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 transition-colors"
+                >
+                  <PackageCheck className="w-4 h-4" />
+                  Qəbul Et
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {reverseTarget && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white rounded-lg shadow-xl max-w-md w-full">
+              <div className="p-6 border-b border-gray-200">
+                <h3 className="text-xl font-semibold text-gray-900">Transferi Geri Qaytar</h3>
+                <p className="text-sm text-gray-500 mt-1">
+                  Qəbul edilmiş miqdarlar {reverseTarget.to_warehouse_name} anbarından {reverseTarget.from_warehouse_name}
+                  anbarına geri göndəriləcək. {reverseTarget.to_warehouse_name} anbarında kifayət qədər qalıq olmalıdır.
+                </p>
+              </div>
+              <div className="p-6">
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Geri qaytarma tarixi
+                </label>
+                <input
+                  type="date"
+                  value={reverseDate}
+                  min={reverseTarget.received_date || reverseTarget.date}
+                  onChange={(e) => setReverseDate(e.target.value)}
+                  className={selectClassName}
+                />
+              </div>
+              <div className="p-6 border-t border-gray-200 flex justify-end gap-3">
+                <button
+                  onClick={() => setReverseTarget(null)}
+                  className="px-6 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  Ləğv Et
+                </button>
+                <button
+                  onClick={reverseTransfer}
+                  disabled={loading}
+                  className="flex items-center gap-2 px-6 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50 transition-colors"
+                >
+                  <Undo2 className="w-4 h-4" />
+                  Geri Qaytar
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <Modal
+          isOpen={alertModal.isOpen}
+          onClose={() => setAlertModal({ ...alertModal, isOpen: false })}
+          title={alertModal.title}
+          message={alertModal.message}
+          type={alertModal.type}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,884 @@
+import { useState, useEffect } from 'react';
+import { Plus, Trash2, Save, Eye, CheckCircle, XCircle, ArrowLeftRight } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { stockKey } from '../lib/stockCalculations';
+import SearchableProductSelect from './SearchableProductSelect';
+import Modal from './Modal';
+import type {
+  Warehouse,
+  Reagent,
+  Consumable,
+  ProductType,
+  TransferRequest,
+  TransferRequestItem,
+  TransferRequestStatus,
+} from '../types/database';
+
+interface RequestRow {
+  id: string;
+  product_type: ProductType;
+  product_id: string;
+  requested_qty: number;
+}
+
+interface RequestListItem extends TransferRequest {
+  from_warehouse_name: string;
+  to_warehouse_name: string;
+  item_count: number;
+}
+
+interface RequestItemDetail extends TransferRequestItem {
+  product_code: string;
+  product_name: string;
+}
+
+type Direction = 'outgoing' | 'incoming';
+
+interface Props {
+  onCreateTransfer: (transferRequestId: string) => void;
+}
+
+const STATUS_LABELS: Record<TransferRequestStatus, string> = {
+  pending: 'Gözləyir',
+  approved: 'Təsdiqlənib',
+  rejected: 'Rədd edilib',
+  transferred: 'Transfer edilib',
+};
+
+const STATUS_CLASSES: Record<TransferRequestStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-700',
+  approved: 'bg-blue-100 text-blue-700',
+  rejected: 'bg-red-100 text-red-700',
+  transferred: 'bg-green-100 text-green-700',
+};
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+export default function TransferRequests({ onCreateTransfer }: Props) {
+  const { canWriteWarehouse } = useAuth();
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [reagents, setReagents] = useState<Reagent[]>([]);
+  const [consumables, setConsumables] = useState<Consumable[]>([]);
+  const [warehouseId, setWarehouseId] = useState('');
+  const [direction, setDirection] = useState<Direction>('outgoing');
+  const [statusFilter, setStatusFilter] = useState<'all' | TransferRequestStatus>('all');
+  const [requests, setRequests] = useState<RequestListItem[]>([]);
+  const [sourceWarehouseId, setSourceWarehouseId] = useState('');
+  const [requestDate, setRequestDate] = useState(new Date().toISOString().split('T')[0]);
+  const [neededBy, setNeededBy] = useState('');
+  const [note, setNote] = useState('');
+  const [rows, setRows] = useState<RequestRow[]>([]);
+  const [selectedRequest, setSelectedRequest] = useState<RequestListItem | null>(null);
+  const [requestItems, setRequestItems] = useState<RequestItemDetail[]>([]);
+  const [approveTarget, setApproveTarget] = useState<RequestListItem | null>(null);
+  const [approvedQuantities, setApprovedQuantities] = useState<Record<string, number>>({});
+  const [rejectTarget, setRejectTarget] = useState<RequestListItem | null>(null);
+  const [rejectionReason, setRejectionReason] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [modal, setModal] = useState<{ isOpen: boolean; title: string; message: string; type: 'success' | 'error' | 'info' }>({ isOpen: false, title: '', message: '', type: 'info' });
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  useEffect(() => {
+    if (warehouseId) {
+      loadRequests();
+    } else {
+      setRequests([]);
+    }
+    setSourceWarehouseId('');
+  }, [warehouseId]);
+
+  const loadData = async () => {
+    const [warehousesRes, reagentsRes, consumablesRes] = await Promise.all([
+      supabase.from('warehouses').select('*').order('name'),
+      supabase.from('reagents').select('*').order('code'),
+      supabase.from('consumables').select('*').order('code'),
+    ]);
+
+    if (warehousesRes.data) setWarehouses(warehousesRes.data);
+    if (reagentsRes.data) setReagents(reagentsRes.data);
+    if (consumablesRes.data) setConsumables(consumablesRes.data);
+  };
+
+  const loadRequests = async () => {
+    const [requestsRes, warehousesRes] = await Promise.all([
+      supabase
+        .from('transfer_requests')
+        .select('*, transfer_request_items(id)')
+        .or(`from_warehouse_id.eq.${warehouseId},to_warehouse_id.eq.${warehouseId}`)
+        .order('request_date', { ascending: false })
+        .order('created_at', { ascending: false }),
+      supabase.from('warehouses').select('id, name'),
+    ]);
+
+    if (!requestsRes.data) return;
+
+    const warehouseMap = new Map(warehousesRes.data?.map((w) => [w.id, w.name]) || []);
+
+    setRequests(
+      requestsRes.data.map(({ transfer_request_items, ...request }) => ({
+        ...request,
+        from_warehouse_name: warehouseMap.get(request.from_warehouse_id) || 'N/A',
+        to_warehouse_name: warehouseMap.get(request.to_warehouse_id) || 'N/A',
+        item_count: transfer_request_items?.length || 0,
+      }))
+    );
+  };
+
+  const addRow = () => {
+    setRows([
+      ...rows,
+      {
+        id: crypto.randomUUID(),
+        product_type: 'reagent',
+        product_id: '',
+        requested_qty: 0,
+      },
+    ]);
+  };
+
+  const updateRow = <K extends keyof RequestRow>(id: string, field: K, value: RequestRow[K]) => {
+    setRows(
+      rows.map((row) => {
+        if (row.id !== id) return row;
+        const updated = { ...row, [field]: value };
+        if (field === 'product_type') {
+          updated.product_id = '';
+        }
+        return updated;
+      })
+    );
+  };
+
+  const removeRow = (id: string) => {
+    setRows(rows.filter((row) => row.id !== id));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!warehouseId || !sourceWarehouseId || rows.length === 0) {
+      setModal({ isOpen: true, title: 'Xəta', message: 'Zəhmət olmasa bütün məlumatları doldurun', type: 'error' });
+      return;
+    }
+
+    if (rows.some((r) => !r.product_id || r.requested_qty <= 0)) {
+      setModal({ isOpen: true, title: 'Xəta', message: 'Bütün məhsul sətirləri düzgün doldurulmalıdır', type: 'error' });
+      return;
+    }
+
+    setLoading(true);
+
+    const { error } = await supabase.rpc('create_transfer_request', {
+      p_from_warehouse_id: sourceWarehouseId,
+      p_to_warehouse_id: warehouseId,
+      p_request_date: requestDate,
+      p_needed_by: neededBy || null,
+      p_note: note || null,
+      p_items: rows.map((row) => ({
+        product_type: row.product_type,
+        product_id: row.product_id,
+        requested_qty: row.requested_qty,
+      })),
+    });
+
+    if (error) {
+      setModal({
+        isOpen: true,
+        title: 'Xəta',
+        message: error.code === 'P0001' ? error.message : 'Sorğu yaradılarkən xəta baş verdi',
+        type: 'error',
+      });
+      setLoading(false);
+      return;
+    }
+
+    setModal({ isOpen: true, title: 'Uğurlu', message: 'Transfer sorğusu göndərildi', type: 'success' });
+    setNeededBy('');
+    setNote('');
+    setRows([]);
+    setLoading(false);
+    setDirection('outgoing');
+    loadRequests();
+  };
+
+  const loadRequestItems = async (request: RequestListItem) => {
+    const { data } = await supabase
+      .from('transfer_request_items')
+      .select('*')
+      .eq('request_id', request.id);
+
+    const productMap = new Map([
+      ...reagents.map((r) => [stockKey('reagent', r.id), r] as const),
+      ...consumables.map((c) => [stockKey('consumable', c.id), c] as const),
+    ]);
+
+    const items = (data || []).map((item) => {
+      const product = productMap.get(stockKey(item.product_type, item.product_id));
+      return {
+        ...item,
+        requested_qty: Number(item.requested_qty),
+        approved_qty: item.approved_qty === null ? null : Number(item.approved_qty),
+        product_code: product?.code || 'N/A',
+        product_name: product?.name || 'N/A',
+      };
+    });
+
+    items.sort((a, b) => a.product_code.localeCompare(b.product_code));
+    setRequestItems(items);
+    return items;
+  };
+
+  const viewRequest = async (request: RequestListItem) => {
+    await loadRequestItems(request);
+    setSelectedRequest(request);
+  };
+
+  const openApprove = async (request: RequestListItem) => {
+    const items = await loadRequestItems(request);
+    setApprovedQuantities(Object.fromEntries(items.map((item) => [item.id, item.requested_qty])));
+    setApproveTarget(request);
+  };
+
+  const closeApprove = () => {
+    setApproveTarget(null);
+    setApprovedQuantities({});
+    setRequestItems([]);
+  };
+
+  const approveRequest = async () => {
+    if (!approveTarget) return;
+
+    if (requestItems.some((item) => (approvedQuantities[item.id] ?? 0) < 0)) {
+      setModal({ isOpen: true, title: 'Xəta', message: 'Təsdiqlənən miqdar mənfi ola bilməz', type: 'error' });
+      return;
+    }
+
+    setLoading(true);
+
+    const { error } = await supabase.rpc('approve_transfer_request', {
+      p_request_id: approveTarget.id,
+      p_items: requestItems.map((item) => ({
+        item_id: item.id,
+        approved_qty: approvedQuantities[item.id] ?? 0,
+      })),
+    });
+
+    setLoading(false);
+
+    if (error) {
+      setModal({
+        isOpen: true,
+        title: 'Xəta',
+        message: error.code === 'P0001' ? error.message : 'Sorğu təsdiqlənərkən xəta baş verdi',
+        type: 'error',
+      });
+      return;
+    }
+
+    closeApprove();
+    setModal({
+      isOpen: true,
+      title: 'Uğurlu',
+      message: 'Sorğu təsdiqləndi. Transferi "Transfer yarat" düyməsi ilə göndərə bilərsiniz',
+      type: 'success',
+    });
+    loadRequests();
+  };
+
+  const closeReject = () => {
+    setRejectTarget(null);
+    setRejectionReason('');
+  };
+
+  const rejectRequest = async () => {
+    if (!rejectTarget) return;
+
+    if (!rejectionReason.trim()) {
+      setModal({ isOpen: true, title: 'Xəta', message: 'İmtina səbəbi daxil edilməlidir', type: 'error' });
+      return;
+    }
+
+    setLoading(true);
+
+    const { error } = await supabase.rpc('reject_transfer_request', {
+      p_request_id: rejectTarget.id,
+      p_reason: rejectionReason,
+    });
+
+    setLoading(false);
+
+    if (error) {
+      setModal({
+        isOpen: true,
+        title: 'Xəta',
+        message: error.code === 'P0001' ? error.message : 'Sorğu rədd edilərkən xəta baş verdi',
+        type: 'error',
+      });
+      return;
+    }
+
+    closeReject();
+    loadRequests();
+  };
+
+  const deleteRequest = async (request: RequestListItem) => {
+    if (!confirm(`${request.from_warehouse_name} anbarına göndərilən sorğunu silmək istədiyinizdən əminsiniz?`)) return;
+
+    const { error } = await supabase
+      .from('transfer_requests')
+      .delete()
+      .eq('id', request.id)
+      .eq('status', 'pending');
+
+    if (error) {
+      setModal({ isOpen: true, title: 'Xəta', message: 'Sorğu silinə bilmədi', type: 'error' });
+      return;
+    }
+
+    loadRequests();
+  };
+
+  const filteredRequests = requests.filter((request) => {
+    const matchesDirection = direction === 'outgoing'
+      ? request.to_warehouse_id === warehouseId
+      : request.from_warehouse_id === warehouseId;
+    return matchesDirection && (statusFilter === 'all' || request.status === statusFilter);
+  });
+
+  const pendingIncomingCount = requests.filter(
+    (request) => request.from_warehouse_id === warehouseId && request.status === 'pending'
+  ).length;
+
+  return (
+    <div className="h-full p-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-6">
+          <h2 className="text-2xl font-semibold text-gray-900">Transfer Sorğuları</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Anbarların digər anbardan məhsul sorğusu, sorğunun təsdiqi və transferə çevrilməsi
+          </p>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-6">
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Anbar
+          </label>
+          <select
+            value={warehouseId}
+            onChange={(e) => setWarehouseId(e.target.value)}
+            className={`${inputClassName} md:w-1/3`}
+          >
+            <option value="">Anbar seçin</option>
+            {warehouses.filter((w) => canWriteWarehouse(w.id)).map((w) => (
+              <option key={w.id} value={w.id}>
+                [{w.code}] {w.name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {warehouseId && (
+          <>
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                <h3 className="text-lg font-semibold text-gray-900 mb-4">Yeni sorğu</h3>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Göndərən anbar
+                    </label>
+                    <select
+                      value={sourceWarehouseId}
+                      onChange={(e) => setSourceWarehouseId(e.target.value)}
+                      className={inputClassName}
+                      required
+                    >
+                      <option value="">Anbar seçin</option>
+                      {warehouses
+                        .filter((w) => w.id !== warehouseId)
+                        .map((w) => (
+                          <option key={w.id} value={w.id}>
+                            [{w.code}] {w.name}
+                          </option>
+                        ))}
+                    </select>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Sorğu tarixi
+                    </label>
+                    <input
+                      type="date"
+                      value={requestDate}
+                      onChange={(e) => setRequestDate(e.target.value)}
+                      className={inputClassName}
+                      required
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Lazım olan tarix
+                    </label>
+                    <input
+                      type="date"
+                      value={neededBy}
+                      min={requestDate}
+                      onChange={(e) => setNeededBy(e.target.value)}
+                      className={inputClassName}
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Qeyd
+                    </label>
+                    <input
+                      type="text"
+                      value={note}
+                      onChange={(e) => setNote(e.target.value)}
+                      className={inputClassName}
+                    />
+                  </div>
+                </div>
+              </div>
+
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+                <div className="p-6 border-b border-gray-200 flex justify-between items-center">
+                  <h3 className="text-lg font-semibold text-gray-900">Sorğu sətirləri</h3>
+                  <button
+                    type="button"
+                    onClick={addRow}
+                    className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                  >
+                    <Plus className="w-4 h-4" />
+                    Sətir əlavə et
+                  </button>
+                </div>
+
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead className="bg-gray-50 border-b border-gray-200">
+                      <tr>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Tip</th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Məhsul</th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Miqdar</th>
+                        <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase">Əməliyyat</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {rows.map((row) => (
+                        <tr key={row.id}>
+                          <td className="px-4 py-3">
+                            <select
+                              value={row.product_type}
+                              onChange={(e) => updateRow(row.id, 'product_type', e.target.value as ProductType)}
+                              className="px-2 py-1 border border-gray-300 rounded text-sm"
+                            >
+                              <option value="reagent">Reagent</option>
+                              <option value="consumable">Sərfiyyat</option>
+                            </select>
+                          </td>
+                          <td className="px-4 py-3">
+                            <SearchableProductSelect
+                              products={row.product_type === 'reagent' ? reagents : consumables}
+                              value={row.product_id}
+                              onChange={(productId) => updateRow(row.id, 'product_id', productId)}
+                              productType={row.product_type}
+                              placeholder="Məhsul seçin"
+                            />
+                          </td>
+                          <td className="px-4 py-3">
+                            <input
+                              type="number"
+                              value={row.requested_qty || ''}
+                              onChange={(e) => updateRow(row.id, 'requested_qty', Number(e.target.value))}
+                              className="w-24 px-2 py-1 border border-gray-300 rounded text-sm"
+                              min="0"
+                              step="0.01"
+                            />
+                          </td>
+                          <td className="px-4 py-3 text-center">
+                            <button
+                              type="button"
+                              onClick={() => removeRow(row.id)}
+                              className="p-1 text-red-600 hover:bg-red-50 rounded"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                      {rows.length === 0 && (
+                        <tr>
+                          <td colSpan={4} className="px-4 py-8 text-center text-gray-500">
+                            Məhsul əlavə etmək üçün "Sətir əlavə et" düyməsini klikləyin
+                          </td>
+                        </tr>
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+
+                {rows.length > 0 && (
+                  <div className="p-6 border-t border-gray-200 bg-gray-50 flex justify-end">
+                    <button
+                      type="submit"
+                      disabled={loading}
+                      className="flex items-center gap-2 px-6 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 transition-colors"
+                    >
+                      <Save className="w-4 h-4" />
+                      Sorğunu göndər
+                    </button>
+                  </div>
+                )}
+              </div>
+            </form>
+
+            <div className="mt-6 bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+              <div className="p-6 border-b border-gray-200 flex flex-wrap justify-between items-center gap-4">
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => setDirection('outgoing')}
+                    className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                      direction === 'outgoing' ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    Göndərilən sorğular
+                  </button>
+                  <button
+                    onClick={() => setDirection('incoming')}
+                    className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                      direction === 'incoming' ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    Daxil olan sorğular
+                    {pendingIncomingCount > 0 && (
+                      <span className="ml-2 inline-flex px-2 text-xs rounded-full bg-yellow-100 text-yellow-700">
+                        {pendingIncomingCount}
+                      </span>
+                    )}
+                  </button>
+                </div>
+                <select
+                  value={statusFilter}
+                  onChange={(e) => setStatusFilter(e.target.value as 'all' | TransferRequestStatus)}
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="all">Bütün statuslar</option>
+                  {(Object.keys(STATUS_LABELS) as TransferRequestStatus[]).map((status) => (
+                    <option key={status} value={status}>
+                      {STATUS_LABELS[status]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-gray-50 border-b border-gray-200">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Tarix</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                        {direction === 'outgoing' ? 'Göndərən anbar' : 'Sorğu edən anbar'}
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Lazım olan tarix</th>
+                      <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Sətir</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Qeyd</th>
+                      <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase">Status</th>
+                      <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase">Əməliyyat</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {filteredRequests.map((request) => (
+                      <tr key={request.id} className="hover:bg-gray-50">
+                        <td className="px-4 py-3 text-sm text-gray-600">
+                          {new Date(request.request_date).toLocaleDateString('az-AZ')}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-900">
+                          {direction === 'outgoing' ? request.from_warehouse_name : request.to_warehouse_name}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-600">
+                          {request.needed_by ? new Date(request.needed_by).toLocaleDateString('az-AZ') : '-'}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-right text-gray-900">{request.item_count}</td>
+                        <td className="px-4 py-3 text-sm text-gray-600">
+                          {request.status === 'rejected' ? request.rejection_reason : request.note || '-'}
+                        </td>
+                        <td className="px-4 py-3 text-center">
+                          <span className={`inline-flex px-2 py-1 text-xs font-medium rounded ${STATUS_CLASSES[request.status]}`}>
+                            {STATUS_LABELS[request.status]}
+                          </span>
+                        </td>
+                        <td className="px-4 py-3">
+                          <div className="flex justify-center gap-2">
+                            <button
+                              onClick={() => viewRequest(request)}
+                              className="p-1 text-gray-600 hover:bg-gray-100 rounded"
+                              title="Bax"
+                            >
+                              <Eye className="w-4 h-4" />
+                            </button>
+                            {direction === 'outgoing' && request.status === 'pending' && (
+                              <button
+                                onClick={() => deleteRequest(request)}
+                                className="p-1 text-red-600 hover:bg-red-50 rounded"
+                                title="Sil"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </button>
+                            )}
+                            {direction === 'incoming' && request.status === 'pending' && (
+                              <button
+                                onClick={() => openApprove(request)}
+                                className="p-1 text-green-600 hover:bg-green-50 rounded"
+                                title="Təsdiqlə"
+                              >
+                                <CheckCircle className="w-4 h-4" />
+                              </button>
+                            )}
+                            {direction === 'incoming' && request.status === 'approved' && (
+                              <button
+                                onClick={() => onCreateTransfer(request.id)}
+                                className="p-1 text-blue-600 hover:bg-blue-50 rounded"
+                                title="Transfer yarat"
+                              >
+                                <ArrowLeftRight className="w-4 h-4" />
+                              </button>
+                            )}
+                            {direction === 'incoming' && (request.status === 'pending' || request.status === 'approved') && (
+                              <button
+                                onClick={() => setRejectTarget(request)}
+                                className="p-1 text-red-600 hover:bg-red-50 rounded"
+                                title="Rədd et"
+                              >
+                                <XCircle className="w-4 h-4" />
+                              </button>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                    {filteredRequests.length === 0 && (
+                      <tr>
+                        <td colSpan={7} className="px-4 py-8 text-center text-gray-500">
+                          Sorğu tapılmadı
+                        </td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+
+      {selectedRequest && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-4xl w-full max-h-[90vh] overflow-hidden">
+            <div className="p-6 border-b border-gray-200">
+              <h3 className="text-xl font-semibold text-gray-900">Sorğu Detalları</h3>
+              <div className="mt-2 grid grid-cols-2 gap-4 text-sm">
+                <div>
+                  <span className="text-gray-500">Sorğu edən:</span>{' '}
+                  <span className="font-medium">{selectedRequest.to_warehouse_name}</span>
+                </div>
+                <div>
+                  <span className="text-gray-500">Göndərən:</span>{' '}
+                  <span className="font-medium">{selectedRequest.from_warehouse_name}</span>
+                </div>
+                <div>
+                  <span className="text-gray-500">Tarix:</span>{' '}
+                  <span className="font-medium">
+                    {new Date(selectedRequest.request_date).toLocaleDateString('az-AZ')}
+                  </span>
+                </div>
+                <div>
+                  <span className="text-gray-500">Status:</span>{' '}
+                  <span className="font-medium">{STATUS_LABELS[selectedRequest.status]}</span>
+                </div>
+                {selectedRequest.note && (
+                  <div className="col-span-2">
+                    <span className="text-gray-500">Qeyd:</span>{' '}
+                    <span className="font-medium">{selectedRequest.note}</span>
+                  </div>
+                )}
+                {selectedRequest.rejection_reason && (
+                  <div className="col-span-2">
+                    <span className="text-gray-500">İmtina səbəbi:</span>{' '}
+                    <span className="font-medium text-red-600">{selectedRequest.rejection_reason}</span>
+                  </div>
+                )}
+              </div>
+            </div>
+
+            <div className="p-6 overflow-auto max-h-[60vh]">
+              <table className="w-full">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Kod</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Məhsul</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Sorğu</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Təsdiqlənib</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {requestItems.map((item) => (
+                    <tr key={item.id}>
+                      <td className="px-4 py-3 text-sm font-mono text-gray-900">{item.product_code}</td>
+                      <td className="px-4 py-3 text-sm text-gray-900">{item.product_name}</td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-900">{item.requested_qty.toFixed(2)}</td>
+                      <td
+                        className={`px-4 py-3 text-sm text-right ${
+                          item.approved_qty !== null && item.approved_qty < item.requested_qty
+                            ? 'text-orange-600 font-medium'
+                            : 'text-gray-900'
+                        }`}
+                      >
+                        {item.approved_qty !== null ? item.approved_qty.toFixed(2) : '-'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="p-6 border-t border-gray-200 flex justify-end">
+              <button
+                onClick={() => {
+                  setSelectedRequest(null);
+                  setRequestItems([]);
+                }}
+                className="px-6 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700"
+              >
+                Bağla
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {approveTarget && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-4xl w-full max-h-[90vh] overflow-hidden">
+            <div className="p-6 border-b border-gray-200">
+              <h3 className="text-xl font-semibold text-gray-900">Sorğunu Təsdiqlə</h3>
+              <p className="text-sm text-gray-500 mt-1">
+                {approveTarget.to_warehouse_name} anbarının sorğusu. Göndəriləcək miqdarları dəyişə bilərsiniz; 0 yazılan
+                məhsul göndərilməyəcək.
+              </p>
+            </div>
+
+            <div className="p-6 overflow-auto max-h-[50vh]">
+              <table className="w-full">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Məhsul</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Sorğu</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Təsdiqlənir</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {requestItems.map((item) => (
+                    <tr key={item.id}>
+                      <td className="px-4 py-3 text-sm text-gray-900">
+                        <div>{item.product_name}</div>
+                        <div className="text-xs font-mono text-gray-500">{item.product_code}</div>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-900">{item.requested_qty.toFixed(2)}</td>
+                      <td className="px-4 py-3 text-right">
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={approvedQuantities[item.id] ?? ''}
+                          onChange={(e) =>
+                            setApprovedQuantities({ ...approvedQuantities, [item.id]: parseFloat(e.target.value) || 0 })
+                          }
+                          className="w-28 px-2 py-1 text-sm text-right border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="p-6 border-t border-gray-200 flex justify-end gap-3">
+              <button
+                onClick={closeApprove}
+                className="px-6 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                Ləğv Et
+              </button>
+              <button
+                onClick={approveRequest}
+                disabled={loading}
+                className="flex items-center gap-2 px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 transition-colors"
+              >
+                <CheckCircle className="w-4 h-4" />
+                Təsdiqlə
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {rejectTarget && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-md w-full">
+            <div className="p-6 border-b border-gray-200">
+              <h3 className="text-xl font-semibold text-gray-900">Sorğunu Rədd Et</h3>
+              <p className="text-sm text-gray-500 mt-1">
+                {rejectTarget.to_warehouse_name} anbarının sorğusu rədd ediləcək.
+              </p>
+            </div>
+            <div className="p-6">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                İmtina səbəbi
+              </label>
+              <textarea
+                value={rejectionReason}
+                onChange={(e) => setRejectionReason(e.target.value)}
+                rows={3}
+                className={inputClassName}
+              />
+            </div>
+            <div className="p-6 border-t border-gray-200 flex justify-end gap-3">
+              <button
+                onClick={closeReject}
+                className="px-6 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                Ləğv Et
+              </button>
+              <button
+                onClick={rejectRequest}
+                disabled={loading}
+                className="flex items-center gap-2 px-6 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50 transition-colors"
+              >
+                <XCircle className="w-4 h-4" />
+                Rədd Et
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <Modal
+        isOpen={modal.isOpen}
+        onClose={() => setModal({ ...modal, isOpen: false })}
+        title={modal.title}
+        message={modal.message}
+        type={modal.type}
+      />
+    </div>
+  );
+}
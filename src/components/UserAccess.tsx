@@ -0,0 +1,256 @@
+import { useState, useEffect } from 'react';
+import { Pencil, Save } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { ROLE_LABELS } from '../lib/permissions';
+import { useAuth } from '../contexts/AuthContext';
+import Modal from './Modal';
+import type { Warehouse, UserRole, UserRoleAssignment } from '../types/database';
+
+interface UserRow extends UserRoleAssignment {
+  warehouse_ids: string[];
+}
+
+const ROLE_CLASSES: Record<UserRole, string> = {
+  admin: 'bg-purple-100 text-purple-700',
+  storekeeper: 'bg-blue-100 text-blue-700',
+  auditor: 'bg-orange-100 text-orange-700',
+  read_only: 'bg-gray-100 text-gray-700',
+};
+
+export default function UserAccess() {
+  const { user, can } = useAuth();
+  const [users, setUsers] = useState<UserRow[]>([]);
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [editingUser, setEditingUser] = useState<UserRow | null>(null);
+  const [role, setRole] = useState<UserRole>('read_only');
+  const [warehouseIds, setWarehouseIds] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [modal, setModal] = useState<{ isOpen: boolean; title: string; message: string; type: 'success' | 'error' | 'info' }>({ isOpen: false, title: '', message: '', type: 'info' });
+
+  const canManage = can('manage_users');
+
+  useEffect(() => {
+    loadUsers();
+  }, []);
+
+  const loadUsers = async () => {
+    const [rolesRes, assignmentsRes, warehousesRes] = await Promise.all([
+      supabase.from('user_roles').select('*').order('email'),
+      supabase.from('user_warehouses').select('user_id, warehouse_id'),
+      supabase.from('warehouses').select('*').order('name'),
+    ]);
+
+    if (warehousesRes.data) setWarehouses(warehousesRes.data);
+    if (!rolesRes.data) return;
+
+    const assignments = new Map<string, string[]>();
+    for (const assignment of assignmentsRes.data || []) {
+      assignments.set(assignment.user_id, [...(assignments.get(assignment.user_id) || []), assignment.warehouse_id]);
+    }
+
+    setUsers(
+      rolesRes.data.map((row) => ({
+        ...row,
+        warehouse_ids: assignments.get(row.user_id) || [],
+      }))
+    );
+  };
+
+  const openEdit = (row: UserRow) => {
+    setEditingUser(row);
+    setRole(row.role);
+    setWarehouseIds(row.warehouse_ids);
+  };
+
+  const closeEdit = () => {
+    setEditingUser(null);
+    setWarehouseIds([]);
+  };
+
+  const toggleWarehouse = (warehouseId: string) => {
+    setWarehouseIds(
+      warehouseIds.includes(warehouseId)
+        ? warehouseIds.filter((id) => id !== warehouseId)
+        : [...warehouseIds, warehouseId]
+    );
+  };
+
+  const saveAccess = async () => {
+    if (!editingUser) return;
+
+    if (role === 'storekeeper' && warehouseIds.length === 0) {
+      setModal({ isOpen: true, title: 'Xəta', message: 'Anbardar üçün ən azı bir anbar seçilməlidir', type: 'error' });
+      return;
+    }
+
+    setLoading(true);
+
+    const { error } = await supabase.rpc('set_user_access', {
+      p_user_id: editingUser.user_id,
+      p_role: role,
+      p_warehouse_ids: role === 'storekeeper' ? warehouseIds : [],
+    });
+
+    setLoading(false);
+
+    if (error) {
+      setModal({
+        isOpen: true,
+        title: 'Xəta',
+        message: error.code === 'P0001' ? error.message : 'İcazələr yadda saxlanılarkən xəta baş verdi',
+        type: 'error',
+      });
+      return;
+    }
+
+    closeEdit();
+    setModal({ isOpen: true, title: 'Uğurlu', message: 'İcazələr yeniləndi', type: 'success' });
+    loadUsers();
+  };
+
+  const warehouseName = (id: string) => warehouses.find((w) => w.id === id)?.name || 'N/A';
+
+  return (
+    <div className="h-full p-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-6">
+          <h2 className="text-2xl font-semibold text-gray-900">İstifadəçilər</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            İstifadəçi rolları və anbardarların işləyə biləcəyi anbarlar
+          </p>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">E-poçt</th>
+                  <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase">Rol</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Anbarlar</th>
+                  {canManage && (
+                    <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase">Əməliyyat</th>
+                  )}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {users.map((row) => (
+                  <tr key={row.user_id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 text-sm text-gray-900">
+                      {row.email || row.user_id}
+                      {row.user_id === user?.id && <span className="ml-2 text-xs text-gray-500">(siz)</span>}
+                    </td>
+                    <td className="px-4 py-3 text-center">
+                      <span className={`inline-flex px-2 py-1 text-xs font-medium rounded ${ROLE_CLASSES[row.role]}`}>
+                        {ROLE_LABELS[row.role]}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-600">
+                      {row.role === 'admin'
+                        ? 'Bütün anbarlar'
+                        : row.role === 'storekeeper'
+                          ? row.warehouse_ids.map(warehouseName).join(', ') || '-'
+                          : '-'}
+                    </td>
+                    {canManage && (
+                      <td className="px-4 py-3 text-center">
+                        <button
+                          onClick={() => openEdit(row)}
+                          className="p-1 text-blue-600 hover:bg-blue-50 rounded"
+                          title="Redaktə et"
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </button>
+                      </td>
+                    )}
+                  </tr>
+                ))}
+                {users.length === 0 && (
+                  <tr>
+                    <td colSpan={canManage ? 4 : 3} className="px-4 py-8 text-center text-gray-500">
+                      İstifadəçi tapılmadı
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+
+      {editingUser && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-md w-full">
+            <div className="p-6 border-b border-gray-200">
+              <h3 className="text-xl font-semibold text-gray-900">İcazələr</h3>
+              <p className="text-sm text-gray-500 mt-1">{editingUser.email || editingUser.user_id}</p>
+            </div>
+            <div className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Rol
+                </label>
+                <select
+                  value={role}
+                  onChange={(e) => setRole(e.target.value as UserRole)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {(Object.keys(ROLE_LABELS) as UserRole[]).map((value) => (
+                    <option key={value} value={value}>
+                      {ROLE_LABELS[value]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {role === 'storekeeper' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Anbarlar
+                  </label>
+                  <div className="max-h-60 overflow-auto border border-gray-200 rounded-lg divide-y divide-gray-100">
+                    {warehouses.map((w) => (
+                      <label key={w.id} className="flex items-center gap-2 px-3 py-2 text-sm text-gray-700 hover:bg-gray-50">
+                        <input
+                          type="checkbox"
+                          checked={warehouseIds.includes(w.id)}
+                          onChange={() => toggleWarehouse(w.id)}
+                          className="w-4 h-4 text-blue-600 rounded"
+                        />
+                        [{w.code}] {w.name}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+            <div className="p-6 border-t border-gray-200 flex justify-end gap-3">
+              <button
+                onClick={closeEdit}
+                className="px-6 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                Ləğv Et
+              </button>
+              <button
+                onClick={saveAccess}
+                disabled={loading}
+                className="flex items-center gap-2 px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 transition-colors"
+              >
+                <Save className="w-4 h-4" />
+                Yadda Saxla
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <Modal
+        isOpen={modal.isOpen}
+        onClose={() => setModal({ ...modal, isOpen: false })}
+        title={modal.title}
+        message={modal.message}
+        type={modal.type}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,421 @@
+import { useState, useEffect } from 'react';
+import { Save, Search } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { calculateWarehouseStock, stockKey } from '../lib/stockCalculations';
+import { defaultUnitFactor, unitOptions } from '../lib/units';
+import type { UnitOption } from '../lib/units';
+import type { Warehouse, StockBatch } from '../types/database';
+import Modal from './Modal';
+
+interface ConsumptionRow extends StockBatch {
+  selected: boolean;
+  base_unit: string;
+  unit_options: UnitOption[];
+  // Base units in the unit consumption_quantity is entered in
+  unit_factor: number;
+  consumption_quantity: number;
+}
+
+export default function WarehouseConsumption() {
+  const { canWriteWarehouse } = useAuth();
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [selectedWarehouse, setSelectedWarehouse] = useState('');
+  const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
+  const [availableStock, setAvailableStock] = useState<ConsumptionRow[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [modal, setModal] = useState<{ isOpen: boolean; title: string; message: string; type: 'success' | 'error' | 'info' }>({ isOpen: false, title: '', message: '', type: 'info' });
+
+  useEffect(() => {
+    loadWarehouses();
+  }, []);
+
+  useEffect(() => {
+    if (selectedWarehouse) {
+      loadWarehouseStock();
+    } else {
+      setAvailableStock([]);
+    }
+  }, [selectedWarehouse]);
+
+  const loadWarehouses = async () => {
+    const { data } = await supabase.from('warehouses').select('*').order('name');
+    if (data) setWarehouses(data);
+  };
+
+  const loadWarehouseStock = async () => {
+    setLoading(true);
+
+    let loaded;
+    try {
+      loaded = await Promise.all([
+        supabase.from('reagents').select('id, code, name, base_unit, issue_unit, issue_factor').order('code'),
+        supabase.from('consumables').select('id, code, name, base_unit, issue_unit, issue_factor').order('code'),
+        calculateWarehouseStock(selectedWarehouse)
+      ]);
+    } catch {
+      setAvailableStock([]);
+      setModal({ isOpen: true, title: 'Xəta', message: 'Stok yüklənərkən xəta baş verdi', type: 'error' });
+      setLoading(false);
+      return;
+    }
+
+    const [reagentsRes, consumablesRes, stockByProduct] = loaded;
+
+    const { data: reagents } = reagentsRes;
+    const { data: consumables } = consumablesRes;
+
+    const allProducts = [
+      ...(reagents || []).map((r) => ({ ...r, type: 'reagent' as const })),
+      ...(consumables || []).map((c) => ({ ...c, type: 'consumable' as const })),
+    ];
+
+    const stockItems: ConsumptionRow[] = [];
+
+    for (const product of allProducts) {
+      const stock = stockByProduct.get(stockKey(product.type, product.id));
+      if (!stock) continue;
+
+      for (const batch of stock.batches) {
+        stockItems.push({
+          product_id: product.id,
+          product_code: product.code,
+          product_name: product.name,
+          product_type: product.type,
+          batch_id: batch.batch_id,
+          batch_date: batch.batch_date,
+          lot_number: batch.lot_number,
+          expiry_date: batch.expiry_date,
+          supplier: batch.supplier || '',
+          quantity: batch.quantity,
+          unit_price: batch.unit_price,
+          total_price: batch.total_price,
+          selected: false,
+          base_unit: product.base_unit,
+          unit_options: unitOptions(product, 'issue'),
+          unit_factor: defaultUnitFactor(product, 'issue'),
+          consumption_quantity: 0,
+        });
+      }
+    }
+
+    setAvailableStock(stockItems.sort((a, b) => a.product_code.localeCompare(b.product_code)));
+    setLoading(false);
+  };
+
+  const toggleSelection = (index: number) => {
+    setAvailableStock(
+      availableStock.map((item, i) =>
+        i === index ? { ...item, selected: !item.selected, consumption_quantity: 0 } : item
+      )
+    );
+  };
+
+  const updateConsumptionQuantity = (index: number, quantity: number) => {
+    setAvailableStock(
+      availableStock.map((item, i) =>
+        i === index ? { ...item, consumption_quantity: Math.min(quantity, item.quantity / item.unit_factor) } : item
+      )
+    );
+  };
+
+  const updateConsumptionUnit = (index: number, unitFactor: number) => {
+    setAvailableStock(
+      availableStock.map((item, i) =>
+        i === index
+          ? {
+              ...item,
+              unit_factor: unitFactor,
+              consumption_quantity: Math.min(item.consumption_quantity, item.quantity / unitFactor),
+            }
+          : item
+      )
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const selectedItems = availableStock.filter((item) => item.selected && item.consumption_quantity > 0);
+
+    if (!selectedWarehouse || selectedItems.length === 0) {
+      setModal({ isOpen: true, title: 'Xəta', message: 'Zəhmət olmasa anbar seçin və ən azı bir məhsul üçün miqdar daxil edin', type: 'error' });
+      return;
+    }
+
+    for (const item of selectedItems) {
+      if (item.consumption_quantity * item.unit_factor > item.quantity) {
+        setModal({ isOpen: true, title: 'Xəta', message: `${item.product_name} üçün sərfiyyat miqdarı mövcud stokdan çoxdur (Mövcud: ${item.quantity.toFixed(2)} ${item.base_unit})`, type: 'error' });
+        return;
+      }
+
+      if (item.consumption_quantity <= 0) {
+        setModal({ isOpen: true, title: 'Xəta', message: `${item.product_name} üçün sərfiyyat miqdarı 0-dan böyük olmalıdır`, type: 'error' });
+        return;
+      }
+    }
+
+    setLoading(true);
+
+    const { error } = await supabase.rpc('post_stock_out', {
+      p_warehouse_id: selectedWarehouse,
+      p_date: date,
+      p_reason: 'consumption',
+      p_items: selectedItems.map((item) => ({
+        batch_id: item.batch_id,
+        quantity: item.consumption_quantity * item.unit_factor,
+      })),
+    });
+
+    if (error) {
+      setModal({
+        isOpen: true,
+        title: 'Xəta',
+        message: error.code === 'P0001' ? error.message : 'Sərfiyyat yaradılarkən xəta baş verdi',
+        type: 'error',
+      });
+      setLoading(false);
+      return;
+    }
+
+    setModal({ isOpen: true, title: 'Uğurlu', message: 'Sərfiyyat uğurla qeydə alındı', type: 'success' });
+    setSearchTerm('');
+    await loadWarehouseStock();
+  };
+
+  const filteredStock = availableStock.filter(
+    (stock) =>
+      stock.product_code.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      stock.product_name.toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  const selectedItems = availableStock.filter((item) => item.selected && item.consumption_quantity > 0);
+  const totalConsumptionAmount = selectedItems.reduce(
+    (sum, item) => sum + item.consumption_quantity * item.unit_factor * item.unit_price,
+    0
+  );
+
+  return (
+    <div className="h-full p-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-6">
+          <h2 className="text-2xl font-semibold text-gray-900">Sərfiyyat</h2>
+          <p className="text-sm text-gray-500 mt-1">Gündəlik istifadə olunan məhsulları anbardan silin</p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Sərfiyyat məlumatları</h3>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Anbar
+                </label>
+                <select
+                  value={selectedWarehouse}
+                  onChange={(e) => setSelectedWarehouse(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  required
+                >
+                  <option value="">Seçin</option>
+                  {warehouses.filter((w) => canWriteWarehouse(w.id)).map((w) => (
+                    <option key={w.id} value={w.id}>
+                      [{w.code}] {w.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Sərfiyyat tarixi
+                </label>
+                <input
+                  type="date"
+                  value={date}
+                  onChange={(e) => setDate(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  required
+                />
+              </div>
+            </div>
+          </div>
+
+          {selectedWarehouse && (
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+              <div className="p-6 border-b border-gray-200">
+                <div className="mb-4">
+                  <h3 className="text-lg font-semibold text-gray-900">Mövcud partiyalar</h3>
+                  <p className="text-sm text-gray-500 mt-1">
+                    Sərf olunan partiyanı seçin və miqdarı daxil edin
+                  </p>
+                </div>
+
+                <div className="relative">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
+                  <input
+                    type="text"
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                    placeholder="Kod və ya ad ilə axtar..."
+                    className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-gray-50 border-b border-gray-200">
+                    <tr>
+                      <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase">
+                        Seç
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                        Kod
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                        Ad
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                        Partiya
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                        Lot
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                        Son istifadə
+                      </th>
+                      <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                        Mövcud
+                      </th>
+                      <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                        Vahid qiymət
+                      </th>
+                      <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                        Sərfiyyat miqdarı
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {loading ? (
+                      <tr>
+                        <td colSpan={9} className="px-4 py-8 text-center text-gray-500">
+                          Yüklənir...
+                        </td>
+                      </tr>
+                    ) : filteredStock.length === 0 ? (
+                      <tr>
+                        <td colSpan={9} className="px-4 py-8 text-center text-gray-500">
+                          {searchTerm ? 'Nəticə tapılmadı' : 'Bu anbarda məhsul yoxdur'}
+                        </td>
+                      </tr>
+                    ) : (
+                      filteredStock.map((item) => {
+                        const originalIndex = availableStock.findIndex(
+                          (s) => s.batch_id === item.batch_id
+                        );
+                        return (
+                          <tr key={originalIndex} className="hover:bg-gray-50">
+                            <td className="px-4 py-3 text-center">
+                              <input
+                                type="checkbox"
+                                checked={item.selected}
+                                onChange={() => toggleSelection(originalIndex)}
+                                className="w-4 h-4 text-blue-600 rounded"
+                              />
+                            </td>
+                            <td className="px-4 py-3 text-sm font-mono text-gray-900">
+                              {item.product_code}
+                            </td>
+                            <td className="px-4 py-3 text-sm text-gray-900">{item.product_name}</td>
+                            <td className="px-4 py-3 text-sm text-gray-600">
+                              {new Date(item.batch_date).toLocaleDateString('az-AZ')}
+                            </td>
+                            <td className="px-4 py-3 text-sm font-mono text-gray-600">
+                              {item.lot_number || '-'}
+                            </td>
+                            <td className="px-4 py-3 text-sm text-gray-600">
+                              {item.expiry_date ? new Date(item.expiry_date).toLocaleDateString('az-AZ') : '-'}
+                            </td>
+                            <td className="px-4 py-3 text-sm text-right text-gray-900">
+                              {item.quantity.toFixed(2)} {item.base_unit}
+                            </td>
+                            <td className="px-4 py-3 text-sm text-right text-gray-900">
+                              {item.unit_price.toFixed(2)} ₼
+                            </td>
+                            <td className="px-4 py-3 text-right">
+                              <input
+                                type="number"
+                                value={item.consumption_quantity || ''}
+                                onChange={(e) =>
+                                  updateConsumptionQuantity(originalIndex, Number(e.target.value))
+                                }
+                                disabled={!item.selected}
+                                className="w-28 px-2 py-1 border border-gray-300 rounded text-sm text-right disabled:bg-gray-100"
+                                min="0"
+                                max={item.quantity / item.unit_factor}
+                                step="0.01"
+                              />
+                              {item.unit_options.length > 1 && (
+                                <select
+                                  value={item.unit_factor}
+                                  onChange={(e) =>
+                                    updateConsumptionUnit(originalIndex, Number(e.target.value))
+                                  }
+                                  disabled={!item.selected}
+                                  className="mt-1 block ml-auto w-28 px-2 py-1 border border-gray-300 rounded text-xs disabled:bg-gray-100"
+                                >
+                                  {item.unit_options.map((option) => (
+                                    <option key={option.factor} value={option.factor}>
+                                      {option.label}
+                                    </option>
+                                  ))}
+                                </select>
+                              )}
+                            </td>
+                          </tr>
+                        );
+                      })
+                    )}
+                  </tbody>
+                </table>
+              </div>
+
+              {selectedItems.length > 0 && (
+                <div className="p-6 border-t border-gray-200 bg-gray-50">
+                  <div className="flex justify-between items-center">
+                    <div>
+                      <div className="text-sm text-gray-600">
+                        Seçilmiş partiya sayı: {selectedItems.length}
+                      </div>
+                      <div className="text-lg font-semibold text-gray-900 mt-1">
+                        Ümumi məbləğ: {totalConsumptionAmount.toFixed(2)} ₼
+                      </div>
+                    </div>
+                    <button
+                      type="submit"
+                      disabled={loading}
+                      className="flex items-center gap-2 px-6 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 transition-colors"
+                    >
+                      <Save className="w-4 h-4" />
+                      Sərfiyyatı Təsdiqlə
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </form>
+      </div>
+      <Modal
+        isOpen={modal.isOpen}
+        onClose={() => setModal({ ...modal, isOpen: false })}
+        title={modal.title}
+        message={modal.message}
+        type={modal.type}
+      />
+    </div>
+  );
+}
@@ -4,8 +4,11 @@ import SearchableProductSelect from './SearchableProductSelect';
 import BulkImport from './BulkImport';
 import { Plus, Trash2, Save, Upload } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
 import InvoiceList from './InvoiceList';
-import type { Warehouse, Reagent, Consumable, ProductType } from '../types/database';
+import { stockKey } from '../lib/stockCalculations';
+import { defaultUnitFactor, toBaseUnit, unitOptions } from '../lib/units';
+import type { Warehouse, Reagent, Consumable, ProductType, Supplier } from '../types/database';
 
 interface ProductRow {
   id: string;
@@ -15,18 +18,42 @@ interface ProductRow {
   product_name: string;
   quantity: number;
   unit_price: number;
+  // Base units in the unit quantity and unit_price are entered in
+  unit_factor: number;
   total_price: number;
+  lot_number: string;
+  expiry_date: string;
+  po_item_id: string | null;
+  po_remaining_qty: number | null;
+  invoice_item_id: string | null;
 }
 
-export default function WarehouseEntry() {
+interface OpenPurchaseOrder {
+  id: string;
+  po_code: string;
+  supplier: string;
+}
+
+interface Props {
+  purchaseOrderId?: string | null;
+  onPurchaseOrderLoaded?: () => void;
+}
+
+export default function WarehouseEntry({ purchaseOrderId: initialPurchaseOrderId, onPurchaseOrderLoaded }: Props) {
+  const { can, canWriteWarehouse } = useAuth();
   const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
   const [reagents, setReagents] = useState<Reagent[]>([]);
   const [consumables, setConsumables] = useState<Consumable[]>([]);
   const [selectedWarehouse, setSelectedWarehouse] = useState('');
   const [invoiceCode, setInvoiceCode] = useState('');
-  const [supplier, setSupplier] = useState('');
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [supplierId, setSupplierId] = useState('');
   const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
   const [rows, setRows] = useState<ProductRow[]>([]);
+  const [openOrders, setOpenOrders] = useState<OpenPurchaseOrder[]>([]);
+  const [purchaseOrderId, setPurchaseOrderId] = useState('');
+  const [editingInvoiceId, setEditingInvoiceId] = useState<string | null>(null);
+  const [correctionReason, setCorrectionReason] = useState('');
   const [loading, setLoading] = useState(false);
   const [refreshKey, setRefreshKey] = useState(0);
   const [showBulkImport, setShowBulkImport] = useState(false);
@@ -34,20 +61,97 @@ export default function WarehouseEntry() {
 
   useEffect(() => {
     loadData();
+    loadOpenOrders();
   }, []);
 
+  useEffect(() => {
+    if (initialPurchaseOrderId) {
+      applyPurchaseOrder(initialPurchaseOrderId);
+      onPurchaseOrderLoaded?.();
+    }
+  }, [initialPurchaseOrderId]);
+
   const loadData = async () => {
-    const [warehousesRes, reagentsRes, consumablesRes] = await Promise.all([
+    const [warehousesRes, suppliersRes, reagentsRes, consumablesRes] = await Promise.all([
       supabase.from('warehouses').select('id, name, code').order('name'),
-      supabase.from('reagents').select('id, code, name').order('code'),
-      supabase.from('consumables').select('id, code, name').order('code'),
+      supabase.from('suppliers').select('*').order('name'),
+      supabase.from('reagents').select('id, code, name, base_unit, purchase_unit, purchase_factor').order('code'),
+      supabase.from('consumables').select('id, code, name, base_unit, purchase_unit, purchase_factor').order('code'),
     ]);
 
     if (warehousesRes.data) setWarehouses(warehousesRes.data);
+    if (suppliersRes.data) setSuppliers(suppliersRes.data);
     if (reagentsRes.data) setReagents(reagentsRes.data);
     if (consumablesRes.data) setConsumables(consumablesRes.data);
   };
 
+  const loadOpenOrders = async () => {
+    const { data } = await supabase
+      .from('purchase_orders')
+      .select('id, po_code, supplier')
+      .in('status', ['sent', 'partially_received'])
+      .order('order_date', { ascending: false });
+
+    if (data) setOpenOrders(data);
+  };
+
+  const applyPurchaseOrder = async (id: string) => {
+    setPurchaseOrderId(id);
+
+    if (!id) {
+      setRows(rows.map((row) => ({ ...row, po_item_id: null, po_remaining_qty: null })));
+      return;
+    }
+
+    const [orderRes, itemsRes, reagentsRes, consumablesRes] = await Promise.all([
+      supabase.from('purchase_orders').select('id, po_code, supplier_id, warehouse_id').eq('id', id).maybeSingle(),
+      supabase.from('purchase_order_items').select('*').eq('po_id', id),
+      supabase.from('reagents').select('id, code, name'),
+      supabase.from('consumables').select('id, code, name'),
+    ]);
+
+    if (!orderRes.data || !itemsRes.data) {
+      setModal({ isOpen: true, title: 'Xəta', message: 'Sifariş yüklənə bilmədi', type: 'error' });
+      setPurchaseOrderId('');
+      return;
+    }
+
+    const productMap = new Map([
+      ...(reagentsRes.data || []).map((r) => [stockKey('reagent', r.id), r] as const),
+      ...(consumablesRes.data || []).map((c) => [stockKey('consumable', c.id), c] as const),
+    ]);
+
+    setSupplierId(orderRes.data.supplier_id || '');
+    setSelectedWarehouse(orderRes.data.warehouse_id);
+    setRows(
+      itemsRes.data
+        .map((item) => ({
+          item,
+          remaining: Number(item.ordered_qty) - Number(item.received_qty),
+        }))
+        .filter(({ remaining }) => remaining > 0)
+        .map(({ item, remaining }) => {
+          const product = productMap.get(stockKey(item.product_type, item.product_id));
+          return {
+            id: crypto.randomUUID(),
+            product_type: item.product_type,
+            product_id: item.product_id,
+            product_code: product?.code || '',
+            product_name: product?.name || '',
+            quantity: remaining,
+            unit_price: Number(item.unit_price),
+            unit_factor: 1,
+            total_price: remaining * Number(item.unit_price),
+            lot_number: '',
+            expiry_date: '',
+            po_item_id: item.id,
+            po_remaining_qty: remaining,
+            invoice_item_id: null,
+          };
+        })
+    );
+  };
+
   const addRow = () => {
     setRows([
       ...rows,
@@ -59,11 +163,74 @@ export default function WarehouseEntry() {
         product_name: '',
         quantity: 0,
         unit_price: 0,
+        unit_factor: 1,
         total_price: 0,
+        lot_number: '',
+        expiry_date: '',
+        po_item_id: null,
+        po_remaining_qty: null,
+        invoice_item_id: null,
       },
     ]);
   };
 
+  const loadInvoiceForEdit = async (invoiceId: string) => {
+    const [invoiceRes, itemsRes] = await Promise.all([
+      supabase.from('invoices').select('id, invoice_code, supplier_id, date, warehouse_id').eq('id', invoiceId).maybeSingle(),
+      supabase.from('invoice_items').select('*').eq('invoice_id', invoiceId).order('created_at'),
+    ]);
+
+    if (!invoiceRes.data || !itemsRes.data) {
+      setModal({ isOpen: true, title: 'Xəta', message: 'Qaimə yüklənə bilmədi', type: 'error' });
+      return;
+    }
+
+    const productMap = new Map([
+      ...reagents.map((r) => [stockKey('reagent', r.id), r] as const),
+      ...consumables.map((c) => [stockKey('consumable', c.id), c] as const),
+    ]);
+
+    setEditingInvoiceId(invoiceId);
+    setCorrectionReason('');
+    setPurchaseOrderId('');
+    setInvoiceCode(invoiceRes.data.invoice_code);
+    setSupplierId(invoiceRes.data.supplier_id || '');
+    setDate(invoiceRes.data.date);
+    setSelectedWarehouse(invoiceRes.data.warehouse_id);
+    setRows(
+      itemsRes.data.map((item) => {
+        const product = productMap.get(stockKey(item.product_type, item.product_id));
+        return {
+          id: crypto.randomUUID(),
+          product_type: item.product_type,
+          product_id: item.product_id,
+          product_code: product?.code || '',
+          product_name: product?.name || '',
+          quantity: Number(item.quantity),
+          unit_price: Number(item.unit_price),
+          unit_factor: 1,
+          total_price: Number(item.total_price),
+          lot_number: item.lot_number || '',
+          expiry_date: item.expiry_date || '',
+          po_item_id: item.po_item_id,
+          po_remaining_qty: null,
+          invoice_item_id: item.id,
+        };
+      })
+    );
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const resetForm = () => {
+    setInvoiceCode('');
+    setSupplierId('');
+    setDate(new Date().toISOString().split('T')[0]);
+    setRows([]);
+    setPurchaseOrderId('');
+    setEditingInvoiceId(null);
+    setCorrectionReason('');
+  };
+
   const updateRow = (id: string, field: keyof ProductRow, value: any) => {
     setRows(
       rows.map((row) => {
@@ -72,10 +239,14 @@ export default function WarehouseEntry() {
         const updated = { ...row, [field]: value };
 
         if (field === 'product_type' || field === 'product_id') {
+          updated.po_item_id = null;
+          updated.po_remaining_qty = null;
+
           if (field === 'product_type') {
             updated.product_id = '';
             updated.product_code = '';
             updated.product_name = '';
+            updated.unit_factor = 1;
           }
 
           if (updated.product_id && updated.product_type) {
@@ -84,6 +255,7 @@ export default function WarehouseEntry() {
             if (product) {
               updated.product_code = product.code;
               updated.product_name = product.name;
+              updated.unit_factor = defaultUnitFactor(product, 'purchase');
             }
           }
         }
@@ -104,7 +276,7 @@ export default function WarehouseEntry() {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!selectedWarehouse || !invoiceCode || !supplier || rows.length === 0) {
+    if (!selectedWarehouse || !invoiceCode || !supplierId || rows.length === 0) {
       setModal({ isOpen: true, title: 'Xəta', message: 'Zəhmət olmasa bütün məlumatları doldurun', type: 'error' });
       return;
     }
@@ -115,53 +287,82 @@ export default function WarehouseEntry() {
       return;
     }
 
+    if (editingInvoiceId && !correctionReason.trim()) {
+      setModal({ isOpen: true, title: 'Xəta', message: 'Düzəliş səbəbi daxil edilməlidir', type: 'error' });
+      return;
+    }
+
     setLoading(true);
 
-    const { data: invoice, error: invoiceError } = await supabase
-      .from('invoices')
-      .insert([
-        {
-          invoice_code: invoiceCode,
-          supplier: supplier,
-          date: date,
-          warehouse_id: selectedWarehouse,
-        },
-      ])
-      .select()
-      .single();
-
-    if (invoiceError || !invoice) {
-      setModal({ isOpen: true, title: 'Xəta', message: 'Qaimə yaradılarkən xəta baş verdi', type: 'error' });
+    if (editingInvoiceId) {
+      const { error } = await supabase.rpc('update_invoice', {
+        p_invoice_id: editingInvoiceId,
+        p_invoice_code: invoiceCode,
+        p_supplier_id: supplierId,
+        p_date: date,
+        p_items: rows.map((row) => ({
+          id: row.invoice_item_id,
+          product_type: row.product_type,
+          product_id: row.product_id,
+          ...toBaseUnit(row.quantity, row.unit_price, row.unit_factor, row.total_price),
+          lot_number: row.lot_number || null,
+          expiry_date: row.expiry_date || null,
+        })),
+        p_reason: correctionReason,
+      });
+
+      if (error) {
+        setModal({
+          isOpen: true,
+          title: 'Xəta',
+          message: error.code === 'P0001' ? error.message : 'Qaimə yenilənərkən xəta baş verdi',
+          type: 'error',
+        });
+        setLoading(false);
+        return;
+      }
+
+      setModal({ isOpen: true, title: 'Uğurlu', message: 'Qaimə düzəlişi yadda saxlanıldı', type: 'success' });
+      resetForm();
+      setRefreshKey(prev => prev + 1);
       setLoading(false);
+      loadOpenOrders();
       return;
     }
 
-    const items = rows.map((row) => ({
-      invoice_id: invoice.id,
-      product_type: row.product_type,
-      product_id: row.product_id,
-      quantity: row.quantity,
-      unit_price: row.unit_price,
-      total_price: row.total_price,
-      batch_date: date,
-    }));
-
-    const { error: itemsError } = await supabase.from('invoice_items').insert(items);
-
-    if (itemsError) {
-      setModal({ isOpen: true, title: 'Xəta', message: 'Məhsullar əlavə edilərkən xəta baş verdi', type: 'error' });
-      await supabase.from('invoices').delete().eq('id', invoice.id);
+    const { error } = await supabase.rpc('post_invoice', {
+      p_invoice_code: invoiceCode,
+      p_supplier: suppliers.find((s) => s.id === supplierId)?.name || '',
+      p_date: date,
+      p_warehouse_id: selectedWarehouse,
+      p_items: rows.map((row) => ({
+        product_type: row.product_type,
+        product_id: row.product_id,
+        ...toBaseUnit(row.quantity, row.unit_price, row.unit_factor, row.total_price),
+        lot_number: row.lot_number || null,
+        expiry_date: row.expiry_date || null,
+        po_item_id: row.po_item_id,
+      })),
+      p_purchase_order_id: purchaseOrderId || null,
+      p_supplier_id: supplierId,
+    });
+
+    if (error) {
+      setModal({
+        isOpen: true,
+        title: 'Xəta',
+        message: error.code === 'P0001' ? error.message : 'Qaimə yaradılarkən xəta baş verdi',
+        type: 'error',
+      });
       setLoading(false);
       return;
     }
 
     setModal({ isOpen: true, title: 'Uğurlu', message: 'Qaimə uğurla yadda saxlanıldı', type: 'success' });
-    setInvoiceCode('');
-    setSupplier('');
-    setDate(new Date().toISOString().split('T')[0]);
-    setRows([]);
+    resetForm();
     setRefreshKey(prev => prev + 1);
     setLoading(false);
+    loadOpenOrders();
   };
 
   const totalAmount = rows.reduce((sum, row) => sum + row.total_price, 0);
@@ -174,18 +375,67 @@ export default function WarehouseEntry() {
             <h2 className="text-2xl font-semibold text-gray-900">Anbara Giriş</h2>
             <p className="text-sm text-gray-500 mt-1">Yeni qaimə əlavə edin</p>
           </div>
-          <button
-            onClick={() => setShowBulkImport(true)}
-            className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
-          >
-            <Upload className="w-4 h-4" />
-            Kütləvi İdxal (Excel)
-          </button>
+          {can('manage_master_data') && (
+            <button
+              onClick={() => setShowBulkImport(true)}
+              className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+            >
+              <Upload className="w-4 h-4" />
+              Kütləvi İdxal (Excel)
+            </button>
+          )}
         </div>
 
         <form onSubmit={handleSubmit} className="space-y-6">
           <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-            <h3 className="text-lg font-semibold text-gray-900 mb-4">Qaimə məlumatları</h3>
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg font-semibold text-gray-900">
+                {editingInvoiceId ? `Qaimə düzəlişi: ${invoiceCode}` : 'Qaimə məlumatları'}
+              </h3>
+              {editingInvoiceId && (
+                <button
+                  type="button"
+                  onClick={resetForm}
+                  className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  Düzəlişi ləğv et
+                </button>
+              )}
+            </div>
+
+            {editingInvoiceId ? (
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Düzəliş səbəbi
+                </label>
+                <input
+                  type="text"
+                  value={correctionReason}
+                  onChange={(e) => setCorrectionReason(e.target.value)}
+                  className="w-full md:w-1/2 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder="Məsələn: miqdar səhv daxil edilib"
+                  required
+                />
+              </div>
+            ) : (
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Satınalma sifarişi
+                </label>
+                <select
+                  value={purchaseOrderId}
+                  onChange={(e) => applyPurchaseOrder(e.target.value)}
+                  className="w-full md:w-1/2 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">Sifarişsiz</option>
+                  {openOrders.map((order) => (
+                    <option key={order.id} value={order.id}>
+                      {order.po_code} – {order.supplier}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
 
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
               <div>
@@ -204,16 +454,21 @@ export default function WarehouseEntry() {
 
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Firma adı
+                  Təchizatçı
                 </label>
-                <input
-                  type="text"
-                  value={supplier}
-                  onChange={(e) => setSupplier(e.target.value)}
+                <select
+                  value={supplierId}
+                  onChange={(e) => setSupplierId(e.target.value)}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                  placeholder="Təchizatçı firma"
                   required
-                />
+                >
+                  <option value="">Təchizatçı seçin</option>
+                  {suppliers.map((s) => (
+                    <option key={s.id} value={s.id}>
+                      {s.name}
+                    </option>
+                  ))}
+                </select>
               </div>
 
               <div>
@@ -236,11 +491,12 @@ export default function WarehouseEntry() {
                 <select
                   value={selectedWarehouse}
                   onChange={(e) => setSelectedWarehouse(e.target.value)}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100"
+                  disabled={!!editingInvoiceId}
                   required
                 >
                   <option value="">Anbar seçin</option>
-                  {warehouses.map((w) => (
+                  {warehouses.filter((w) => canWriteWarehouse(w.id)).map((w) => (
                     <option key={w.id} value={w.id}>
                       [{w.code}] {w.name}
                     </option>
@@ -276,6 +532,12 @@ export default function WarehouseEntry() {
                     <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
                       Kod
                     </th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                      Lot nömrəsi
+                    </th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                      Son istifadə tarixi
+                    </th>
                     <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
                       Miqdar
                     </th>
@@ -293,6 +555,8 @@ export default function WarehouseEntry() {
                 <tbody className="divide-y divide-gray-200">
                   {rows.map((row) => {
                     const products = row.product_type === 'reagent' ? reagents : consumables;
+                    const product = products.find((p) => p.id === row.product_id);
+                    const baseQuantity = row.quantity * row.unit_factor;
                     return (
                       <tr key={row.id}>
                         <td className="px-4 py-3">
@@ -319,6 +583,23 @@ export default function WarehouseEntry() {
                         <td className="px-4 py-3 text-sm font-mono text-gray-600">
                           {row.product_code || '-'}
                         </td>
+                        <td className="px-4 py-3">
+                          <input
+                            type="text"
+                            value={row.lot_number}
+                            onChange={(e) => updateRow(row.id, 'lot_number', e.target.value)}
+                            className="w-28 px-2 py-1 border border-gray-300 rounded text-sm"
+                            placeholder="LOT-001"
+                          />
+                        </td>
+                        <td className="px-4 py-3">
+                          <input
+                            type="date"
+                            value={row.expiry_date}
+                            onChange={(e) => updateRow(row.id, 'expiry_date', e.target.value)}
+                            className="px-2 py-1 border border-gray-300 rounded text-sm"
+                          />
+                        </td>
                         <td className="px-4 py-3">
                           <input
                             type="number"
@@ -330,6 +611,39 @@ export default function WarehouseEntry() {
                             min="0"
                             step="0.01"
                           />
+                          <select
+                            value={row.unit_factor}
+                            onChange={(e) =>
+                              updateRow(row.id, 'unit_factor', Number(e.target.value))
+                            }
+                            className="mt-1 block w-24 px-2 py-1 border border-gray-300 rounded text-xs"
+                          >
+                            {unitOptions(product, 'purchase').map((option) => (
+                              <option key={option.factor} value={option.factor}>
+                                {option.label}
+                              </option>
+                            ))}
+                          </select>
+                          {row.unit_factor !== 1 && row.quantity > 0 && (
+                            <div className="mt-1 text-xs text-gray-500">
+                              = {baseQuantity.toFixed(2)} {product?.base_unit}
+                            </div>
+                          )}
+                          {row.po_remaining_qty !== null && (
+                            <div className="mt-1 text-xs text-gray-500">
+                              Sifariş qalığı: {row.po_remaining_qty.toFixed(2)}
+                              {baseQuantity !== row.po_remaining_qty && (
+                                <span
+                                  className={`ml-1 font-medium ${
+                                    baseQuantity < row.po_remaining_qty ? 'text-red-600' : 'text-orange-600'
+                                  }`}
+                                >
+                                  ({baseQuantity > row.po_remaining_qty ? '+' : ''}
+                                  {(baseQuantity - row.po_remaining_qty).toFixed(2)})
+                                </span>
+                              )}
+                            </div>
+                          )}
                         </td>
                         <td className="px-4 py-3">
                           <input
@@ -360,7 +674,7 @@ export default function WarehouseEntry() {
                   })}
                   {rows.length === 0 && (
                     <tr>
-                      <td colSpan={7} className="px-4 py-8 text-center text-gray-500">
+                      <td colSpan={9} className="px-4 py-8 text-center text-gray-500">
                         Məhsul əlavə etmək üçün "Sətir əlavə et" düyməsini klikləyin
                       </td>
                     </tr>
@@ -381,7 +695,7 @@ export default function WarehouseEntry() {
                     className="flex items-center gap-2 px-6 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 transition-colors"
                   >
                     <Save className="w-4 h-4" />
-                    Qaiməni yadda saxla
+                    {editingInvoiceId ? 'Düzəlişi yadda saxla' : 'Qaiməni yadda saxla'}
                   </button>
                 </div>
               </div>
@@ -394,6 +708,7 @@ export default function WarehouseEntry() {
             key={refreshKey}
             warehouseId={selectedWarehouse || undefined}
             onInvoiceChange={() => setRefreshKey(prev => prev + 1)}
+            onEditInvoice={loadInvoiceForEdit}
           />
         </div>
       </div>
@@ -11,6 +11,9 @@ interface ExitRecord {
   product_code: string;
   product_name: string;
   product_type: ProductType;
+  batch_date: string;
+  lot_number: string | null;
+  expiry_date: string | null;
   quantity: number;
   unit_price: number;
   total_price: number;
@@ -25,7 +28,7 @@ export default function WarehouseExit() {
   const [filteredExits, setFilteredExits] = useState<ExitRecord[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
   const [filterType, setFilterType] = useState<'all' | ProductType>('all');
-  const [filterReason, setFilterReason] = useState<'all' | 'transfer' | 'consumption'>('all');
+  const [filterReason, setFilterReason] = useState<'all' | 'transfer' | 'transit_loss' | 'consumption' | 'expired'>('all');
   const [startDate, setStartDate] = useState('');
   const [endDate, setEndDate] = useState('');
   const [loading, setLoading] = useState(false);
@@ -51,7 +54,7 @@ export default function WarehouseExit() {
     setLoading(true);
 
     const [stockOutsRes, warehousesRes, reagentsRes, consumablesRes, transfersRes] = await Promise.all([
-      supabase.from('stock_out').select('id, warehouse_id, date, reason, transfer_id, stock_out_items(id, product_type, product_id, batch_date, quantity, unit_price, total_price)').order('date', { ascending: false }),
+      supabase.from('stock_out').select('id, warehouse_id, date, reason, transfer_id, stock_out_items(id, product_type, product_id, batch_date, lot_number, expiry_date, quantity, unit_price, total_price)').order('date', { ascending: false }),
       supabase.from('warehouses').select('id, name'),
       supabase.from('reagents').select('id, code, name'),
       supabase.from('consumables').select('id, code, name'),
@@ -82,7 +85,7 @@ export default function WarehouseExit() {
       let fromWarehouse = undefined;
       let toWarehouse = undefined;
 
-      if (stockOut.reason === 'transfer' && stockOut.transfer_id) {
+      if ((stockOut.reason === 'transfer' || stockOut.reason === 'transit_loss') && stockOut.transfer_id) {
         const transfer = transfers?.find(t => t.id === stockOut.transfer_id);
         if (transfer) {
           fromWarehouse = warehouseMap.get(transfer.from_warehouse_id) || undefined;
@@ -102,6 +105,9 @@ export default function WarehouseExit() {
             product_code: product.code,
             product_name: product.name,
             product_type: item.product_type,
+            batch_date: item.batch_date,
+            lot_number: item.lot_number,
+            expiry_date: item.expiry_date,
             quantity: Number(item.quantity),
             unit_price: Number(item.unit_price),
             total_price: Number(item.total_price),
@@ -155,11 +161,16 @@ export default function WarehouseExit() {
     const excelData = filteredExits.map((exit) => ({
       'Date': new Date(exit.date).toLocaleDateString('az-AZ'),
       'Exit Type': exit.reason === 'transfer' ? 'Transfer' :
+                   exit.reason === 'transit_loss' ? 'Tranzit İtkisi' :
                    exit.reason === 'inventory_loss' ? 'Sayım Xərci' :
+                   exit.reason === 'expired' ? 'Vaxtı Keçmiş' :
                    exit.reason === 'invoice_return' ? 'Qaimə Geri Qaytarma' : 'Sərfiyyat',
       'Product Code': exit.product_code,
       'Product Name': exit.product_name,
       'Product Category (Type)': exit.product_type === 'reagent' ? 'Reagent' : 'Sərfiyyat',
+      'Batch Date': new Date(exit.batch_date).toLocaleDateString('az-AZ'),
+      'Lot Number': exit.lot_number || '-',
+      'Expiry Date': exit.expiry_date ? new Date(exit.expiry_date).toLocaleDateString('az-AZ') : '-',
       'Warehouse': exit.warehouse_name,
       'From Location': exit.from_warehouse || '-',
       'To Location': exit.to_warehouse || '-',
@@ -176,6 +187,9 @@ export default function WarehouseExit() {
       { wch: 15 },
       { wch: 30 },
       { wch: 20 },
+      { wch: 12 },
+      { wch: 15 },
+      { wch: 12 },
       { wch: 20 },
       { wch: 18 },
       { wch: 18 },
@@ -204,6 +218,13 @@ export default function WarehouseExit() {
         </span>
       );
     }
+    if (reason === 'transit_loss') {
+      return (
+        <span className="inline-flex px-2 py-1 text-xs font-medium rounded bg-yellow-100 text-yellow-700">
+          Tranzit İtkisi
+        </span>
+      );
+    }
     if (reason === 'inventory_loss') {
       return (
         <span className="inline-flex px-2 py-1 text-xs font-medium rounded bg-red-100 text-red-700">
@@ -211,6 +232,13 @@ export default function WarehouseExit() {
         </span>
       );
     }
+    if (reason === 'expired') {
+      return (
+        <span className="inline-flex px-2 py-1 text-xs font-medium rounded bg-gray-200 text-gray-700">
+          Vaxtı Keçmiş
+        </span>
+      );
+    }
     if (reason === 'invoice_return') {
       return (
         <span className="inline-flex px-2 py-1 text-xs font-medium rounded bg-purple-100 text-purple-700">
@@ -268,7 +296,9 @@ export default function WarehouseExit() {
             >
               <option value="all">Bütün səbəblər</option>
               <option value="transfer">Transfer</option>
+              <option value="transit_loss">Tranzit itkisi</option>
               <option value="consumption">Sərfiyyat</option>
+              <option value="expired">Vaxtı keçmiş</option>
             </select>
           </div>
 
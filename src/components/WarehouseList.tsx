@@ -1,8 +1,11 @@
 import { useState, useEffect, useMemo, useCallback } from 'react';
-import { Search, ChevronRight, Download } from 'lucide-react';
+import { Search, ChevronRight, Download, AlertTriangle } from 'lucide-react';
 import { supabase } from '../lib/supabase';
-import { calculateProductStockInWarehouse } from '../lib/stockCalculations';
+import { calculateAllWarehousesStock, calculateInTransitStock, IN_TRANSIT_LOCATION, stockKey } from '../lib/stockCalculations';
+import { fetchStockLevels, getStockLevelStatus, STOCK_LEVEL_STATUS_LABELS } from '../lib/stockLevels';
+import type { StockLevelStatus } from '../lib/stockLevels';
 import * as XLSX from 'xlsx';
+import Modal from './Modal';
 import type { StockSummary, StockBatch } from '../types/database';
 
 interface Warehouse {
@@ -14,6 +17,7 @@ interface Warehouse {
 interface StockSummaryWithWarehouse extends StockSummary {
   warehouse_id?: string;
   warehouse_name?: string;
+  stock_level_status?: StockLevelStatus;
 }
 
 export default function WarehouseList() {
@@ -23,12 +27,13 @@ export default function WarehouseList() {
   const [loading, setLoading] = useState(false);
   const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
   const [selectedWarehouse, setSelectedWarehouse] = useState<string>('');
+  // Empty for the current stock, otherwise the date the stock is shown for
+  const [asOfDate, setAsOfDate] = useState('');
   const [productsCache, setProductsCache] = useState<{
     reagents: any[];
     consumables: any[];
   } | null>(null);
-  const [batchSize] = useState(5);
-  const [displayedCount, setDisplayedCount] = useState(0);
+  const [modal, setModal] = useState<{ isOpen: boolean; title: string; message: string; type: 'success' | 'error' | 'info' }>({ isOpen: false, title: '', message: '', type: 'info' });
 
   useEffect(() => {
     loadWarehouses();
@@ -40,7 +45,7 @@ export default function WarehouseList() {
     } else {
       setStocks([]);
     }
-  }, [selectedWarehouse]);
+  }, [selectedWarehouse, asOfDate]);
 
   const loadWarehouses = async () => {
     const { data } = await supabase
@@ -76,126 +81,98 @@ export default function WarehouseList() {
 
     setLoading(true);
     setStocks([]);
-    setDisplayedCount(0);
 
-    const cache = await loadProductsCache();
+    const isAllWarehouses = selectedWarehouse === 'all';
+    const isInTransit = selectedWarehouse === IN_TRANSIT_LOCATION;
+    const asOf = asOfDate || undefined;
+
+    let loaded;
+    try {
+      loaded = await Promise.all([
+        loadProductsCache(),
+        isInTransit
+          ? calculateInTransitStock(asOf)
+          : calculateAllWarehousesStock(isAllWarehouses ? undefined : selectedWarehouse, asOf),
+        // Stock levels drive reordering today, so a past snapshot is shown without them
+        isInTransit || asOf
+          ? Promise.resolve(new Map())
+          : fetchStockLevels(isAllWarehouses ? undefined : selectedWarehouse),
+      ]);
+    } catch {
+      setModal({ isOpen: true, title: 'Xəta', message: 'Stok yüklənərkən xəta baş verdi', type: 'error' });
+      setLoading(false);
+      return;
+    }
+
+    const [cache, stockByWarehouse, levelsByWarehouse] = loaded;
 
     const allProducts = [
       ...cache.reagents.map((r) => ({ ...r, type: 'reagent' as const })),
       ...cache.consumables.map((c) => ({ ...c, type: 'consumable' as const })),
     ];
 
-    const processProductBatch = async (products: typeof allProducts) => {
-      const results: StockSummaryWithWarehouse[] = [];
-
-      if (selectedWarehouse === 'all') {
-        for (const warehouse of warehouses) {
-          const batchResults = await Promise.all(
-            products.map((product) =>
-              calculateProductStockInWarehouse(warehouse.id, product.id, product.type).then((stock) => ({
-                product,
-                stock,
-                warehouse,
-              }))
-            )
-          );
-
-          for (const { product, stock, warehouse } of batchResults) {
-            if (stock.totalQuantity > 0) {
-              const batches: StockBatch[] = stock.batches.map(batch => ({
-                product_id: product.id,
-                product_code: product.code,
-                product_name: product.name,
-                product_type: product.type,
-                batch_date: batch.batch_date,
-                supplier: batch.supplier || '',
-                quantity: batch.quantity,
-                unit_price: batch.unit_price,
-                total_price: batch.total_price,
-              }));
-
-              const lastDate = batches.length > 0 ? batches[0].batch_date : '';
-
-              results.push({
-                product_id: product.id,
-                product_code: product.code,
-                product_name: product.name,
-                product_type: product.type,
-                total_quantity: stock.totalQuantity,
-                total_amount: stock.totalValue,
-                last_entry_date: lastDate,
-                batches,
-                warehouse_id: warehouse.id,
-                warehouse_name: warehouse.name,
-              });
-            }
-          }
-        }
-      } else {
-        const batchResults = await Promise.all(
-          products.map((product) =>
-            calculateProductStockInWarehouse(selectedWarehouse, product.id, product.type).then((stock) => ({
-              product,
-              stock,
-            }))
-          )
-        );
-
-        for (const { product, stock } of batchResults) {
-          if (stock.totalQuantity > 0) {
-            const batches: StockBatch[] = stock.batches.map(batch => ({
-              product_id: product.id,
-              product_code: product.code,
-              product_name: product.name,
-              product_type: product.type,
-              batch_date: batch.batch_date,
-              supplier: batch.supplier || '',
-              quantity: batch.quantity,
-              unit_price: batch.unit_price,
-              total_price: batch.total_price,
-            }));
-
-            const lastDate = batches.length > 0 ? batches[0].batch_date : '';
-
-            results.push({
-              product_id: product.id,
-              product_code: product.code,
-              product_name: product.name,
-              product_type: product.type,
-              total_quantity: stock.totalQuantity,
-              total_amount: stock.totalValue,
-              last_entry_date: lastDate,
-              batches,
-            });
-          }
-        }
-      }
-
-      return results;
-    };
-
-    const processBatches = async () => {
-      let allResults: StockSummaryWithWarehouse[] = [];
-
-      for (let i = 0; i < allProducts.length; i += batchSize) {
-        const batch = allProducts.slice(i, i + batchSize);
-        const batchResults = await processProductBatch(batch);
-        allResults = [...allResults, ...batchResults];
-
-        const sorted = allResults.sort((a, b) => {
-          const warehouseCompare = (a.warehouse_name || '').localeCompare(b.warehouse_name || '');
-          if (warehouseCompare !== 0) return warehouseCompare;
-          return a.product_code.localeCompare(b.product_code);
+    const targetWarehouses = isAllWarehouses || isInTransit
+      ? warehouses
+      : warehouses.filter((w) => w.id === selectedWarehouse);
+
+    const results: StockSummaryWithWarehouse[] = [];
+
+    for (const warehouse of targetWarehouses) {
+      const stockByProduct = stockByWarehouse.get(warehouse.id);
+      const levels = levelsByWarehouse.get(warehouse.id);
+      if (!stockByProduct && !levels) continue;
+
+      for (const product of allProducts) {
+        const key = stockKey(product.type, product.id);
+        const stock = stockByProduct?.get(key);
+        const level = levels?.get(key);
+        const inStock = !!stock && stock.totalQuantity > 0;
+
+        // A product with a stock level stays listed when it runs out, so it is flagged
+        if (!inStock && !level) continue;
+
+        const batches: StockBatch[] = (inStock ? stock.batches : []).map(batch => ({
+          product_id: product.id,
+          product_code: product.code,
+          product_name: product.name,
+          product_type: product.type,
+          batch_id: batch.batch_id,
+          batch_date: batch.batch_date,
+          lot_number: batch.lot_number,
+          expiry_date: batch.expiry_date,
+          supplier: batch.supplier || '',
+          quantity: batch.quantity,
+          unit_price: batch.unit_price,
+          total_price: batch.total_price,
+        }));
+
+        const lastDate = batches.length > 0 ? batches[0].batch_date : '';
+        const quantity = inStock ? stock.totalQuantity : 0;
+
+        results.push({
+          product_id: product.id,
+          product_code: product.code,
+          product_name: product.name,
+          product_type: product.type,
+          total_quantity: quantity,
+          total_amount: inStock ? stock.totalValue : 0,
+          last_entry_date: lastDate,
+          batches,
+          stock_level_status: level ? getStockLevelStatus(quantity, level) : undefined,
+          ...(isAllWarehouses && { warehouse_id: warehouse.id, warehouse_name: warehouse.name }),
+          ...(isInTransit && { warehouse_id: warehouse.id, warehouse_name: `Yolda → ${warehouse.name}` }),
         });
-
-        setStocks(sorted);
-        setDisplayedCount(allResults.length);
       }
+    }
 
-      setLoading(false);
-    };
+    const sorted = results.sort((a, b) => {
+      const warehouseCompare = (a.warehouse_name || '').localeCompare(b.warehouse_name || '');
+      if (warehouseCompare !== 0) return warehouseCompare;
+      return a.product_code.localeCompare(b.product_code);
+    });
 
-    processBatches();
+    setStocks(sorted);
+    setLoading(false);
   };
 
   const filteredStocks = useMemo(() => {
@@ -210,10 +187,11 @@ export default function WarehouseList() {
     );
   }, [stocks, searchTerm]);
 
+  const showWarehouseColumn = selectedWarehouse === 'all' || selectedWarehouse === IN_TRANSIT_LOCATION;
+
   const exportToExcel = () => {
     if (!selectedWarehouse || filteredStocks.length === 0) return;
 
-    const isAllWarehouses = selectedWarehouse === 'all';
     const exportData = filteredStocks.map((stock) => ({
       warehouse: stock.warehouse_name || '',
       product_code: stock.product_code,
@@ -224,12 +202,12 @@ export default function WarehouseList() {
       total_value: stock.total_amount,
     }));
 
-    const headers = isAllWarehouses
+    const headers = showWarehouseColumn
       ? ['Anbar', 'Məhsul Kodu', 'Məhsul Adı', 'Tip', 'Miqdar', 'Vahid Qiymət (₼)', 'Ümumi Dəyər (₼)']
       : ['Məhsul Kodu', 'Məhsul Adı', 'Tip', 'Miqdar', 'Vahid Qiymət (₼)', 'Ümumi Dəyər (₼)'];
 
     const dataForSheet = exportData.map((row) => {
-      if (isAllWarehouses) {
+      if (showWarehouseColumn) {
         return {
           Anbar: row.warehouse,
           'Məhsul Kodu': row.product_code,
@@ -253,7 +231,36 @@ export default function WarehouseList() {
 
     const ws = XLSX.utils.json_to_sheet(dataForSheet);
 
-    const colWidths = isAllWarehouses
+    const batchSheetData = filteredStocks.flatMap((stock) =>
+      stock.batches.map((batch) => ({
+        ...(showWarehouseColumn ? { Anbar: stock.warehouse_name || '' } : {}),
+        'Məhsul Kodu': stock.product_code,
+        'Məhsul Adı': stock.product_name,
+        'Giriş Tarixi': new Date(batch.batch_date).toLocaleDateString('az-AZ'),
+        'Lot Nömrəsi': batch.lot_number || '',
+        'Son İstifadə Tarixi': batch.expiry_date ? new Date(batch.expiry_date).toLocaleDateString('az-AZ') : '',
+        Təchizatçı: batch.supplier,
+        Miqdar: batch.quantity,
+        'Vahid Qiymət (₼)': batch.unit_price,
+        'Ümumi Dəyər (₼)': batch.total_price,
+      }))
+    );
+
+    const batchWs = XLSX.utils.json_to_sheet(batchSheetData);
+    batchWs['!cols'] = [
+      ...(showWarehouseColumn ? [{ wch: 20 }] : []),
+      { wch: 15 },
+      { wch: 30 },
+      { wch: 12 },
+      { wch: 15 },
+      { wch: 18 },
+      { wch: 25 },
+      { wch: 10 },
+      { wch: 15 },
+      { wch: 18 },
+    ];
+
+    const colWidths = showWarehouseColumn
       ? [{ wch: 20 }, { wch: 15 }, { wch: 30 }, { wch: 12 }, { wch: 10 }, { wch: 15 }, { wch: 18 }]
       : [{ wch: 15 }, { wch: 30 }, { wch: 12 }, { wch: 10 }, { wch: 15 }, { wch: 18 }];
 
@@ -261,12 +268,15 @@ export default function WarehouseList() {
 
     const wb = XLSX.utils.book_new();
     XLSX.utils.book_append_sheet(wb, ws, 'Stok Siyahisi');
+    XLSX.utils.book_append_sheet(wb, batchWs, 'Partiyalar');
 
-    const warehouseName = isAllWarehouses
+    const warehouseName = selectedWarehouse === IN_TRANSIT_LOCATION
+      ? 'Yolda'
+      : selectedWarehouse === 'all'
       ? 'Butun_Anbarlar'
       : warehouses.find((w) => w.id === selectedWarehouse)?.name || 'Anbar';
 
-    const fileName = `Anbar_Siyahisi_${warehouseName}_${new Date().toISOString().split('T')[0]}.xlsx`;
+    const fileName = `Anbar_Siyahisi_${warehouseName}_${asOfDate || new Date().toISOString().split('T')[0]}.xlsx`;
 
     XLSX.writeFile(wb, fileName, { bookType: 'xlsx', type: 'binary' });
   };
@@ -276,25 +286,44 @@ export default function WarehouseList() {
       <div className="flex-1 flex flex-col">
         <div className="bg-white border-b border-gray-200 p-6">
           <h2 className="text-2xl font-semibold text-gray-900">Anbar Siyahısı</h2>
-          <p className="text-sm text-gray-500 mt-1">Bütün məhsulların stok vəziyyəti</p>
-
-          <div className="mt-4 mb-4">
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Anbar seçin
-            </label>
-            <select
-              value={selectedWarehouse}
-              onChange={(e) => setSelectedWarehouse(e.target.value)}
-              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-            >
-              <option value="">Anbar seçin...</option>
-              <option value="all">Bütün Anbarlar</option>
-              {warehouses.map((warehouse) => (
-                <option key={warehouse.id} value={warehouse.id}>
-                  [{warehouse.code}] {warehouse.name}
-                </option>
-              ))}
-            </select>
+          <p className="text-sm text-gray-500 mt-1">
+            {asOfDate
+              ? `Bütün məhsulların ${new Date(asOfDate).toLocaleDateString('az-AZ')} tarixinə stok vəziyyəti`
+              : 'Bütün məhsulların stok vəziyyəti'}
+          </p>
+
+          <div className="mt-4 mb-4 grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Anbar seçin
+              </label>
+              <select
+                value={selectedWarehouse}
+                onChange={(e) => setSelectedWarehouse(e.target.value)}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">Anbar seçin...</option>
+                <option value="all">Bütün Anbarlar</option>
+                <option value={IN_TRANSIT_LOCATION}>Yolda (tranzit)</option>
+                {warehouses.map((warehouse) => (
+                  <option key={warehouse.id} value={warehouse.id}>
+                    [{warehouse.code}] {warehouse.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Tarixə (boş - cari vəziyyət)
+              </label>
+              <input
+                type="date"
+                value={asOfDate}
+                max={new Date().toISOString().split('T')[0]}
+                onChange={(e) => setAsOfDate(e.target.value)}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
           </div>
 
           <div className="mt-4 flex gap-4">
@@ -321,7 +350,7 @@ export default function WarehouseList() {
         </div>
 
         <div className="flex-1 overflow-auto p-6">
-          {loading && stocks.length === 0 ? (
+          {loading ? (
             <div className="flex items-center justify-center h-64">
               <div className="text-center">
                 <div className="text-gray-500 mb-2">Məhsullar yüklənir...</div>
@@ -334,7 +363,7 @@ export default function WarehouseList() {
                 <table className="w-full">
                   <thead className="bg-gray-50 border-b border-gray-200">
                     <tr>
-                      {selectedWarehouse === 'all' && (
+                      {showWarehouseColumn && (
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
                           Anbar
                         </th>
@@ -371,7 +400,7 @@ export default function WarehouseList() {
                         }`}
                         onClick={() => setSelectedStock(stock)}
                       >
-                        {selectedWarehouse === 'all' && (
+                        {showWarehouseColumn && (
                           <td className="px-6 py-4 text-sm text-gray-900">
                             {stock.warehouse_name}
                           </td>
@@ -394,7 +423,22 @@ export default function WarehouseList() {
                           </span>
                         </td>
                         <td className="px-6 py-4 text-sm text-right font-medium text-gray-900">
-                          {stock.total_quantity.toFixed(2)}
+                          <div className="flex items-center justify-end gap-2">
+                            {stock.stock_level_status && stock.stock_level_status !== 'ok' && (
+                              <span
+                                title={STOCK_LEVEL_STATUS_LABELS[stock.stock_level_status]}
+                                className={`inline-flex items-center gap-1 px-2 py-1 text-xs font-medium rounded ${
+                                  stock.stock_level_status === 'below_min'
+                                    ? 'bg-red-100 text-red-700'
+                                    : 'bg-orange-100 text-orange-700'
+                                }`}
+                              >
+                                <AlertTriangle className="w-3 h-3" />
+                                {STOCK_LEVEL_STATUS_LABELS[stock.stock_level_status]}
+                              </span>
+                            )}
+                            {stock.total_quantity.toFixed(2)}
+                          </div>
                         </td>
                         <td className="px-6 py-4 text-sm text-right font-medium text-gray-900">
                           {stock.total_amount.toFixed(2)} ₼
@@ -409,7 +453,7 @@ export default function WarehouseList() {
                     ))}
                     {filteredStocks.length === 0 && (
                       <tr>
-                        <td colSpan={selectedWarehouse === 'all' ? 8 : 7} className="px-6 py-8 text-center text-gray-500">
+                        <td colSpan={showWarehouseColumn ? 8 : 7} className="px-6 py-8 text-center text-gray-500">
                           {searchTerm ? 'Nəticə tapılmadı' : 'Stokda məhsul yoxdur'}
                         </td>
                       </tr>
@@ -417,12 +461,6 @@ export default function WarehouseList() {
                   </tbody>
                 </table>
               </div>
-              {loading && stocks.length > 0 && (
-                <div className="bg-blue-50 border-t border-gray-200 px-6 py-3 text-sm text-blue-700 flex items-center gap-2">
-                  <div className="w-4 h-4 border-2 border-blue-200 border-t-blue-600 rounded-full animate-spin"></div>
-                  Daha çox məhsul yüklənir... ({displayedCount} göstərildi)
-                </div>
-              )}
             </div>
           )}
         </div>
@@ -458,6 +496,21 @@ export default function WarehouseList() {
                     </div>
                   </div>
 
+                  {(batch.lot_number || batch.expiry_date) && (
+                    <div className="flex justify-between items-start mb-2">
+                      <div>
+                        <div className="text-xs text-gray-500">Lot nömrəsi</div>
+                        <div className="text-sm font-mono text-gray-900">{batch.lot_number || '-'}</div>
+                      </div>
+                      <div className="text-right">
+                        <div className="text-xs text-gray-500">Son istifadə tarixi</div>
+                        <div className="text-sm text-gray-900">
+                          {batch.expiry_date ? new Date(batch.expiry_date).toLocaleDateString('az-AZ') : '-'}
+                        </div>
+                      </div>
+                    </div>
+                  )}
+
                   {batch.supplier && (
                     <div className="mb-2">
                       <div className="text-xs text-gray-500">Təchizatçı</div>
@@ -498,6 +551,14 @@ export default function WarehouseList() {
           </div>
         </div>
       )}
+
+      <Modal
+        isOpen={modal.isOpen}
+        onClose={() => setModal({ ...modal, isOpen: false })}
+        title={modal.title}
+        message={modal.message}
+        type={modal.type}
+      />
     </div>
   );
 }
@@ -1,7 +1,10 @@
 import { useState, useEffect } from 'react';
-import { ArrowRight, Save, Search } from 'lucide-react';
+import { ArrowRight, Save, Search, X } from 'lucide-react';
 import { supabase } from '../lib/supabase';
-import { calculateProductStockInWarehouse } from '../lib/stockCalculations';
+import { useAuth } from '../contexts/AuthContext';
+import { calculateWarehouseStock, stockKey } from '../lib/stockCalculations';
+import { allocateQuantity, ALLOCATION_STRATEGY_LABELS } from '../lib/batchAllocation';
+import type { AllocationStrategy } from '../lib/batchAllocation';
 import type { Warehouse, StockBatch } from '../types/database';
 import Modal from './Modal';
 
@@ -10,12 +13,61 @@ interface TransferRow extends StockBatch {
   transfer_quantity: number;
 }
 
-export default function WarehouseTransfer() {
+type PickingMode = 'batch' | 'product';
+
+interface ProductPick {
+  key: string;
+  product_code: string;
+  product_name: string;
+  batch_count: number;
+  available: number;
+  allocated: number;
+}
+
+interface LinkedTransferRequest {
+  id: string;
+  from_warehouse_id: string;
+  to_warehouse_id: string;
+  items: { key: string; approved_qty: number }[];
+}
+
+interface Props {
+  transferRequestId?: string | null;
+  onTransferRequestLoaded?: () => void;
+}
+
+/**
+ * Spreads the requested quantity of one product over its batches and marks
+ * the allocated batches as selected. Batches of other products are untouched.
+ */
+function allocateProductQuantity(
+  rows: TransferRow[],
+  key: string,
+  quantity: number,
+  strategy: AllocationStrategy
+): TransferRow[] {
+  const productRows = rows.filter((row) => stockKey(row.product_type, row.product_id) === key);
+  const { allocations } = allocateQuantity(productRows, quantity, strategy);
+  const allocated = new Map(allocations.map((a) => [a.batch_id, a.quantity]));
+
+  return rows.map((row) =>
+    stockKey(row.product_type, row.product_id) === key
+      ? { ...row, selected: allocated.has(row.batch_id), transfer_quantity: allocated.get(row.batch_id) || 0 }
+      : row
+  );
+}
+
+export default function WarehouseTransfer({ transferRequestId, onTransferRequestLoaded }: Props) {
+  const { canWriteWarehouse } = useAuth();
   const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
   const [fromWarehouse, setFromWarehouse] = useState('');
   const [toWarehouse, setToWarehouse] = useState('');
   const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
   const [availableStock, setAvailableStock] = useState<TransferRow[]>([]);
+  const [pickingMode, setPickingMode] = useState<PickingMode>('batch');
+  const [allocationStrategy, setAllocationStrategy] = useState<AllocationStrategy>('fefo');
+  const [productQuantities, setProductQuantities] = useState<Record<string, number>>({});
+  const [transferRequest, setTransferRequest] = useState<LinkedTransferRequest | null>(null);
   const [loading, setLoading] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   const [modal, setModal] = useState<{ isOpen: boolean; title: string; message: string; type: 'success' | 'error' | 'info' }>({ isOpen: false, title: '', message: '', type: 'info' });
@@ -30,20 +82,82 @@ export default function WarehouseTransfer() {
     } else {
       setAvailableStock([]);
     }
+    setProductQuantities({});
   }, [fromWarehouse]);
 
+  useEffect(() => {
+    if (transferRequestId) {
+      applyTransferRequest(transferRequestId);
+      onTransferRequestLoaded?.();
+    }
+  }, [transferRequestId]);
+
   const loadWarehouses = async () => {
     const { data } = await supabase.from('warehouses').select('id, name, code').order('name');
     if (data) setWarehouses(data);
   };
 
-  const loadWarehouseStock = async () => {
+  const applyTransferRequest = async (id: string) => {
+    const [requestRes, itemsRes] = await Promise.all([
+      supabase
+        .from('transfer_requests')
+        .select('id, from_warehouse_id, to_warehouse_id, status')
+        .eq('id', id)
+        .maybeSingle(),
+      supabase.from('transfer_request_items').select('product_type, product_id, approved_qty').eq('request_id', id),
+    ]);
+
+    if (!requestRes.data || !itemsRes.data) {
+      setModal({ isOpen: true, title: 'Xəta', message: 'Transfer sorğusu yüklənə bilmədi', type: 'error' });
+      return;
+    }
+
+    if (requestRes.data.status !== 'approved') {
+      setModal({ isOpen: true, title: 'Xəta', message: 'Transfer yalnız təsdiqlənmiş sorğu əsasında yaradıla bilər', type: 'error' });
+      return;
+    }
+
+    const request: LinkedTransferRequest = {
+      id: requestRes.data.id,
+      from_warehouse_id: requestRes.data.from_warehouse_id,
+      to_warehouse_id: requestRes.data.to_warehouse_id,
+      items: itemsRes.data
+        .map((item) => ({ key: stockKey(item.product_type, item.product_id), approved_qty: Number(item.approved_qty) }))
+        .filter((item) => item.approved_qty > 0),
+    };
+
+    setTransferRequest(request);
+    setToWarehouse(request.to_warehouse_id);
+    setPickingMode('product');
+    setAllocationStrategy('fifo');
+
+    // The stock effect only reloads when the source changes, so load directly when it stays the same
+    if (request.from_warehouse_id === fromWarehouse) {
+      loadWarehouseStock(request);
+    } else {
+      setFromWarehouse(request.from_warehouse_id);
+    }
+  };
+
+  const loadWarehouseStock = async (request: LinkedTransferRequest | null = transferRequest) => {
     setLoading(true);
 
-    const [reagentsRes, consumablesRes] = await Promise.all([
-      supabase.from('reagents').select('id, code, name').order('code'),
-      supabase.from('consumables').select('id, code, name').order('code')
-    ]);
+    const warehouseId = request?.from_warehouse_id || fromWarehouse;
+    let loaded;
+    try {
+      loaded = await Promise.all([
+        supabase.from('reagents').select('id, code, name').order('code'),
+        supabase.from('consumables').select('id, code, name').order('code'),
+        calculateWarehouseStock(warehouseId)
+      ]);
+    } catch {
+      setAvailableStock([]);
+      setModal({ isOpen: true, title: 'Xəta', message: 'Stok yüklənərkən xəta baş verdi', type: 'error' });
+      setLoading(false);
+      return;
+    }
+
+    const [reagentsRes, consumablesRes, stockByProduct] = loaded;
 
     const { data: reagents } = reagentsRes;
     const { data: consumables } = consumablesRes;
@@ -56,33 +170,74 @@ export default function WarehouseTransfer() {
     const stockItems: TransferRow[] = [];
 
     for (const product of allProducts) {
-      const stock = await calculateProductStockInWarehouse(
-        fromWarehouse,
-        product.id,
-        product.type
-      );
+      const stock = stockByProduct.get(stockKey(product.type, product.id));
+      if (!stock) continue;
 
       for (const batch of stock.batches) {
-        if (batch.quantity > 0) {
-          stockItems.push({
-            product_id: product.id,
-            product_code: product.code,
-            product_name: product.name,
-            product_type: product.type,
-            batch_date: batch.batch_date,
-            supplier: batch.supplier || '',
-            quantity: batch.quantity,
-            unit_price: batch.unit_price,
-            total_price: batch.total_price,
-            selected: false,
-            transfer_quantity: 0,
-          });
-        }
+        stockItems.push({
+          product_id: product.id,
+          product_code: product.code,
+          product_name: product.name,
+          product_type: product.type,
+          batch_id: batch.batch_id,
+          batch_date: batch.batch_date,
+          lot_number: batch.lot_number,
+          expiry_date: batch.expiry_date,
+          supplier: batch.supplier || '',
+          quantity: batch.quantity,
+          unit_price: batch.unit_price,
+          total_price: batch.total_price,
+          selected: false,
+          transfer_quantity: 0,
+        });
+      }
+    }
+
+    stockItems.sort((a, b) => a.product_code.localeCompare(b.product_code));
+
+    if (!request) {
+      setAvailableStock(stockItems);
+      setLoading(false);
+      return;
+    }
+
+    // Prefill the approved quantities, oldest batches first, capped at what the source holds
+    let rows = stockItems;
+    const quantities: Record<string, number> = {};
+    const shortages: string[] = [];
+
+    for (const item of request.items) {
+      const productRows = rows.filter((row) => stockKey(row.product_type, row.product_id) === item.key);
+      const available = productRows.reduce((sum, row) => sum + row.quantity, 0);
+      const quantity = Math.min(item.approved_qty, available);
+
+      if (quantity < item.approved_qty) {
+        const product = allProducts.find((p) => stockKey(p.type, p.id) === item.key);
+        shortages.push(`${product?.code || 'N/A'}: ${available.toFixed(2)} / ${item.approved_qty.toFixed(2)}`);
+      }
+
+      if (quantity > 0) {
+        quantities[item.key] = quantity;
+        rows = allocateProductQuantity(rows, item.key, quantity, 'fifo');
       }
     }
 
-    setAvailableStock(stockItems.sort((a, b) => a.product_code.localeCompare(b.product_code)));
+    setAvailableStock(rows);
+    setProductQuantities(quantities);
     setLoading(false);
+
+    if (shortages.length > 0) {
+      setModal({
+        isOpen: true,
+        title: 'Məlumat',
+        message: `Anbarda təsdiqlənən miqdar qədər qalıq olmayan məhsullar (mövcud / təsdiqlənən): ${shortages.join(', ')}`,
+        type: 'info',
+      });
+    }
+  };
+
+  const detachTransferRequest = () => {
+    setTransferRequest(null);
   };
 
   const toggleSelection = (index: number) => {
@@ -104,7 +259,7 @@ export default function WarehouseTransfer() {
 
     setAvailableStock(
       availableStock.map((item) => {
-        const isInFiltered = filteredItems.some(f => f.product_id === item.product_id && f.batch_date === item.batch_date);
+        const isInFiltered = filteredItems.some(f => f.batch_id === item.batch_id);
         if (isInFiltered) {
           return { ...item, selected: !allSelected, transfer_quantity: !allSelected ? item.quantity : 0 };
         }
@@ -121,6 +276,22 @@ export default function WarehouseTransfer() {
     );
   };
 
+  const updateProductQuantity = (key: string, quantity: number, available: number) => {
+    const requested = Math.min(Math.max(quantity, 0), available);
+    setProductQuantities({ ...productQuantities, [key]: requested });
+    setAvailableStock(allocateProductQuantity(availableStock, key, requested, allocationStrategy));
+  };
+
+  const updateAllocationStrategy = (strategy: AllocationStrategy) => {
+    setAllocationStrategy(strategy);
+    setAvailableStock(
+      Object.entries(productQuantities).reduce(
+        (rows, [key, quantity]) => allocateProductQuantity(rows, key, quantity, strategy),
+        availableStock
+      )
+    );
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -150,93 +321,73 @@ export default function WarehouseTransfer() {
 
     setLoading(true);
 
-    const totalAmount = selectedItems.reduce(
-      (sum, item) => sum + item.transfer_quantity * item.unit_price,
-      0
-    );
-
-    const { data: transfer, error: transferError } = await supabase
-      .from('transfers')
-      .insert([
-        {
-          from_warehouse_id: fromWarehouse,
-          to_warehouse_id: toWarehouse,
-          date: date,
-          total_amount: totalAmount,
-        },
-      ])
-      .select()
-      .single();
-
-    if (transferError || !transfer) {
-      setModal({ isOpen: true, title: 'Xəta', message: 'Transfer yaradılarkən xəta baş verdi', type: 'error' });
-      setLoading(false);
-      return;
-    }
-
-    const transferItems = selectedItems.map((item) => ({
-      transfer_id: transfer.id,
-      product_type: item.product_type,
-      product_id: item.product_id,
-      batch_date: item.batch_date,
+    const items = selectedItems.map((item) => ({
+      batch_id: item.batch_id,
       quantity: item.transfer_quantity,
-      unit_price: item.unit_price,
-      total_price: item.transfer_quantity * item.unit_price,
     }));
 
-    const { error: itemsError } = await supabase.from('transfer_items').insert(transferItems);
-
-    if (itemsError) {
-      setModal({ isOpen: true, title: 'Xəta', message: 'Transfer məhsulları əlavə edilərkən xəta baş verdi', type: 'error' });
-      await supabase.from('transfers').delete().eq('id', transfer.id);
+    const { error } = transferRequest
+      ? await supabase.rpc('fulfil_transfer_request', {
+          p_request_id: transferRequest.id,
+          p_date: date,
+          p_items: items,
+        })
+      : await supabase.rpc('post_transfer', {
+          p_from_warehouse_id: fromWarehouse,
+          p_to_warehouse_id: toWarehouse,
+          p_date: date,
+          p_items: items,
+        });
+
+    if (error) {
+      setModal({
+        isOpen: true,
+        title: 'Xəta',
+        message: error.code === 'P0001' ? error.message : 'Transfer yaradılarkən xəta baş verdi',
+        type: 'error',
+      });
       setLoading(false);
       return;
     }
 
-    const exitItems = selectedItems.map((item) => ({
-      stockout_id: '',
-      product_type: item.product_type,
-      product_id: item.product_id,
-      batch_date: item.batch_date,
-      quantity: item.transfer_quantity,
-      unit_price: item.unit_price,
-      total_price: item.transfer_quantity * item.unit_price,
-    }));
-
-    const { data: stockOut } = await supabase
-      .from('stock_out')
-      .insert([
-        {
-          warehouse_id: fromWarehouse,
-          date: date,
-          reason: 'transfer',
-          total_amount: totalAmount,
-          transfer_id: transfer.id,
-        },
-      ])
-      .select()
-      .single();
-
-    if (stockOut) {
-      await supabase
-        .from('stock_out_items')
-        .insert(exitItems.map((item) => ({ ...item, stockout_id: stockOut.id })));
-    }
-
-    setModal({ isOpen: true, title: 'Uğurlu', message: 'Transfer uğurla həyata keçirildi', type: 'success' });
+    setModal({ isOpen: true, title: 'Uğurlu', message: 'Transfer göndərildi. Məhsullar qəbul edən anbar təsdiqləyənə qədər yolda sayılır', type: 'success' });
     setFromWarehouse('');
     setToWarehouse('');
     setDate(new Date().toISOString().split('T')[0]);
     setAvailableStock([]);
+    setProductQuantities({});
+    setTransferRequest(null);
     setLoading(false);
   };
 
-  const filteredStock = availableStock.filter(
+  const searchedStock = availableStock.filter(
     (stock) =>
       stock.product_code.toLowerCase().includes(searchTerm.toLowerCase()) ||
       stock.product_name.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
+  const productPicks = new Map<string, ProductPick>();
+  for (const item of searchedStock) {
+    const key = stockKey(item.product_type, item.product_id);
+    const pick = productPicks.get(key) || {
+      key,
+      product_code: item.product_code,
+      product_name: item.product_name,
+      batch_count: 0,
+      available: 0,
+      allocated: 0,
+    };
+    pick.batch_count += 1;
+    pick.available += item.quantity;
+    pick.allocated += item.selected ? item.transfer_quantity : 0;
+    productPicks.set(key, pick);
+  }
+
+  // In product mode only the batches of requested products are listed, as the proposed allocation
+  const filteredStock = pickingMode === 'product'
+    ? searchedStock.filter((stock) => (productQuantities[stockKey(stock.product_type, stock.product_id)] || 0) > 0)
+    : searchedStock;
+
   const selectedItems = availableStock.filter((item) => item.selected && item.transfer_quantity > 0);
   const totalTransferAmount = selectedItems.reduce(
     (sum, item) => sum + item.transfer_quantity * item.unit_price,
@@ -255,6 +406,23 @@ export default function WarehouseTransfer() {
           <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
             <h3 className="text-lg font-semibold text-gray-900 mb-4">Transfer məlumatları</h3>
 
+            {transferRequest && (
+              <div className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-lg flex justify-between items-center gap-4">
+                <p className="text-sm text-blue-800">
+                  Transfer {warehouses.find((w) => w.id === transferRequest.to_warehouse_id)?.name || ''} anbarının
+                  təsdiqlənmiş sorğusu əsasında hazırlanır. Hər məhsul üzrə təsdiqlənən miqdardan çox göndərilə bilməz.
+                </p>
+                <button
+                  type="button"
+                  onClick={detachTransferRequest}
+                  className="flex items-center gap-1 px-3 py-1 text-sm text-blue-700 hover:bg-blue-100 rounded whitespace-nowrap"
+                >
+                  <X className="w-4 h-4" />
+                  Sorğudan ayır
+                </button>
+              </div>
+            )}
+
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -263,11 +431,12 @@ export default function WarehouseTransfer() {
                 <select
                   value={fromWarehouse}
                   onChange={(e) => setFromWarehouse(e.target.value)}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100"
+                  disabled={!!transferRequest}
                   required
                 >
                   <option value="">Seçin</option>
-                  {warehouses.map((w) => (
+                  {warehouses.filter((w) => canWriteWarehouse(w.id)).map((w) => (
                     <option key={w.id} value={w.id}>
                       [{w.code}] {w.name}
                     </option>
@@ -286,7 +455,8 @@ export default function WarehouseTransfer() {
                 <select
                   value={toWarehouse}
                   onChange={(e) => setToWarehouse(e.target.value)}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100"
+                  disabled={!!transferRequest}
                   required
                 >
                   <option value="">Seçin</option>
@@ -320,16 +490,54 @@ export default function WarehouseTransfer() {
                   <div>
                     <h3 className="text-lg font-semibold text-gray-900">Mövcud məhsullar</h3>
                     <p className="text-sm text-gray-500 mt-1">
-                      Transfer üçün məhsul və miqdarı seçin
+                      {pickingMode === 'batch'
+                        ? 'Transfer üçün məhsul və miqdarı seçin'
+                        : 'Məhsul üzrə miqdarı daxil edin, sistem onu partiyalara böləcək'}
                     </p>
                   </div>
-                  <button
-                    type="button"
-                    onClick={toggleSelectAll}
-                    className="px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 transition-colors"
-                  >
-                    {filteredStock.every(item => item.selected) ? 'Seçimi ləğv et' : 'Hamısını seç'}
-                  </button>
+                  <div className="flex items-center gap-3">
+                    <div className="flex rounded-lg border border-gray-300 overflow-hidden">
+                      <button
+                        type="button"
+                        onClick={() => setPickingMode('batch')}
+                        className={`px-4 py-2 text-sm transition-colors ${
+                          pickingMode === 'batch' ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                        }`}
+                      >
+                        Partiya üzrə
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setPickingMode('product')}
+                        className={`px-4 py-2 text-sm transition-colors ${
+                          pickingMode === 'product' ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                        }`}
+                      >
+                        Məhsul üzrə
+                      </button>
+                    </div>
+                    {pickingMode === 'batch' ? (
+                      <button
+                        type="button"
+                        onClick={toggleSelectAll}
+                        className="px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 transition-colors"
+                      >
+                        {filteredStock.every(item => item.selected) ? 'Seçimi ləğv et' : 'Hamısını seç'}
+                      </button>
+                    ) : (
+                      <select
+                        value={allocationStrategy}
+                        onChange={(e) => updateAllocationStrategy(e.target.value as AllocationStrategy)}
+                        className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      >
+                        {(Object.keys(ALLOCATION_STRATEGY_LABELS) as AllocationStrategy[]).map((strategy) => (
+                          <option key={strategy} value={strategy}>
+                            {ALLOCATION_STRATEGY_LABELS[strategy]}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                  </div>
                 </div>
 
                 <div className="relative">
@@ -344,6 +552,89 @@ export default function WarehouseTransfer() {
                 </div>
               </div>
 
+              {pickingMode === 'product' && (
+                <div className="overflow-x-auto border-b border-gray-200">
+                  <table className="w-full">
+                    <thead className="bg-gray-50 border-b border-gray-200">
+                      <tr>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                          Kod
+                        </th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                          Ad
+                        </th>
+                        <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                          Partiya sayı
+                        </th>
+                        <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                          Mövcud
+                        </th>
+                        <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                          Transfer miqdarı
+                        </th>
+                        <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                          Bölünən
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {loading ? (
+                        <tr>
+                          <td colSpan={6} className="px-4 py-8 text-center text-gray-500">
+                            Yüklənir...
+                          </td>
+                        </tr>
+                      ) : productPicks.size === 0 ? (
+                        <tr>
+                          <td colSpan={6} className="px-4 py-8 text-center text-gray-500">
+                            {searchTerm ? 'Nəticə tapılmadı' : 'Bu anbarda məhsul yoxdur'}
+                          </td>
+                        </tr>
+                      ) : (
+                        Array.from(productPicks.values()).map((pick) => {
+                          const requested = productQuantities[pick.key] || 0;
+                          return (
+                            <tr key={pick.key} className="hover:bg-gray-50">
+                              <td className="px-4 py-3 text-sm font-mono text-gray-900">{pick.product_code}</td>
+                              <td className="px-4 py-3 text-sm text-gray-900">{pick.product_name}</td>
+                              <td className="px-4 py-3 text-sm text-right text-gray-600">{pick.batch_count}</td>
+                              <td className="px-4 py-3 text-sm text-right text-gray-900">{pick.available.toFixed(2)}</td>
+                              <td className="px-4 py-3 text-right">
+                                <input
+                                  type="number"
+                                  value={requested || ''}
+                                  onChange={(e) => updateProductQuantity(pick.key, Number(e.target.value), pick.available)}
+                                  className="w-28 px-2 py-1 border border-gray-300 rounded text-sm text-right"
+                                  min="0"
+                                  max={pick.available}
+                                  step="0.01"
+                                />
+                              </td>
+                              <td
+                                className={`px-4 py-3 text-sm text-right font-medium ${
+                                  Math.abs(pick.allocated - requested) > 0.000001 ? 'text-orange-600' : 'text-gray-900'
+                                }`}
+                              >
+                                {pick.allocated.toFixed(2)}
+                              </td>
+                            </tr>
+                          );
+                        })
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {pickingMode === 'product' && (
+                <div className="px-6 pt-6">
+                  <h4 className="text-sm font-semibold text-gray-900">Təklif olunan bölgü</h4>
+                  <p className="text-sm text-gray-500 mt-1">
+                    Təsdiqdən əvvəl partiyaları və miqdarları dəyişə bilərsiniz
+                  </p>
+                </div>
+              )}
+
               <div className="overflow-x-auto">
                 <table className="w-full">
                   <thead className="bg-gray-50 border-b border-gray-200">
@@ -360,6 +651,12 @@ export default function WarehouseTransfer() {
                       <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
                         Partiya
                       </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                        Lot
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                        Son istifadə
+                      </th>
                       <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">
                         Mövcud
                       </th>
@@ -374,20 +671,22 @@ export default function WarehouseTransfer() {
                   <tbody className="divide-y divide-gray-200">
                     {loading ? (
                       <tr>
-                        <td colSpan={7} className="px-4 py-8 text-center text-gray-500">
+                        <td colSpan={9} className="px-4 py-8 text-center text-gray-500">
                           Yüklənir...
                         </td>
                       </tr>
                     ) : filteredStock.length === 0 ? (
                       <tr>
-                        <td colSpan={7} className="px-4 py-8 text-center text-gray-500">
-                          {searchTerm ? 'Nəticə tapılmadı' : 'Bu anbarda məhsul yoxdur'}
+                        <td colSpan={9} className="px-4 py-8 text-center text-gray-500">
+                          {pickingMode === 'product'
+                            ? 'Məhsul üzrə miqdar daxil edilməyib'
+                            : searchTerm ? 'Nəticə tapılmadı' : 'Bu anbarda məhsul yoxdur'}
                         </td>
                       </tr>
                     ) : (
                       filteredStock.map((item, index) => {
                         const originalIndex = availableStock.findIndex(
-                          (s) => s.product_id === item.product_id && s.batch_date === item.batch_date
+                          (s) => s.batch_id === item.batch_id
                         );
                         return (
                         <tr key={originalIndex} className="hover:bg-gray-50">
@@ -406,6 +705,12 @@ export default function WarehouseTransfer() {
                           <td className="px-4 py-3 text-sm text-gray-600">
                             {new Date(item.batch_date).toLocaleDateString('az-AZ')}
                           </td>
+                          <td className="px-4 py-3 text-sm font-mono text-gray-600">
+                            {item.lot_number || '-'}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-gray-600">
+                            {item.expiry_date ? new Date(item.expiry_date).toLocaleDateString('az-AZ') : '-'}
+                          </td>
                           <td className="px-4 py-3 text-sm text-right text-gray-900">
                             {item.quantity.toFixed(2)}
                           </td>
@@ -1,6 +1,7 @@
 import { useState, useEffect, useRef } from 'react';
 import { Plus, Pencil, Trash2, Upload } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
+import { DEFAULT_BASE_UNIT } from '../../lib/units';
 import * as XLSX from 'xlsx';
 import type { Consumable } from '../../types/database';
 
@@ -8,6 +9,11 @@ export default function ConsumablesTab() {
   const [consumables, setConsumables] = useState<Consumable[]>([]);
   const [name, setName] = useState('');
   const [code, setCode] = useState('');
+  const [baseUnit, setBaseUnit] = useState(DEFAULT_BASE_UNIT);
+  const [purchaseUnit, setPurchaseUnit] = useState('');
+  const [purchaseFactor, setPurchaseFactor] = useState(1);
+  const [issueUnit, setIssueUnit] = useState('');
+  const [issueFactor, setIssueFactor] = useState(1);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [importStatus, setImportStatus] = useState<string>('');
@@ -28,32 +34,49 @@ export default function ConsumablesTab() {
     }
   };
 
+  const resetForm = () => {
+    setName('');
+    setCode('');
+    setBaseUnit(DEFAULT_BASE_UNIT);
+    setPurchaseUnit('');
+    setPurchaseFactor(1);
+    setIssueUnit('');
+    setIssueFactor(1);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!name.trim() || !code.trim()) return;
 
     setLoading(true);
 
+    // Without a purchase or issue unit quantities are entered in the base unit
+    const units = {
+      base_unit: baseUnit.trim() || DEFAULT_BASE_UNIT,
+      purchase_unit: purchaseUnit.trim() || null,
+      purchase_factor: purchaseUnit.trim() ? purchaseFactor : 1,
+      issue_unit: issueUnit.trim() || null,
+      issue_factor: issueUnit.trim() ? issueFactor : 1,
+    };
+
     if (editingId) {
       const { error } = await supabase
         .from('consumables')
-        .update({ name: name.trim(), code: code.trim() })
+        .update({ name: name.trim(), code: code.trim(), ...units })
         .eq('id', editingId);
 
       if (!error) {
         setEditingId(null);
-        setName('');
-        setCode('');
+        resetForm();
         loadConsumables();
       }
     } else {
       const { error } = await supabase
         .from('consumables')
-        .insert([{ name: name.trim(), code: code.trim() }]);
+        .insert([{ name: name.trim(), code: code.trim(), ...units }]);
 
       if (!error) {
-        setName('');
-        setCode('');
+        resetForm();
         loadConsumables();
       }
     }
@@ -65,6 +88,11 @@ export default function ConsumablesTab() {
     setEditingId(consumable.id);
     setName(consumable.name);
     setCode(consumable.code);
+    setBaseUnit(consumable.base_unit);
+    setPurchaseUnit(consumable.purchase_unit || '');
+    setPurchaseFactor(Number(consumable.purchase_factor));
+    setIssueUnit(consumable.issue_unit || '');
+    setIssueFactor(Number(consumable.issue_factor));
   };
 
   const handleDelete = async (id: string) => {
@@ -79,8 +107,7 @@ export default function ConsumablesTab() {
 
   const cancelEdit = () => {
     setEditingId(null);
-    setName('');
-    setCode('');
+    resetForm();
   };
 
   const handleImportExcel = async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -192,6 +219,81 @@ export default function ConsumablesTab() {
               />
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Əsas vahid
+              </label>
+              <input
+                type="text"
+                value={baseUnit}
+                onChange={(e) => setBaseUnit(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="Məsələn: ədəd, dəst, ml"
+                required
+              />
+              <p className="mt-1 text-xs text-gray-500">Stok, qiymət və hesabatlar bu vahiddə aparılır</p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Alış vahidi
+                </label>
+                <input
+                  type="text"
+                  value={purchaseUnit}
+                  onChange={(e) => setPurchaseUnit(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder="Məsələn: qutu"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  1 alış vahidində {baseUnit || DEFAULT_BASE_UNIT}
+                </label>
+                <input
+                  type="number"
+                  value={purchaseFactor}
+                  onChange={(e) => setPurchaseFactor(Number(e.target.value))}
+                  disabled={!purchaseUnit.trim()}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100"
+                  min="0.0001"
+                  step="any"
+                  required
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Sərf vahidi
+                </label>
+                <input
+                  type="text"
+                  value={issueUnit}
+                  onChange={(e) => setIssueUnit(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder="Boş - əsas vahid"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  1 sərf vahidində {baseUnit || DEFAULT_BASE_UNIT}
+                </label>
+                <input
+                  type="number"
+                  value={issueFactor}
+                  onChange={(e) => setIssueFactor(Number(e.target.value))}
+                  disabled={!issueUnit.trim()}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100"
+                  min="0.0001"
+                  step="any"
+                  required
+                />
+              </div>
+            </div>
+
             <div className="flex gap-3">
               <button
                 type="submit"
@@ -250,6 +352,7 @@ export default function ConsumablesTab() {
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">#</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Kod</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Ad</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Vahid</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Tarix</th>
                   <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Əməliyyat</th>
                 </tr>
@@ -260,6 +363,19 @@ export default function ConsumablesTab() {
                     <td className="px-6 py-4 text-sm text-gray-900">{index + 1}</td>
                     <td className="px-6 py-4 text-sm font-mono text-gray-900">{consumable.code}</td>
                     <td className="px-6 py-4 text-sm font-medium text-gray-900">{consumable.name}</td>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      <div>{consumable.base_unit}</div>
+                      {consumable.purchase_unit && (
+                        <div className="text-xs text-gray-500">
+                          Alış: 1 {consumable.purchase_unit} = {Number(consumable.purchase_factor)} {consumable.base_unit}
+                        </div>
+                      )}
+                      {consumable.issue_unit && (
+                        <div className="text-xs text-gray-500">
+                          Sərf: 1 {consumable.issue_unit} = {Number(consumable.issue_factor)} {consumable.base_unit}
+                        </div>
+                      )}
+                    </td>
                     <td className="px-6 py-4 text-sm text-gray-600">
                       {new Date(consumable.created_at).toLocaleDateString('az-AZ')}
                     </td>
@@ -283,7 +399,7 @@ export default function ConsumablesTab() {
                 ))}
                 {consumables.length === 0 && (
                   <tr>
-                    <td colSpan={5} className="px-6 py-8 text-center text-gray-500">
+                    <td colSpan={6} className="px-6 py-8 text-center text-gray-500">
                       Hələ ki sərfiyyat malı əlavə edilməyib
                     </td>
                   </tr>
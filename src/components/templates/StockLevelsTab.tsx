@@ -0,0 +1,550 @@
+import { useState, useEffect, useRef } from 'react';
+import { Plus, Pencil, Trash2, Upload, Download } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import * as XLSX from 'xlsx';
+import SearchableProductSelect from '../SearchableProductSelect';
+import type { Warehouse, Reagent, Consumable, ProductType, StockLevel } from '../../types/database';
+
+export default function StockLevelsTab() {
+  const [stockLevels, setStockLevels] = useState<StockLevel[]>([]);
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [reagents, setReagents] = useState<Reagent[]>([]);
+  const [consumables, setConsumables] = useState<Consumable[]>([]);
+  const [filterWarehouse, setFilterWarehouse] = useState('');
+  const [warehouseId, setWarehouseId] = useState('');
+  const [productType, setProductType] = useState<ProductType>('reagent');
+  const [productId, setProductId] = useState('');
+  const [minQty, setMinQty] = useState('');
+  const [reorderPoint, setReorderPoint] = useState('');
+  const [maxQty, setMaxQty] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string>('');
+  const [importStatus, setImportStatus] = useState<string>('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    loadMasterData();
+    loadStockLevels();
+  }, []);
+
+  const loadMasterData = async () => {
+    const [warehousesRes, reagentsRes, consumablesRes] = await Promise.all([
+      supabase.from('warehouses').select('*').order('name'),
+      supabase.from('reagents').select('*').order('code'),
+      supabase.from('consumables').select('*').order('code'),
+    ]);
+
+    if (warehousesRes.data) setWarehouses(warehousesRes.data);
+    if (reagentsRes.data) setReagents(reagentsRes.data);
+    if (consumablesRes.data) setConsumables(consumablesRes.data);
+  };
+
+  const loadStockLevels = async () => {
+    const { data, error } = await supabase
+      .from('stock_levels')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (!error && data) {
+      setStockLevels(data);
+    }
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setProductId('');
+    setMinQty('');
+    setReorderPoint('');
+    setMaxQty('');
+    setError('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!warehouseId || !productId) return;
+
+    const min = Number(minQty) || 0;
+    const reorder = Number(reorderPoint) || 0;
+    const max = maxQty.trim() === '' ? null : Number(maxQty);
+
+    if (reorder < min) {
+      setError('Sifariş nöqtəsi minimum miqdardan az ola bilməz.');
+      return;
+    }
+
+    if (max !== null && max < reorder) {
+      setError('Maksimum miqdar sifariş nöqtəsindən az ola bilməz.');
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+
+    const payload = {
+      warehouse_id: warehouseId,
+      product_type: productType,
+      product_id: productId,
+      min_qty: min,
+      reorder_point: reorder,
+      max_qty: max,
+      updated_at: new Date().toISOString(),
+    };
+
+    const { error: saveError } = editingId
+      ? await supabase.from('stock_levels').update(payload).eq('id', editingId)
+      : await supabase.from('stock_levels').insert([payload]);
+
+    if (saveError) {
+      if (saveError.code === '23505') {
+        setError('Bu anbar və məhsul üçün səviyyə artıq təyin edilib.');
+      } else {
+        setError('Xəta baş verdi.');
+      }
+    } else {
+      resetForm();
+      loadStockLevels();
+    }
+
+    setLoading(false);
+  };
+
+  const handleEdit = (level: StockLevel) => {
+    setEditingId(level.id);
+    setWarehouseId(level.warehouse_id);
+    setProductType(level.product_type);
+    setProductId(level.product_id);
+    setMinQty(String(level.min_qty));
+    setReorderPoint(String(level.reorder_point));
+    setMaxQty(level.max_qty === null ? '' : String(level.max_qty));
+    setError('');
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Bu stok səviyyəsini silmək istədiyinizdən əminsiniz?')) return;
+
+    const { error } = await supabase.from('stock_levels').delete().eq('id', id);
+
+    if (!error) {
+      loadStockLevels();
+    }
+  };
+
+  const handleDownloadTemplate = () => {
+    const templateData = [
+      {
+        warehouse_code: 'WH001',
+        product_type: 'reagent',
+        product_code: 'RG001',
+        min_qty: 10,
+        reorder_point: 20,
+        max_qty: 100
+      },
+      {
+        warehouse_code: 'WH001',
+        product_type: 'consumable',
+        product_code: 'SM001',
+        min_qty: 50,
+        reorder_point: 80,
+        max_qty: ''
+      }
+    ];
+
+    const ws = XLSX.utils.json_to_sheet(templateData);
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, ws, 'Stock Levels');
+    XLSX.writeFile(wb, 'stock_levels_template.xlsx');
+  };
+
+  const handleImportExcel = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setLoading(true);
+    setImportStatus('Yüklənir...');
+
+    try {
+      const data = await file.arrayBuffer();
+      const workbook = XLSX.read(data);
+      const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+      const jsonData = XLSX.utils.sheet_to_json<Record<string, unknown>>(worksheet);
+
+      if (jsonData.length === 0) {
+        setImportStatus('Xəta: Excel faylında məlumat tapılmadı');
+        setLoading(false);
+        return;
+      }
+
+      const requiredColumns = ['warehouse_code', 'product_type', 'product_code', 'min_qty', 'reorder_point'];
+      const firstRow = jsonData[0];
+      const missingColumns = requiredColumns.filter(col => !(col in firstRow));
+
+      if (missingColumns.length > 0) {
+        setImportStatus(`Xəta: Aşağıdakı sütunlar əksikdir: ${missingColumns.join(', ')}`);
+        setLoading(false);
+        return;
+      }
+
+      const warehouseByCode = new Map(warehouses.map((w) => [w.code, w.id]));
+      const productByCode = {
+        reagent: new Map(reagents.map((r) => [r.code, r.id])),
+        consumable: new Map(consumables.map((c) => [c.code, c.id])),
+      };
+
+      const rows = [];
+      const errors: string[] = [];
+
+      for (let i = 0; i < jsonData.length; i++) {
+        const row = jsonData[i];
+        const rowNum = i + 2;
+
+        const warehouseCode = String(row.warehouse_code ?? '').trim();
+        const type = String(row.product_type ?? '').trim().toLowerCase() as ProductType;
+        const productCode = String(row.product_code ?? '').trim();
+        const min = Number(row.min_qty) || 0;
+        const reorder = Number(row.reorder_point) || 0;
+        const max = row.max_qty === undefined || row.max_qty === '' ? null : Number(row.max_qty);
+
+        if (type !== 'reagent' && type !== 'consumable') {
+          errors.push(`Sətir ${rowNum}: Tip 'reagent' və ya 'consumable' olmalıdır`);
+          continue;
+        }
+
+        const rowWarehouseId = warehouseByCode.get(warehouseCode);
+        if (!rowWarehouseId) {
+          errors.push(`Sətir ${rowNum}: Anbar kodu tapılmadı: ${warehouseCode}`);
+          continue;
+        }
+
+        const rowProductId = productByCode[type].get(productCode);
+        if (!rowProductId) {
+          errors.push(`Sətir ${rowNum}: Məhsul kodu tapılmadı: ${productCode}`);
+          continue;
+        }
+
+        if (reorder < min || (max !== null && (Number.isNaN(max) || max < reorder))) {
+          errors.push(`Sətir ${rowNum}: min_qty ≤ reorder_point ≤ max_qty olmalıdır`);
+          continue;
+        }
+
+        rows.push({
+          warehouse_id: rowWarehouseId,
+          product_type: type,
+          product_id: rowProductId,
+          min_qty: min,
+          reorder_point: reorder,
+          max_qty: max,
+          updated_at: new Date().toISOString(),
+        });
+      }
+
+      if (rows.length > 0) {
+        const { error: upsertError } = await supabase
+          .from('stock_levels')
+          .upsert(rows, { onConflict: 'warehouse_id,product_type,product_id' });
+
+        if (upsertError) {
+          setImportStatus('Xəta: Stok səviyyələri yadda saxlanıla bilmədi');
+          setLoading(false);
+          return;
+        }
+      }
+
+      let statusMsg = `Uğurlu: ${rows.length} səviyyə yadda saxlanıldı`;
+      if (errors.length > 0 && errors.length <= 5) {
+        statusMsg += `, ${errors.length} atlandı\n\nXətalar:\n${errors.join('\n')}`;
+      } else if (errors.length > 5) {
+        statusMsg += `, ${errors.length} atlandı`;
+      }
+
+      setImportStatus(statusMsg);
+      loadStockLevels();
+    } catch {
+      setImportStatus('Xəta: Excel faylı oxunarkən problem yarandı');
+    }
+
+    setLoading(false);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const warehouseMap = new Map(warehouses.map((w) => [w.id, w]));
+  const productMap = new Map([
+    ...reagents.map((r) => [`reagent_${r.id}`, r] as const),
+    ...consumables.map((c) => [`consumable_${c.id}`, c] as const),
+  ]);
+
+  const filteredLevels = filterWarehouse
+    ? stockLevels.filter((level) => level.warehouse_id === filterWarehouse)
+    : stockLevels;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+      <div>
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">
+            {editingId ? 'Stok Səviyyəsini Redaktə Et' : 'Yeni Stok Səviyyəsi'}
+          </h3>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Anbar *
+              </label>
+              <select
+                value={warehouseId}
+                onChange={(e) => setWarehouseId(e.target.value)}
+                disabled={!!editingId}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100"
+                required
+              >
+                <option value="">Seçin</option>
+                {warehouses.map((w) => (
+                  <option key={w.id} value={w.id}>
+                    [{w.code}] {w.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Tip
+                </label>
+                <select
+                  value={productType}
+                  onChange={(e) => {
+                    setProductType(e.target.value as ProductType);
+                    setProductId('');
+                  }}
+                  disabled={!!editingId}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100"
+                >
+                  <option value="reagent">Reagent</option>
+                  <option value="consumable">Sərfiyyat</option>
+                </select>
+              </div>
+              <div className="col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Məhsul *
+                </label>
+                <SearchableProductSelect
+                  products={productType === 'reagent' ? reagents : consumables}
+                  value={productId}
+                  onChange={setProductId}
+                  productType={productType}
+                  placeholder="Məhsul seçin"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Minimum
+                </label>
+                <input
+                  type="number"
+                  value={minQty}
+                  onChange={(e) => setMinQty(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  min="0"
+                  step="0.01"
+                  placeholder="0"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Sifariş nöqtəsi
+                </label>
+                <input
+                  type="number"
+                  value={reorderPoint}
+                  onChange={(e) => setReorderPoint(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  min="0"
+                  step="0.01"
+                  placeholder="0"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Maksimum
+                </label>
+                <input
+                  type="number"
+                  value={maxQty}
+                  onChange={(e) => setMaxQty(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  min="0"
+                  step="0.01"
+                  placeholder="-"
+                />
+              </div>
+            </div>
+
+            {error && (
+              <div className="text-sm text-red-600">
+                {error}
+              </div>
+            )}
+
+            <div className="flex gap-3">
+              <button
+                type="submit"
+                disabled={loading || !warehouseId || !productId}
+                className="flex-1 flex items-center justify-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+              >
+                <Plus className="w-4 h-4" />
+                {editingId ? 'Yadda Saxla' : 'Səviyyə Əlavə Et'}
+              </button>
+              {editingId && (
+                <button
+                  type="button"
+                  onClick={resetForm}
+                  className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  Ləğv Et
+                </button>
+              )}
+            </div>
+          </form>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mt-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">
+            Excel-dən İdxal
+          </h3>
+
+          <div className="space-y-4">
+            <div>
+              <button
+                onClick={handleDownloadTemplate}
+                className="flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors mb-3"
+              >
+                <Download className="w-4 h-4" />
+                Nümunə Excel Şablonu Yüklə
+              </button>
+
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".xlsx,.xls"
+                onChange={handleImportExcel}
+                className="hidden"
+                id="stock-levels-upload"
+              />
+              <label
+                htmlFor="stock-levels-upload"
+                className="flex items-center justify-center gap-2 w-full px-4 py-2 border-2 border-dashed border-gray-300 rounded-lg hover:border-blue-500 hover:bg-blue-50 cursor-pointer transition-colors"
+              >
+                <Upload className="w-5 h-5" />
+                Excel Faylı Seçin
+              </label>
+            </div>
+
+            {importStatus && (
+              <div className={`p-3 rounded-lg text-sm whitespace-pre-line ${
+                importStatus.startsWith('Xəta') ? 'bg-red-50 text-red-700' : 'bg-green-50 text-green-700'
+              }`}>
+                {importStatus}
+              </div>
+            )}
+
+            <div className="mt-4 p-3 bg-blue-50 rounded-lg">
+              <h4 className="text-sm font-semibold text-blue-900 mb-2">Excel Formatı:</h4>
+              <ul className="text-xs text-blue-800 space-y-1">
+                <li>• <strong>warehouse_code</strong> - Anbar kodu (məs: WH001)</li>
+                <li>• <strong>product_type</strong> - reagent və ya consumable</li>
+                <li>• <strong>product_code</strong> - Məhsul kodu</li>
+                <li>• <strong>min_qty</strong> - Minimum miqdar</li>
+                <li>• <strong>reorder_point</strong> - Sifariş nöqtəsi</li>
+                <li>• <strong>max_qty</strong> - Maksimum miqdar (istəyə bağlı)</li>
+              </ul>
+              <p className="text-xs text-blue-800 mt-2">
+                Mövcud anbar və məhsul üçün səviyyə varsa, yenilənir.
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div>
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+          <div className="p-4 border-b border-gray-200">
+            <select
+              value={filterWarehouse}
+              onChange={(e) => setFilterWarehouse(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">Bütün Anbarlar</option>
+              {warehouses.map((w) => (
+                <option key={w.id} value={w.id}>
+                  [{w.code}] {w.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Anbar</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Məhsul</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Min</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Sifariş</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Maks</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Əməliyyat</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {filteredLevels.map((level) => {
+                  const product = productMap.get(`${level.product_type}_${level.product_id}`);
+                  return (
+                    <tr key={level.id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 text-sm text-gray-900">
+                        {warehouseMap.get(level.warehouse_id)?.name || 'N/A'}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-900">
+                        <span className="font-mono">{product?.code || 'N/A'}</span>
+                        <span className="text-gray-600"> – {product?.name || ''}</span>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-right text-gray-900">{Number(level.min_qty).toFixed(2)}</td>
+                      <td className="px-6 py-4 text-sm text-right text-gray-900">{Number(level.reorder_point).toFixed(2)}</td>
+                      <td className="px-6 py-4 text-sm text-right text-gray-900">
+                        {level.max_qty === null ? '-' : Number(level.max_qty).toFixed(2)}
+                      </td>
+                      <td className="px-6 py-4 text-right">
+                        <div className="flex justify-end gap-2">
+                          <button
+                            onClick={() => handleEdit(level)}
+                            className="p-1 text-blue-600 hover:bg-blue-50 rounded"
+                          >
+                            <Pencil className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => handleDelete(level.id)}
+                            className="p-1 text-red-600 hover:bg-red-50 rounded"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+                {filteredLevels.length === 0 && (
+                  <tr>
+                    <td colSpan={6} className="px-6 py-8 text-center text-gray-500">
+                      Hələ ki stok səviyyəsi təyin edilməyib
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
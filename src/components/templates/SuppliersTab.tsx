@@ -0,0 +1,329 @@
+import { useState, useEffect } from 'react';
+import { Plus, Pencil, Trash2 } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import Modal from '../Modal';
+import type { Supplier } from '../../types/database';
+
+export default function SuppliersTab() {
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [name, setName] = useState('');
+  const [taxId, setTaxId] = useState('');
+  const [contactPerson, setContactPerson] = useState('');
+  const [phone, setPhone] = useState('');
+  const [email, setEmail] = useState('');
+  const [address, setAddress] = useState('');
+  const [paymentTermsDays, setPaymentTermsDays] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string>('');
+  const [modal, setModal] = useState<{ isOpen: boolean; type: 'success' | 'error' | 'info'; title: string; message: string }>({
+    isOpen: false,
+    type: 'info',
+    title: '',
+    message: ''
+  });
+
+  useEffect(() => {
+    loadSuppliers();
+  }, []);
+
+  const loadSuppliers = async () => {
+    const { data, error } = await supabase
+      .from('suppliers')
+      .select('*')
+      .order('name');
+
+    if (!error && data) {
+      setSuppliers(data);
+    }
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName('');
+    setTaxId('');
+    setContactPerson('');
+    setPhone('');
+    setEmail('');
+    setAddress('');
+    setPaymentTermsDays('');
+    setError('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    setLoading(true);
+    setError('');
+
+    const payload = {
+      name: name.trim(),
+      tax_id: taxId.trim() || null,
+      contact_person: contactPerson.trim() || null,
+      phone: phone.trim() || null,
+      email: email.trim() || null,
+      address: address.trim() || null,
+      payment_terms_days: paymentTermsDays === '' ? null : parseInt(paymentTermsDays)
+    };
+
+    const { error: saveError } = editingId
+      ? await supabase.from('suppliers').update(payload).eq('id', editingId)
+      : await supabase.from('suppliers').insert([payload]);
+
+    if (saveError) {
+      if (saveError.code === '23505') {
+        setError('Bu ad və ya VÖEN ilə təchizatçı artıq mövcuddur.');
+      } else {
+        setError('Xəta baş verdi.');
+      }
+    } else {
+      resetForm();
+      loadSuppliers();
+    }
+
+    setLoading(false);
+  };
+
+  const handleEdit = (supplier: Supplier) => {
+    setEditingId(supplier.id);
+    setName(supplier.name);
+    setTaxId(supplier.tax_id || '');
+    setContactPerson(supplier.contact_person || '');
+    setPhone(supplier.phone || '');
+    setEmail(supplier.email || '');
+    setAddress(supplier.address || '');
+    setPaymentTermsDays(supplier.payment_terms_days?.toString() ?? '');
+    setError('');
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Bu təchizatçını silmək istədiyinizdən əminsiniz?')) return;
+
+    const { error } = await supabase.from('suppliers').delete().eq('id', id);
+
+    if (error) {
+      setModal({
+        isOpen: true,
+        type: 'error',
+        title: 'Xəta',
+        message: error.code === '23503'
+          ? 'Bu təchizatçı qaimələrdə və ya sifarişlərdə istifadə olunub, silinə bilməz.'
+          : 'Təchizatçı silinərkən xəta baş verdi.'
+      });
+      return;
+    }
+
+    if (editingId === id) resetForm();
+    loadSuppliers();
+  };
+
+  const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+      <div>
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">
+            {editingId ? 'Təchizatçını Redaktə Et' : 'Yeni Təchizatçı'}
+          </h3>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Təchizatçı adı *
+              </label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className={inputClassName}
+                placeholder="Məsələn: ABC MMC"
+                required
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                VÖEN
+              </label>
+              <input
+                type="text"
+                value={taxId}
+                onChange={(e) => setTaxId(e.target.value)}
+                className={inputClassName}
+                placeholder="Məsələn: 1234567891"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Əlaqə şəxsi
+              </label>
+              <input
+                type="text"
+                value={contactPerson}
+                onChange={(e) => setContactPerson(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Telefon
+                </label>
+                <input
+                  type="tel"
+                  value={phone}
+                  onChange={(e) => setPhone(e.target.value)}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  E-poçt
+                </label>
+                <input
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Ödəniş müddəti (gün)
+              </label>
+              <input
+                type="number"
+                min="0"
+                step="1"
+                value={paymentTermsDays}
+                onChange={(e) => setPaymentTermsDays(e.target.value)}
+                className={inputClassName}
+                placeholder="Məsələn: 30"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Ünvan
+              </label>
+              <textarea
+                value={address}
+                onChange={(e) => setAddress(e.target.value)}
+                rows={3}
+                className={inputClassName}
+                placeholder="Təchizatçının ünvanı"
+              />
+            </div>
+
+            {error && (
+              <div className="text-sm text-red-600">
+                {error}
+              </div>
+            )}
+
+            <div className="flex gap-3">
+              <button
+                type="submit"
+                disabled={loading}
+                className="flex-1 flex items-center justify-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+              >
+                <Plus className="w-4 h-4" />
+                {editingId ? 'Yadda Saxla' : 'Təchizatçını Əlavə Et'}
+              </button>
+              {editingId && (
+                <button
+                  type="button"
+                  onClick={resetForm}
+                  className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  Ləğv Et
+                </button>
+              )}
+            </div>
+          </form>
+        </div>
+      </div>
+
+      <div className="lg:col-span-2">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">#</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Təchizatçı</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">VÖEN</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Əlaqə</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Ödəniş müddəti</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Əməliyyat</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {suppliers.map((supplier, index) => (
+                  <tr key={supplier.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 text-sm text-gray-900">{index + 1}</td>
+                    <td className="px-6 py-4 text-sm">
+                      <div className="font-medium text-gray-900">{supplier.name}</div>
+                      {supplier.address && (
+                        <div className="text-xs text-gray-500">{supplier.address}</div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-sm font-mono text-gray-900">{supplier.tax_id || '-'}</td>
+                    <td className="px-6 py-4 text-sm text-gray-600">
+                      <div>{supplier.contact_person || '-'}</div>
+                      {(supplier.phone || supplier.email) && (
+                        <div className="text-xs text-gray-500">
+                          {[supplier.phone, supplier.email].filter(Boolean).join(' · ')}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-600">
+                      {supplier.payment_terms_days !== null ? `${supplier.payment_terms_days} gün` : '-'}
+                    </td>
+                    <td className="px-6 py-4 text-right">
+                      <div className="flex justify-end gap-2">
+                        <button
+                          onClick={() => handleEdit(supplier)}
+                          className="p-1 text-blue-600 hover:bg-blue-50 rounded"
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(supplier.id)}
+                          className="p-1 text-red-600 hover:bg-red-50 rounded"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+                {suppliers.length === 0 && (
+                  <tr>
+                    <td colSpan={6} className="px-6 py-8 text-center text-gray-500">
+                      Hələ ki təchizatçı əlavə edilməyib
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+
+      <Modal
+        isOpen={modal.isOpen}
+        onClose={() => setModal({ ...modal, isOpen: false })}
+        type={modal.type}
+        title={modal.title}
+        message={modal.message}
+      />
+    </div>
+  );
+}
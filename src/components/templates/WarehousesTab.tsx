@@ -222,41 +222,22 @@ export default function WarehousesTab() {
           product = newProduct;
         }
 
-        const { data: invoice, error: invoiceError } = await supabase
-          .from('invoices')
-          .insert([{
-            invoice_code: `INIT-${Date.now()}-${i}`,
-            supplier: 'Initial Stock Upload',
-            date: currentDate,
-            warehouse_id: warehouse.id,
-            status: 'active'
-          }])
-          .select('id')
-          .single();
-
-        if (invoiceError || !invoice) {
-          skipped++;
-          errors.push(`Sətir ${rowNum}: Qaimə yaradıla bilmədi`);
-          continue;
-        }
-
-        const totalPrice = quantity * unitPrice;
-        const { error: itemError } = await supabase
-          .from('invoice_items')
-          .insert([{
-            invoice_id: invoice.id,
+        const { error: invoiceError } = await supabase.rpc('post_invoice', {
+          p_invoice_code: `INIT-${Date.now()}-${i}`,
+          p_supplier: 'Initial Stock Upload',
+          p_date: currentDate,
+          p_warehouse_id: warehouse.id,
+          p_items: [{
             product_type: productType,
             product_id: product.id,
             quantity: quantity,
-            unit_price: unitPrice,
-            total_price: totalPrice,
-            batch_date: currentDate
-          }]);
+            unit_price: unitPrice
+          }]
+        });
 
-        if (itemError) {
-          await supabase.from('invoices').delete().eq('id', invoice.id);
+        if (invoiceError) {
           skipped++;
-          errors.push(`Sətir ${rowNum}: Məhsul əlavə edilmədi`);
+          errors.push(`Sətir ${rowNum}: Qaimə yaradıla bilmədi`);
           continue;
         }
 
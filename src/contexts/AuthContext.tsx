@@ -1,23 +1,37 @@
 import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 import { User } from '@supabase/supabase-js';
 import { supabase } from '../lib/supabase';
+import { hasPermission, canWriteWarehouse } from '../lib/permissions';
+import type { Permission } from '../lib/permissions';
+import type { UserRole } from '../types/database';
 
 interface AuthContextType {
   user: User | null;
+  role: UserRole | null;
+  warehouseIds: string[];
   loading: boolean;
+  can: (permission: Permission) => boolean;
+  canWriteWarehouse: (warehouseId: string) => boolean;
   signOut: () => Promise<void>;
 }
 
+interface UserAccess {
+  userId: string;
+  role: UserRole | null;
+  warehouseIds: string[];
+}
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
-  const [loading, setLoading] = useState(true);
+  const [access, setAccess] = useState<UserAccess | null>(null);
+  const [sessionLoading, setSessionLoading] = useState(true);
 
   useEffect(() => {
     supabase.auth.getSession().then(({ data: { session } }) => {
       setUser(session?.user ?? null);
-      setLoading(false);
+      setSessionLoading(false);
     });
 
     const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
@@ -27,13 +41,49 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     return () => subscription.unsubscribe();
   }, []);
 
+  const userId = user?.id ?? null;
+
+  // Loaded outside onAuthStateChange: querying inside that callback can deadlock the client.
+  // Keyed by id, so token refreshes that replace the user object do not reload it
+  useEffect(() => {
+    if (!userId) {
+      setAccess(null);
+      return;
+    }
+
+    Promise.all([
+      supabase.from('user_roles').select('role').eq('user_id', userId).maybeSingle(),
+      supabase.from('user_warehouses').select('warehouse_id').eq('user_id', userId),
+    ]).then(([roleRes, warehousesRes]) => {
+      setAccess({
+        userId,
+        role: roleRes.data?.role ?? null,
+        warehouseIds: warehousesRes.data?.map((w) => w.warehouse_id) || [],
+      });
+    });
+  }, [userId]);
+
   const signOut = async () => {
     await supabase.auth.signOut();
     setUser(null);
   };
 
+  const role = access?.role ?? null;
+  const warehouseIds = access?.warehouseIds ?? [];
+  const loading = sessionLoading || (userId !== null && access?.userId !== userId);
+
   return (
-    <AuthContext.Provider value={{ user, loading, signOut }}>
+    <AuthContext.Provider
+      value={{
+        user,
+        role,
+        warehouseIds,
+        loading,
+        can: (permission) => hasPermission(role, permission),
+        canWriteWarehouse: (warehouseId) => canWriteWarehouse(role, warehouseIds, warehouseId),
+        signOut,
+      }}
+    >
       {children}
     </AuthContext.Provider>
   );
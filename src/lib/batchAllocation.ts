@@ -0,0 +1,78 @@
+export type AllocationStrategy = 'fifo' | 'fefo';
+
+export const ALLOCATION_STRATEGY_LABELS: Record<AllocationStrategy, string> = {
+  fifo: 'FIFO (ilk daxil olan)',
+  fefo: 'FEFO (ilk bitən)',
+};
+
+const QUANTITY_EPSILON = 1e-9;
+
+export interface AllocatableBatch {
+  batch_id: string;
+  batch_date: string;
+  expiry_date?: string | null;
+  quantity: number;
+  unit_price: number;
+}
+
+export interface BatchAllocation {
+  batch_id: string;
+  batch_date: string;
+  quantity: number;
+  unit_price: number;
+  total_price: number;
+}
+
+/**
+ * Orders batches in the sequence they should be consumed.
+ * FIFO uses batch_date; FEFO uses expiry_date and falls back to batch_date
+ * for batches without an expiry date, which are consumed last.
+ */
+export function sortBatchesForAllocation<T extends AllocatableBatch>(
+  batches: T[],
+  strategy: AllocationStrategy
+): T[] {
+  return [...batches].sort((a, b) => {
+    if (strategy === 'fefo') {
+      const aExpiry = a.expiry_date || '';
+      const bExpiry = b.expiry_date || '';
+      if (aExpiry !== bExpiry) {
+        if (!aExpiry) return 1;
+        if (!bExpiry) return -1;
+        return aExpiry.localeCompare(bExpiry);
+      }
+    }
+    return a.batch_date.localeCompare(b.batch_date);
+  });
+}
+
+/**
+ * Splits a quantity across batches using the given strategy. Each allocation
+ * carries its batch's own unit price. Whatever cannot be covered by the
+ * available batches is returned as `unallocated`.
+ */
+export function allocateQuantity(
+  batches: AllocatableBatch[],
+  quantity: number,
+  strategy: AllocationStrategy
+): { allocations: BatchAllocation[]; unallocated: number } {
+  const allocations: BatchAllocation[] = [];
+  let remaining = quantity;
+
+  for (const batch of sortBatchesForAllocation(batches, strategy)) {
+    if (remaining <= QUANTITY_EPSILON) break;
+    if (batch.quantity <= 0) continue;
+
+    const taken = Math.min(batch.quantity, remaining);
+    allocations.push({
+      batch_id: batch.batch_id,
+      batch_date: batch.batch_date,
+      quantity: taken,
+      unit_price: batch.unit_price,
+      total_price: taken * batch.unit_price,
+    });
+    remaining -= taken;
+  }
+
+  return { allocations, unallocated: remaining > QUANTITY_EPSILON ? remaining : 0 };
+}
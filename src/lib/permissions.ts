@@ -0,0 +1,45 @@
+import type { UserRole } from '../types/database';
+
+export type Permission =
+  | 'manage_master_data'
+  | 'manage_users'
+  | 'manage_periods'
+  | 'view_users'
+  | 'view_audit'
+  | 'post_documents'
+  | 'view_stock';
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'Administrator',
+  storekeeper: 'Anbardar',
+  auditor: 'Auditor',
+  read_only: 'Yalnız baxış',
+};
+
+/**
+ * Mirrors the RLS policies: the database is the source of truth, this only
+ * decides which pages and actions the UI offers.
+ */
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  admin: ['manage_master_data', 'manage_users', 'manage_periods', 'view_users', 'view_audit', 'post_documents', 'view_stock'],
+  storekeeper: ['post_documents', 'view_stock'],
+  auditor: ['view_users', 'view_audit', 'view_stock'],
+  read_only: ['view_stock'],
+};
+
+export function hasPermission(role: UserRole | null, permission: Permission): boolean {
+  return role !== null && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+/**
+ * Admins post to every warehouse, storekeepers only to the warehouses
+ * assigned to them.
+ */
+export function canWriteWarehouse(
+  role: UserRole | null,
+  warehouseIds: string[],
+  warehouseId: string
+): boolean {
+  if (role === 'admin') return true;
+  return role === 'storekeeper' && warehouseIds.includes(warehouseId);
+}
@@ -1,11 +1,14 @@
 import { supabase } from './supabase';
-import type { ProductType } from '../types/database';
+import type { ProductType, StockMovement } from '../types/database';
 
 export interface StockCalculationResult {
   totalQuantity: number;
   totalValue: number;
   batches: Array<{
+    batch_id: string;
     batch_date: string;
+    lot_number: string | null;
+    expiry_date: string | null;
     quantity: number;
     unit_price: number;
     total_price: number;
@@ -13,155 +16,209 @@ export interface StockCalculationResult {
   }>;
 }
 
+export interface StockLedgerRow {
+  warehouse_id: string;
+  product_type: ProductType;
+  product_id: string;
+  batch_id: string;
+  batch_date: string;
+  lot_number: string | null;
+  expiry_date: string | null;
+  unit_price: number;
+  quantity: number;
+  supplier: string;
+}
+
+const LEDGER_PAGE_SIZE = 1000;
+
+export function stockKey(productType: ProductType, productId: string): string {
+  return `${productType}_${productId}`;
+}
+
+/**
+ * Loads the ledger page by page. Throws the Supabase error when a page fails, so
+ * callers never work with part of the stock.
+ */
+export async function fetchStockLedger(filters: {
+  warehouseId?: string;
+  productType?: ProductType;
+  productId?: string;
+  asOf?: string;
+} = {}): Promise<StockLedgerRow[]> {
+  const rows: StockLedgerRow[] = [];
+
+  for (let from = 0; ; from += LEDGER_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .rpc('get_stock_ledger', {
+        p_warehouse_id: filters.warehouseId ?? null,
+        p_product_type: filters.productType ?? null,
+        p_product_id: filters.productId ?? null,
+        p_as_of: filters.asOf ?? null,
+      })
+      .range(from, from + LEDGER_PAGE_SIZE - 1);
+
+    if (error) throw error;
+    if (!data) break;
+
+    rows.push(
+      ...(data as StockLedgerRow[]).map((row) => ({
+        ...row,
+        unit_price: Number(row.unit_price),
+        quantity: Number(row.quantity),
+      }))
+    );
+
+    if (data.length < LEDGER_PAGE_SIZE) break;
+  }
+
+  return rows;
+}
+
+function emptyStockResult(): StockCalculationResult {
+  return { totalQuantity: 0, totalValue: 0, batches: [] };
+}
+
+function addLedgerRow(result: StockCalculationResult, row: StockLedgerRow) {
+  if (row.quantity <= 0) return;
+
+  result.batches.push({
+    batch_id: row.batch_id,
+    batch_date: row.batch_date,
+    lot_number: row.lot_number,
+    expiry_date: row.expiry_date,
+    quantity: row.quantity,
+    unit_price: row.unit_price,
+    total_price: row.quantity * row.unit_price,
+    supplier: row.supplier,
+  });
+  result.totalQuantity += row.quantity;
+  result.totalValue += row.quantity * row.unit_price;
+}
+
+/**
+ * Without asOf the current stock; with asOf (YYYY-MM-DD) the stock at the end of that
+ * day, ignoring movements dated after it.
+ */
 export async function calculateProductStockInWarehouse(
   warehouseId: string,
   productId: string,
-  productType: ProductType
+  productType: ProductType,
+  asOf?: string
 ): Promise<StockCalculationResult> {
-  const { data: invoices } = await supabase
-    .from('invoices')
-    .select('id')
-    .eq('warehouse_id', warehouseId)
-    .eq('status', 'active');
-
-  const invoiceIds = (invoices || []).map(inv => inv.id);
-
-  const { data: entries } = invoiceIds.length > 0
-    ? await supabase
-        .from('invoice_items')
-        .select('quantity, unit_price, batch_date, invoice_id')
-        .eq('product_type', productType)
-        .eq('product_id', productId)
-        .in('invoice_id', invoiceIds)
-    : { data: [] };
-
-  const { data: transfersIn } = await supabase
-    .from('transfers')
-    .select('id')
-    .eq('to_warehouse_id', warehouseId);
-
-  const transferInIds = (transfersIn || []).map(t => t.id);
-
-  const { data: transferItemsIn } = transferInIds.length > 0
-    ? await supabase
-        .from('transfer_items')
-        .select('quantity, unit_price, batch_date')
-        .eq('product_type', productType)
-        .eq('product_id', productId)
-        .in('transfer_id', transferInIds)
-    : { data: [] };
-
-  const { data: stockOuts } = await supabase
-    .from('stock_out')
-    .select('id')
-    .eq('warehouse_id', warehouseId)
-    .neq('reason', 'transfer');
-
-  const stockOutIds = (stockOuts || []).map(so => so.id);
-
-  const { data: stockOutItems } = stockOutIds.length > 0
-    ? await supabase
-        .from('stock_out_items')
-        .select('quantity, batch_date')
-        .eq('product_type', productType)
-        .eq('product_id', productId)
-        .in('stockout_id', stockOutIds)
-    : { data: [] };
-
-  const { data: transfersOut } = await supabase
-    .from('transfers')
-    .select('id')
-    .eq('from_warehouse_id', warehouseId);
-
-  const transferOutIds = (transfersOut || []).map(t => t.id);
-
-  const { data: transferItemsOut } = transferOutIds.length > 0
-    ? await supabase
-        .from('transfer_items')
-        .select('quantity, batch_date')
-        .eq('product_type', productType)
-        .eq('product_id', productId)
-        .in('transfer_id', transferOutIds)
-    : { data: [] };
-
-  const batchMap = new Map<string, {
-    quantity: number;
-    price: number;
-    invoiceIds: Set<string>;
-  }>();
-
-  (entries || []).forEach((entry) => {
-    const key = `${entry.batch_date}_${entry.unit_price}`;
-    if (!batchMap.has(key)) {
-      batchMap.set(key, { quantity: 0, price: entry.unit_price, invoiceIds: new Set() });
-    }
-    const current = batchMap.get(key)!;
-    current.quantity += Number(entry.quantity);
-    current.invoiceIds.add(entry.invoice_id);
-  });
+  const rows = await fetchStockLedger({ warehouseId, productType, productId, asOf });
+  const result = emptyStockResult();
 
-  (transferItemsIn || []).forEach((transfer) => {
-    const key = `${transfer.batch_date}_${transfer.unit_price}`;
-    if (!batchMap.has(key)) {
-      batchMap.set(key, { quantity: 0, price: transfer.unit_price, invoiceIds: new Set() });
-    }
-    const current = batchMap.get(key)!;
-    current.quantity += Number(transfer.quantity);
-  });
+  rows.forEach((row) => addLedgerRow(result, row));
 
-  const exitMap = new Map<string, number>();
+  return result;
+}
 
-  (stockOutItems || []).forEach((exit) => {
-    const current = exitMap.get(exit.batch_date) || 0;
-    exitMap.set(exit.batch_date, current + Number(exit.quantity));
-  });
+/**
+ * Loads the stock of every product in a warehouse with a single ledger request.
+ * The returned map is keyed by stockKey(productType, productId).
+ */
+export async function calculateWarehouseStock(
+  warehouseId: string,
+  asOf?: string
+): Promise<Map<string, StockCalculationResult>> {
+  const all = await calculateAllWarehousesStock(warehouseId, asOf);
+  return all.get(warehouseId) || new Map();
+}
 
-  (transferItemsOut || []).forEach((exit) => {
-    const current = exitMap.get(exit.batch_date) || 0;
-    exitMap.set(exit.batch_date, current + Number(exit.quantity));
-  });
+/**
+ * Loads the stock of every product in every warehouse, grouped by warehouse id
+ * and then by stockKey(productType, productId).
+ */
+export async function calculateAllWarehousesStock(
+  warehouseId?: string,
+  asOf?: string
+): Promise<Map<string, Map<string, StockCalculationResult>>> {
+  return groupByWarehouse(await fetchStockLedger({ warehouseId, asOf }));
+}
+
+// Virtual location holding dispatched transfers until the destination receives them
+export const IN_TRANSIT_LOCATION = 'in_transit';
+
+/**
+ * Loads the goods of transfers that were dispatched but not received yet (by the end of
+ * asOf, when given), grouped by destination warehouse id and then by
+ * stockKey(productType, productId).
+ */
+export async function calculateInTransitStock(
+  asOf?: string
+): Promise<Map<string, Map<string, StockCalculationResult>>> {
+  const { data, error } = await supabase.rpc('get_in_transit_stock', { p_as_of: asOf ?? null });
+
+  if (error) throw error;
+
+  return groupByWarehouse(
+    ((data || []) as StockLedgerRow[]).map((row) => ({
+      ...row,
+      unit_price: Number(row.unit_price),
+      quantity: Number(row.quantity),
+    }))
+  );
+}
+
+/**
+ * Loads stock movements in chronological order, with the running balance of the
+ * warehouse and product after each movement. Without filters every movement is loaded.
+ * Throws the Supabase error like fetchStockLedger.
+ */
+export async function fetchStockMovements(filters: {
+  warehouseId?: string;
+  productType?: ProductType;
+  productId?: string;
+  asOf?: string;
+} = {}): Promise<StockMovement[]> {
+  const rows: StockMovement[] = [];
+
+  for (let from = 0; ; from += LEDGER_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .rpc('get_stock_movements', {
+        p_warehouse_id: filters.warehouseId ?? null,
+        p_product_type: filters.productType ?? null,
+        p_product_id: filters.productId ?? null,
+        p_as_of: filters.asOf ?? null,
+      })
+      .range(from, from + LEDGER_PAGE_SIZE - 1);
+
+    if (error) throw error;
+    if (!data) break;
+
+    rows.push(
+      ...(data as StockMovement[]).map((row) => ({
+        ...row,
+        quantity: Number(row.quantity),
+        unit_price: Number(row.unit_price),
+        balance_quantity: Number(row.balance_quantity),
+        balance_value: Number(row.balance_value),
+      }))
+    );
+
+    if (data.length < LEDGER_PAGE_SIZE) break;
+  }
+
+  return rows;
+}
+
+function groupByWarehouse(rows: StockLedgerRow[]): Map<string, Map<string, StockCalculationResult>> {
+  const byWarehouse = new Map<string, Map<string, StockCalculationResult>>();
+
+  for (const row of rows) {
+    if (!byWarehouse.has(row.warehouse_id)) {
+      byWarehouse.set(row.warehouse_id, new Map());
+    }
+    const products = byWarehouse.get(row.warehouse_id)!;
+    const key = stockKey(row.product_type, row.product_id);
 
-  const batches = [];
-  let totalQuantity = 0;
-  let totalValue = 0;
-
-  for (const [key, value] of batchMap) {
-    const [batchDate] = key.split('_');
-    const exitQty = exitMap.get(batchDate) || 0;
-    const netQty = value.quantity - exitQty;
-
-    if (netQty > 0) {
-      const invoiceIds = Array.from(value.invoiceIds);
-      let supplier = '';
-
-      if (invoiceIds.length > 0) {
-        const { data: invoice } = await supabase
-          .from('invoices')
-          .select('supplier')
-          .eq('id', invoiceIds[0])
-          .maybeSingle();
-
-        if (invoice) supplier = invoice.supplier;
-      }
-
-      batches.push({
-        batch_date: batchDate,
-        quantity: netQty,
-        unit_price: value.price,
-        total_price: netQty * value.price,
-        supplier,
-      });
-
-      totalQuantity += netQty;
-      totalValue += netQty * value.price;
+    if (!products.has(key)) {
+      products.set(key, emptyStockResult());
     }
+    addLedgerRow(products.get(key)!, row);
   }
 
-  return {
-    totalQuantity,
-    totalValue,
-    batches: batches.sort((a, b) => b.batch_date.localeCompare(a.batch_date)),
-  };
+  return byWarehouse;
 }
 
 export async function validateStockAvailability(
@@ -198,32 +255,38 @@ export async function validateStockConsistency(): Promise<StockConsistencyIssue[
 
   if (!warehouses || !reagents || !consumables) return issues;
 
-  const allProducts = [
-    ...reagents.map(r => ({ ...r, type: 'reagent' as const })),
-    ...consumables.map(c => ({ ...c, type: 'consumable' as const })),
-  ];
-
-  for (const warehouse of warehouses) {
-    for (const product of allProducts) {
-      const stock = await calculateProductStockInWarehouse(
-        warehouse.id,
-        product.id,
-        product.type
-      );
-
-      if (stock.totalQuantity < 0) {
-        issues.push({
-          warehouse_id: warehouse.id,
-          warehouse_name: warehouse.name,
-          product_id: product.id,
-          product_code: product.code,
-          product_name: product.name,
-          product_type: product.type,
-          calculated_stock: stock.totalQuantity,
-          issue: 'Negative stock detected',
-        });
-      }
-    }
+  const warehouseMap = new Map(warehouses.map(w => [w.id, w]));
+  const productMap = new Map([
+    ...reagents.map(r => [stockKey('reagent', r.id), r] as const),
+    ...consumables.map(c => [stockKey('consumable', c.id), c] as const),
+  ]);
+
+  const rows = await fetchStockLedger();
+  const totals = new Map<string, { row: StockLedgerRow; quantity: number }>();
+
+  for (const row of rows) {
+    const key = `${row.warehouse_id}_${stockKey(row.product_type, row.product_id)}`;
+    const current = totals.get(key) || { row, quantity: 0 };
+    current.quantity += row.quantity;
+    totals.set(key, current);
+  }
+
+  for (const { row, quantity } of totals.values()) {
+    if (quantity >= 0) continue;
+
+    const warehouse = warehouseMap.get(row.warehouse_id);
+    const product = productMap.get(stockKey(row.product_type, row.product_id));
+
+    issues.push({
+      warehouse_id: row.warehouse_id,
+      warehouse_name: warehouse?.name || 'N/A',
+      product_id: row.product_id,
+      product_code: product?.code || 'N/A',
+      product_name: product?.name || 'N/A',
+      product_type: row.product_type,
+      calculated_stock: quantity,
+      issue: 'Negative stock detected',
+    });
   }
 
   return issues;
@@ -0,0 +1,57 @@
+import { supabase } from './supabase';
+import { stockKey } from './stockCalculations';
+import type { StockLevel } from '../types/database';
+
+export type StockLevelStatus = 'below_min' | 'reorder' | 'ok';
+
+export const STOCK_LEVEL_STATUS_LABELS: Record<StockLevelStatus, string> = {
+  below_min: 'Minimumdan aşağı',
+  reorder: 'Sifariş lazımdır',
+  ok: 'Normal',
+};
+
+/**
+ * Loads stock level settings grouped by warehouse id and then by
+ * stockKey(productType, productId).
+ */
+export async function fetchStockLevels(
+  warehouseId?: string
+): Promise<Map<string, Map<string, StockLevel>>> {
+  let query = supabase.from('stock_levels').select('*');
+  if (warehouseId) {
+    query = query.eq('warehouse_id', warehouseId);
+  }
+
+  const { data } = await query;
+  const byWarehouse = new Map<string, Map<string, StockLevel>>();
+
+  for (const level of (data || []) as StockLevel[]) {
+    if (!byWarehouse.has(level.warehouse_id)) {
+      byWarehouse.set(level.warehouse_id, new Map());
+    }
+    byWarehouse.get(level.warehouse_id)!.set(stockKey(level.product_type, level.product_id), {
+      ...level,
+      min_qty: Number(level.min_qty),
+      reorder_point: Number(level.reorder_point),
+      max_qty: level.max_qty === null ? null : Number(level.max_qty),
+    });
+  }
+
+  return byWarehouse;
+}
+
+export function getStockLevelStatus(quantity: number, level: StockLevel): StockLevelStatus {
+  if (quantity < level.min_qty) return 'below_min';
+  if (quantity <= level.reorder_point) return 'reorder';
+  return 'ok';
+}
+
+/**
+ * Quantity to order to bring the stock back up: up to max_qty when it is set,
+ * otherwise up to the reorder point. Zero when no order is needed.
+ */
+export function suggestedOrderQty(quantity: number, level: StockLevel): number {
+  if (getStockLevelStatus(quantity, level) === 'ok') return 0;
+  const target = level.max_qty ?? level.reorder_point;
+  return Math.max(target - quantity, 0);
+}
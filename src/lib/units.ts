@@ -0,0 +1,71 @@
+export type UnitKind = 'purchase' | 'issue';
+
+export const DEFAULT_BASE_UNIT = 'ədəd';
+
+// Unit columns of a reagent or consumable; screens select only the kind they need
+export interface ProductUnits {
+  base_unit: string;
+  purchase_unit?: string | null;
+  purchase_factor?: number;
+  issue_unit?: string | null;
+  issue_factor?: number;
+}
+
+export interface UnitOption {
+  label: string;
+  // Base units in one of this unit; 1 is the base unit itself
+  factor: number;
+}
+
+/**
+ * Units a quantity of the product can be entered in for a purchase or an issue.
+ * The purchase or issue unit comes first when the product has one, as it is the
+ * usual choice; the base unit is always available.
+ */
+export function unitOptions(product: ProductUnits | undefined, kind: UnitKind): UnitOption[] {
+  const baseUnit = product?.base_unit || DEFAULT_BASE_UNIT;
+  const base: UnitOption = { label: baseUnit, factor: 1 };
+  if (!product) return [base];
+
+  const unit = kind === 'purchase' ? product.purchase_unit : product.issue_unit;
+  const factor = Number(kind === 'purchase' ? product.purchase_factor : product.issue_factor);
+
+  if (!unit || !(factor > 0) || factor === 1) return [base];
+
+  return [{ label: `${unit} (${formatQuantity(factor)} ${baseUnit})`, factor }, base];
+}
+
+export function defaultUnitFactor(product: ProductUnits | undefined, kind: UnitKind): number {
+  return unitOptions(product, kind)[0].factor;
+}
+
+function formatQuantity(quantity: number): string {
+  return Number.isInteger(quantity) ? String(quantity) : quantity.toFixed(2);
+}
+
+// Decimals of a stored price or line total; a base-unit price such as 50 / 12 would
+// otherwise be stored with every digit of the float
+const PRICE_DECIMALS = 4;
+
+function roundPrice(value: number): number {
+  const scale = 10 ** PRICE_DECIMALS;
+  return Math.round(value * scale) / scale;
+}
+
+/**
+ * Converts a quantity and unit price entered in a unit holding `factor` base units
+ * into the base unit in which every document is stored. The base-unit price is
+ * rounded, so the line total is kept as entered instead of being derived from it.
+ */
+export function toBaseUnit(
+  quantity: number,
+  unitPrice: number,
+  factor: number,
+  lineTotal = quantity * unitPrice
+) {
+  return {
+    quantity: quantity * factor,
+    unit_price: roundPrice(unitPrice / factor),
+    total_price: roundPrice(lineTotal),
+  };
+}
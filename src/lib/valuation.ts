@@ -0,0 +1,209 @@
+import { fetchStockMovements, IN_TRANSIT_LOCATION, stockKey } from './stockCalculations';
+import type { ProductType, StockMovement } from '../types/database';
+
+export type ValuationMethod = 'fifo' | 'weighted_average';
+
+export const VALUATION_METHOD_LABELS: Record<ValuationMethod, string> = {
+  fifo: 'FIFO (ilk daxil olan)',
+  weighted_average: 'Orta çəkili maya dəyəri',
+};
+
+const QUANTITY_EPSILON = 1e-9;
+
+export interface ValuationRow {
+  // A warehouse id, or IN_TRANSIT_LOCATION for goods dispatched but not yet received
+  warehouse_id: string;
+  product_type: ProductType;
+  product_id: string;
+  opening_qty: number;
+  opening_value: number;
+  receipts_qty: number;
+  receipts_value: number;
+  issues_qty: number;
+  issues_value: number;
+  // Part of the issues that was consumed in the laboratory
+  consumption_value: number;
+  closing_qty: number;
+  closing_value: number;
+}
+
+interface CostLayer {
+  quantity: number;
+  unit_cost: number;
+}
+
+/**
+ * Receipt layers of one product in one warehouse. FIFO keeps one layer per receipt
+ * and issues the oldest first; weighted average keeps a single layer whose unit cost
+ * is re-averaged on every receipt.
+ */
+function receiveLayer(layers: CostLayer[], method: ValuationMethod, quantity: number, unitCost: number) {
+  if (method === 'weighted_average' && layers.length > 0) {
+    const layer = layers[0];
+    const totalQuantity = layer.quantity + quantity;
+    layer.unit_cost = totalQuantity > QUANTITY_EPSILON
+      ? (layer.quantity * layer.unit_cost + quantity * unitCost) / totalQuantity
+      : unitCost;
+    layer.quantity = totalQuantity;
+    return;
+  }
+  layers.push({ quantity, unit_cost: unitCost });
+}
+
+/**
+ * Takes a quantity out of the layers and returns its cost. A quantity the layers do
+ * not hold (not expected, the ledger prevents negative stock) is costed at
+ * fallbackCost.
+ */
+function issueFromLayers(layers: CostLayer[], quantity: number, fallbackCost: number): number {
+  let remaining = quantity;
+  let cost = 0;
+
+  while (remaining > QUANTITY_EPSILON && layers.length > 0) {
+    const layer = layers[0];
+    const take = Math.min(layer.quantity, remaining);
+    cost += take * layer.unit_cost;
+    layer.quantity -= take;
+    remaining -= take;
+    if (layer.quantity <= QUANTITY_EPSILON) {
+      layers.shift();
+    }
+  }
+
+  return cost + Math.max(remaining, 0) * fallbackCost;
+}
+
+function layersValue(layers: CostLayer[]): number {
+  return layers.reduce((sum, layer) => sum + layer.quantity * layer.unit_cost, 0);
+}
+
+/**
+ * Values movements sorted by get_stock_movements under the given method and sums
+ * them per warehouse and product for the period [periodStart, periodEnd]. Movements
+ * before periodStart make up the opening balance.
+ *
+ * Purchases and surpluses are received at their invoice price. A transfer is issued
+ * from the source at its cost under the method and received at the destination at
+ * that same cost, so transfers move value between warehouses without changing it.
+ * Between dispatch and receipt the goods are rows of IN_TRANSIT_LOCATION at that cost;
+ * its closing balance is the stock get_in_transit_stock reports for periodEnd.
+ */
+export function valueMovements(
+  movements: StockMovement[],
+  method: ValuationMethod,
+  periodStart: string,
+  periodEnd: string
+): ValuationRow[] {
+  const pools = new Map<string, CostLayer[]>();
+  const rows = new Map<string, ValuationRow>();
+  const transferCosts = new Map<string, number>();
+
+  const rowFor = (m: StockMovement, warehouseId = m.warehouse_id) => {
+    const key = `${warehouseId}_${stockKey(m.product_type, m.product_id)}`;
+    if (!pools.has(key)) {
+      pools.set(key, []);
+      rows.set(key, {
+        warehouse_id: warehouseId,
+        product_type: m.product_type,
+        product_id: m.product_id,
+        opening_qty: 0,
+        opening_value: 0,
+        receipts_qty: 0,
+        receipts_value: 0,
+        issues_qty: 0,
+        issues_value: 0,
+        consumption_value: 0,
+        closing_qty: 0,
+        closing_value: 0,
+      });
+    }
+    return { layers: pools.get(key)!, row: rows.get(key)! };
+  };
+
+  for (const m of movements) {
+    if (m.movement_date > periodEnd) continue;
+
+    const { layers, row } = rowFor(m);
+    const isOpening = m.movement_date < periodStart;
+
+    if (m.quantity > 0) {
+      const unitCost = m.movement_type === 'transfer_in'
+        ? transferCosts.get(m.line_id) ?? m.unit_price
+        : m.unit_price;
+      receiveLayer(layers, method, m.quantity, unitCost);
+
+      if (m.movement_type === 'transfer_in') {
+        const transit = rowFor(m, IN_TRANSIT_LOCATION).row;
+        if (isOpening) {
+          transit.opening_qty -= m.quantity;
+          transit.opening_value -= m.quantity * unitCost;
+        } else {
+          transit.issues_qty += m.quantity;
+          transit.issues_value += m.quantity * unitCost;
+        }
+      }
+
+      if (isOpening) {
+        row.opening_qty += m.quantity;
+        row.opening_value += m.quantity * unitCost;
+      } else {
+        row.receipts_qty += m.quantity;
+        row.receipts_value += m.quantity * unitCost;
+      }
+    } else if (m.quantity < 0) {
+      const quantity = -m.quantity;
+      const cost = issueFromLayers(layers, quantity, m.unit_price);
+
+      if (m.movement_type === 'transfer_out') {
+        transferCosts.set(m.line_id, cost / quantity);
+
+        const transit = rowFor(m, IN_TRANSIT_LOCATION).row;
+        if (isOpening) {
+          transit.opening_qty += quantity;
+          transit.opening_value += cost;
+        } else {
+          transit.receipts_qty += quantity;
+          transit.receipts_value += cost;
+        }
+      }
+
+      if (isOpening) {
+        row.opening_qty -= quantity;
+        row.opening_value -= cost;
+      } else {
+        row.issues_qty += quantity;
+        row.issues_value += cost;
+        if (m.movement_type === 'consumption') {
+          row.consumption_value += cost;
+        }
+      }
+    }
+  }
+
+  for (const [key, row] of rows) {
+    row.closing_qty = row.opening_qty + row.receipts_qty - row.issues_qty;
+    // Goods in transit keep the cost of their transfer line instead of cost layers
+    row.closing_value = row.warehouse_id === IN_TRANSIT_LOCATION
+      ? row.opening_value + row.receipts_value - row.issues_value
+      : layersValue(pools.get(key)!);
+  }
+
+  return Array.from(rows.values()).filter(
+    (row) => Math.abs(row.opening_qty) > QUANTITY_EPSILON
+      || row.receipts_qty > QUANTITY_EPSILON
+      || row.issues_qty > QUANTITY_EPSILON
+  );
+}
+
+/**
+ * Loads every movement up to periodEnd and values the period. All warehouses are
+ * valued together because a transfer carries the cost of its source warehouse.
+ */
+export async function calculateInventoryValuation(
+  periodStart: string,
+  periodEnd: string,
+  method: ValuationMethod
+): Promise<ValuationRow[]> {
+  const movements = await fetchStockMovements({ asOf: periodEnd });
+  return valueMovements(movements, method, periodStart, periodEnd);
+}
@@ -1,16 +1,85 @@
 export type ProductType = 'reagent' | 'consumable';
 
+export type InvoiceEntryType = 'purchase' | 'inventory_surplus';
+
+export type InvoiceStatus = 'active' | 'partially_returned' | 'returned' | 'cancelled';
+
+export type PurchaseOrderStatus = 'draft' | 'sent' | 'partially_received' | 'received' | 'closed';
+
+export type TransferStatus = 'in_transit' | 'received';
+
+export type TransferRequestStatus = 'pending' | 'approved' | 'rejected' | 'transferred';
+
+export type UserRole = 'admin' | 'storekeeper' | 'auditor' | 'read_only';
+
+export type AuditAction = 'insert' | 'update' | 'delete';
+
+export type AccountingPeriodStatus = 'open' | 'closed';
+
+export type StockMovementType =
+  | InvoiceEntryType
+  | 'transfer_in'
+  | 'transfer_out'
+  | 'consumption'
+  | 'expired'
+  | 'inventory_loss'
+  | 'transit_loss'
+  | 'invoice_return';
+
+export type StockDocumentType = 'invoice' | 'transfer' | 'stock_out';
+
 export interface Warehouse {
   id: string;
   name: string;
+  code: string;
   address: string | null;
   created_at: string;
 }
 
+export interface UserRoleAssignment {
+  user_id: string;
+  email: string | null;
+  role: UserRole;
+  created_at: string;
+}
+
+export interface UserWarehouse {
+  user_id: string;
+  warehouse_id: string;
+  created_at: string;
+}
+
+export interface AuditLogEntry {
+  id: string;
+  occurred_at: string;
+  actor_id: string | null;
+  actor_email: string | null;
+  action: AuditAction;
+  table_name: string;
+  row_id: string;
+  warehouse_ids: string[];
+  diff: Record<string, { old?: unknown; new?: unknown }>;
+}
+
+export interface AccountingPeriod {
+  id: string;
+  period_start: string;
+  status: AccountingPeriodStatus;
+  closed_at: string | null;
+  closed_by: string | null;
+  closed_by_email: string | null;
+  created_at: string;
+}
+
 export interface Reagent {
   id: string;
   name: string;
   code: string;
+  base_unit: string;
+  purchase_unit: string | null;
+  purchase_factor: number;
+  issue_unit: string | null;
+  issue_factor: number;
   created_at: string;
 }
 
@@ -18,6 +87,23 @@ export interface Consumable {
   id: string;
   name: string;
   code: string;
+  base_unit: string;
+  purchase_unit: string | null;
+  purchase_factor: number;
+  issue_unit: string | null;
+  issue_factor: number;
+  created_at: string;
+}
+
+export interface Supplier {
+  id: string;
+  name: string;
+  tax_id: string | null;
+  contact_person: string | null;
+  phone: string | null;
+  email: string | null;
+  address: string | null;
+  payment_terms_days: number | null;
   created_at: string;
 }
 
@@ -25,8 +111,14 @@ export interface Invoice {
   id: string;
   invoice_code: string;
   supplier: string;
+  supplier_id: string | null;
   date: string;
   warehouse_id: string;
+  status: InvoiceStatus;
+  entry_type: InvoiceEntryType;
+  count_id: string | null;
+  purchase_order_id: string | null;
+  created_by: string | null;
   created_at: string;
 }
 
@@ -39,15 +131,88 @@ export interface InvoiceItem {
   unit_price: number;
   total_price: number;
   batch_date: string;
+  lot_number: string | null;
+  expiry_date: string | null;
+  po_item_id: string | null;
+  created_at: string;
+}
+
+export interface InvoiceReturn {
+  id: string;
+  invoice_id: string;
+  stock_out_id: string;
+  date: string;
+  note: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface InvoiceSnapshot {
+  invoice_code: string;
+  supplier: string;
+  supplier_id: string | null;
+  date: string;
+  warehouse_id: string;
+  status: InvoiceStatus;
+  items: {
+    id: string;
+    product_type: ProductType;
+    product_id: string;
+    quantity: number;
+    unit_price: number;
+    total_price: number;
+    lot_number: string | null;
+    expiry_date: string | null;
+  }[];
+}
+
+export interface InvoiceRevision {
+  id: string;
+  invoice_id: string;
+  action: 'update' | 'cancel';
+  reason: string;
+  before: InvoiceSnapshot;
+  after: InvoiceSnapshot;
+  changed_by: string | null;
+  changed_by_email: string | null;
+  created_at: string;
+}
+
+export interface PurchaseOrder {
+  id: string;
+  po_code: string;
+  supplier: string;
+  supplier_id: string | null;
+  warehouse_id: string;
+  order_date: string;
+  expected_date: string | null;
+  status: PurchaseOrderStatus;
+  created_by: string | null;
   created_at: string;
 }
 
+export interface PurchaseOrderItem {
+  id: string;
+  po_id: string;
+  product_type: ProductType;
+  product_id: string;
+  ordered_qty: number;
+  unit_price: number;
+  received_qty: number;
+}
+
 export interface Transfer {
   id: string;
   from_warehouse_id: string;
   to_warehouse_id: string;
   date: string;
   total_amount: number;
+  status: TransferStatus;
+  received_date: string | null;
+  receipt_note: string | null;
+  received_by: string | null;
+  reversal_of: string | null;
+  created_by: string | null;
   created_at: string;
 }
 
@@ -56,18 +221,48 @@ export interface TransferItem {
   transfer_id: string;
   product_type: ProductType;
   product_id: string;
+  batch_id: string | null;
   batch_date: string;
+  lot_number: string | null;
+  expiry_date: string | null;
   quantity: number;
+  received_quantity: number | null;
   unit_price: number;
   total_price: number;
 }
 
+export interface TransferRequest {
+  id: string;
+  from_warehouse_id: string;
+  to_warehouse_id: string;
+  request_date: string;
+  needed_by: string | null;
+  note: string | null;
+  status: TransferRequestStatus;
+  rejection_reason: string | null;
+  decided_at: string | null;
+  decided_by: string | null;
+  transfer_id: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface TransferRequestItem {
+  id: string;
+  request_id: string;
+  product_type: ProductType;
+  product_id: string;
+  requested_qty: number;
+  approved_qty: number | null;
+}
+
 export interface StockOut {
   id: string;
   warehouse_id: string;
   date: string;
   reason: string;
   total_amount: number;
+  created_by: string | null;
   created_at: string;
 }
 
@@ -76,7 +271,10 @@ export interface StockOutItem {
   stockout_id: string;
   product_type: ProductType;
   product_id: string;
+  batch_id: string | null;
   batch_date: string;
+  lot_number: string | null;
+  expiry_date: string | null;
   quantity: number;
   unit_price: number;
   total_price: number;
@@ -87,6 +285,9 @@ export interface InventoryCount {
   warehouse_id: string;
   date: string;
   total_loss_amount: number;
+  total_surplus_amount: number;
+  allocation_strategy: 'fifo' | 'fefo';
+  created_by: string | null;
   created_at: string;
 }
 
@@ -99,6 +300,20 @@ export interface InventoryCountItem {
   real_qty: number;
   loss_qty: number;
   loss_amount: number;
+  surplus_qty: number;
+  surplus_amount: number;
+}
+
+export interface StockLevel {
+  id: string;
+  warehouse_id: string;
+  product_type: ProductType;
+  product_id: string;
+  min_qty: number;
+  reorder_point: number;
+  max_qty: number | null;
+  created_at: string;
+  updated_at: string;
 }
 
 export interface Product {
@@ -113,7 +328,10 @@ export interface StockBatch {
   product_code: string;
   product_name: string;
   product_type: ProductType;
+  batch_id: string;
   batch_date: string;
+  lot_number: string | null;
+  expiry_date: string | null;
   supplier: string;
   quantity: number;
   unit_price: number;
@@ -130,3 +348,24 @@ export interface StockSummary {
   last_entry_date: string;
   batches: StockBatch[];
 }
+
+export interface StockMovement {
+  line_id: string;
+  warehouse_id: string;
+  product_type: ProductType;
+  product_id: string;
+  movement_date: string;
+  posted_at: string;
+  movement_type: StockMovementType;
+  document_type: StockDocumentType;
+  document_id: string;
+  document_code: string | null;
+  counterparty: string;
+  batch_id: string;
+  lot_number: string | null;
+  expiry_date: string | null;
+  quantity: number;
+  unit_price: number;
+  balance_quantity: number;
+  balance_value: number;
+}
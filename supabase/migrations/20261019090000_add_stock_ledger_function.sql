@@ -0,0 +1,156 @@
+/*
+  # Server-side Stock Ledger
+
+  ## Overview
+  Stock used to be calculated in the browser with up to seven queries per product
+  (plus a supplier lookup per batch). Screens that list a whole warehouse looped over
+  every reagent and consumable, which made them unusable with a few thousand products.
+
+  This migration moves the stock formula into a single SQL function so that a whole
+  warehouse (or all warehouses) can be loaded in one request.
+
+  ## New Function
+
+  ### get_stock_ledger(p_warehouse_id, p_product_type, p_product_id)
+  - Returns one row per warehouse, product and batch with its net balance
+  - All parameters are optional; NULL means "no filter"
+  - Columns: warehouse_id, product_type, product_id, batch_date, unit_price, quantity, supplier
+
+  ## Formula
+  Same formula as documented in STOCK_LOGIC.md:
+  - Batches are built from active invoice items and incoming transfer items,
+    grouped by (batch_date, unit_price)
+  - Stock out items (except transfer exits, which are counted through transfer_items)
+    and outgoing transfer items are subtracted by batch_date
+  - Rows with a zero balance are omitted; negative rows are kept so that
+    consistency checks can detect them
+
+  ## Notes
+  1. The function is STABLE and read-only
+  2. Supplier is taken from the earliest invoice that created the batch
+*/
+
+CREATE OR REPLACE FUNCTION get_stock_ledger(
+  p_warehouse_id uuid DEFAULT NULL,
+  p_product_type text DEFAULT NULL,
+  p_product_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  warehouse_id uuid,
+  product_type text,
+  product_id uuid,
+  batch_date date,
+  unit_price numeric,
+  quantity numeric,
+  supplier text
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH entries AS (
+    SELECT
+      inv.warehouse_id,
+      ii.product_type,
+      ii.product_id,
+      ii.batch_date,
+      ii.unit_price,
+      ii.quantity,
+      inv.supplier,
+      inv.created_at
+    FROM invoice_items ii
+    JOIN invoices inv ON inv.id = ii.invoice_id
+    WHERE inv.status = 'active'
+      AND (p_warehouse_id IS NULL OR inv.warehouse_id = p_warehouse_id)
+      AND (p_product_type IS NULL OR ii.product_type = p_product_type)
+      AND (p_product_id IS NULL OR ii.product_id = p_product_id)
+
+    UNION ALL
+
+    SELECT
+      t.to_warehouse_id,
+      ti.product_type,
+      ti.product_id,
+      ti.batch_date,
+      ti.unit_price,
+      ti.quantity,
+      NULL::text,
+      t.created_at
+    FROM transfer_items ti
+    JOIN transfers t ON t.id = ti.transfer_id
+    WHERE (p_warehouse_id IS NULL OR t.to_warehouse_id = p_warehouse_id)
+      AND (p_product_type IS NULL OR ti.product_type = p_product_type)
+      AND (p_product_id IS NULL OR ti.product_id = p_product_id)
+  ),
+  batches AS (
+    SELECT
+      e.warehouse_id,
+      e.product_type,
+      e.product_id,
+      e.batch_date,
+      e.unit_price,
+      SUM(e.quantity) AS quantity,
+      (ARRAY_AGG(e.supplier ORDER BY e.created_at) FILTER (WHERE e.supplier IS NOT NULL))[1] AS supplier
+    FROM entries e
+    GROUP BY e.warehouse_id, e.product_type, e.product_id, e.batch_date, e.unit_price
+  ),
+  exits AS (
+    SELECT
+      so.warehouse_id,
+      soi.product_type,
+      soi.product_id,
+      soi.batch_date,
+      soi.quantity
+    FROM stock_out_items soi
+    JOIN stock_out so ON so.id = soi.stockout_id
+    WHERE so.reason <> 'transfer'
+      AND (p_warehouse_id IS NULL OR so.warehouse_id = p_warehouse_id)
+      AND (p_product_type IS NULL OR soi.product_type = p_product_type)
+      AND (p_product_id IS NULL OR soi.product_id = p_product_id)
+
+    UNION ALL
+
+    SELECT
+      t.from_warehouse_id,
+      ti.product_type,
+      ti.product_id,
+      ti.batch_date,
+      ti.quantity
+    FROM transfer_items ti
+    JOIN transfers t ON t.id = ti.transfer_id
+    WHERE (p_warehouse_id IS NULL OR t.from_warehouse_id = p_warehouse_id)
+      AND (p_product_type IS NULL OR ti.product_type = p_product_type)
+      AND (p_product_id IS NULL OR ti.product_id = p_product_id)
+  ),
+  exit_totals AS (
+    SELECT
+      x.warehouse_id,
+      x.product_type,
+      x.product_id,
+      x.batch_date,
+      SUM(x.quantity) AS quantity
+    FROM exits x
+    GROUP BY x.warehouse_id, x.product_type, x.product_id, x.batch_date
+  )
+  SELECT
+    b.warehouse_id,
+    b.product_type,
+    b.product_id,
+    b.batch_date,
+    b.unit_price,
+    b.quantity - COALESCE(x.quantity, 0) AS quantity,
+    COALESCE(b.supplier, '') AS supplier
+  FROM batches b
+  LEFT JOIN exit_totals x
+    ON x.warehouse_id = b.warehouse_id
+   AND x.product_type = b.product_type
+   AND x.product_id = b.product_id
+   AND x.batch_date = b.batch_date
+  WHERE b.quantity - COALESCE(x.quantity, 0) <> 0
+  ORDER BY b.warehouse_id, b.product_type, b.product_id, b.batch_date DESC, b.unit_price;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_stock_ledger(uuid, text, uuid) TO authenticated;
+
+-- Supporting index for transfer lookups by both directions
+CREATE INDEX IF NOT EXISTS idx_transfer_items_transfer_product
+  ON transfer_items(transfer_id, product_type, product_id);
@@ -0,0 +1,400 @@
+/*
+  # Atomic Posting of Business Operations
+
+  ## Overview
+  Invoices, transfers, consumption, inventory counts and invoice returns used to be
+  written from the browser as a chain of separate inserts, with a manual
+  "delete the header on failure" compensation. A failure halfway through could leave
+  half-posted documents behind (e.g. a transfer without its matching stock exit).
+
+  Each business operation is now posted by a single Postgres function. A function
+  call runs in one transaction, so the operation either fully succeeds or fully
+  rolls back.
+
+  ## New Functions
+
+  ### lock_warehouse_stock(p_warehouse_id)
+  - Takes a transaction-level advisory lock for a warehouse
+  - Serializes concurrent postings that reduce the same warehouse's stock
+
+  ### assert_stock_available(p_warehouse_id, p_items)
+  - Checks requested batch quantities against get_stock_ledger
+  - Raises an exception when a batch does not have enough stock
+
+  ### post_invoice(p_invoice_code, p_supplier, p_date, p_warehouse_id, p_items)
+  - Creates the invoice header and its items
+
+  ### post_transfer(p_from_warehouse_id, p_to_warehouse_id, p_date, p_items)
+  - Creates the transfer, its items and the linked 'transfer' stock out
+
+  ### post_stock_out(p_warehouse_id, p_date, p_reason, p_items)
+  - Creates a manual stock exit (consumption)
+
+  ### post_inventory_count(p_warehouse_id, p_date, p_count_code, p_items)
+  - Creates the count, its items and the 'inventory_loss' stock out for losses
+
+  ### return_invoice(p_invoice_id, p_date)
+  - Creates the 'invoice_return' stock out and marks the invoice as returned
+
+  ## Error Handling
+  Validation errors are raised with RAISE EXCEPTION (SQLSTATE P0001) and carry a
+  user-facing message in Azerbaijani. Any other error is a technical failure.
+*/
+
+CREATE OR REPLACE FUNCTION lock_warehouse_stock(p_warehouse_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('warehouse_stock:' || p_warehouse_id::text));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION assert_stock_available(p_warehouse_id uuid, p_items jsonb)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  r record;
+BEGIN
+  PERFORM lock_warehouse_stock(p_warehouse_id);
+
+  FOR r IN
+    SELECT
+      req.batch_date,
+      req.quantity,
+      COALESCE(l.quantity, 0) AS available,
+      COALESCE(rg.code, cs.code, req.product_id::text) AS product_code
+    FROM (
+      SELECT
+        x.product_type,
+        x.product_id,
+        x.batch_date,
+        x.unit_price,
+        SUM(x.quantity) AS quantity
+      FROM jsonb_to_recordset(p_items) AS x(
+        product_type text,
+        product_id uuid,
+        batch_date date,
+        unit_price numeric,
+        quantity numeric
+      )
+      GROUP BY x.product_type, x.product_id, x.batch_date, x.unit_price
+    ) req
+    LEFT JOIN get_stock_ledger(p_warehouse_id) l
+      ON l.product_type = req.product_type
+     AND l.product_id = req.product_id
+     AND l.batch_date = req.batch_date
+     AND l.unit_price = req.unit_price
+    LEFT JOIN reagents rg ON req.product_type = 'reagent' AND rg.id = req.product_id
+    LEFT JOIN consumables cs ON req.product_type = 'consumable' AND cs.id = req.product_id
+  LOOP
+    IF r.quantity IS NULL OR r.quantity <= 0 THEN
+      RAISE EXCEPTION '% üçün miqdar 0-dan böyük olmalıdır', r.product_code;
+    END IF;
+
+    IF r.quantity > r.available THEN
+      RAISE EXCEPTION '% (partiya %) üçün kifayət qədər stok yoxdur. Lazım: %, Mövcud: %',
+        r.product_code, r.batch_date, r.quantity, r.available;
+    END IF;
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION post_invoice(
+  p_invoice_code text,
+  p_supplier text,
+  p_date date,
+  p_warehouse_id uuid,
+  p_items jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_invoice_id uuid;
+BEGIN
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Qaimədə ən azı bir məhsul olmalıdır';
+  END IF;
+
+  INSERT INTO invoices (invoice_code, supplier, date, warehouse_id, status)
+  VALUES (p_invoice_code, p_supplier, p_date, p_warehouse_id, 'active')
+  RETURNING id INTO v_invoice_id;
+
+  INSERT INTO invoice_items (invoice_id, product_type, product_id, quantity, unit_price, total_price, batch_date)
+  SELECT
+    v_invoice_id,
+    x.product_type,
+    x.product_id,
+    x.quantity,
+    x.unit_price,
+    x.quantity * x.unit_price,
+    p_date
+  FROM jsonb_to_recordset(p_items) AS x(
+    product_type text,
+    product_id uuid,
+    quantity numeric,
+    unit_price numeric
+  );
+
+  RETURN v_invoice_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION post_transfer(
+  p_from_warehouse_id uuid,
+  p_to_warehouse_id uuid,
+  p_date date,
+  p_items jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_transfer_id uuid;
+  v_stock_out_id uuid;
+  v_total numeric;
+BEGIN
+  IF p_from_warehouse_id = p_to_warehouse_id THEN
+    RAISE EXCEPTION 'Göndərən və qəbul edən anbar eyni ola bilməz';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Transfer üçün ən azı bir məhsul seçilməlidir';
+  END IF;
+
+  PERFORM assert_stock_available(p_from_warehouse_id, p_items);
+
+  SELECT COALESCE(SUM(x.quantity * x.unit_price), 0)
+  INTO v_total
+  FROM jsonb_to_recordset(p_items) AS x(quantity numeric, unit_price numeric);
+
+  INSERT INTO transfers (from_warehouse_id, to_warehouse_id, date, total_amount)
+  VALUES (p_from_warehouse_id, p_to_warehouse_id, p_date, v_total)
+  RETURNING id INTO v_transfer_id;
+
+  INSERT INTO transfer_items (transfer_id, product_type, product_id, batch_date, quantity, unit_price, total_price)
+  SELECT
+    v_transfer_id,
+    x.product_type,
+    x.product_id,
+    x.batch_date,
+    x.quantity,
+    x.unit_price,
+    x.quantity * x.unit_price
+  FROM jsonb_to_recordset(p_items) AS x(
+    product_type text,
+    product_id uuid,
+    batch_date date,
+    quantity numeric,
+    unit_price numeric
+  );
+
+  INSERT INTO stock_out (warehouse_id, date, reason, total_amount, transfer_id)
+  VALUES (p_from_warehouse_id, p_date, 'transfer', v_total, v_transfer_id)
+  RETURNING id INTO v_stock_out_id;
+
+  INSERT INTO stock_out_items (stockout_id, product_type, product_id, batch_date, quantity, unit_price, total_price)
+  SELECT
+    v_stock_out_id,
+    ti.product_type,
+    ti.product_id,
+    ti.batch_date,
+    ti.quantity,
+    ti.unit_price,
+    ti.total_price
+  FROM transfer_items ti
+  WHERE ti.transfer_id = v_transfer_id;
+
+  RETURN v_transfer_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION post_stock_out(
+  p_warehouse_id uuid,
+  p_date date,
+  p_reason text,
+  p_items jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_stock_out_id uuid;
+  v_total numeric;
+BEGIN
+  IF p_reason NOT IN ('consumption') THEN
+    RAISE EXCEPTION 'Yanlış çıxış səbəbi: %', p_reason;
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Ən azı bir məhsul seçilməlidir';
+  END IF;
+
+  PERFORM assert_stock_available(p_warehouse_id, p_items);
+
+  SELECT COALESCE(SUM(x.quantity * x.unit_price), 0)
+  INTO v_total
+  FROM jsonb_to_recordset(p_items) AS x(quantity numeric, unit_price numeric);
+
+  INSERT INTO stock_out (warehouse_id, date, reason, total_amount)
+  VALUES (p_warehouse_id, p_date, p_reason, v_total)
+  RETURNING id INTO v_stock_out_id;
+
+  INSERT INTO stock_out_items (stockout_id, product_type, product_id, batch_date, quantity, unit_price, total_price)
+  SELECT
+    v_stock_out_id,
+    x.product_type,
+    x.product_id,
+    x.batch_date,
+    x.quantity,
+    x.unit_price,
+    x.quantity * x.unit_price
+  FROM jsonb_to_recordset(p_items) AS x(
+    product_type text,
+    product_id uuid,
+    batch_date date,
+    quantity numeric,
+    unit_price numeric
+  );
+
+  RETURN v_stock_out_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION post_inventory_count(
+  p_warehouse_id uuid,
+  p_date date,
+  p_count_code text,
+  p_items jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_count_id uuid;
+  v_stock_out_id uuid;
+  v_loss_total numeric;
+BEGIN
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Sayım siyahısı boşdur';
+  END IF;
+
+  CREATE TEMP TABLE tmp_count_items AS
+  SELECT *
+  FROM jsonb_to_recordset(p_items) AS x(
+    product_type text,
+    product_id uuid,
+    system_qty numeric,
+    real_qty numeric,
+    loss_qty numeric,
+    loss_amount numeric,
+    unit_price numeric
+  );
+
+  INSERT INTO inventory_count (warehouse_id, date, count_code, total_loss_amount)
+  VALUES (
+    p_warehouse_id,
+    p_date,
+    p_count_code,
+    (SELECT COALESCE(SUM(loss_amount), 0) FROM tmp_count_items)
+  )
+  RETURNING id INTO v_count_id;
+
+  INSERT INTO inventory_count_items (count_id, product_type, product_id, system_qty, real_qty, loss_qty, loss_amount)
+  SELECT v_count_id, product_type, product_id, system_qty, real_qty, loss_qty, loss_amount
+  FROM tmp_count_items;
+
+  SELECT COALESCE(SUM(loss_amount), 0)
+  INTO v_loss_total
+  FROM tmp_count_items
+  WHERE loss_qty > 0;
+
+  IF EXISTS (SELECT 1 FROM tmp_count_items WHERE loss_qty > 0) THEN
+    INSERT INTO stock_out (warehouse_id, date, reason, total_amount)
+    VALUES (p_warehouse_id, p_date, 'inventory_loss', v_loss_total)
+    RETURNING id INTO v_stock_out_id;
+
+    INSERT INTO stock_out_items (stockout_id, product_type, product_id, batch_date, quantity, unit_price, total_price)
+    SELECT v_stock_out_id, product_type, product_id, p_date, loss_qty, unit_price, loss_amount
+    FROM tmp_count_items
+    WHERE loss_qty > 0;
+  END IF;
+
+  DROP TABLE tmp_count_items;
+
+  RETURN v_count_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION return_invoice(p_invoice_id uuid, p_date date)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_invoice invoices%ROWTYPE;
+  v_stock_out_id uuid;
+  r record;
+BEGIN
+  SELECT * INTO v_invoice FROM invoices WHERE id = p_invoice_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Qaimə tapılmadı';
+  END IF;
+
+  IF v_invoice.status <> 'active' THEN
+    RAISE EXCEPTION '% qaiməsi artıq geri qaytarılıb', v_invoice.invoice_code;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM invoice_items WHERE invoice_id = p_invoice_id) THEN
+    RAISE EXCEPTION '% qaiməsində məhsul yoxdur', v_invoice.invoice_code;
+  END IF;
+
+  PERFORM lock_warehouse_stock(v_invoice.warehouse_id);
+
+  FOR r IN
+    SELECT
+      ii.product_type,
+      ii.product_id,
+      SUM(ii.quantity) AS quantity,
+      COALESCE((
+        SELECT SUM(l.quantity)
+        FROM get_stock_ledger(v_invoice.warehouse_id, ii.product_type, ii.product_id) l
+        WHERE l.quantity > 0
+      ), 0) AS available
+    FROM invoice_items ii
+    WHERE ii.invoice_id = p_invoice_id
+    GROUP BY ii.product_type, ii.product_id
+  LOOP
+    IF r.quantity > r.available THEN
+      RAISE EXCEPTION '"%" üçün kifayət qədər stok yoxdur. Lazım: %, Mövcud: %',
+        CASE WHEN r.product_type = 'reagent' THEN 'Reagent' ELSE 'Sərfiyyat' END,
+        r.quantity, r.available;
+    END IF;
+  END LOOP;
+
+  INSERT INTO stock_out (warehouse_id, date, reason, total_amount)
+  SELECT v_invoice.warehouse_id, p_date, 'invoice_return', COALESCE(SUM(total_price), 0)
+  FROM invoice_items
+  WHERE invoice_id = p_invoice_id
+  RETURNING id INTO v_stock_out_id;
+
+  INSERT INTO stock_out_items (stockout_id, product_type, product_id, batch_date, quantity, unit_price, total_price)
+  SELECT v_stock_out_id, product_type, product_id, batch_date, quantity, unit_price, total_price
+  FROM invoice_items
+  WHERE invoice_id = p_invoice_id;
+
+  UPDATE invoices SET status = 'returned' WHERE id = p_invoice_id;
+
+  RETURN v_stock_out_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION lock_warehouse_stock(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION assert_stock_available(uuid, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION post_invoice(text, text, date, uuid, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION post_transfer(uuid, uuid, date, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION post_stock_out(uuid, date, text, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION post_inventory_count(uuid, date, text, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION return_invoice(uuid, date) TO authenticated;
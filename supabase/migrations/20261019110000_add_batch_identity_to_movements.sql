@@ -0,0 +1,560 @@
+/*
+  # Batch Identity on Movement Lines
+
+  ## Overview
+  Batches were identified by (batch_date, unit_price) on the entry side, but exits were
+  subtracted by batch_date only. When two entries shared a date but had different prices,
+  one exit was subtracted from both of them.
+
+  Every batch now has a concrete identity: the invoice item that originally brought it
+  into the system. Transfer and stock out lines reference that batch, and the ledger
+  subtracts each exit from exactly that batch.
+
+  ## Changes
+
+  ### transfer_items, stock_out_items
+  - `batch_id` (uuid, references invoice_items) - origin batch of the moved quantity
+
+  ### get_stock_ledger
+  - Now returns `batch_id`
+  - Balances are grouped by (warehouse, product, batch_id)
+  - batch_date, unit_price and supplier come from the origin invoice item, so transferred
+    stock keeps the supplier of its batch
+  - Returned invoices keep their entries: the 'invoice_return' exit now removes the
+    quantity from exactly that batch, so excluding the invoice as well would subtract
+    it twice
+
+  ### Posting functions
+  - Items are passed as { batch_id, quantity }; product, batch date and price are taken
+    from the origin batch
+  - return_invoice checks availability per batch of the invoice
+
+  ## Backfill
+  Existing lines are matched to an invoice item of the same product, in this order:
+  1. Same batch_date and unit_price, invoiced into the movement's warehouse
+  2. Same batch_date and unit_price, any warehouse (batches that arrived by transfer)
+  3. Same batch_date, movement's warehouse first
+  4. Oldest invoice item of the product, movement's warehouse first (e.g. inventory
+     losses that were recorded with the count date instead of a real batch)
+
+  A product that was never invoiced has no batch to match. Before matching, each
+  warehouse such a product left gets an opening-balance invoice ('Initial Stock Upload',
+  code INIT-BACKFILL-<warehouse code>) with one batch per product, holding the quantity
+  that left at the average price of those lines. The lines then match that batch, so they
+  stay in the ledger without taking the warehouse below zero; the migration logs how many
+  lines and batches this concerned. After the backfill `batch_id` is NOT NULL on both
+  tables.
+*/
+
+ALTER TABLE transfer_items ADD COLUMN IF NOT EXISTS batch_id uuid REFERENCES invoice_items(id);
+ALTER TABLE stock_out_items ADD COLUMN IF NOT EXISTS batch_id uuid REFERENCES invoice_items(id);
+
+CREATE INDEX IF NOT EXISTS idx_transfer_items_batch_id ON transfer_items(batch_id);
+CREATE INDEX IF NOT EXISTS idx_stock_out_items_batch_id ON stock_out_items(batch_id);
+
+-- Backfill: best matching origin batch for existing movement lines
+CREATE OR REPLACE FUNCTION match_origin_batch(
+  p_warehouse_id uuid,
+  p_product_type text,
+  p_product_id uuid,
+  p_batch_date date,
+  p_unit_price numeric
+)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT ii.id
+  FROM invoice_items ii
+  JOIN invoices inv ON inv.id = ii.invoice_id
+  WHERE ii.product_type = p_product_type
+    AND ii.product_id = p_product_id
+  ORDER BY
+    (ii.batch_date = p_batch_date AND ii.unit_price = p_unit_price AND inv.warehouse_id = p_warehouse_id) DESC,
+    (ii.batch_date = p_batch_date AND ii.unit_price = p_unit_price) DESC,
+    (ii.batch_date = p_batch_date) DESC,
+    (inv.warehouse_id = p_warehouse_id) DESC,
+    ii.batch_date,
+    ii.created_at
+  LIMIT 1;
+$$;
+
+-- Products that were never invoiced get an opening-balance batch in every warehouse they
+-- left, which the matching below then picks as their only batch
+DO $$
+DECLARE
+  r record;
+  v_invoice_id uuid;
+  v_lines integer;
+  v_products integer;
+  v_batches integer := 0;
+BEGIN
+  CREATE TEMP TABLE tmp_uninvoiced_lines AS
+  SELECT *
+  FROM (
+    SELECT 'transfer' AS source, t.from_warehouse_id AS warehouse_id, ti.product_type, ti.product_id,
+      ti.batch_date, ti.quantity, ti.unit_price
+    FROM transfer_items ti
+    JOIN transfers t ON t.id = ti.transfer_id
+    WHERE ti.batch_id IS NULL
+    UNION ALL
+    SELECT 'stock_out', so.warehouse_id, soi.product_type, soi.product_id,
+      soi.batch_date, soi.quantity, soi.unit_price
+    FROM stock_out_items soi
+    JOIN stock_out so ON so.id = soi.stockout_id
+    WHERE soi.batch_id IS NULL
+  ) l
+  WHERE NOT EXISTS (
+    SELECT 1 FROM invoice_items ii
+    WHERE ii.product_type = l.product_type AND ii.product_id = l.product_id
+  );
+
+  FOR r IN
+    SELECT l.warehouse_id, w.code, MIN(l.batch_date) AS date
+    FROM tmp_uninvoiced_lines l
+    JOIN warehouses w ON w.id = l.warehouse_id
+    GROUP BY l.warehouse_id, w.code
+  LOOP
+    INSERT INTO invoices (invoice_code, supplier, date, warehouse_id)
+    VALUES ('INIT-BACKFILL-' || r.code, 'Initial Stock Upload', r.date, r.warehouse_id)
+    RETURNING id INTO v_invoice_id;
+
+    INSERT INTO invoice_items (invoice_id, product_type, product_id, quantity, unit_price, total_price, batch_date)
+    SELECT v_invoice_id, b.product_type, b.product_id, b.quantity, b.unit_price, b.quantity * b.unit_price, b.batch_date
+    FROM (
+      SELECT
+        product_type,
+        product_id,
+        -- A transfer leaves through its lines and its stock out; count the quantity once
+        GREATEST(
+          SUM(quantity) FILTER (WHERE source = 'transfer'),
+          SUM(quantity) FILTER (WHERE source = 'stock_out')
+        ) AS quantity,
+        SUM(quantity * unit_price) / SUM(quantity) AS unit_price,
+        MIN(batch_date) AS batch_date
+      FROM tmp_uninvoiced_lines
+      WHERE warehouse_id = r.warehouse_id
+      GROUP BY product_type, product_id
+    ) b;
+
+    v_batches := v_batches + (SELECT COUNT(*) FROM invoice_items WHERE invoice_id = v_invoice_id);
+  END LOOP;
+
+  SELECT COUNT(*), COUNT(DISTINCT (product_type, product_id))
+  INTO v_lines, v_products
+  FROM tmp_uninvoiced_lines;
+
+  IF v_lines > 0 THEN
+    RAISE NOTICE 'Qaimə ilə daxil edilməmiş % məhsulun % sətri üçün % açılış qalığı partiyası yaradıldı',
+      v_products, v_lines, v_batches;
+  END IF;
+
+  DROP TABLE tmp_uninvoiced_lines;
+END;
+$$;
+
+UPDATE transfer_items ti
+SET batch_id = match_origin_batch(t.from_warehouse_id, ti.product_type, ti.product_id, ti.batch_date, ti.unit_price)
+FROM transfers t
+WHERE t.id = ti.transfer_id
+  AND ti.batch_id IS NULL;
+
+-- Transfer exits mirror their transfer lines
+UPDATE stock_out_items soi
+SET batch_id = ti.batch_id
+FROM stock_out so, transfer_items ti
+WHERE so.id = soi.stockout_id
+  AND so.reason = 'transfer'
+  AND ti.transfer_id = so.transfer_id
+  AND ti.product_type = soi.product_type
+  AND ti.product_id = soi.product_id
+  AND ti.batch_date = soi.batch_date
+  AND ti.unit_price = soi.unit_price
+  AND soi.batch_id IS NULL;
+
+UPDATE stock_out_items soi
+SET batch_id = match_origin_batch(so.warehouse_id, soi.product_type, soi.product_id, soi.batch_date, soi.unit_price)
+FROM stock_out so
+WHERE so.id = soi.stockout_id
+  AND soi.batch_id IS NULL;
+
+DROP FUNCTION match_origin_batch(uuid, text, uuid, date, numeric);
+
+ALTER TABLE transfer_items ALTER COLUMN batch_id SET NOT NULL;
+ALTER TABLE stock_out_items ALTER COLUMN batch_id SET NOT NULL;
+
+-- The return type changes, so the ledger has to be recreated
+DROP FUNCTION IF EXISTS get_stock_ledger(uuid, text, uuid);
+
+CREATE FUNCTION get_stock_ledger(
+  p_warehouse_id uuid DEFAULT NULL,
+  p_product_type text DEFAULT NULL,
+  p_product_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  warehouse_id uuid,
+  product_type text,
+  product_id uuid,
+  batch_id uuid,
+  batch_date date,
+  unit_price numeric,
+  quantity numeric,
+  supplier text
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH movements AS (
+    SELECT
+      inv.warehouse_id,
+      ii.id AS batch_id,
+      ii.quantity
+    FROM invoice_items ii
+    JOIN invoices inv ON inv.id = ii.invoice_id
+    WHERE (p_warehouse_id IS NULL OR inv.warehouse_id = p_warehouse_id)
+      AND (p_product_type IS NULL OR ii.product_type = p_product_type)
+      AND (p_product_id IS NULL OR ii.product_id = p_product_id)
+
+    UNION ALL
+
+    SELECT
+      t.to_warehouse_id,
+      ti.batch_id,
+      ti.quantity
+    FROM transfer_items ti
+    JOIN transfers t ON t.id = ti.transfer_id
+    WHERE (p_warehouse_id IS NULL OR t.to_warehouse_id = p_warehouse_id)
+      AND (p_product_type IS NULL OR ti.product_type = p_product_type)
+      AND (p_product_id IS NULL OR ti.product_id = p_product_id)
+
+    UNION ALL
+
+    SELECT
+      t.from_warehouse_id,
+      ti.batch_id,
+      -ti.quantity
+    FROM transfer_items ti
+    JOIN transfers t ON t.id = ti.transfer_id
+    WHERE (p_warehouse_id IS NULL OR t.from_warehouse_id = p_warehouse_id)
+      AND (p_product_type IS NULL OR ti.product_type = p_product_type)
+      AND (p_product_id IS NULL OR ti.product_id = p_product_id)
+
+    UNION ALL
+
+    SELECT
+      so.warehouse_id,
+      soi.batch_id,
+      -soi.quantity
+    FROM stock_out_items soi
+    JOIN stock_out so ON so.id = soi.stockout_id
+    WHERE so.reason <> 'transfer'
+      AND (p_warehouse_id IS NULL OR so.warehouse_id = p_warehouse_id)
+      AND (p_product_type IS NULL OR soi.product_type = p_product_type)
+      AND (p_product_id IS NULL OR soi.product_id = p_product_id)
+  ),
+  balances AS (
+    SELECT
+      m.warehouse_id,
+      m.batch_id,
+      SUM(m.quantity) AS quantity
+    FROM movements m
+    GROUP BY m.warehouse_id, m.batch_id
+  )
+  SELECT
+    b.warehouse_id,
+    ii.product_type,
+    ii.product_id,
+    b.batch_id,
+    ii.batch_date,
+    ii.unit_price,
+    b.quantity,
+    COALESCE(inv.supplier, '') AS supplier
+  FROM balances b
+  JOIN invoice_items ii ON ii.id = b.batch_id
+  JOIN invoices inv ON inv.id = ii.invoice_id
+  WHERE b.quantity <> 0
+  ORDER BY b.warehouse_id, ii.product_type, ii.product_id, ii.batch_date DESC, ii.unit_price, ii.created_at, ii.id;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_stock_ledger(uuid, text, uuid) TO authenticated;
+
+-- Items: [{ batch_id, quantity }]
+CREATE OR REPLACE FUNCTION assert_stock_available(p_warehouse_id uuid, p_items jsonb)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  r record;
+BEGIN
+  PERFORM lock_warehouse_stock(p_warehouse_id);
+
+  FOR r IN
+    SELECT
+      req.batch_id,
+      req.quantity,
+      ii.id AS origin_id,
+      ii.batch_date,
+      COALESCE(l.quantity, 0) AS available,
+      COALESCE(rg.code, cs.code, ii.product_id::text) AS product_code
+    FROM (
+      SELECT x.batch_id, SUM(x.quantity) AS quantity
+      FROM jsonb_to_recordset(p_items) AS x(batch_id uuid, quantity numeric)
+      GROUP BY x.batch_id
+    ) req
+    LEFT JOIN invoice_items ii ON ii.id = req.batch_id
+    LEFT JOIN get_stock_ledger(p_warehouse_id) l ON l.batch_id = req.batch_id
+    LEFT JOIN reagents rg ON ii.product_type = 'reagent' AND rg.id = ii.product_id
+    LEFT JOIN consumables cs ON ii.product_type = 'consumable' AND cs.id = ii.product_id
+  LOOP
+    IF r.origin_id IS NULL THEN
+      RAISE EXCEPTION 'Partiya tapılmadı';
+    END IF;
+
+    IF r.quantity IS NULL OR r.quantity <= 0 THEN
+      RAISE EXCEPTION '% üçün miqdar 0-dan böyük olmalıdır', r.product_code;
+    END IF;
+
+    IF r.quantity > r.available THEN
+      RAISE EXCEPTION '% (partiya %) üçün kifayət qədər stok yoxdur. Lazım: %, Mövcud: %',
+        r.product_code, r.batch_date, r.quantity, r.available;
+    END IF;
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION post_transfer(
+  p_from_warehouse_id uuid,
+  p_to_warehouse_id uuid,
+  p_date date,
+  p_items jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_transfer_id uuid;
+  v_stock_out_id uuid;
+BEGIN
+  IF p_from_warehouse_id = p_to_warehouse_id THEN
+    RAISE EXCEPTION 'Göndərən və qəbul edən anbar eyni ola bilməz';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Transfer üçün ən azı bir məhsul seçilməlidir';
+  END IF;
+
+  PERFORM assert_stock_available(p_from_warehouse_id, p_items);
+
+  INSERT INTO transfers (from_warehouse_id, to_warehouse_id, date, total_amount)
+  VALUES (p_from_warehouse_id, p_to_warehouse_id, p_date, 0)
+  RETURNING id INTO v_transfer_id;
+
+  INSERT INTO transfer_items (transfer_id, product_type, product_id, batch_id, batch_date, quantity, unit_price, total_price)
+  SELECT
+    v_transfer_id,
+    ii.product_type,
+    ii.product_id,
+    ii.id,
+    ii.batch_date,
+    x.quantity,
+    ii.unit_price,
+    x.quantity * ii.unit_price
+  FROM jsonb_to_recordset(p_items) AS x(batch_id uuid, quantity numeric)
+  JOIN invoice_items ii ON ii.id = x.batch_id;
+
+  UPDATE transfers
+  SET total_amount = (SELECT COALESCE(SUM(total_price), 0) FROM transfer_items WHERE transfer_id = v_transfer_id)
+  WHERE id = v_transfer_id;
+
+  INSERT INTO stock_out (warehouse_id, date, reason, total_amount, transfer_id)
+  SELECT p_from_warehouse_id, p_date, 'transfer', total_amount, id
+  FROM transfers
+  WHERE id = v_transfer_id
+  RETURNING id INTO v_stock_out_id;
+
+  INSERT INTO stock_out_items (stockout_id, product_type, product_id, batch_id, batch_date, quantity, unit_price, total_price)
+  SELECT
+    v_stock_out_id,
+    ti.product_type,
+    ti.product_id,
+    ti.batch_id,
+    ti.batch_date,
+    ti.quantity,
+    ti.unit_price,
+    ti.total_price
+  FROM transfer_items ti
+  WHERE ti.transfer_id = v_transfer_id;
+
+  RETURN v_transfer_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION post_stock_out(
+  p_warehouse_id uuid,
+  p_date date,
+  p_reason text,
+  p_items jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_stock_out_id uuid;
+BEGIN
+  IF p_reason NOT IN ('consumption') THEN
+    RAISE EXCEPTION 'Yanlış çıxış səbəbi: %', p_reason;
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Ən azı bir məhsul seçilməlidir';
+  END IF;
+
+  PERFORM assert_stock_available(p_warehouse_id, p_items);
+
+  INSERT INTO stock_out (warehouse_id, date, reason, total_amount)
+  VALUES (p_warehouse_id, p_date, p_reason, 0)
+  RETURNING id INTO v_stock_out_id;
+
+  INSERT INTO stock_out_items (stockout_id, product_type, product_id, batch_id, batch_date, quantity, unit_price, total_price)
+  SELECT
+    v_stock_out_id,
+    ii.product_type,
+    ii.product_id,
+    ii.id,
+    ii.batch_date,
+    x.quantity,
+    ii.unit_price,
+    x.quantity * ii.unit_price
+  FROM jsonb_to_recordset(p_items) AS x(batch_id uuid, quantity numeric)
+  JOIN invoice_items ii ON ii.id = x.batch_id;
+
+  UPDATE stock_out
+  SET total_amount = (SELECT COALESCE(SUM(total_price), 0) FROM stock_out_items WHERE stockout_id = v_stock_out_id)
+  WHERE id = v_stock_out_id;
+
+  RETURN v_stock_out_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION post_inventory_count(
+  p_warehouse_id uuid,
+  p_date date,
+  p_count_code text,
+  p_items jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_count_id uuid;
+  v_stock_out_id uuid;
+  v_loss_total numeric;
+BEGIN
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Sayım siyahısı boşdur';
+  END IF;
+
+  PERFORM lock_warehouse_stock(p_warehouse_id);
+
+  CREATE TEMP TABLE tmp_count_items AS
+  SELECT *
+  FROM jsonb_to_recordset(p_items) AS x(
+    product_type text,
+    product_id uuid,
+    system_qty numeric,
+    real_qty numeric,
+    loss_qty numeric,
+    loss_amount numeric,
+    unit_price numeric
+  );
+
+  INSERT INTO inventory_count (warehouse_id, date, count_code, total_loss_amount)
+  VALUES (
+    p_warehouse_id,
+    p_date,
+    p_count_code,
+    (SELECT COALESCE(SUM(loss_amount), 0) FROM tmp_count_items)
+  )
+  RETURNING id INTO v_count_id;
+
+  INSERT INTO inventory_count_items (count_id, product_type, product_id, system_qty, real_qty, loss_qty, loss_amount)
+  SELECT v_count_id, product_type, product_id, system_qty, real_qty, loss_qty, loss_amount
+  FROM tmp_count_items;
+
+  SELECT COALESCE(SUM(loss_amount), 0)
+  INTO v_loss_total
+  FROM tmp_count_items
+  WHERE loss_qty > 0;
+
+  IF EXISTS (SELECT 1 FROM tmp_count_items WHERE loss_qty > 0) THEN
+    INSERT INTO stock_out (warehouse_id, date, reason, total_amount)
+    VALUES (p_warehouse_id, p_date, 'inventory_loss', v_loss_total)
+    RETURNING id INTO v_stock_out_id;
+
+    -- Losses are attributed to the oldest batch still in stock
+    INSERT INTO stock_out_items (stockout_id, product_type, product_id, batch_id, batch_date, quantity, unit_price, total_price)
+    SELECT v_stock_out_id, c.product_type, c.product_id, b.batch_id, COALESCE(b.batch_date, p_date), c.loss_qty, c.unit_price, c.loss_amount
+    FROM tmp_count_items c
+    LEFT JOIN LATERAL (
+      SELECT l.batch_id, l.batch_date
+      FROM get_stock_ledger(p_warehouse_id, c.product_type, c.product_id) l
+      WHERE l.quantity > 0
+      ORDER BY l.batch_date, l.unit_price
+      LIMIT 1
+    ) b ON true
+    WHERE c.loss_qty > 0;
+  END IF;
+
+  DROP TABLE tmp_count_items;
+
+  RETURN v_count_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION return_invoice(p_invoice_id uuid, p_date date)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_invoice invoices%ROWTYPE;
+  v_stock_out_id uuid;
+BEGIN
+  SELECT * INTO v_invoice FROM invoices WHERE id = p_invoice_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Qaimə tapılmadı';
+  END IF;
+
+  IF v_invoice.status <> 'active' THEN
+    RAISE EXCEPTION '% qaiməsi artıq geri qaytarılıb', v_invoice.invoice_code;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM invoice_items WHERE invoice_id = p_invoice_id) THEN
+    RAISE EXCEPTION '% qaiməsində məhsul yoxdur', v_invoice.invoice_code;
+  END IF;
+
+  PERFORM assert_stock_available(
+    v_invoice.warehouse_id,
+    (
+      SELECT jsonb_agg(jsonb_build_object('batch_id', id, 'quantity', quantity))
+      FROM invoice_items
+      WHERE invoice_id = p_invoice_id
+    )
+  );
+
+  INSERT INTO stock_out (warehouse_id, date, reason, total_amount)
+  SELECT v_invoice.warehouse_id, p_date, 'invoice_return', COALESCE(SUM(total_price), 0)
+  FROM invoice_items
+  WHERE invoice_id = p_invoice_id
+  RETURNING id INTO v_stock_out_id;
+
+  INSERT INTO stock_out_items (stockout_id, product_type, product_id, batch_id, batch_date, quantity, unit_price, total_price)
+  SELECT v_stock_out_id, product_type, product_id, id, batch_date, quantity, unit_price, total_price
+  FROM invoice_items
+  WHERE invoice_id = p_invoice_id;
+
+  UPDATE invoices SET status = 'returned' WHERE id = p_invoice_id;
+
+  RETURN v_stock_out_id;
+END;
+$$;
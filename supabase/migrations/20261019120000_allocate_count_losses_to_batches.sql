@@ -0,0 +1,149 @@
+/*
+  # Allocate Inventory Count Losses to Real Batches
+
+  ## Overview
+  Count losses were written as a single stock out line per product, dated on the count
+  date and valued at the product's average price. That line did not belong to any real
+  batch, so the remaining batches and the loss amount were both wrong.
+
+  Losses are now allocated across the warehouse's existing batches using a strategy
+  chosen on the count screen. Every allocated line references its batch and carries that
+  batch's own unit price.
+
+  ## Changes
+
+  ### inventory_count
+  - `allocation_strategy` (text) - 'fifo' (by batch date) or 'fefo' (by expiry date)
+
+  ### post_inventory_count
+  - New parameter `p_allocation_strategy`
+  - Each item carries `losses`: [{ batch_id, quantity }], which must add up to loss_qty
+  - Allocated quantities are validated against get_stock_ledger
+  - Loss amounts are recalculated from the batch prices
+*/
+
+ALTER TABLE inventory_count
+  ADD COLUMN IF NOT EXISTS allocation_strategy text NOT NULL DEFAULT 'fifo'
+  CHECK (allocation_strategy IN ('fifo', 'fefo'));
+
+DROP FUNCTION IF EXISTS post_inventory_count(uuid, date, text, jsonb);
+
+CREATE FUNCTION post_inventory_count(
+  p_warehouse_id uuid,
+  p_date date,
+  p_count_code text,
+  p_allocation_strategy text,
+  p_items jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_count_id uuid;
+  v_stock_out_id uuid;
+  v_losses jsonb;
+  r record;
+BEGIN
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Sayım siyahısı boşdur';
+  END IF;
+
+  CREATE TEMP TABLE tmp_count_items AS
+  SELECT *
+  FROM jsonb_to_recordset(p_items) AS x(
+    product_type text,
+    product_id uuid,
+    system_qty numeric,
+    real_qty numeric,
+    loss_qty numeric,
+    loss_amount numeric,
+    unit_price numeric,
+    losses jsonb
+  );
+
+  CREATE TEMP TABLE tmp_count_losses AS
+  SELECT
+    c.product_type,
+    c.product_id,
+    ii.id AS batch_id,
+    ii.batch_date,
+    ii.unit_price,
+    l.quantity
+  FROM tmp_count_items c
+  CROSS JOIN LATERAL jsonb_to_recordset(COALESCE(c.losses, '[]'::jsonb)) AS l(batch_id uuid, quantity numeric)
+  JOIN invoice_items ii ON ii.id = l.batch_id
+  WHERE c.loss_qty > 0
+    AND ii.product_type = c.product_type
+    AND ii.product_id = c.product_id;
+
+  FOR r IN
+    SELECT
+      COALESCE(rg.code, cs.code, c.product_id::text) AS product_code,
+      c.loss_qty,
+      COALESCE((
+        SELECT SUM(tl.quantity)
+        FROM tmp_count_losses tl
+        WHERE tl.product_type = c.product_type AND tl.product_id = c.product_id
+      ), 0) AS allocated
+    FROM tmp_count_items c
+    LEFT JOIN reagents rg ON c.product_type = 'reagent' AND rg.id = c.product_id
+    LEFT JOIN consumables cs ON c.product_type = 'consumable' AND cs.id = c.product_id
+    WHERE c.loss_qty > 0
+  LOOP
+    IF abs(r.loss_qty - r.allocated) > 0.000001 THEN
+      RAISE EXCEPTION '% üçün xərc partiyalara tam bölünməyib. Xərc: %, Bölünən: %',
+        r.product_code, r.loss_qty, r.allocated;
+    END IF;
+  END LOOP;
+
+  SELECT jsonb_agg(jsonb_build_object('batch_id', batch_id, 'quantity', quantity))
+  INTO v_losses
+  FROM tmp_count_losses;
+
+  IF v_losses IS NOT NULL THEN
+    PERFORM assert_stock_available(p_warehouse_id, v_losses);
+  ELSE
+    PERFORM lock_warehouse_stock(p_warehouse_id);
+  END IF;
+
+  UPDATE tmp_count_items c
+  SET loss_amount = COALESCE((
+    SELECT SUM(tl.quantity * tl.unit_price)
+    FROM tmp_count_losses tl
+    WHERE tl.product_type = c.product_type AND tl.product_id = c.product_id
+  ), 0)
+  WHERE c.loss_qty > 0;
+
+  INSERT INTO inventory_count (warehouse_id, date, count_code, total_loss_amount, allocation_strategy)
+  VALUES (
+    p_warehouse_id,
+    p_date,
+    p_count_code,
+    (SELECT COALESCE(SUM(loss_amount), 0) FROM tmp_count_items),
+    p_allocation_strategy
+  )
+  RETURNING id INTO v_count_id;
+
+  INSERT INTO inventory_count_items (count_id, product_type, product_id, system_qty, real_qty, loss_qty, loss_amount)
+  SELECT v_count_id, product_type, product_id, system_qty, real_qty, loss_qty, loss_amount
+  FROM tmp_count_items;
+
+  IF v_losses IS NOT NULL THEN
+    INSERT INTO stock_out (warehouse_id, date, reason, total_amount)
+    SELECT p_warehouse_id, p_date, 'inventory_loss', SUM(quantity * unit_price)
+    FROM tmp_count_losses
+    RETURNING id INTO v_stock_out_id;
+
+    INSERT INTO stock_out_items (stockout_id, product_type, product_id, batch_id, batch_date, quantity, unit_price, total_price)
+    SELECT v_stock_out_id, product_type, product_id, batch_id, batch_date, quantity, unit_price, quantity * unit_price
+    FROM tmp_count_losses;
+  END IF;
+
+  DROP TABLE tmp_count_losses;
+  DROP TABLE tmp_count_items;
+
+  RETURN v_count_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION post_inventory_count(uuid, date, text, text, jsonb) TO authenticated;
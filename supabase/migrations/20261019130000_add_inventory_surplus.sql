@@ -0,0 +1,265 @@
+/*
+  # Inventory Count Surplus
+
+  ## Overview
+  A count could only record losses. When the physical quantity was higher than the
+  system quantity the difference was stored as a negative loss and no movement was
+  posted, so found stock never entered the books.
+
+  Surpluses are now stored separately and posted as a positive adjustment: an invoice
+  with entry_type 'inventory_surplus', linked to the count, valued at the price chosen
+  on the count screen. Each surplus line becomes a new batch dated on the count date.
+
+  ## Changes
+
+  ### invoices
+  - `entry_type` (text) - 'purchase' (default) or 'inventory_surplus'
+  - `count_id` (uuid, references inventory_count) - count that produced a surplus entry
+
+  ### inventory_count
+  - `total_surplus_amount` (numeric) - value of all surpluses of the count
+
+  ### inventory_count_items
+  - `surplus_qty` (numeric) - real_qty - system_qty when positive
+  - `surplus_amount` (numeric) - surplus_qty * valuation price
+
+  ### post_inventory_count
+  - Items carry `surplus_qty` and `surplus_unit_price`
+  - Surpluses are posted as one 'inventory_surplus' invoice
+
+  ### return_invoice
+  - Only purchase invoices can be returned
+
+  ## Data Migration
+  Existing items with a negative loss are converted to surpluses (no movement is posted
+  for them retroactively), and total_loss_amount no longer includes them.
+*/
+
+ALTER TABLE invoices
+  ADD COLUMN IF NOT EXISTS entry_type text NOT NULL DEFAULT 'purchase'
+  CHECK (entry_type IN ('purchase', 'inventory_surplus'));
+
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS count_id uuid REFERENCES inventory_count(id);
+
+CREATE INDEX IF NOT EXISTS idx_invoices_count_id ON invoices(count_id);
+
+ALTER TABLE inventory_count ADD COLUMN IF NOT EXISTS total_surplus_amount numeric NOT NULL DEFAULT 0;
+
+ALTER TABLE inventory_count_items ADD COLUMN IF NOT EXISTS surplus_qty numeric NOT NULL DEFAULT 0;
+ALTER TABLE inventory_count_items ADD COLUMN IF NOT EXISTS surplus_amount numeric NOT NULL DEFAULT 0;
+
+UPDATE inventory_count_items
+SET surplus_qty = -loss_qty,
+    surplus_amount = -loss_amount,
+    loss_qty = 0,
+    loss_amount = 0
+WHERE loss_qty < 0;
+
+UPDATE inventory_count ic
+SET total_loss_amount = COALESCE((
+      SELECT SUM(ici.loss_amount) FROM inventory_count_items ici WHERE ici.count_id = ic.id
+    ), 0),
+    total_surplus_amount = COALESCE((
+      SELECT SUM(ici.surplus_amount) FROM inventory_count_items ici WHERE ici.count_id = ic.id
+    ), 0);
+
+CREATE OR REPLACE FUNCTION post_inventory_count(
+  p_warehouse_id uuid,
+  p_date date,
+  p_count_code text,
+  p_allocation_strategy text,
+  p_items jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_count_id uuid;
+  v_stock_out_id uuid;
+  v_invoice_id uuid;
+  v_losses jsonb;
+  r record;
+BEGIN
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Sayım siyahısı boşdur';
+  END IF;
+
+  CREATE TEMP TABLE tmp_count_items AS
+  SELECT
+    x.product_type,
+    x.product_id,
+    x.system_qty,
+    x.real_qty,
+    GREATEST(COALESCE(x.loss_qty, 0), 0) AS loss_qty,
+    0::numeric AS loss_amount,
+    GREATEST(COALESCE(x.surplus_qty, 0), 0) AS surplus_qty,
+    COALESCE(x.surplus_unit_price, 0) AS surplus_unit_price,
+    x.losses
+  FROM jsonb_to_recordset(p_items) AS x(
+    product_type text,
+    product_id uuid,
+    system_qty numeric,
+    real_qty numeric,
+    loss_qty numeric,
+    surplus_qty numeric,
+    surplus_unit_price numeric,
+    losses jsonb
+  );
+
+  IF EXISTS (SELECT 1 FROM tmp_count_items WHERE surplus_qty > 0 AND surplus_unit_price < 0) THEN
+    RAISE EXCEPTION 'Artıq üçün qiymət mənfi ola bilməz';
+  END IF;
+
+  CREATE TEMP TABLE tmp_count_losses AS
+  SELECT
+    c.product_type,
+    c.product_id,
+    ii.id AS batch_id,
+    ii.batch_date,
+    ii.unit_price,
+    l.quantity
+  FROM tmp_count_items c
+  CROSS JOIN LATERAL jsonb_to_recordset(COALESCE(c.losses, '[]'::jsonb)) AS l(batch_id uuid, quantity numeric)
+  JOIN invoice_items ii ON ii.id = l.batch_id
+  WHERE c.loss_qty > 0
+    AND ii.product_type = c.product_type
+    AND ii.product_id = c.product_id;
+
+  FOR r IN
+    SELECT
+      COALESCE(rg.code, cs.code, c.product_id::text) AS product_code,
+      c.loss_qty,
+      COALESCE((
+        SELECT SUM(tl.quantity)
+        FROM tmp_count_losses tl
+        WHERE tl.product_type = c.product_type AND tl.product_id = c.product_id
+      ), 0) AS allocated
+    FROM tmp_count_items c
+    LEFT JOIN reagents rg ON c.product_type = 'reagent' AND rg.id = c.product_id
+    LEFT JOIN consumables cs ON c.product_type = 'consumable' AND cs.id = c.product_id
+    WHERE c.loss_qty > 0
+  LOOP
+    IF abs(r.loss_qty - r.allocated) > 0.000001 THEN
+      RAISE EXCEPTION '% üçün xərc partiyalara tam bölünməyib. Xərc: %, Bölünən: %',
+        r.product_code, r.loss_qty, r.allocated;
+    END IF;
+  END LOOP;
+
+  SELECT jsonb_agg(jsonb_build_object('batch_id', batch_id, 'quantity', quantity))
+  INTO v_losses
+  FROM tmp_count_losses;
+
+  IF v_losses IS NOT NULL THEN
+    PERFORM assert_stock_available(p_warehouse_id, v_losses);
+  ELSE
+    PERFORM lock_warehouse_stock(p_warehouse_id);
+  END IF;
+
+  UPDATE tmp_count_items c
+  SET loss_amount = COALESCE((
+    SELECT SUM(tl.quantity * tl.unit_price)
+    FROM tmp_count_losses tl
+    WHERE tl.product_type = c.product_type AND tl.product_id = c.product_id
+  ), 0)
+  WHERE c.loss_qty > 0;
+
+  INSERT INTO inventory_count (warehouse_id, date, count_code, total_loss_amount, total_surplus_amount, allocation_strategy)
+  VALUES (
+    p_warehouse_id,
+    p_date,
+    p_count_code,
+    (SELECT COALESCE(SUM(loss_amount), 0) FROM tmp_count_items),
+    (SELECT COALESCE(SUM(surplus_qty * surplus_unit_price), 0) FROM tmp_count_items),
+    p_allocation_strategy
+  )
+  RETURNING id INTO v_count_id;
+
+  INSERT INTO inventory_count_items (
+    count_id, product_type, product_id, system_qty, real_qty,
+    loss_qty, loss_amount, surplus_qty, surplus_amount
+  )
+  SELECT
+    v_count_id, product_type, product_id, system_qty, real_qty,
+    loss_qty, loss_amount, surplus_qty, surplus_qty * surplus_unit_price
+  FROM tmp_count_items;
+
+  IF v_losses IS NOT NULL THEN
+    INSERT INTO stock_out (warehouse_id, date, reason, total_amount)
+    SELECT p_warehouse_id, p_date, 'inventory_loss', SUM(quantity * unit_price)
+    FROM tmp_count_losses
+    RETURNING id INTO v_stock_out_id;
+
+    INSERT INTO stock_out_items (stockout_id, product_type, product_id, batch_id, batch_date, quantity, unit_price, total_price)
+    SELECT v_stock_out_id, product_type, product_id, batch_id, batch_date, quantity, unit_price, quantity * unit_price
+    FROM tmp_count_losses;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM tmp_count_items WHERE surplus_qty > 0) THEN
+    INSERT INTO invoices (invoice_code, supplier, date, warehouse_id, status, entry_type, count_id)
+    VALUES (p_count_code || '-ARTIQ', 'Sayım artığı', p_date, p_warehouse_id, 'active', 'inventory_surplus', v_count_id)
+    RETURNING id INTO v_invoice_id;
+
+    INSERT INTO invoice_items (invoice_id, product_type, product_id, quantity, unit_price, total_price, batch_date)
+    SELECT v_invoice_id, product_type, product_id, surplus_qty, surplus_unit_price, surplus_qty * surplus_unit_price, p_date
+    FROM tmp_count_items
+    WHERE surplus_qty > 0;
+  END IF;
+
+  DROP TABLE tmp_count_losses;
+  DROP TABLE tmp_count_items;
+
+  RETURN v_count_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION return_invoice(p_invoice_id uuid, p_date date)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_invoice invoices%ROWTYPE;
+  v_stock_out_id uuid;
+BEGIN
+  SELECT * INTO v_invoice FROM invoices WHERE id = p_invoice_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Qaimə tapılmadı';
+  END IF;
+
+  IF v_invoice.entry_type <> 'purchase' THEN
+    RAISE EXCEPTION '% sayım artığıdır və geri qaytarıla bilməz', v_invoice.invoice_code;
+  END IF;
+
+  IF v_invoice.status <> 'active' THEN
+    RAISE EXCEPTION '% qaiməsi artıq geri qaytarılıb', v_invoice.invoice_code;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM invoice_items WHERE invoice_id = p_invoice_id) THEN
+    RAISE EXCEPTION '% qaiməsində məhsul yoxdur', v_invoice.invoice_code;
+  END IF;
+
+  PERFORM assert_stock_available(
+    v_invoice.warehouse_id,
+    (
+      SELECT jsonb_agg(jsonb_build_object('batch_id', id, 'quantity', quantity))
+      FROM invoice_items
+      WHERE invoice_id = p_invoice_id
+    )
+  );
+
+  INSERT INTO stock_out (warehouse_id, date, reason, total_amount)
+  SELECT v_invoice.warehouse_id, p_date, 'invoice_return', COALESCE(SUM(total_price), 0)
+  FROM invoice_items
+  WHERE invoice_id = p_invoice_id
+  RETURNING id INTO v_stock_out_id;
+
+  INSERT INTO stock_out_items (stockout_id, product_type, product_id, batch_id, batch_date, quantity, unit_price, total_price)
+  SELECT v_stock_out_id, product_type, product_id, id, batch_date, quantity, unit_price, total_price
+  FROM invoice_items
+  WHERE invoice_id = p_invoice_id;
+
+  UPDATE invoices SET status = 'returned' WHERE id = p_invoice_id;
+
+  RETURN v_stock_out_id;
+END;
+$$;
@@ -0,0 +1,222 @@
+/*
+  # Lot Number and Expiry Date Tracking
+
+  ## Overview
+  Reagents expire, but a batch only carried its receipt date (batch_date). Every batch
+  now also carries the supplier's lot number and its expiry date. Both are captured on
+  the invoice line and carried through every movement of the batch.
+
+  ## Changes
+
+  ### invoice_items, transfer_items, stock_out_items
+  - `lot_number` (text, nullable) - supplier lot/serial of the batch
+  - `expiry_date` (date, nullable) - last day the batch may be used
+
+  ### copy_batch_attributes trigger
+  - Before insert on transfer_items and stock_out_items, lot_number and expiry_date are
+    copied from the origin batch (batch_id), so every posting function carries them
+    without passing them explicitly
+
+  ### get_stock_ledger
+  - Now also returns lot_number and expiry_date of each batch
+
+  ### post_invoice
+  - Items accept optional lot_number and expiry_date
+
+  ## Backfill
+  Existing transfer and stock out lines copy the (empty) values of their origin batch,
+  so they stay consistent once older invoice lines are corrected.
+*/
+
+ALTER TABLE invoice_items ADD COLUMN IF NOT EXISTS lot_number text;
+ALTER TABLE invoice_items ADD COLUMN IF NOT EXISTS expiry_date date;
+
+ALTER TABLE transfer_items ADD COLUMN IF NOT EXISTS lot_number text;
+ALTER TABLE transfer_items ADD COLUMN IF NOT EXISTS expiry_date date;
+
+ALTER TABLE stock_out_items ADD COLUMN IF NOT EXISTS lot_number text;
+ALTER TABLE stock_out_items ADD COLUMN IF NOT EXISTS expiry_date date;
+
+CREATE INDEX IF NOT EXISTS idx_invoice_items_expiry_date ON invoice_items(expiry_date);
+
+CREATE OR REPLACE FUNCTION copy_batch_attributes()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.batch_id IS NOT NULL THEN
+    SELECT ii.lot_number, ii.expiry_date
+    INTO NEW.lot_number, NEW.expiry_date
+    FROM invoice_items ii
+    WHERE ii.id = NEW.batch_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS transfer_items_copy_batch_attributes ON transfer_items;
+CREATE TRIGGER transfer_items_copy_batch_attributes
+  BEFORE INSERT ON transfer_items
+  FOR EACH ROW EXECUTE FUNCTION copy_batch_attributes();
+
+DROP TRIGGER IF EXISTS stock_out_items_copy_batch_attributes ON stock_out_items;
+CREATE TRIGGER stock_out_items_copy_batch_attributes
+  BEFORE INSERT ON stock_out_items
+  FOR EACH ROW EXECUTE FUNCTION copy_batch_attributes();
+
+UPDATE transfer_items ti
+SET lot_number = ii.lot_number,
+    expiry_date = ii.expiry_date
+FROM invoice_items ii
+WHERE ii.id = ti.batch_id;
+
+UPDATE stock_out_items soi
+SET lot_number = ii.lot_number,
+    expiry_date = ii.expiry_date
+FROM invoice_items ii
+WHERE ii.id = soi.batch_id;
+
+-- The return type changes, so the ledger has to be recreated
+DROP FUNCTION IF EXISTS get_stock_ledger(uuid, text, uuid);
+
+CREATE FUNCTION get_stock_ledger(
+  p_warehouse_id uuid DEFAULT NULL,
+  p_product_type text DEFAULT NULL,
+  p_product_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  warehouse_id uuid,
+  product_type text,
+  product_id uuid,
+  batch_id uuid,
+  batch_date date,
+  lot_number text,
+  expiry_date date,
+  unit_price numeric,
+  quantity numeric,
+  supplier text
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH movements AS (
+    SELECT
+      inv.warehouse_id,
+      ii.id AS batch_id,
+      ii.quantity
+    FROM invoice_items ii
+    JOIN invoices inv ON inv.id = ii.invoice_id
+    WHERE (p_warehouse_id IS NULL OR inv.warehouse_id = p_warehouse_id)
+      AND (p_product_type IS NULL OR ii.product_type = p_product_type)
+      AND (p_product_id IS NULL OR ii.product_id = p_product_id)
+
+    UNION ALL
+
+    SELECT
+      t.to_warehouse_id,
+      ti.batch_id,
+      ti.quantity
+    FROM transfer_items ti
+    JOIN transfers t ON t.id = ti.transfer_id
+    WHERE (p_warehouse_id IS NULL OR t.to_warehouse_id = p_warehouse_id)
+      AND (p_product_type IS NULL OR ti.product_type = p_product_type)
+      AND (p_product_id IS NULL OR ti.product_id = p_product_id)
+
+    UNION ALL
+
+    SELECT
+      t.from_warehouse_id,
+      ti.batch_id,
+      -ti.quantity
+    FROM transfer_items ti
+    JOIN transfers t ON t.id = ti.transfer_id
+    WHERE (p_warehouse_id IS NULL OR t.from_warehouse_id = p_warehouse_id)
+      AND (p_product_type IS NULL OR ti.product_type = p_product_type)
+      AND (p_product_id IS NULL OR ti.product_id = p_product_id)
+
+    UNION ALL
+
+    SELECT
+      so.warehouse_id,
+      soi.batch_id,
+      -soi.quantity
+    FROM stock_out_items soi
+    JOIN stock_out so ON so.id = soi.stockout_id
+    WHERE so.reason <> 'transfer'
+      AND (p_warehouse_id IS NULL OR so.warehouse_id = p_warehouse_id)
+      AND (p_product_type IS NULL OR soi.product_type = p_product_type)
+      AND (p_product_id IS NULL OR soi.product_id = p_product_id)
+  ),
+  balances AS (
+    SELECT
+      m.warehouse_id,
+      m.batch_id,
+      SUM(m.quantity) AS quantity
+    FROM movements m
+    GROUP BY m.warehouse_id, m.batch_id
+  )
+  SELECT
+    b.warehouse_id,
+    ii.product_type,
+    ii.product_id,
+    b.batch_id,
+    ii.batch_date,
+    ii.lot_number,
+    ii.expiry_date,
+    ii.unit_price,
+    b.quantity,
+    COALESCE(inv.supplier, '') AS supplier
+  FROM balances b
+  JOIN invoice_items ii ON ii.id = b.batch_id
+  JOIN invoices inv ON inv.id = ii.invoice_id
+  WHERE b.quantity <> 0
+  ORDER BY b.warehouse_id, ii.product_type, ii.product_id, ii.batch_date DESC, ii.unit_price, ii.created_at, ii.id;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_stock_ledger(uuid, text, uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION post_invoice(
+  p_invoice_code text,
+  p_supplier text,
+  p_date date,
+  p_warehouse_id uuid,
+  p_items jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_invoice_id uuid;
+BEGIN
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Qaimədə ən azı bir məhsul olmalıdır';
+  END IF;
+
+  INSERT INTO invoices (invoice_code, supplier, date, warehouse_id, status)
+  VALUES (p_invoice_code, p_supplier, p_date, p_warehouse_id, 'active')
+  RETURNING id INTO v_invoice_id;
+
+  INSERT INTO invoice_items (invoice_id, product_type, product_id, quantity, unit_price, total_price, batch_date, lot_number, expiry_date)
+  SELECT
+    v_invoice_id,
+    x.product_type,
+    x.product_id,
+    x.quantity,
+    x.unit_price,
+    x.quantity * x.unit_price,
+    p_date,
+    NULLIF(trim(x.lot_number), ''),
+    x.expiry_date
+  FROM jsonb_to_recordset(p_items) AS x(
+    product_type text,
+    product_id uuid,
+    quantity numeric,
+    unit_price numeric,
+    lot_number text,
+    expiry_date date
+  );
+
+  RETURN v_invoice_id;
+END;
+$$;
@@ -0,0 +1,76 @@
+/*
+  # Expired Stock Write-off
+
+  ## Overview
+  Batches that passed their expiry date can be written off from the expiry report with
+  one action. The write-off is a stock out with reason 'expired'.
+
+  ## Changes
+
+  ### post_stock_out
+  - Accepts reason 'expired' in addition to 'consumption'
+  - For 'expired', every batch must have an expiry_date before the posting date
+*/
+
+CREATE OR REPLACE FUNCTION post_stock_out(
+  p_warehouse_id uuid,
+  p_date date,
+  p_reason text,
+  p_items jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_stock_out_id uuid;
+  v_not_expired text;
+BEGIN
+  IF p_reason NOT IN ('consumption', 'expired') THEN
+    RAISE EXCEPTION 'Yanlış çıxış səbəbi: %', p_reason;
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Ən azı bir məhsul seçilməlidir';
+  END IF;
+
+  IF p_reason = 'expired' THEN
+    SELECT COALESCE(rg.code, cs.code, ii.product_id::text)
+    INTO v_not_expired
+    FROM jsonb_to_recordset(p_items) AS x(batch_id uuid, quantity numeric)
+    JOIN invoice_items ii ON ii.id = x.batch_id
+    LEFT JOIN reagents rg ON ii.product_type = 'reagent' AND rg.id = ii.product_id
+    LEFT JOIN consumables cs ON ii.product_type = 'consumable' AND cs.id = ii.product_id
+    WHERE ii.expiry_date IS NULL OR ii.expiry_date >= p_date
+    LIMIT 1;
+
+    IF v_not_expired IS NOT NULL THEN
+      RAISE EXCEPTION '% partiyasının istifadə müddəti bitməyib', v_not_expired;
+    END IF;
+  END IF;
+
+  PERFORM assert_stock_available(p_warehouse_id, p_items);
+
+  INSERT INTO stock_out (warehouse_id, date, reason, total_amount)
+  VALUES (p_warehouse_id, p_date, p_reason, 0)
+  RETURNING id INTO v_stock_out_id;
+
+  INSERT INTO stock_out_items (stockout_id, product_type, product_id, batch_id, batch_date, quantity, unit_price, total_price)
+  SELECT
+    v_stock_out_id,
+    ii.product_type,
+    ii.product_id,
+    ii.id,
+    ii.batch_date,
+    x.quantity,
+    ii.unit_price,
+    x.quantity * ii.unit_price
+  FROM jsonb_to_recordset(p_items) AS x(batch_id uuid, quantity numeric)
+  JOIN invoice_items ii ON ii.id = x.batch_id;
+
+  UPDATE stock_out
+  SET total_amount = (SELECT COALESCE(SUM(total_price), 0) FROM stock_out_items WHERE stockout_id = v_stock_out_id)
+  WHERE id = v_stock_out_id;
+
+  RETURN v_stock_out_id;
+END;
+$$;
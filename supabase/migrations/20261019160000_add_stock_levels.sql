@@ -0,0 +1,57 @@
+/*
+  # Stock Levels and Reorder Points
+
+  ## Overview
+  Nothing described how much of a product a warehouse should keep. Each warehouse can now
+  define, per product, a minimum level, a reorder point and an optional maximum level.
+  Current stock from the ledger is compared against them in the reorder report and in the
+  warehouse list.
+
+  ## Tables Created
+
+  ### stock_levels
+  - `warehouse_id` (uuid, references warehouses)
+  - `product_type` (text) - 'reagent' or 'consumable'
+  - `product_id` (uuid)
+  - `min_qty` (numeric) - stock must not fall below this level
+  - `reorder_point` (numeric) - a new order is needed at or below this level
+  - `max_qty` (numeric, nullable) - level to order up to
+  - One row per warehouse and product
+
+  ## Security
+  - RLS enabled with the same public policies as the other tables
+*/
+
+CREATE TABLE IF NOT EXISTS stock_levels (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  warehouse_id uuid NOT NULL REFERENCES warehouses(id) ON DELETE CASCADE,
+  product_type text NOT NULL CHECK (product_type IN ('reagent', 'consumable')),
+  product_id uuid NOT NULL,
+  min_qty numeric NOT NULL DEFAULT 0 CHECK (min_qty >= 0),
+  reorder_point numeric NOT NULL DEFAULT 0 CHECK (reorder_point >= 0),
+  max_qty numeric CHECK (max_qty IS NULL OR max_qty >= reorder_point),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (warehouse_id, product_type, product_id),
+  CHECK (reorder_point >= min_qty)
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_levels_product ON stock_levels(product_type, product_id);
+
+ALTER TABLE stock_levels ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public select on stock_levels"
+  ON stock_levels FOR SELECT
+  USING (true);
+
+CREATE POLICY "Allow public insert on stock_levels"
+  ON stock_levels FOR INSERT
+  WITH CHECK (true);
+
+CREATE POLICY "Allow public update on stock_levels"
+  ON stock_levels FOR UPDATE
+  USING (true);
+
+CREATE POLICY "Allow public delete on stock_levels"
+  ON stock_levels FOR DELETE
+  USING (true);
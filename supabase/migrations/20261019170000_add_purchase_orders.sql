@@ -0,0 +1,260 @@
+/*
+  # Purchase Orders
+
+  ## Overview
+  Invoices were entered from scratch with no upstream document. Purchase orders record what
+  was ordered from a supplier for a warehouse. An invoice can be created from an order; its
+  lines reference the order lines, so received quantities are tracked against ordered
+  quantities and short or over deliveries are visible as a variance.
+
+  ## Tables Created
+
+  ### purchase_orders
+  - `po_code` (text, unique)
+  - `supplier` (text)
+  - `warehouse_id` (uuid, references warehouses) - warehouse the goods are delivered to
+  - `order_date` (date), `expected_date` (date, nullable)
+  - `status` (text) - draft, sent, partially_received, received, closed
+
+  ### purchase_order_items
+  - `po_id` (uuid, references purchase_orders)
+  - `product_type`, `product_id`
+  - `ordered_qty` (numeric), `unit_price` (numeric)
+  - `received_qty` (numeric) - sum of invoice lines posted against this line
+
+  ## Changes
+
+  ### invoices
+  - `purchase_order_id` (uuid, nullable) - order the invoice was created from
+
+  ### invoice_items
+  - `po_item_id` (uuid, nullable) - order line the invoice line receives
+
+  ### create_purchase_order
+  - Creates the order as a draft with all its lines in one transaction
+
+  ### post_invoice
+  - New optional `p_purchase_order_id`; items accept an optional `po_item_id`
+  - Only sent or partially received orders can be received
+  - Adds the received quantities to the order lines and moves the order to
+    partially_received or received
+
+  ## Security
+  - RLS enabled with the same public policies as the other tables
+*/
+
+CREATE TABLE IF NOT EXISTS purchase_orders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  po_code text NOT NULL UNIQUE,
+  supplier text NOT NULL,
+  warehouse_id uuid NOT NULL REFERENCES warehouses(id) ON DELETE CASCADE,
+  order_date date NOT NULL,
+  expected_date date,
+  status text NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'sent', 'partially_received', 'received', 'closed')),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS purchase_order_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  po_id uuid NOT NULL REFERENCES purchase_orders(id) ON DELETE CASCADE,
+  product_type text NOT NULL CHECK (product_type IN ('reagent', 'consumable')),
+  product_id uuid NOT NULL,
+  ordered_qty numeric NOT NULL CHECK (ordered_qty > 0),
+  unit_price numeric NOT NULL DEFAULT 0 CHECK (unit_price >= 0),
+  received_qty numeric NOT NULL DEFAULT 0 CHECK (received_qty >= 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_status ON purchase_orders(status);
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_warehouse_id ON purchase_orders(warehouse_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_order_items_po_id ON purchase_order_items(po_id);
+
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS purchase_order_id uuid REFERENCES purchase_orders(id);
+ALTER TABLE invoice_items ADD COLUMN IF NOT EXISTS po_item_id uuid REFERENCES purchase_order_items(id);
+
+CREATE INDEX IF NOT EXISTS idx_invoices_purchase_order_id ON invoices(purchase_order_id);
+CREATE INDEX IF NOT EXISTS idx_invoice_items_po_item_id ON invoice_items(po_item_id);
+
+ALTER TABLE purchase_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE purchase_order_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public select on purchase_orders"
+  ON purchase_orders FOR SELECT
+  USING (true);
+
+CREATE POLICY "Allow public insert on purchase_orders"
+  ON purchase_orders FOR INSERT
+  WITH CHECK (true);
+
+CREATE POLICY "Allow public update on purchase_orders"
+  ON purchase_orders FOR UPDATE
+  USING (true);
+
+CREATE POLICY "Allow public delete on purchase_orders"
+  ON purchase_orders FOR DELETE
+  USING (true);
+
+CREATE POLICY "Allow public select on purchase_order_items"
+  ON purchase_order_items FOR SELECT
+  USING (true);
+
+CREATE POLICY "Allow public insert on purchase_order_items"
+  ON purchase_order_items FOR INSERT
+  WITH CHECK (true);
+
+CREATE POLICY "Allow public update on purchase_order_items"
+  ON purchase_order_items FOR UPDATE
+  USING (true);
+
+CREATE POLICY "Allow public delete on purchase_order_items"
+  ON purchase_order_items FOR DELETE
+  USING (true);
+
+CREATE OR REPLACE FUNCTION create_purchase_order(
+  p_po_code text,
+  p_supplier text,
+  p_warehouse_id uuid,
+  p_order_date date,
+  p_expected_date date,
+  p_items jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_po_id uuid;
+BEGIN
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Sifarişdə ən azı bir məhsul olmalıdır';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM purchase_orders WHERE po_code = p_po_code) THEN
+    RAISE EXCEPTION '% kodlu sifariş artıq mövcuddur', p_po_code;
+  END IF;
+
+  INSERT INTO purchase_orders (po_code, supplier, warehouse_id, order_date, expected_date, status)
+  VALUES (p_po_code, p_supplier, p_warehouse_id, p_order_date, p_expected_date, 'draft')
+  RETURNING id INTO v_po_id;
+
+  INSERT INTO purchase_order_items (po_id, product_type, product_id, ordered_qty, unit_price)
+  SELECT v_po_id, x.product_type, x.product_id, x.ordered_qty, COALESCE(x.unit_price, 0)
+  FROM jsonb_to_recordset(p_items) AS x(
+    product_type text,
+    product_id uuid,
+    ordered_qty numeric,
+    unit_price numeric
+  );
+
+  RETURN v_po_id;
+END;
+$$;
+
+-- A new optional parameter changes the signature, so the old function has to be dropped
+DROP FUNCTION IF EXISTS post_invoice(text, text, date, uuid, jsonb);
+
+CREATE FUNCTION post_invoice(
+  p_invoice_code text,
+  p_supplier text,
+  p_date date,
+  p_warehouse_id uuid,
+  p_items jsonb,
+  p_purchase_order_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_invoice_id uuid;
+  v_po purchase_orders%ROWTYPE;
+BEGIN
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Qaimədə ən azı bir məhsul olmalıdır';
+  END IF;
+
+  IF p_purchase_order_id IS NOT NULL THEN
+    SELECT * INTO v_po FROM purchase_orders WHERE id = p_purchase_order_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Sifariş tapılmadı';
+    END IF;
+
+    IF v_po.status NOT IN ('sent', 'partially_received') THEN
+      RAISE EXCEPTION '% sifarişi qəbul üçün açıq deyil', v_po.po_code;
+    END IF;
+
+    IF v_po.warehouse_id <> p_warehouse_id THEN
+      RAISE EXCEPTION '% sifarişi başqa anbar üçündür', v_po.po_code;
+    END IF;
+
+    IF EXISTS (
+      SELECT 1
+      FROM jsonb_to_recordset(p_items) AS x(product_type text, product_id uuid, po_item_id uuid)
+      LEFT JOIN purchase_order_items poi ON poi.id = x.po_item_id
+      WHERE x.po_item_id IS NOT NULL
+        AND (poi.id IS NULL
+          OR poi.po_id <> p_purchase_order_id
+          OR poi.product_type <> x.product_type
+          OR poi.product_id <> x.product_id)
+    ) THEN
+      RAISE EXCEPTION 'Qaimə sətirləri % sifarişinin sətirlərinə uyğun deyil', v_po.po_code;
+    END IF;
+  ELSIF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(p_items) AS x(po_item_id uuid) WHERE x.po_item_id IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Sifariş sətri göstərilib, amma sifariş seçilməyib';
+  END IF;
+
+  INSERT INTO invoices (invoice_code, supplier, date, warehouse_id, status, purchase_order_id)
+  VALUES (p_invoice_code, p_supplier, p_date, p_warehouse_id, 'active', p_purchase_order_id)
+  RETURNING id INTO v_invoice_id;
+
+  INSERT INTO invoice_items (invoice_id, product_type, product_id, quantity, unit_price, total_price, batch_date, lot_number, expiry_date, po_item_id)
+  SELECT
+    v_invoice_id,
+    x.product_type,
+    x.product_id,
+    x.quantity,
+    x.unit_price,
+    x.quantity * x.unit_price,
+    p_date,
+    NULLIF(trim(x.lot_number), ''),
+    x.expiry_date,
+    x.po_item_id
+  FROM jsonb_to_recordset(p_items) AS x(
+    product_type text,
+    product_id uuid,
+    quantity numeric,
+    unit_price numeric,
+    lot_number text,
+    expiry_date date,
+    po_item_id uuid
+  );
+
+  IF p_purchase_order_id IS NOT NULL THEN
+    UPDATE purchase_order_items poi
+    SET received_qty = poi.received_qty + r.quantity
+    FROM (
+      SELECT po_item_id, SUM(quantity) AS quantity
+      FROM invoice_items
+      WHERE invoice_id = v_invoice_id AND po_item_id IS NOT NULL
+      GROUP BY po_item_id
+    ) r
+    WHERE poi.id = r.po_item_id;
+
+    UPDATE purchase_orders
+    SET status = CASE
+      WHEN NOT EXISTS (
+        SELECT 1 FROM purchase_order_items
+        WHERE po_id = p_purchase_order_id AND received_qty < ordered_qty
+      ) THEN 'received'
+      ELSE 'partially_received'
+    END
+    WHERE id = p_purchase_order_id;
+  END IF;
+
+  RETURN v_invoice_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_purchase_order(text, text, uuid, date, date, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION post_invoice(text, text, date, uuid, jsonb, uuid) TO authenticated;
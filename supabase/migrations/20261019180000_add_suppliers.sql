@@ -0,0 +1,276 @@
+/*
+  # Supplier Master Data
+
+  ## Overview
+  The supplier of an invoice was free text, so the same firm was spelled in several ways
+  and nothing else about it (tax ID, contacts, payment terms) could be stored. Suppliers
+  are now master data. Invoices and purchase orders reference a supplier record; the
+  supplier name is still stored on the document so history and the stock ledger keep
+  showing the name as it was at posting time.
+
+  ## Tables Created
+
+  ### suppliers
+  - `name` (text, unique) - also unique ignoring case and repeated whitespace
+  - `tax_id` (text, unique, nullable) - VÖEN
+  - `contact_person`, `phone`, `email`, `address` (text, nullable)
+  - `payment_terms_days` (integer, nullable) - days until payment is due
+
+  ## Changes
+
+  ### invoices, purchase_orders
+  - `supplier_id` (uuid, references suppliers, nullable)
+
+  ### post_invoice
+  - New optional `p_supplier_id`; when given, the supplier name is taken from the record
+  - Entries without a supplier (initial stock upload, count surplus) keep only the label
+
+  ### create_purchase_order
+  - Takes `p_supplier_id` instead of a free-text supplier
+
+  ## Data Migration
+  Supplier names of purchase invoices and purchase orders are grouped by their lowercased
+  text with whitespace trimmed and collapsed, so 'ABC MMC', 'abc mmc' and 'ABC  MMC' are
+  one supplier. Each group becomes a supplier record named after its most frequent
+  spelling, and every document of the group is linked to it. The placeholder labels 'Initial Stock Upload'
+  and 'Bulk Import' are not suppliers and stay unlinked.
+
+  ## Security
+  - RLS enabled with the same public policies as the other tables
+*/
+
+CREATE TABLE IF NOT EXISTS suppliers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL UNIQUE,
+  tax_id text UNIQUE,
+  contact_person text,
+  phone text,
+  email text,
+  address text,
+  payment_terms_days integer CHECK (payment_terms_days IS NULL OR payment_terms_days >= 0),
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS supplier_id uuid REFERENCES suppliers(id);
+ALTER TABLE purchase_orders ADD COLUMN IF NOT EXISTS supplier_id uuid REFERENCES suppliers(id);
+
+CREATE INDEX IF NOT EXISTS idx_invoices_supplier_id ON invoices(supplier_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_supplier_id ON purchase_orders(supplier_id);
+
+ALTER TABLE suppliers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public select on suppliers"
+  ON suppliers FOR SELECT
+  USING (true);
+
+CREATE POLICY "Allow public insert on suppliers"
+  ON suppliers FOR INSERT
+  WITH CHECK (true);
+
+CREATE POLICY "Allow public update on suppliers"
+  ON suppliers FOR UPDATE
+  USING (true);
+
+CREATE POLICY "Allow public delete on suppliers"
+  ON suppliers FOR DELETE
+  USING (true);
+
+-- Spellings that differ only in case or whitespace belong to the same supplier
+CREATE UNIQUE INDEX IF NOT EXISTS idx_suppliers_name_key
+  ON suppliers (lower(regexp_replace(btrim(name), '\s+', ' ', 'g')));
+
+-- The most frequent spelling of each supplier becomes its record name
+INSERT INTO suppliers (name)
+SELECT DISTINCT ON (lower(s.name)) s.name
+FROM (
+  SELECT regexp_replace(btrim(supplier), '\s+', ' ', 'g') AS name
+  FROM invoices
+  WHERE entry_type = 'purchase'
+  UNION ALL
+  SELECT regexp_replace(btrim(supplier), '\s+', ' ', 'g')
+  FROM purchase_orders
+) s
+WHERE COALESCE(s.name, '') NOT IN ('', 'Initial Stock Upload', 'Bulk Import')
+GROUP BY s.name
+ORDER BY lower(s.name), COUNT(*) DESC, s.name
+ON CONFLICT DO NOTHING;
+
+UPDATE invoices inv
+SET supplier_id = s.id
+FROM suppliers s
+WHERE lower(regexp_replace(btrim(s.name), '\s+', ' ', 'g')) = lower(regexp_replace(btrim(inv.supplier), '\s+', ' ', 'g'))
+  AND inv.entry_type = 'purchase'
+  AND inv.supplier_id IS NULL;
+
+UPDATE purchase_orders po
+SET supplier_id = s.id
+FROM suppliers s
+WHERE lower(regexp_replace(btrim(s.name), '\s+', ' ', 'g')) = lower(regexp_replace(btrim(po.supplier), '\s+', ' ', 'g'))
+  AND po.supplier_id IS NULL;
+
+-- New optional parameters change the signatures, so the old functions have to be dropped
+DROP FUNCTION IF EXISTS post_invoice(text, text, date, uuid, jsonb, uuid);
+DROP FUNCTION IF EXISTS create_purchase_order(text, text, uuid, date, date, jsonb);
+
+CREATE FUNCTION create_purchase_order(
+  p_po_code text,
+  p_supplier_id uuid,
+  p_warehouse_id uuid,
+  p_order_date date,
+  p_expected_date date,
+  p_items jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_po_id uuid;
+  v_supplier_name text;
+BEGIN
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Sifarişdə ən azı bir məhsul olmalıdır';
+  END IF;
+
+  SELECT name INTO v_supplier_name FROM suppliers WHERE id = p_supplier_id;
+
+  IF v_supplier_name IS NULL THEN
+    RAISE EXCEPTION 'Təchizatçı tapılmadı';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM purchase_orders WHERE po_code = p_po_code) THEN
+    RAISE EXCEPTION '% kodlu sifariş artıq mövcuddur', p_po_code;
+  END IF;
+
+  INSERT INTO purchase_orders (po_code, supplier, supplier_id, warehouse_id, order_date, expected_date, status)
+  VALUES (p_po_code, v_supplier_name, p_supplier_id, p_warehouse_id, p_order_date, p_expected_date, 'draft')
+  RETURNING id INTO v_po_id;
+
+  INSERT INTO purchase_order_items (po_id, product_type, product_id, ordered_qty, unit_price)
+  SELECT v_po_id, x.product_type, x.product_id, x.ordered_qty, COALESCE(x.unit_price, 0)
+  FROM jsonb_to_recordset(p_items) AS x(
+    product_type text,
+    product_id uuid,
+    ordered_qty numeric,
+    unit_price numeric
+  );
+
+  RETURN v_po_id;
+END;
+$$;
+
+CREATE FUNCTION post_invoice(
+  p_invoice_code text,
+  p_supplier text,
+  p_date date,
+  p_warehouse_id uuid,
+  p_items jsonb,
+  p_purchase_order_id uuid DEFAULT NULL,
+  p_supplier_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_invoice_id uuid;
+  v_supplier text := p_supplier;
+  v_po purchase_orders%ROWTYPE;
+BEGIN
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Qaimədə ən azı bir məhsul olmalıdır';
+  END IF;
+
+  IF p_supplier_id IS NOT NULL THEN
+    SELECT name INTO v_supplier FROM suppliers WHERE id = p_supplier_id;
+
+    IF v_supplier IS NULL THEN
+      RAISE EXCEPTION 'Təchizatçı tapılmadı';
+    END IF;
+  END IF;
+
+  IF p_purchase_order_id IS NOT NULL THEN
+    SELECT * INTO v_po FROM purchase_orders WHERE id = p_purchase_order_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Sifariş tapılmadı';
+    END IF;
+
+    IF v_po.status NOT IN ('sent', 'partially_received') THEN
+      RAISE EXCEPTION '% sifarişi qəbul üçün açıq deyil', v_po.po_code;
+    END IF;
+
+    IF v_po.warehouse_id <> p_warehouse_id THEN
+      RAISE EXCEPTION '% sifarişi başqa anbar üçündür', v_po.po_code;
+    END IF;
+
+    IF EXISTS (
+      SELECT 1
+      FROM jsonb_to_recordset(p_items) AS x(product_type text, product_id uuid, po_item_id uuid)
+      LEFT JOIN purchase_order_items poi ON poi.id = x.po_item_id
+      WHERE x.po_item_id IS NOT NULL
+        AND (poi.id IS NULL
+          OR poi.po_id <> p_purchase_order_id
+          OR poi.product_type <> x.product_type
+          OR poi.product_id <> x.product_id)
+    ) THEN
+      RAISE EXCEPTION 'Qaimə sətirləri % sifarişinin sətirlərinə uyğun deyil', v_po.po_code;
+    END IF;
+  ELSIF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(p_items) AS x(po_item_id uuid) WHERE x.po_item_id IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Sifariş sətri göstərilib, amma sifariş seçilməyib';
+  END IF;
+
+  INSERT INTO invoices (invoice_code, supplier, supplier_id, date, warehouse_id, status, purchase_order_id)
+  VALUES (p_invoice_code, v_supplier, p_supplier_id, p_date, p_warehouse_id, 'active', p_purchase_order_id)
+  RETURNING id INTO v_invoice_id;
+
+  INSERT INTO invoice_items (invoice_id, product_type, product_id, quantity, unit_price, total_price, batch_date, lot_number, expiry_date, po_item_id)
+  SELECT
+    v_invoice_id,
+    x.product_type,
+    x.product_id,
+    x.quantity,
+    x.unit_price,
+    x.quantity * x.unit_price,
+    p_date,
+    NULLIF(trim(x.lot_number), ''),
+    x.expiry_date,
+    x.po_item_id
+  FROM jsonb_to_recordset(p_items) AS x(
+    product_type text,
+    product_id uuid,
+    quantity numeric,
+    unit_price numeric,
+    lot_number text,
+    expiry_date date,
+    po_item_id uuid
+  );
+
+  IF p_purchase_order_id IS NOT NULL THEN
+    UPDATE purchase_order_items poi
+    SET received_qty = poi.received_qty + r.quantity
+    FROM (
+      SELECT po_item_id, SUM(quantity) AS quantity
+      FROM invoice_items
+      WHERE invoice_id = v_invoice_id AND po_item_id IS NOT NULL
+      GROUP BY po_item_id
+    ) r
+    WHERE poi.id = r.po_item_id;
+
+    UPDATE purchase_orders
+    SET status = CASE
+      WHEN NOT EXISTS (
+        SELECT 1 FROM purchase_order_items
+        WHERE po_id = p_purchase_order_id AND received_qty < ordered_qty
+      ) THEN 'received'
+      ELSE 'partially_received'
+    END
+    WHERE id = p_purchase_order_id;
+  END IF;
+
+  RETURN v_invoice_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_purchase_order(text, uuid, uuid, date, date, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION post_invoice(text, text, date, uuid, jsonb, uuid, uuid) TO authenticated;
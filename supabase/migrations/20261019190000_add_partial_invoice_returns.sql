@@ -0,0 +1,221 @@
+/*
+  # Partial Invoice Returns
+
+  ## Overview
+  An invoice could only be returned as a whole. Suppliers often take back a single
+  damaged carton, so specific lines and quantities can now be returned. Each return is
+  an 'invoice_return' stock out whose lines reference the returned invoice items
+  (batch_id), so the stock ledger subtracts exactly the returned quantities and the rest
+  of the invoice stays in stock.
+
+  ## Tables Created
+
+  ### invoice_returns
+  - `invoice_id` (uuid, references invoices) - invoice the goods are returned against
+  - `stock_out_id` (uuid, references stock_out, unique) - the 'invoice_return' stock out
+  - `date` (date), `note` (text, nullable) - e.g. the reason of the return
+
+  The returned lines are the stock out lines; their batch_id is the invoice item.
+
+  ## Changes
+
+  ### invoices
+  - `status` accepts 'partially_returned'
+
+  ### return_invoice_items(p_invoice_id, p_date, p_items, p_note)
+  - Items: invoice_item_id and quantity
+  - A line cannot be returned beyond its quantity minus what was returned before
+  - The invoice becomes 'returned' once every line is fully returned, otherwise
+    'partially_returned'
+
+  ### return_invoice
+  - Returns the remaining quantity of every line through return_invoice_items, so it
+    also works on partially returned invoices
+
+  ## Data Migration
+  Existing 'invoice_return' stock outs get an invoice_returns record, found through the
+  batch_id of their lines.
+
+  ## Security
+  - RLS enabled with the same public policies as the other tables
+*/
+
+ALTER TABLE invoices DROP CONSTRAINT IF EXISTS invoices_status_check;
+ALTER TABLE invoices ADD CONSTRAINT invoices_status_check
+  CHECK (status IN ('active', 'partially_returned', 'returned'));
+
+CREATE TABLE IF NOT EXISTS invoice_returns (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id uuid NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+  stock_out_id uuid NOT NULL UNIQUE REFERENCES stock_out(id) ON DELETE CASCADE,
+  date date NOT NULL,
+  note text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_returns_invoice_id ON invoice_returns(invoice_id);
+
+ALTER TABLE invoice_returns ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public select on invoice_returns"
+  ON invoice_returns FOR SELECT
+  USING (true);
+
+CREATE POLICY "Allow public insert on invoice_returns"
+  ON invoice_returns FOR INSERT
+  WITH CHECK (true);
+
+CREATE POLICY "Allow public update on invoice_returns"
+  ON invoice_returns FOR UPDATE
+  USING (true);
+
+CREATE POLICY "Allow public delete on invoice_returns"
+  ON invoice_returns FOR DELETE
+  USING (true);
+
+INSERT INTO invoice_returns (invoice_id, stock_out_id, date)
+SELECT DISTINCT ON (so.id) ii.invoice_id, so.id, so.date
+FROM stock_out so
+JOIN stock_out_items soi ON soi.stockout_id = so.id
+JOIN invoice_items ii ON ii.id = soi.batch_id
+WHERE so.reason = 'invoice_return'
+ORDER BY so.id
+ON CONFLICT (stock_out_id) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION return_invoice_items(
+  p_invoice_id uuid,
+  p_date date,
+  p_items jsonb,
+  p_note text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_invoice invoices%ROWTYPE;
+  v_stock_out_id uuid;
+  v_batches jsonb;
+  r record;
+BEGIN
+  SELECT * INTO v_invoice FROM invoices WHERE id = p_invoice_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Qaimə tapılmadı';
+  END IF;
+
+  IF v_invoice.entry_type <> 'purchase' THEN
+    RAISE EXCEPTION '% sayım artığıdır və geri qaytarıla bilməz', v_invoice.invoice_code;
+  END IF;
+
+  IF v_invoice.status = 'returned' THEN
+    RAISE EXCEPTION '% qaiməsi artıq geri qaytarılıb', v_invoice.invoice_code;
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Ən azı bir məhsul seçilməlidir';
+  END IF;
+
+  FOR r IN
+    SELECT
+      req.invoice_item_id,
+      req.quantity,
+      ii.id AS item_id,
+      ii.quantity - COALESCE((
+        SELECT SUM(soi.quantity)
+        FROM invoice_returns ir
+        JOIN stock_out_items soi ON soi.stockout_id = ir.stock_out_id
+        WHERE ir.invoice_id = p_invoice_id AND soi.batch_id = ii.id
+      ), 0) AS returnable,
+      COALESCE(rg.code, cs.code, ii.product_id::text) AS product_code
+    FROM (
+      SELECT x.invoice_item_id, SUM(x.quantity) AS quantity
+      FROM jsonb_to_recordset(p_items) AS x(invoice_item_id uuid, quantity numeric)
+      GROUP BY x.invoice_item_id
+    ) req
+    LEFT JOIN invoice_items ii ON ii.id = req.invoice_item_id AND ii.invoice_id = p_invoice_id
+    LEFT JOIN reagents rg ON ii.product_type = 'reagent' AND rg.id = ii.product_id
+    LEFT JOIN consumables cs ON ii.product_type = 'consumable' AND cs.id = ii.product_id
+  LOOP
+    IF r.item_id IS NULL THEN
+      RAISE EXCEPTION 'Sətir % qaiməsinə aid deyil', v_invoice.invoice_code;
+    END IF;
+
+    IF r.quantity IS NULL OR r.quantity <= 0 THEN
+      RAISE EXCEPTION '% üçün miqdar 0-dan böyük olmalıdır', r.product_code;
+    END IF;
+
+    IF r.quantity > r.returnable THEN
+      RAISE EXCEPTION '% üçün qaytarıla bilən miqdar: %', r.product_code, r.returnable;
+    END IF;
+  END LOOP;
+
+  SELECT jsonb_agg(jsonb_build_object('batch_id', x.invoice_item_id, 'quantity', x.quantity))
+  INTO v_batches
+  FROM jsonb_to_recordset(p_items) AS x(invoice_item_id uuid, quantity numeric);
+
+  PERFORM assert_stock_available(v_invoice.warehouse_id, v_batches);
+
+  INSERT INTO stock_out (warehouse_id, date, reason, total_amount)
+  SELECT v_invoice.warehouse_id, p_date, 'invoice_return', COALESCE(SUM(x.quantity * ii.unit_price), 0)
+  FROM jsonb_to_recordset(p_items) AS x(invoice_item_id uuid, quantity numeric)
+  JOIN invoice_items ii ON ii.id = x.invoice_item_id
+  RETURNING id INTO v_stock_out_id;
+
+  INSERT INTO stock_out_items (stockout_id, product_type, product_id, batch_id, batch_date, quantity, unit_price, total_price)
+  SELECT v_stock_out_id, ii.product_type, ii.product_id, ii.id, ii.batch_date, x.quantity, ii.unit_price, x.quantity * ii.unit_price
+  FROM jsonb_to_recordset(p_items) AS x(invoice_item_id uuid, quantity numeric)
+  JOIN invoice_items ii ON ii.id = x.invoice_item_id;
+
+  INSERT INTO invoice_returns (invoice_id, stock_out_id, date, note)
+  VALUES (p_invoice_id, v_stock_out_id, p_date, NULLIF(trim(p_note), ''));
+
+  UPDATE invoices
+  SET status = CASE
+    WHEN EXISTS (
+      SELECT 1
+      FROM invoice_items ii
+      WHERE ii.invoice_id = p_invoice_id
+        AND ii.quantity > COALESCE((
+          SELECT SUM(soi.quantity)
+          FROM invoice_returns ir
+          JOIN stock_out_items soi ON soi.stockout_id = ir.stock_out_id
+          WHERE ir.invoice_id = p_invoice_id AND soi.batch_id = ii.id
+        ), 0)
+    ) THEN 'partially_returned'
+    ELSE 'returned'
+  END
+  WHERE id = p_invoice_id;
+
+  RETURN v_stock_out_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION return_invoice(p_invoice_id uuid, p_date date)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_items jsonb;
+BEGIN
+  SELECT jsonb_agg(jsonb_build_object('invoice_item_id', r.id, 'quantity', r.remaining))
+  INTO v_items
+  FROM (
+    SELECT
+      ii.id,
+      ii.quantity - COALESCE((
+        SELECT SUM(soi.quantity)
+        FROM invoice_returns ir
+        JOIN stock_out_items soi ON soi.stockout_id = ir.stock_out_id
+        WHERE ir.invoice_id = p_invoice_id AND soi.batch_id = ii.id
+      ), 0) AS remaining
+    FROM invoice_items ii
+    WHERE ii.invoice_id = p_invoice_id
+  ) r
+  WHERE r.remaining > 0;
+
+  RETURN return_invoice_items(p_invoice_id, p_date, COALESCE(v_items, '[]'::jsonb));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION return_invoice_items(uuid, date, jsonb, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION return_invoice(uuid, date) TO authenticated;
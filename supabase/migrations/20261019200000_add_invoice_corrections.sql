@@ -0,0 +1,560 @@
+/*
+  # Invoice Corrections and Cancellation
+
+  ## Overview
+  A saved invoice could not be corrected: a typo in quantity or price needed a supplier
+  return and a new entry. Invoices whose stock has not moved yet (no transfer, exit or
+  return references any of their batches) can now be edited, or cancelled when they were
+  entered in error. Cancelling is not a supplier return: no stock out is created, the
+  invoice simply stops counting in the stock ledger. Every correction stores a snapshot
+  of the invoice before and after the change, with the user who made it.
+
+  ## Tables Created
+
+  ### invoice_revisions
+  - `invoice_id` (uuid, references invoices)
+  - `action` (text) - 'update' or 'cancel'
+  - `reason` (text) - why the invoice was corrected
+  - `before`, `after` (jsonb) - header and lines of the invoice, see invoice_snapshot
+  - `changed_by` (uuid), `changed_by_email` (text) - the signed-in user
+  Revisions can be read and added but not changed or deleted.
+
+  ## Changes
+
+  ### invoices
+  - `status` accepts 'cancelled'
+
+  ### get_stock_ledger
+  - Lines of cancelled invoices are not stock
+
+  ### update_invoice(p_invoice_id, p_invoice_code, p_supplier_id, p_date, p_items, p_reason)
+  - Items with an `id` update that line, items without one are added, lines missing from
+    p_items are removed; the warehouse cannot be changed
+  - Received quantities of a linked purchase order follow the corrected lines
+
+  ### cancel_invoice(p_invoice_id, p_reason)
+  - Marks the invoice 'cancelled' and takes its quantities off the purchase order
+
+  ### return_invoice_items
+  - Cancelled invoices cannot be returned
+
+  ## Security
+  - RLS enabled; invoice_revisions only has select and insert policies
+*/
+
+ALTER TABLE invoices DROP CONSTRAINT IF EXISTS invoices_status_check;
+ALTER TABLE invoices ADD CONSTRAINT invoices_status_check
+  CHECK (status IN ('active', 'partially_returned', 'returned', 'cancelled'));
+
+CREATE TABLE IF NOT EXISTS invoice_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id uuid NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+  action text NOT NULL CHECK (action IN ('update', 'cancel')),
+  reason text NOT NULL,
+  before jsonb NOT NULL,
+  after jsonb NOT NULL,
+  changed_by uuid DEFAULT auth.uid(),
+  changed_by_email text DEFAULT (auth.jwt() ->> 'email'),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_revisions_invoice_id ON invoice_revisions(invoice_id);
+
+ALTER TABLE invoice_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public select on invoice_revisions"
+  ON invoice_revisions FOR SELECT
+  USING (true);
+
+CREATE POLICY "Allow public insert on invoice_revisions"
+  ON invoice_revisions FOR INSERT
+  WITH CHECK (true);
+
+CREATE OR REPLACE FUNCTION get_stock_ledger(
+  p_warehouse_id uuid DEFAULT NULL,
+  p_product_type text DEFAULT NULL,
+  p_product_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  warehouse_id uuid,
+  product_type text,
+  product_id uuid,
+  batch_id uuid,
+  batch_date date,
+  lot_number text,
+  expiry_date date,
+  unit_price numeric,
+  quantity numeric,
+  supplier text
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH movements AS (
+    SELECT
+      inv.warehouse_id,
+      ii.id AS batch_id,
+      ii.quantity
+    FROM invoice_items ii
+    JOIN invoices inv ON inv.id = ii.invoice_id
+    WHERE inv.status <> 'cancelled'
+      AND (p_warehouse_id IS NULL OR inv.warehouse_id = p_warehouse_id)
+      AND (p_product_type IS NULL OR ii.product_type = p_product_type)
+      AND (p_product_id IS NULL OR ii.product_id = p_product_id)
+
+    UNION ALL
+
+    SELECT
+      t.to_warehouse_id,
+      ti.batch_id,
+      ti.quantity
+    FROM transfer_items ti
+    JOIN transfers t ON t.id = ti.transfer_id
+    WHERE (p_warehouse_id IS NULL OR t.to_warehouse_id = p_warehouse_id)
+      AND (p_product_type IS NULL OR ti.product_type = p_product_type)
+      AND (p_product_id IS NULL OR ti.product_id = p_product_id)
+
+    UNION ALL
+
+    SELECT
+      t.from_warehouse_id,
+      ti.batch_id,
+      -ti.quantity
+    FROM transfer_items ti
+    JOIN transfers t ON t.id = ti.transfer_id
+    WHERE (p_warehouse_id IS NULL OR t.from_warehouse_id = p_warehouse_id)
+      AND (p_product_type IS NULL OR ti.product_type = p_product_type)
+      AND (p_product_id IS NULL OR ti.product_id = p_product_id)
+
+    UNION ALL
+
+    SELECT
+      so.warehouse_id,
+      soi.batch_id,
+      -soi.quantity
+    FROM stock_out_items soi
+    JOIN stock_out so ON so.id = soi.stockout_id
+    WHERE so.reason <> 'transfer'
+      AND (p_warehouse_id IS NULL OR so.warehouse_id = p_warehouse_id)
+      AND (p_product_type IS NULL OR soi.product_type = p_product_type)
+      AND (p_product_id IS NULL OR soi.product_id = p_product_id)
+  ),
+  balances AS (
+    SELECT
+      m.warehouse_id,
+      m.batch_id,
+      SUM(m.quantity) AS quantity
+    FROM movements m
+    GROUP BY m.warehouse_id, m.batch_id
+  )
+  SELECT
+    b.warehouse_id,
+    ii.product_type,
+    ii.product_id,
+    b.batch_id,
+    ii.batch_date,
+    ii.lot_number,
+    ii.expiry_date,
+    ii.unit_price,
+    b.quantity,
+    COALESCE(inv.supplier, '') AS supplier
+  FROM balances b
+  JOIN invoice_items ii ON ii.id = b.batch_id
+  JOIN invoices inv ON inv.id = ii.invoice_id
+  WHERE b.quantity <> 0
+  ORDER BY b.warehouse_id, ii.product_type, ii.product_id, ii.batch_date DESC, ii.unit_price, ii.created_at, ii.id;
+$$;
+
+CREATE OR REPLACE FUNCTION invoice_snapshot(p_invoice_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT jsonb_build_object(
+    'invoice_code', inv.invoice_code,
+    'supplier', inv.supplier,
+    'supplier_id', inv.supplier_id,
+    'date', inv.date,
+    'warehouse_id', inv.warehouse_id,
+    'status', inv.status,
+    'items', COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', ii.id,
+          'product_type', ii.product_type,
+          'product_id', ii.product_id,
+          'quantity', ii.quantity,
+          'unit_price', ii.unit_price,
+          'total_price', ii.total_price,
+          'lot_number', ii.lot_number,
+          'expiry_date', ii.expiry_date
+        )
+        ORDER BY ii.created_at, ii.id
+      )
+      FROM invoice_items ii
+      WHERE ii.invoice_id = inv.id
+    ), '[]'::jsonb)
+  )
+  FROM invoices inv
+  WHERE inv.id = p_invoice_id;
+$$;
+
+-- Locks the invoice and its warehouse stock and raises unless the invoice can still be
+-- corrected: an active purchase invoice none of whose batches has moved
+CREATE OR REPLACE FUNCTION lock_correctable_invoice(p_invoice_id uuid)
+RETURNS invoices
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_invoice invoices%ROWTYPE;
+BEGIN
+  SELECT * INTO v_invoice FROM invoices WHERE id = p_invoice_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Qaimə tapılmadı';
+  END IF;
+
+  IF v_invoice.entry_type <> 'purchase' THEN
+    RAISE EXCEPTION '% sayım artığıdır və düzəldilə bilməz', v_invoice.invoice_code;
+  END IF;
+
+  IF v_invoice.status <> 'active' THEN
+    RAISE EXCEPTION '% qaiməsi aktiv deyil və düzəldilə bilməz', v_invoice.invoice_code;
+  END IF;
+
+  PERFORM lock_warehouse_stock(v_invoice.warehouse_id);
+
+  IF EXISTS (
+    SELECT 1
+    FROM invoice_items ii
+    WHERE ii.invoice_id = p_invoice_id
+      AND (
+        EXISTS (SELECT 1 FROM transfer_items ti WHERE ti.batch_id = ii.id)
+        OR EXISTS (SELECT 1 FROM stock_out_items soi WHERE soi.batch_id = ii.id)
+      )
+  ) THEN
+    RAISE EXCEPTION '% qaiməsinin məhsulları artıq hərəkət edib, düzəliş mümkün deyil', v_invoice.invoice_code;
+  END IF;
+
+  RETURN v_invoice;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION refresh_purchase_order_status(p_po_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE purchase_orders
+  SET status = CASE
+    WHEN status = 'closed' THEN status
+    WHEN NOT EXISTS (
+      SELECT 1 FROM purchase_order_items
+      WHERE po_id = p_po_id AND received_qty < ordered_qty
+    ) THEN 'received'
+    WHEN EXISTS (
+      SELECT 1 FROM purchase_order_items
+      WHERE po_id = p_po_id AND received_qty > 0
+    ) THEN 'partially_received'
+    ELSE 'sent'
+  END
+  WHERE id = p_po_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION update_invoice(
+  p_invoice_id uuid,
+  p_invoice_code text,
+  p_supplier_id uuid,
+  p_date date,
+  p_items jsonb,
+  p_reason text
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_invoice invoices%ROWTYPE;
+  v_supplier text;
+  v_before jsonb;
+BEGIN
+  IF trim(COALESCE(p_reason, '')) = '' THEN
+    RAISE EXCEPTION 'Düzəliş səbəbi daxil edilməlidir';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Qaimədə ən azı bir məhsul olmalıdır';
+  END IF;
+
+  v_invoice := lock_correctable_invoice(p_invoice_id);
+
+  SELECT name INTO v_supplier FROM suppliers WHERE id = p_supplier_id;
+
+  IF v_supplier IS NULL THEN
+    RAISE EXCEPTION 'Təchizatçı tapılmadı';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(p_items) AS x(id uuid)
+    LEFT JOIN invoice_items ii ON ii.id = x.id AND ii.invoice_id = p_invoice_id
+    WHERE x.id IS NOT NULL AND ii.id IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Sətir % qaiməsinə aid deyil', v_invoice.invoice_code;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(p_items) AS x(quantity numeric, unit_price numeric)
+    WHERE x.quantity IS NULL OR x.quantity <= 0 OR x.unit_price IS NULL OR x.unit_price < 0
+  ) THEN
+    RAISE EXCEPTION 'Bütün məhsul sətirləri düzgün doldurulmalıdır';
+  END IF;
+
+  v_before := invoice_snapshot(p_invoice_id);
+
+  -- Take the old quantities off the purchase order; the corrected ones are added back below
+  UPDATE purchase_order_items poi
+  SET received_qty = poi.received_qty - r.quantity
+  FROM (
+    SELECT po_item_id, SUM(quantity) AS quantity
+    FROM invoice_items
+    WHERE invoice_id = p_invoice_id AND po_item_id IS NOT NULL
+    GROUP BY po_item_id
+  ) r
+  WHERE poi.id = r.po_item_id;
+
+  DELETE FROM invoice_items ii
+  WHERE ii.invoice_id = p_invoice_id
+    AND NOT EXISTS (
+      SELECT 1 FROM jsonb_to_recordset(p_items) AS x(id uuid) WHERE x.id = ii.id
+    );
+
+  UPDATE invoice_items ii
+  SET product_type = x.product_type,
+      product_id = x.product_id,
+      quantity = x.quantity,
+      unit_price = x.unit_price,
+      total_price = x.quantity * x.unit_price,
+      batch_date = p_date,
+      lot_number = NULLIF(trim(x.lot_number), ''),
+      expiry_date = x.expiry_date,
+      po_item_id = CASE
+        WHEN ii.product_type = x.product_type AND ii.product_id = x.product_id THEN ii.po_item_id
+      END
+  FROM jsonb_to_recordset(p_items) AS x(
+    id uuid,
+    product_type text,
+    product_id uuid,
+    quantity numeric,
+    unit_price numeric,
+    lot_number text,
+    expiry_date date
+  )
+  WHERE ii.id = x.id;
+
+  INSERT INTO invoice_items (invoice_id, product_type, product_id, quantity, unit_price, total_price, batch_date, lot_number, expiry_date)
+  SELECT
+    p_invoice_id,
+    x.product_type,
+    x.product_id,
+    x.quantity,
+    x.unit_price,
+    x.quantity * x.unit_price,
+    p_date,
+    NULLIF(trim(x.lot_number), ''),
+    x.expiry_date
+  FROM jsonb_to_recordset(p_items) AS x(
+    id uuid,
+    product_type text,
+    product_id uuid,
+    quantity numeric,
+    unit_price numeric,
+    lot_number text,
+    expiry_date date
+  )
+  WHERE x.id IS NULL;
+
+  UPDATE purchase_order_items poi
+  SET received_qty = poi.received_qty + r.quantity
+  FROM (
+    SELECT po_item_id, SUM(quantity) AS quantity
+    FROM invoice_items
+    WHERE invoice_id = p_invoice_id AND po_item_id IS NOT NULL
+    GROUP BY po_item_id
+  ) r
+  WHERE poi.id = r.po_item_id;
+
+  UPDATE invoices
+  SET invoice_code = p_invoice_code,
+      supplier = v_supplier,
+      supplier_id = p_supplier_id,
+      date = p_date
+  WHERE id = p_invoice_id;
+
+  IF v_invoice.purchase_order_id IS NOT NULL THEN
+    PERFORM refresh_purchase_order_status(v_invoice.purchase_order_id);
+  END IF;
+
+  INSERT INTO invoice_revisions (invoice_id, action, reason, before, after)
+  VALUES (p_invoice_id, 'update', trim(p_reason), v_before, invoice_snapshot(p_invoice_id));
+
+  RETURN p_invoice_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION cancel_invoice(p_invoice_id uuid, p_reason text)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_invoice invoices%ROWTYPE;
+  v_before jsonb;
+BEGIN
+  IF trim(COALESCE(p_reason, '')) = '' THEN
+    RAISE EXCEPTION 'Ləğv səbəbi daxil edilməlidir';
+  END IF;
+
+  v_invoice := lock_correctable_invoice(p_invoice_id);
+  v_before := invoice_snapshot(p_invoice_id);
+
+  UPDATE purchase_order_items poi
+  SET received_qty = poi.received_qty - r.quantity
+  FROM (
+    SELECT po_item_id, SUM(quantity) AS quantity
+    FROM invoice_items
+    WHERE invoice_id = p_invoice_id AND po_item_id IS NOT NULL
+    GROUP BY po_item_id
+  ) r
+  WHERE poi.id = r.po_item_id;
+
+  UPDATE invoices SET status = 'cancelled' WHERE id = p_invoice_id;
+
+  IF v_invoice.purchase_order_id IS NOT NULL THEN
+    PERFORM refresh_purchase_order_status(v_invoice.purchase_order_id);
+  END IF;
+
+  INSERT INTO invoice_revisions (invoice_id, action, reason, before, after)
+  VALUES (p_invoice_id, 'cancel', trim(p_reason), v_before, invoice_snapshot(p_invoice_id));
+
+  RETURN p_invoice_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION return_invoice_items(
+  p_invoice_id uuid,
+  p_date date,
+  p_items jsonb,
+  p_note text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_invoice invoices%ROWTYPE;
+  v_stock_out_id uuid;
+  v_batches jsonb;
+  r record;
+BEGIN
+  SELECT * INTO v_invoice FROM invoices WHERE id = p_invoice_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Qaimə tapılmadı';
+  END IF;
+
+  IF v_invoice.entry_type <> 'purchase' THEN
+    RAISE EXCEPTION '% sayım artığıdır və geri qaytarıla bilməz', v_invoice.invoice_code;
+  END IF;
+
+  IF v_invoice.status = 'returned' THEN
+    RAISE EXCEPTION '% qaiməsi artıq geri qaytarılıb', v_invoice.invoice_code;
+  END IF;
+
+  IF v_invoice.status = 'cancelled' THEN
+    RAISE EXCEPTION '% qaiməsi ləğv edilib', v_invoice.invoice_code;
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Ən azı bir məhsul seçilməlidir';
+  END IF;
+
+  FOR r IN
+    SELECT
+      req.invoice_item_id,
+      req.quantity,
+      ii.id AS item_id,
+      ii.quantity - COALESCE((
+        SELECT SUM(soi.quantity)
+        FROM invoice_returns ir
+        JOIN stock_out_items soi ON soi.stockout_id = ir.stock_out_id
+        WHERE ir.invoice_id = p_invoice_id AND soi.batch_id = ii.id
+      ), 0) AS returnable,
+      COALESCE(rg.code, cs.code, ii.product_id::text) AS product_code
+    FROM (
+      SELECT x.invoice_item_id, SUM(x.quantity) AS quantity
+      FROM jsonb_to_recordset(p_items) AS x(invoice_item_id uuid, quantity numeric)
+      GROUP BY x.invoice_item_id
+    ) req
+    LEFT JOIN invoice_items ii ON ii.id = req.invoice_item_id AND ii.invoice_id = p_invoice_id
+    LEFT JOIN reagents rg ON ii.product_type = 'reagent' AND rg.id = ii.product_id
+    LEFT JOIN consumables cs ON ii.product_type = 'consumable' AND cs.id = ii.product_id
+  LOOP
+    IF r.item_id IS NULL THEN
+      RAISE EXCEPTION 'Sətir % qaiməsinə aid deyil', v_invoice.invoice_code;
+    END IF;
+
+    IF r.quantity IS NULL OR r.quantity <= 0 THEN
+      RAISE EXCEPTION '% üçün miqdar 0-dan böyük olmalıdır', r.product_code;
+    END IF;
+
+    IF r.quantity > r.returnable THEN
+      RAISE EXCEPTION '% üçün qaytarıla bilən miqdar: %', r.product_code, r.returnable;
+    END IF;
+  END LOOP;
+
+  SELECT jsonb_agg(jsonb_build_object('batch_id', x.invoice_item_id, 'quantity', x.quantity))
+  INTO v_batches
+  FROM jsonb_to_recordset(p_items) AS x(invoice_item_id uuid, quantity numeric);
+
+  PERFORM assert_stock_available(v_invoice.warehouse_id, v_batches);
+
+  INSERT INTO stock_out (warehouse_id, date, reason, total_amount)
+  SELECT v_invoice.warehouse_id, p_date, 'invoice_return', COALESCE(SUM(x.quantity * ii.unit_price), 0)
+  FROM jsonb_to_recordset(p_items) AS x(invoice_item_id uuid, quantity numeric)
+  JOIN invoice_items ii ON ii.id = x.invoice_item_id
+  RETURNING id INTO v_stock_out_id;
+
+  INSERT INTO stock_out_items (stockout_id, product_type, product_id, batch_id, batch_date, quantity, unit_price, total_price)
+  SELECT v_stock_out_id, ii.product_type, ii.product_id, ii.id, ii.batch_date, x.quantity, ii.unit_price, x.quantity * ii.unit_price
+  FROM jsonb_to_recordset(p_items) AS x(invoice_item_id uuid, quantity numeric)
+  JOIN invoice_items ii ON ii.id = x.invoice_item_id;
+
+  INSERT INTO invoice_returns (invoice_id, stock_out_id, date, note)
+  VALUES (p_invoice_id, v_stock_out_id, p_date, NULLIF(trim(p_note), ''));
+
+  UPDATE invoices
+  SET status = CASE
+    WHEN EXISTS (
+      SELECT 1
+      FROM invoice_items ii
+      WHERE ii.invoice_id = p_invoice_id
+        AND ii.quantity > COALESCE((
+          SELECT SUM(soi.quantity)
+          FROM invoice_returns ir
+          JOIN stock_out_items soi ON soi.stockout_id = ir.stock_out_id
+          WHERE ir.invoice_id = p_invoice_id AND soi.batch_id = ii.id
+        ), 0)
+    ) THEN 'partially_returned'
+    ELSE 'returned'
+  END
+  WHERE id = p_invoice_id;
+
+  RETURN v_stock_out_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_stock_ledger(uuid, text, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION invoice_snapshot(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION update_invoice(uuid, text, uuid, date, jsonb, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION cancel_invoice(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION return_invoice_items(uuid, date, jsonb, text) TO authenticated;
@@ -0,0 +1,66 @@
+/*
+  # Transfer Reversal
+
+  ## Overview
+  A wrong transfer could not be undone. A transfer is now reversed by posting the mirror
+  movement: the same batches and quantities go back from the destination to the source
+  warehouse. The original transfer stays untouched, so the history of both movements is
+  kept.
+
+  ## Changes
+
+  ### transfers
+  - `reversal_of` (uuid, references transfers, unique, nullable) - set on the mirror
+    transfer and points to the transfer it reverses; unique, so a transfer can only be
+    reversed once
+
+  ### reverse_transfer(p_transfer_id, p_date)
+  - Rejects transfers that were already reversed and reversal transfers themselves
+  - Posts the mirror movement through post_transfer, which checks that the destination
+    warehouse still holds every batch in the transferred quantity
+  - Returns the id of the new transfer
+*/
+
+ALTER TABLE transfers ADD COLUMN IF NOT EXISTS reversal_of uuid UNIQUE REFERENCES transfers(id) ON DELETE RESTRICT;
+
+CREATE OR REPLACE FUNCTION reverse_transfer(p_transfer_id uuid, p_date date)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_transfer transfers%ROWTYPE;
+  v_items jsonb;
+  v_reversal_id uuid;
+BEGIN
+  SELECT * INTO v_transfer FROM transfers WHERE id = p_transfer_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transfer tapılmadı';
+  END IF;
+
+  IF v_transfer.reversal_of IS NOT NULL THEN
+    RAISE EXCEPTION 'Bu transfer başqa transferin geri qaytarılmasıdır və geri qaytarıla bilməz';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM transfers WHERE reversal_of = p_transfer_id) THEN
+    RAISE EXCEPTION 'Bu transfer artıq geri qaytarılıb';
+  END IF;
+
+  IF p_date < v_transfer.date THEN
+    RAISE EXCEPTION 'Geri qaytarma tarixi transfer tarixindən (%) əvvəl ola bilməz', v_transfer.date;
+  END IF;
+
+  SELECT jsonb_agg(jsonb_build_object('batch_id', ti.batch_id, 'quantity', ti.quantity))
+  INTO v_items
+  FROM transfer_items ti
+  WHERE ti.transfer_id = p_transfer_id;
+
+  v_reversal_id := post_transfer(v_transfer.to_warehouse_id, v_transfer.from_warehouse_id, p_date, v_items);
+
+  UPDATE transfers SET reversal_of = p_transfer_id WHERE id = v_reversal_id;
+
+  RETURN v_reversal_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION reverse_transfer(uuid, date) TO authenticated;
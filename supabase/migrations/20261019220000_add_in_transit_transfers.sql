@@ -0,0 +1,346 @@
+/*
+  # In-Transit Transfers
+
+  ## Overview
+  Transfers added the stock to the destination warehouse at once. Goods actually take a
+  day to reach the SUB warehouses and sometimes arrive short. A transfer is now posted in
+  two steps: dispatching takes the stock out of the source warehouse and the goods are
+  'in_transit'; the destination then confirms the received quantity of every line and
+  only then the stock is added there. Whatever did not arrive is posted as a
+  'transit_loss' stock out of the destination warehouse, linked to the transfer.
+
+  ## Changes
+
+  ### transfers
+  - `status` (text) - 'in_transit' or 'received'; new transfers start 'in_transit'
+  - `received_date` (date, nullable) - when the destination confirmed the goods
+  - `receipt_note` (text, nullable) - e.g. why goods are missing
+  - `received_by` (uuid, nullable) - the user who confirmed the goods
+
+  ### transfer_items
+  - `received_quantity` (numeric, nullable) - filled when the transfer is received
+
+  ### get_stock_ledger
+  - Transfers add stock to the destination only once they are received
+
+  ### get_in_transit_stock()
+  - Batches of transfers still in transit, in the same shape as get_stock_ledger;
+    `warehouse_id` is the destination warehouse
+
+  ### receive_transfer(p_transfer_id, p_date, p_items, p_note)
+  - Items: transfer_item_id and received_quantity, required for every line
+  - A line cannot be received above the dispatched quantity
+  - The difference is posted as a 'transit_loss' stock out of the destination warehouse
+  - Returns the id of that stock out, or NULL when everything arrived
+
+  ### reverse_transfer
+  - Only received transfers can be reversed, and only what was received goes back
+
+  ## Data Migration
+  Existing transfers are treated as received in full on their transfer date.
+*/
+
+ALTER TABLE transfers ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'received'
+  CHECK (status IN ('in_transit', 'received'));
+ALTER TABLE transfers ADD COLUMN IF NOT EXISTS received_date date;
+ALTER TABLE transfers ADD COLUMN IF NOT EXISTS receipt_note text;
+ALTER TABLE transfers ADD COLUMN IF NOT EXISTS received_by uuid;
+ALTER TABLE transfer_items ADD COLUMN IF NOT EXISTS received_quantity numeric
+  CHECK (received_quantity >= 0);
+
+UPDATE transfers SET received_date = date WHERE status = 'received' AND received_date IS NULL;
+UPDATE transfer_items SET received_quantity = quantity WHERE received_quantity IS NULL;
+
+-- post_transfer does not set a status, so every transfer posted from now on is dispatched
+ALTER TABLE transfers ALTER COLUMN status SET DEFAULT 'in_transit';
+
+CREATE INDEX IF NOT EXISTS idx_transfers_status ON transfers(status);
+
+CREATE OR REPLACE FUNCTION get_stock_ledger(
+  p_warehouse_id uuid DEFAULT NULL,
+  p_product_type text DEFAULT NULL,
+  p_product_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  warehouse_id uuid,
+  product_type text,
+  product_id uuid,
+  batch_id uuid,
+  batch_date date,
+  lot_number text,
+  expiry_date date,
+  unit_price numeric,
+  quantity numeric,
+  supplier text
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH movements AS (
+    SELECT
+      inv.warehouse_id,
+      ii.id AS batch_id,
+      ii.quantity
+    FROM invoice_items ii
+    JOIN invoices inv ON inv.id = ii.invoice_id
+    WHERE inv.status <> 'cancelled'
+      AND (p_warehouse_id IS NULL OR inv.warehouse_id = p_warehouse_id)
+      AND (p_product_type IS NULL OR ii.product_type = p_product_type)
+      AND (p_product_id IS NULL OR ii.product_id = p_product_id)
+
+    UNION ALL
+
+    SELECT
+      t.to_warehouse_id,
+      ti.batch_id,
+      ti.quantity
+    FROM transfer_items ti
+    JOIN transfers t ON t.id = ti.transfer_id
+    WHERE t.status = 'received'
+      AND (p_warehouse_id IS NULL OR t.to_warehouse_id = p_warehouse_id)
+      AND (p_product_type IS NULL OR ti.product_type = p_product_type)
+      AND (p_product_id IS NULL OR ti.product_id = p_product_id)
+
+    UNION ALL
+
+    SELECT
+      t.from_warehouse_id,
+      ti.batch_id,
+      -ti.quantity
+    FROM transfer_items ti
+    JOIN transfers t ON t.id = ti.transfer_id
+    WHERE (p_warehouse_id IS NULL OR t.from_warehouse_id = p_warehouse_id)
+      AND (p_product_type IS NULL OR ti.product_type = p_product_type)
+      AND (p_product_id IS NULL OR ti.product_id = p_product_id)
+
+    UNION ALL
+
+    SELECT
+      so.warehouse_id,
+      soi.batch_id,
+      -soi.quantity
+    FROM stock_out_items soi
+    JOIN stock_out so ON so.id = soi.stockout_id
+    WHERE so.reason <> 'transfer'
+      AND (p_warehouse_id IS NULL OR so.warehouse_id = p_warehouse_id)
+      AND (p_product_type IS NULL OR soi.product_type = p_product_type)
+      AND (p_product_id IS NULL OR soi.product_id = p_product_id)
+  ),
+  balances AS (
+    SELECT
+      m.warehouse_id,
+      m.batch_id,
+      SUM(m.quantity) AS quantity
+    FROM movements m
+    GROUP BY m.warehouse_id, m.batch_id
+  )
+  SELECT
+    b.warehouse_id,
+    ii.product_type,
+    ii.product_id,
+    b.batch_id,
+    ii.batch_date,
+    ii.lot_number,
+    ii.expiry_date,
+    ii.unit_price,
+    b.quantity,
+    COALESCE(inv.supplier, '') AS supplier
+  FROM balances b
+  JOIN invoice_items ii ON ii.id = b.batch_id
+  JOIN invoices inv ON inv.id = ii.invoice_id
+  WHERE b.quantity <> 0
+  ORDER BY b.warehouse_id, ii.product_type, ii.product_id, ii.batch_date DESC, ii.unit_price, ii.created_at, ii.id;
+$$;
+
+CREATE OR REPLACE FUNCTION get_in_transit_stock()
+RETURNS TABLE (
+  warehouse_id uuid,
+  product_type text,
+  product_id uuid,
+  batch_id uuid,
+  batch_date date,
+  lot_number text,
+  expiry_date date,
+  unit_price numeric,
+  quantity numeric,
+  supplier text
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    t.to_warehouse_id,
+    ii.product_type,
+    ii.product_id,
+    ti.batch_id,
+    ii.batch_date,
+    ii.lot_number,
+    ii.expiry_date,
+    ii.unit_price,
+    SUM(ti.quantity) AS quantity,
+    COALESCE(inv.supplier, '') AS supplier
+  FROM transfer_items ti
+  JOIN transfers t ON t.id = ti.transfer_id
+  JOIN invoice_items ii ON ii.id = ti.batch_id
+  JOIN invoices inv ON inv.id = ii.invoice_id
+  WHERE t.status = 'in_transit'
+  GROUP BY t.to_warehouse_id, ii.product_type, ii.product_id, ti.batch_id, ii.batch_date,
+    ii.lot_number, ii.expiry_date, ii.unit_price, inv.supplier, ii.created_at
+  ORDER BY t.to_warehouse_id, ii.product_type, ii.product_id, ii.batch_date DESC, ii.unit_price, ii.created_at, ii.id;
+$$;
+
+CREATE OR REPLACE FUNCTION receive_transfer(
+  p_transfer_id uuid,
+  p_date date,
+  p_items jsonb,
+  p_note text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_transfer transfers%ROWTYPE;
+  v_stock_out_id uuid;
+  r record;
+BEGIN
+  SELECT * INTO v_transfer FROM transfers WHERE id = p_transfer_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transfer tapılmadı';
+  END IF;
+
+  IF v_transfer.status <> 'in_transit' THEN
+    RAISE EXCEPTION 'Bu transfer artıq qəbul edilib';
+  END IF;
+
+  IF p_date < v_transfer.date THEN
+    RAISE EXCEPTION 'Qəbul tarixi göndərmə tarixindən (%) əvvəl ola bilməz', v_transfer.date;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(COALESCE(p_items, '[]'::jsonb)) AS x(transfer_item_id uuid, received_quantity numeric)
+    LEFT JOIN transfer_items ti ON ti.id = x.transfer_item_id AND ti.transfer_id = p_transfer_id
+    WHERE ti.id IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Sətir bu transferə aid deyil';
+  END IF;
+
+  FOR r IN
+    SELECT
+      ti.quantity,
+      req.received_quantity,
+      COALESCE(rg.code, cs.code, ti.product_id::text) AS product_code
+    FROM transfer_items ti
+    LEFT JOIN (
+      SELECT x.transfer_item_id, SUM(x.received_quantity) AS received_quantity
+      FROM jsonb_to_recordset(COALESCE(p_items, '[]'::jsonb)) AS x(transfer_item_id uuid, received_quantity numeric)
+      GROUP BY x.transfer_item_id
+    ) req ON req.transfer_item_id = ti.id
+    LEFT JOIN reagents rg ON ti.product_type = 'reagent' AND rg.id = ti.product_id
+    LEFT JOIN consumables cs ON ti.product_type = 'consumable' AND cs.id = ti.product_id
+    WHERE ti.transfer_id = p_transfer_id
+  LOOP
+    IF r.received_quantity IS NULL THEN
+      RAISE EXCEPTION '% üçün qəbul edilən miqdar daxil edilməyib', r.product_code;
+    END IF;
+
+    IF r.received_quantity < 0 OR r.received_quantity > r.quantity THEN
+      RAISE EXCEPTION '% üçün qəbul edilən miqdar 0 ilə % arasında olmalıdır', r.product_code, r.quantity;
+    END IF;
+  END LOOP;
+
+  UPDATE transfer_items ti
+  SET received_quantity = req.received_quantity
+  FROM (
+    SELECT x.transfer_item_id, SUM(x.received_quantity) AS received_quantity
+    FROM jsonb_to_recordset(p_items) AS x(transfer_item_id uuid, received_quantity numeric)
+    GROUP BY x.transfer_item_id
+  ) req
+  WHERE ti.id = req.transfer_item_id;
+
+  UPDATE transfers
+  SET status = 'received',
+      received_date = p_date,
+      receipt_note = NULLIF(trim(p_note), ''),
+      received_by = auth.uid()
+  WHERE id = p_transfer_id;
+
+  IF EXISTS (SELECT 1 FROM transfer_items WHERE transfer_id = p_transfer_id AND received_quantity < quantity) THEN
+    INSERT INTO stock_out (warehouse_id, date, reason, total_amount, transfer_id)
+    SELECT v_transfer.to_warehouse_id, p_date, 'transit_loss', SUM((ti.quantity - ti.received_quantity) * ti.unit_price), p_transfer_id
+    FROM transfer_items ti
+    WHERE ti.transfer_id = p_transfer_id
+    RETURNING id INTO v_stock_out_id;
+
+    INSERT INTO stock_out_items (stockout_id, product_type, product_id, batch_id, batch_date, quantity, unit_price, total_price)
+    SELECT
+      v_stock_out_id,
+      ti.product_type,
+      ti.product_id,
+      ti.batch_id,
+      ti.batch_date,
+      ti.quantity - ti.received_quantity,
+      ti.unit_price,
+      (ti.quantity - ti.received_quantity) * ti.unit_price
+    FROM transfer_items ti
+    WHERE ti.transfer_id = p_transfer_id
+      AND ti.received_quantity < ti.quantity;
+  END IF;
+
+  RETURN v_stock_out_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reverse_transfer(p_transfer_id uuid, p_date date)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_transfer transfers%ROWTYPE;
+  v_items jsonb;
+  v_reversal_id uuid;
+BEGIN
+  SELECT * INTO v_transfer FROM transfers WHERE id = p_transfer_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transfer tapılmadı';
+  END IF;
+
+  IF v_transfer.status <> 'received' THEN
+    RAISE EXCEPTION 'Transfer hələ yoldadır; geri qaytarmaq üçün əvvəlcə qəbul edilməlidir';
+  END IF;
+
+  IF v_transfer.reversal_of IS NOT NULL THEN
+    RAISE EXCEPTION 'Bu transfer başqa transferin geri qaytarılmasıdır və geri qaytarıla bilməz';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM transfers WHERE reversal_of = p_transfer_id) THEN
+    RAISE EXCEPTION 'Bu transfer artıq geri qaytarılıb';
+  END IF;
+
+  IF p_date < COALESCE(v_transfer.received_date, v_transfer.date) THEN
+    RAISE EXCEPTION 'Geri qaytarma tarixi qəbul tarixindən (%) əvvəl ola bilməz', COALESCE(v_transfer.received_date, v_transfer.date);
+  END IF;
+
+  SELECT jsonb_agg(jsonb_build_object('batch_id', ti.batch_id, 'quantity', ti.received_quantity))
+  INTO v_items
+  FROM transfer_items ti
+  WHERE ti.transfer_id = p_transfer_id
+    AND ti.received_quantity > 0;
+
+  IF v_items IS NULL THEN
+    RAISE EXCEPTION 'Transferdən heç bir məhsul qəbul edilməyib, geri qaytarılacaq məhsul yoxdur';
+  END IF;
+
+  v_reversal_id := post_transfer(v_transfer.to_warehouse_id, v_transfer.from_warehouse_id, p_date, v_items);
+
+  UPDATE transfers SET reversal_of = p_transfer_id WHERE id = v_reversal_id;
+
+  RETURN v_reversal_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_stock_ledger(uuid, text, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_in_transit_stock() TO authenticated;
+GRANT EXECUTE ON FUNCTION receive_transfer(uuid, date, jsonb, text) TO authenticated;
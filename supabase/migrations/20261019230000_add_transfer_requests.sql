@@ -0,0 +1,302 @@
+/*
+  # Transfer Requests
+
+  ## Overview
+  Sub-warehouses asked MAIN for goods by phone. A transfer request is the written
+  requisition: the requesting warehouse lists products and quantities it needs from a
+  source warehouse. The source approves it (optionally with changed quantities) or
+  rejects it, and an approved request is fulfilled by a transfer posted against it.
+
+  ## Tables Created
+
+  ### transfer_requests
+  - `from_warehouse_id` (uuid, references warehouses) - source that ships the goods
+  - `to_warehouse_id` (uuid, references warehouses) - warehouse that requests them
+  - `request_date` (date), `needed_by` (date, nullable), `note` (text, nullable)
+  - `status` (text) - pending, approved, rejected, transferred
+  - `rejection_reason` (text, nullable)
+  - `decided_at` (timestamptz), `decided_by` (uuid) - who approved or rejected it
+  - `transfer_id` (uuid, references transfers, nullable) - transfer that fulfilled it
+
+  ### transfer_request_items
+  - `request_id` (uuid, references transfer_requests)
+  - `product_type`, `product_id` - one line per product
+  - `requested_qty` (numeric) - what the requesting warehouse asked for
+  - `approved_qty` (numeric, nullable) - what the source agreed to ship
+
+  ## Functions
+
+  ### create_transfer_request(p_from_warehouse_id, p_to_warehouse_id, p_request_date, p_needed_by, p_note, p_items)
+  - Items: product_type, product_id, requested_qty; repeated products are summed
+
+  ### approve_transfer_request(p_request_id, p_items)
+  - Items: item_id and approved_qty; a line approved with 0 is not shipped
+  - Only pending requests, at least one line must stay above 0
+
+  ### reject_transfer_request(p_request_id, p_reason)
+
+  ### fulfil_transfer_request(p_request_id, p_date, p_items)
+  - Posts the transfer through post_transfer with the request's warehouses
+  - Only products of the request, each up to its approved quantity
+  - Marks the request 'transferred' and links the transfer
+
+  ## Security
+  - RLS enabled with the same public policies as the other tables
+*/
+
+CREATE TABLE IF NOT EXISTS transfer_requests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  from_warehouse_id uuid NOT NULL REFERENCES warehouses(id) ON DELETE RESTRICT,
+  to_warehouse_id uuid NOT NULL REFERENCES warehouses(id) ON DELETE RESTRICT,
+  request_date date NOT NULL,
+  needed_by date,
+  note text,
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'approved', 'rejected', 'transferred')),
+  rejection_reason text,
+  decided_at timestamptz,
+  decided_by uuid,
+  transfer_id uuid REFERENCES transfers(id) ON DELETE RESTRICT,
+  created_at timestamptz DEFAULT now(),
+  CHECK (from_warehouse_id != to_warehouse_id)
+);
+
+CREATE TABLE IF NOT EXISTS transfer_request_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  request_id uuid NOT NULL REFERENCES transfer_requests(id) ON DELETE CASCADE,
+  product_type text NOT NULL CHECK (product_type IN ('reagent', 'consumable')),
+  product_id uuid NOT NULL,
+  requested_qty numeric NOT NULL CHECK (requested_qty > 0),
+  approved_qty numeric CHECK (approved_qty >= 0),
+  UNIQUE (request_id, product_type, product_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_transfer_requests_from_warehouse ON transfer_requests(from_warehouse_id);
+CREATE INDEX IF NOT EXISTS idx_transfer_requests_to_warehouse ON transfer_requests(to_warehouse_id);
+CREATE INDEX IF NOT EXISTS idx_transfer_requests_status ON transfer_requests(status);
+CREATE INDEX IF NOT EXISTS idx_transfer_request_items_request_id ON transfer_request_items(request_id);
+
+ALTER TABLE transfer_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE transfer_request_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public select on transfer_requests"
+  ON transfer_requests FOR SELECT
+  USING (true);
+
+CREATE POLICY "Allow public insert on transfer_requests"
+  ON transfer_requests FOR INSERT
+  WITH CHECK (true);
+
+CREATE POLICY "Allow public update on transfer_requests"
+  ON transfer_requests FOR UPDATE
+  USING (true);
+
+CREATE POLICY "Allow public delete on transfer_requests"
+  ON transfer_requests FOR DELETE
+  USING (true);
+
+CREATE POLICY "Allow public select on transfer_request_items"
+  ON transfer_request_items FOR SELECT
+  USING (true);
+
+CREATE POLICY "Allow public insert on transfer_request_items"
+  ON transfer_request_items FOR INSERT
+  WITH CHECK (true);
+
+CREATE POLICY "Allow public update on transfer_request_items"
+  ON transfer_request_items FOR UPDATE
+  USING (true);
+
+CREATE POLICY "Allow public delete on transfer_request_items"
+  ON transfer_request_items FOR DELETE
+  USING (true);
+
+CREATE OR REPLACE FUNCTION create_transfer_request(
+  p_from_warehouse_id uuid,
+  p_to_warehouse_id uuid,
+  p_request_date date,
+  p_needed_by date,
+  p_note text,
+  p_items jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_request_id uuid;
+BEGIN
+  IF p_from_warehouse_id = p_to_warehouse_id THEN
+    RAISE EXCEPTION 'Sorğu edən və göndərən anbar eyni ola bilməz';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Sorğuda ən azı bir məhsul olmalıdır';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(p_items) AS x(requested_qty numeric)
+    WHERE x.requested_qty IS NULL OR x.requested_qty <= 0
+  ) THEN
+    RAISE EXCEPTION 'Sorğu miqdarı 0-dan böyük olmalıdır';
+  END IF;
+
+  INSERT INTO transfer_requests (from_warehouse_id, to_warehouse_id, request_date, needed_by, note, status)
+  VALUES (p_from_warehouse_id, p_to_warehouse_id, p_request_date, p_needed_by, NULLIF(trim(p_note), ''), 'pending')
+  RETURNING id INTO v_request_id;
+
+  INSERT INTO transfer_request_items (request_id, product_type, product_id, requested_qty)
+  SELECT v_request_id, x.product_type, x.product_id, SUM(x.requested_qty)
+  FROM jsonb_to_recordset(p_items) AS x(product_type text, product_id uuid, requested_qty numeric)
+  GROUP BY x.product_type, x.product_id;
+
+  RETURN v_request_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION approve_transfer_request(p_request_id uuid, p_items jsonb)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_request transfer_requests%ROWTYPE;
+BEGIN
+  SELECT * INTO v_request FROM transfer_requests WHERE id = p_request_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sorğu tapılmadı';
+  END IF;
+
+  IF v_request.status <> 'pending' THEN
+    RAISE EXCEPTION 'Yalnız gözləyən sorğu təsdiqlənə bilər';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(COALESCE(p_items, '[]'::jsonb)) AS x(item_id uuid, approved_qty numeric)
+    LEFT JOIN transfer_request_items tri ON tri.id = x.item_id AND tri.request_id = p_request_id
+    WHERE tri.id IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Sətir bu sorğuya aid deyil';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(COALESCE(p_items, '[]'::jsonb)) AS x(item_id uuid, approved_qty numeric)
+    WHERE x.approved_qty IS NULL OR x.approved_qty < 0
+  ) THEN
+    RAISE EXCEPTION 'Təsdiqlənən miqdar mənfi ola bilməz';
+  END IF;
+
+  UPDATE transfer_request_items
+  SET approved_qty = requested_qty
+  WHERE request_id = p_request_id;
+
+  UPDATE transfer_request_items tri
+  SET approved_qty = x.approved_qty
+  FROM jsonb_to_recordset(COALESCE(p_items, '[]'::jsonb)) AS x(item_id uuid, approved_qty numeric)
+  WHERE tri.id = x.item_id
+    AND tri.request_id = p_request_id;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM transfer_request_items WHERE request_id = p_request_id AND approved_qty > 0
+  ) THEN
+    RAISE EXCEPTION 'Ən azı bir məhsul üçün miqdar təsdiqlənməlidir';
+  END IF;
+
+  UPDATE transfer_requests
+  SET status = 'approved',
+      decided_at = now(),
+      decided_by = auth.uid()
+  WHERE id = p_request_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reject_transfer_request(p_request_id uuid, p_reason text)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_request transfer_requests%ROWTYPE;
+BEGIN
+  SELECT * INTO v_request FROM transfer_requests WHERE id = p_request_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sorğu tapılmadı';
+  END IF;
+
+  IF v_request.status NOT IN ('pending', 'approved') THEN
+    RAISE EXCEPTION 'Bu sorğu artıq bağlanıb';
+  END IF;
+
+  IF p_reason IS NULL OR trim(p_reason) = '' THEN
+    RAISE EXCEPTION 'İmtina səbəbi daxil edilməlidir';
+  END IF;
+
+  UPDATE transfer_requests
+  SET status = 'rejected',
+      rejection_reason = trim(p_reason),
+      decided_at = now(),
+      decided_by = auth.uid()
+  WHERE id = p_request_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION fulfil_transfer_request(p_request_id uuid, p_date date, p_items jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_request transfer_requests%ROWTYPE;
+  v_transfer_id uuid;
+  r record;
+BEGIN
+  SELECT * INTO v_request FROM transfer_requests WHERE id = p_request_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sorğu tapılmadı';
+  END IF;
+
+  IF v_request.status <> 'approved' THEN
+    RAISE EXCEPTION 'Transfer yalnız təsdiqlənmiş sorğu əsasında yaradıla bilər';
+  END IF;
+
+  FOR r IN
+    SELECT
+      SUM(x.quantity) AS quantity,
+      tri.approved_qty,
+      COALESCE(rg.code, cs.code, ii.product_id::text) AS product_code
+    FROM jsonb_to_recordset(COALESCE(p_items, '[]'::jsonb)) AS x(batch_id uuid, quantity numeric)
+    JOIN invoice_items ii ON ii.id = x.batch_id
+    LEFT JOIN transfer_request_items tri
+      ON tri.request_id = p_request_id
+      AND tri.product_type = ii.product_type
+      AND tri.product_id = ii.product_id
+    LEFT JOIN reagents rg ON ii.product_type = 'reagent' AND rg.id = ii.product_id
+    LEFT JOIN consumables cs ON ii.product_type = 'consumable' AND cs.id = ii.product_id
+    GROUP BY ii.product_type, ii.product_id, tri.approved_qty, rg.code, cs.code
+  LOOP
+    IF COALESCE(r.approved_qty, 0) = 0 THEN
+      RAISE EXCEPTION '% bu sorğuda təsdiqlənməyib', r.product_code;
+    END IF;
+
+    IF r.quantity > r.approved_qty THEN
+      RAISE EXCEPTION '% üçün təsdiqlənən miqdar: %', r.product_code, r.approved_qty;
+    END IF;
+  END LOOP;
+
+  v_transfer_id := post_transfer(v_request.from_warehouse_id, v_request.to_warehouse_id, p_date, p_items);
+
+  UPDATE transfer_requests
+  SET status = 'transferred',
+      transfer_id = v_transfer_id
+  WHERE id = p_request_id;
+
+  RETURN v_transfer_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_transfer_request(uuid, uuid, date, date, text, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION approve_transfer_request(uuid, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION reject_transfer_request(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION fulfil_transfer_request(uuid, date, jsonb) TO authenticated;
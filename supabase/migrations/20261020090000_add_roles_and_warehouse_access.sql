@@ -0,0 +1,1534 @@
+/*
+  # Roles and Per-Warehouse Access
+
+  ## Overview
+  Every policy allowed the public to do anything, so anyone with the anon key could
+  delete warehouses. Access now depends on the signed-in user's role and, for
+  storekeepers, on the warehouses assigned to them.
+
+  ## Roles
+  - `admin` - everything, including master data (warehouses, products, suppliers, stock
+    levels) and user access
+  - `storekeeper` - posts documents only for the assigned warehouses
+  - `auditor` - reads everything, including who has which access
+  - `read_only` - reads stock and documents
+
+  Every role can read all stock and documents; writing depends on the role and the
+  warehouse. Users without a role can read nothing, and the anon key has no access.
+
+  ## Tables Created
+
+  ### user_roles
+  - `user_id` (uuid, primary key, references auth.users)
+  - `email` (text) - copied from auth.users for display
+  - `role` (text) - admin, storekeeper, auditor, read_only
+
+  ### user_warehouses
+  - `user_id`, `warehouse_id` - warehouses a storekeeper may post to
+
+  ## Functions
+  - `current_user_role()` - role of the signed-in user, NULL without one
+  - `has_role(VARIADIC p_roles)` - whether the user holds one of the roles
+  - `can_write_warehouse(p_warehouse_id)` - admins everywhere, storekeepers in their
+    assigned warehouses
+  - `set_user_access(p_user_id, p_role, p_warehouse_ids)` - admin only; replaces the
+    user's role and warehouse assignments and keeps at least one admin
+  - `receive_transfer` - only the destination warehouse can receive a transfer
+  - `set_purchase_order_status(p_po_id, p_status)` - marks a draft order sent or closes a
+    sent or partially received one; received and partially_received are set by receipts
+
+  ### Posting functions
+  post_invoice, post_inventory_count, post_transfer, post_stock_out,
+  return_invoice_items, update_invoice, cancel_invoice, reverse_transfer and
+  receive_transfer now run as definer, as they write documents storekeepers cannot write
+  directly. Each checks the caller's side first:
+  - post_invoice, post_inventory_count, post_stock_out: their warehouse
+  - post_transfer: the source warehouse
+  - return_invoice_items, update_invoice, cancel_invoice: the invoice's warehouse (the
+    corrections check it in lock_correctable_invoice)
+  - reverse_transfer, receive_transfer: the destination warehouse
+
+  ## Data
+  - The oldest existing user becomes the only admin and the other existing users become
+    read_only; the admin then grants them their roles and warehouses
+  - New users start as read_only through a trigger on auth.users, except the first user
+    of a project that has no admin yet, who becomes the admin
+
+  ## Security
+  - The "Allow public ..." policies are replaced by policies for authenticated users:
+    - Master data and stock levels: admin
+    - Invoices, returns, transfers, stock outs, counts and their lines: only admins
+      write them directly; everyone else goes through the posting functions above
+    - Purchase orders and their lines: the order's warehouse inserts them and deletes
+      drafts; status changes go through set_purchase_order_status and receipts
+    - Invoice revisions: no insert policy, so only update_invoice and cancel_invoice can
+      write them
+    - Transfer requests: the requesting warehouse creates and deletes pending ones, the
+      source decides on them
+  - Functions can be executed by authenticated users only, and only the ones the app
+    calls and the helpers the policies use: EXECUTE is revoked from PUBLIC, anon and
+    authenticated on every function, also by default for functions created later, and
+    granted back by name. Internal helpers such as lock_warehouse_stock,
+    assert_stock_available and the trigger functions cannot be called directly
+*/
+
+CREATE TABLE IF NOT EXISTS user_roles (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  email text,
+  role text NOT NULL DEFAULT 'read_only'
+    CHECK (role IN ('admin', 'storekeeper', 'auditor', 'read_only')),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS user_warehouses (
+  user_id uuid NOT NULL REFERENCES user_roles(user_id) ON DELETE CASCADE,
+  warehouse_id uuid NOT NULL REFERENCES warehouses(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (user_id, warehouse_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_warehouses_warehouse_id ON user_warehouses(warehouse_id);
+
+-- The oldest account becomes the single admin; everyone else starts read-only and gets
+-- more access from that admin
+INSERT INTO user_roles (user_id, email, role)
+SELECT
+  id,
+  email,
+  CASE WHEN row_number() OVER (ORDER BY created_at, id) = 1 THEN 'admin' ELSE 'read_only' END
+FROM auth.users
+ON CONFLICT (user_id) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION assign_default_user_role()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Serializes sign-ups so two first users cannot both become admin
+  LOCK TABLE user_roles IN SHARE ROW EXCLUSIVE MODE;
+
+  -- The first user of a project without an admin becomes the admin
+  INSERT INTO user_roles (user_id, email, role)
+  VALUES (
+    NEW.id,
+    NEW.email,
+    CASE WHEN EXISTS (SELECT 1 FROM user_roles WHERE role = 'admin') THEN 'read_only' ELSE 'admin' END
+  )
+  ON CONFLICT (user_id) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_user_created_assign_role ON auth.users;
+CREATE TRIGGER on_auth_user_created_assign_role
+  AFTER INSERT ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION assign_default_user_role();
+
+-- The helpers read user_roles as definer, so policies on user_roles can use them too
+CREATE OR REPLACE FUNCTION current_user_role()
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM user_roles WHERE user_id = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION has_role(VARIADIC p_roles text[])
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(current_user_role() = ANY(p_roles), false);
+$$;
+
+CREATE OR REPLACE FUNCTION can_write_warehouse(p_warehouse_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE current_user_role()
+    WHEN 'admin' THEN true
+    WHEN 'storekeeper' THEN EXISTS (
+      SELECT 1 FROM user_warehouses
+      WHERE user_id = auth.uid() AND warehouse_id = p_warehouse_id
+    )
+    ELSE false
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION set_user_access(p_user_id uuid, p_role text, p_warehouse_ids uuid[])
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NOT has_role('admin') THEN
+    RAISE EXCEPTION 'İstifadəçi icazələrini yalnız administrator dəyişə bilər';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM user_roles WHERE user_id = p_user_id) THEN
+    RAISE EXCEPTION 'İstifadəçi tapılmadı';
+  END IF;
+
+  IF p_role <> 'admin' AND NOT EXISTS (
+    SELECT 1 FROM user_roles WHERE role = 'admin' AND user_id <> p_user_id
+  ) THEN
+    RAISE EXCEPTION 'Sistemdə ən azı bir administrator qalmalıdır';
+  END IF;
+
+  UPDATE user_roles SET role = p_role WHERE user_id = p_user_id;
+
+  DELETE FROM user_warehouses WHERE user_id = p_user_id;
+
+  -- Only storekeepers are limited to warehouses; other roles keep no assignments
+  IF p_role = 'storekeeper' THEN
+    INSERT INTO user_warehouses (user_id, warehouse_id)
+    SELECT p_user_id, w.id
+    FROM warehouses w
+    WHERE w.id = ANY(COALESCE(p_warehouse_ids, '{}'));
+  END IF;
+END;
+$$;
+
+-- Documents and their lines can only be written directly by admins. The posting and
+-- correction functions run as definer and check the caller's warehouse themselves.
+CREATE OR REPLACE FUNCTION post_invoice(
+  p_invoice_code text,
+  p_supplier text,
+  p_date date,
+  p_warehouse_id uuid,
+  p_items jsonb,
+  p_purchase_order_id uuid DEFAULT NULL,
+  p_supplier_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invoice_id uuid;
+  v_supplier text := p_supplier;
+  v_po purchase_orders%ROWTYPE;
+BEGIN
+  IF NOT can_write_warehouse(p_warehouse_id) THEN
+    RAISE EXCEPTION 'Bu anbara qaimə daxil etmək icazəniz yoxdur';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Qaimədə ən azı bir məhsul olmalıdır';
+  END IF;
+
+  IF p_supplier_id IS NOT NULL THEN
+    SELECT name INTO v_supplier FROM suppliers WHERE id = p_supplier_id;
+
+    IF v_supplier IS NULL THEN
+      RAISE EXCEPTION 'Təchizatçı tapılmadı';
+    END IF;
+  END IF;
+
+  IF p_purchase_order_id IS NOT NULL THEN
+    SELECT * INTO v_po FROM purchase_orders WHERE id = p_purchase_order_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Sifariş tapılmadı';
+    END IF;
+
+    IF v_po.status NOT IN ('sent', 'partially_received') THEN
+      RAISE EXCEPTION '% sifarişi qəbul üçün açıq deyil', v_po.po_code;
+    END IF;
+
+    IF v_po.warehouse_id <> p_warehouse_id THEN
+      RAISE EXCEPTION '% sifarişi başqa anbar üçündür', v_po.po_code;
+    END IF;
+
+    IF EXISTS (
+      SELECT 1
+      FROM jsonb_to_recordset(p_items) AS x(product_type text, product_id uuid, po_item_id uuid)
+      LEFT JOIN purchase_order_items poi ON poi.id = x.po_item_id
+      WHERE x.po_item_id IS NOT NULL
+        AND (poi.id IS NULL
+          OR poi.po_id <> p_purchase_order_id
+          OR poi.product_type <> x.product_type
+          OR poi.product_id <> x.product_id)
+    ) THEN
+      RAISE EXCEPTION 'Qaimə sətirləri % sifarişinin sətirlərinə uyğun deyil', v_po.po_code;
+    END IF;
+  ELSIF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(p_items) AS x(po_item_id uuid) WHERE x.po_item_id IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Sifariş sətri göstərilib, amma sifariş seçilməyib';
+  END IF;
+
+  INSERT INTO invoices (invoice_code, supplier, supplier_id, date, warehouse_id, status, purchase_order_id)
+  VALUES (p_invoice_code, v_supplier, p_supplier_id, p_date, p_warehouse_id, 'active', p_purchase_order_id)
+  RETURNING id INTO v_invoice_id;
+
+  INSERT INTO invoice_items (invoice_id, product_type, product_id, quantity, unit_price, total_price, batch_date, lot_number, expiry_date, po_item_id)
+  SELECT
+    v_invoice_id,
+    x.product_type,
+    x.product_id,
+    x.quantity,
+    x.unit_price,
+    x.quantity * x.unit_price,
+    p_date,
+    NULLIF(trim(x.lot_number), ''),
+    x.expiry_date,
+    x.po_item_id
+  FROM jsonb_to_recordset(p_items) AS x(
+    product_type text,
+    product_id uuid,
+    quantity numeric,
+    unit_price numeric,
+    lot_number text,
+    expiry_date date,
+    po_item_id uuid
+  );
+
+  IF p_purchase_order_id IS NOT NULL THEN
+    UPDATE purchase_order_items poi
+    SET received_qty = poi.received_qty + r.quantity
+    FROM (
+      SELECT po_item_id, SUM(quantity) AS quantity
+      FROM invoice_items
+      WHERE invoice_id = v_invoice_id AND po_item_id IS NOT NULL
+      GROUP BY po_item_id
+    ) r
+    WHERE poi.id = r.po_item_id;
+
+    UPDATE purchase_orders
+    SET status = CASE
+      WHEN NOT EXISTS (
+        SELECT 1 FROM purchase_order_items
+        WHERE po_id = p_purchase_order_id AND received_qty < ordered_qty
+      ) THEN 'received'
+      ELSE 'partially_received'
+    END
+    WHERE id = p_purchase_order_id;
+  END IF;
+
+  RETURN v_invoice_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION post_inventory_count(
+  p_warehouse_id uuid,
+  p_date date,
+  p_count_code text,
+  p_allocation_strategy text,
+  p_items jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count_id uuid;
+  v_stock_out_id uuid;
+  v_invoice_id uuid;
+  v_losses jsonb;
+  r record;
+BEGIN
+  IF NOT can_write_warehouse(p_warehouse_id) THEN
+    RAISE EXCEPTION 'Bu anbarda sayım aparmaq icazəniz yoxdur';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Sayım siyahısı boşdur';
+  END IF;
+
+  CREATE TEMP TABLE tmp_count_items AS
+  SELECT
+    x.product_type,
+    x.product_id,
+    x.system_qty,
+    x.real_qty,
+    GREATEST(COALESCE(x.loss_qty, 0), 0) AS loss_qty,
+    0::numeric AS loss_amount,
+    GREATEST(COALESCE(x.surplus_qty, 0), 0) AS surplus_qty,
+    COALESCE(x.surplus_unit_price, 0) AS surplus_unit_price,
+    x.losses
+  FROM jsonb_to_recordset(p_items) AS x(
+    product_type text,
+    product_id uuid,
+    system_qty numeric,
+    real_qty numeric,
+    loss_qty numeric,
+    surplus_qty numeric,
+    surplus_unit_price numeric,
+    losses jsonb
+  );
+
+  IF EXISTS (SELECT 1 FROM tmp_count_items WHERE surplus_qty > 0 AND surplus_unit_price < 0) THEN
+    RAISE EXCEPTION 'Artıq üçün qiymət mənfi ola bilməz';
+  END IF;
+
+  CREATE TEMP TABLE tmp_count_losses AS
+  SELECT
+    c.product_type,
+    c.product_id,
+    ii.id AS batch_id,
+    ii.batch_date,
+    ii.unit_price,
+    l.quantity
+  FROM tmp_count_items c
+  CROSS JOIN LATERAL jsonb_to_recordset(COALESCE(c.losses, '[]'::jsonb)) AS l(batch_id uuid, quantity numeric)
+  JOIN invoice_items ii ON ii.id = l.batch_id
+  WHERE c.loss_qty > 0
+    AND ii.product_type = c.product_type
+    AND ii.product_id = c.product_id;
+
+  FOR r IN
+    SELECT
+      COALESCE(rg.code, cs.code, c.product_id::text) AS product_code,
+      c.loss_qty,
+      COALESCE((
+        SELECT SUM(tl.quantity)
+        FROM tmp_count_losses tl
+        WHERE tl.product_type = c.product_type AND tl.product_id = c.product_id
+      ), 0) AS allocated
+    FROM tmp_count_items c
+    LEFT JOIN reagents rg ON c.product_type = 'reagent' AND rg.id = c.product_id
+    LEFT JOIN consumables cs ON c.product_type = 'consumable' AND cs.id = c.product_id
+    WHERE c.loss_qty > 0
+  LOOP
+    IF abs(r.loss_qty - r.allocated) > 0.000001 THEN
+      RAISE EXCEPTION '% üçün xərc partiyalara tam bölünməyib. Xərc: %, Bölünən: %',
+        r.product_code, r.loss_qty, r.allocated;
+    END IF;
+  END LOOP;
+
+  SELECT jsonb_agg(jsonb_build_object('batch_id', batch_id, 'quantity', quantity))
+  INTO v_losses
+  FROM tmp_count_losses;
+
+  IF v_losses IS NOT NULL THEN
+    PERFORM assert_stock_available(p_warehouse_id, v_losses);
+  ELSE
+    PERFORM lock_warehouse_stock(p_warehouse_id);
+  END IF;
+
+  UPDATE tmp_count_items c
+  SET loss_amount = COALESCE((
+    SELECT SUM(tl.quantity * tl.unit_price)
+    FROM tmp_count_losses tl
+    WHERE tl.product_type = c.product_type AND tl.product_id = c.product_id
+  ), 0)
+  WHERE c.loss_qty > 0;
+
+  INSERT INTO inventory_count (warehouse_id, date, count_code, total_loss_amount, total_surplus_amount, allocation_strategy)
+  VALUES (
+    p_warehouse_id,
+    p_date,
+    p_count_code,
+    (SELECT COALESCE(SUM(loss_amount), 0) FROM tmp_count_items),
+    (SELECT COALESCE(SUM(surplus_qty * surplus_unit_price), 0) FROM tmp_count_items),
+    p_allocation_strategy
+  )
+  RETURNING id INTO v_count_id;
+
+  INSERT INTO inventory_count_items (
+    count_id, product_type, product_id, system_qty, real_qty,
+    loss_qty, loss_amount, surplus_qty, surplus_amount
+  )
+  SELECT
+    v_count_id, product_type, product_id, system_qty, real_qty,
+    loss_qty, loss_amount, surplus_qty, surplus_qty * surplus_unit_price
+  FROM tmp_count_items;
+
+  IF v_losses IS NOT NULL THEN
+    INSERT INTO stock_out (warehouse_id, date, reason, total_amount)
+    SELECT p_warehouse_id, p_date, 'inventory_loss', SUM(quantity * unit_price)
+    FROM tmp_count_losses
+    RETURNING id INTO v_stock_out_id;
+
+    INSERT INTO stock_out_items (stockout_id, product_type, product_id, batch_id, batch_date, quantity, unit_price, total_price)
+    SELECT v_stock_out_id, product_type, product_id, batch_id, batch_date, quantity, unit_price, quantity * unit_price
+    FROM tmp_count_losses;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM tmp_count_items WHERE surplus_qty > 0) THEN
+    INSERT INTO invoices (invoice_code, supplier, date, warehouse_id, status, entry_type, count_id)
+    VALUES (p_count_code || '-ARTIQ', 'Sayım artığı', p_date, p_warehouse_id, 'active', 'inventory_surplus', v_count_id)
+    RETURNING id INTO v_invoice_id;
+
+    INSERT INTO invoice_items (invoice_id, product_type, product_id, quantity, unit_price, total_price, batch_date)
+    SELECT v_invoice_id, product_type, product_id, surplus_qty, surplus_unit_price, surplus_qty * surplus_unit_price, p_date
+    FROM tmp_count_items
+    WHERE surplus_qty > 0;
+  END IF;
+
+  DROP TABLE tmp_count_losses;
+  DROP TABLE tmp_count_items;
+
+  RETURN v_count_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION post_transfer(
+  p_from_warehouse_id uuid,
+  p_to_warehouse_id uuid,
+  p_date date,
+  p_items jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transfer_id uuid;
+  v_stock_out_id uuid;
+BEGIN
+  IF NOT can_write_warehouse(p_from_warehouse_id) THEN
+    RAISE EXCEPTION 'Bu anbardan transfer etmək icazəniz yoxdur';
+  END IF;
+
+  IF p_from_warehouse_id = p_to_warehouse_id THEN
+    RAISE EXCEPTION 'Göndərən və qəbul edən anbar eyni ola bilməz';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Transfer üçün ən azı bir məhsul seçilməlidir';
+  END IF;
+
+  PERFORM assert_stock_available(p_from_warehouse_id, p_items);
+
+  INSERT INTO transfers (from_warehouse_id, to_warehouse_id, date, total_amount)
+  VALUES (p_from_warehouse_id, p_to_warehouse_id, p_date, 0)
+  RETURNING id INTO v_transfer_id;
+
+  INSERT INTO transfer_items (transfer_id, product_type, product_id, batch_id, batch_date, quantity, unit_price, total_price)
+  SELECT
+    v_transfer_id,
+    ii.product_type,
+    ii.product_id,
+    ii.id,
+    ii.batch_date,
+    x.quantity,
+    ii.unit_price,
+    x.quantity * ii.unit_price
+  FROM jsonb_to_recordset(p_items) AS x(batch_id uuid, quantity numeric)
+  JOIN invoice_items ii ON ii.id = x.batch_id;
+
+  UPDATE transfers
+  SET total_amount = (SELECT COALESCE(SUM(total_price), 0) FROM transfer_items WHERE transfer_id = v_transfer_id)
+  WHERE id = v_transfer_id;
+
+  INSERT INTO stock_out (warehouse_id, date, reason, total_amount, transfer_id)
+  SELECT p_from_warehouse_id, p_date, 'transfer', total_amount, id
+  FROM transfers
+  WHERE id = v_transfer_id
+  RETURNING id INTO v_stock_out_id;
+
+  INSERT INTO stock_out_items (stockout_id, product_type, product_id, batch_id, batch_date, quantity, unit_price, total_price)
+  SELECT
+    v_stock_out_id,
+    ti.product_type,
+    ti.product_id,
+    ti.batch_id,
+    ti.batch_date,
+    ti.quantity,
+    ti.unit_price,
+    ti.total_price
+  FROM transfer_items ti
+  WHERE ti.transfer_id = v_transfer_id;
+
+  RETURN v_transfer_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION post_stock_out(
+  p_warehouse_id uuid,
+  p_date date,
+  p_reason text,
+  p_items jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_stock_out_id uuid;
+  v_not_expired text;
+BEGIN
+  IF NOT can_write_warehouse(p_warehouse_id) THEN
+    RAISE EXCEPTION 'Bu anbardan çıxış etmək icazəniz yoxdur';
+  END IF;
+
+  IF p_reason NOT IN ('consumption', 'expired') THEN
+    RAISE EXCEPTION 'Yanlış çıxış səbəbi: %', p_reason;
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Ən azı bir məhsul seçilməlidir';
+  END IF;
+
+  IF p_reason = 'expired' THEN
+    SELECT COALESCE(rg.code, cs.code, ii.product_id::text)
+    INTO v_not_expired
+    FROM jsonb_to_recordset(p_items) AS x(batch_id uuid, quantity numeric)
+    JOIN invoice_items ii ON ii.id = x.batch_id
+    LEFT JOIN reagents rg ON ii.product_type = 'reagent' AND rg.id = ii.product_id
+    LEFT JOIN consumables cs ON ii.product_type = 'consumable' AND cs.id = ii.product_id
+    WHERE ii.expiry_date IS NULL OR ii.expiry_date >= p_date
+    LIMIT 1;
+
+    IF v_not_expired IS NOT NULL THEN
+      RAISE EXCEPTION '% partiyasının istifadə müddəti bitməyib', v_not_expired;
+    END IF;
+  END IF;
+
+  PERFORM assert_stock_available(p_warehouse_id, p_items);
+
+  INSERT INTO stock_out (warehouse_id, date, reason, total_amount)
+  VALUES (p_warehouse_id, p_date, p_reason, 0)
+  RETURNING id INTO v_stock_out_id;
+
+  INSERT INTO stock_out_items (stockout_id, product_type, product_id, batch_id, batch_date, quantity, unit_price, total_price)
+  SELECT
+    v_stock_out_id,
+    ii.product_type,
+    ii.product_id,
+    ii.id,
+    ii.batch_date,
+    x.quantity,
+    ii.unit_price,
+    x.quantity * ii.unit_price
+  FROM jsonb_to_recordset(p_items) AS x(batch_id uuid, quantity numeric)
+  JOIN invoice_items ii ON ii.id = x.batch_id;
+
+  UPDATE stock_out
+  SET total_amount = (SELECT COALESCE(SUM(total_price), 0) FROM stock_out_items WHERE stockout_id = v_stock_out_id)
+  WHERE id = v_stock_out_id;
+
+  RETURN v_stock_out_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION lock_correctable_invoice(p_invoice_id uuid)
+RETURNS invoices
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_invoice invoices%ROWTYPE;
+BEGIN
+  SELECT * INTO v_invoice FROM invoices WHERE id = p_invoice_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Qaimə tapılmadı';
+  END IF;
+
+  IF NOT can_write_warehouse(v_invoice.warehouse_id) THEN
+    RAISE EXCEPTION '% qaiməsinin anbarı üçün icazəniz yoxdur', v_invoice.invoice_code;
+  END IF;
+
+  IF v_invoice.entry_type <> 'purchase' THEN
+    RAISE EXCEPTION '% sayım artığıdır və düzəldilə bilməz', v_invoice.invoice_code;
+  END IF;
+
+  IF v_invoice.status <> 'active' THEN
+    RAISE EXCEPTION '% qaiməsi aktiv deyil və düzəldilə bilməz', v_invoice.invoice_code;
+  END IF;
+
+  PERFORM lock_warehouse_stock(v_invoice.warehouse_id);
+
+  IF EXISTS (
+    SELECT 1
+    FROM invoice_items ii
+    WHERE ii.invoice_id = p_invoice_id
+      AND (
+        EXISTS (SELECT 1 FROM transfer_items ti WHERE ti.batch_id = ii.id)
+        OR EXISTS (SELECT 1 FROM stock_out_items soi WHERE soi.batch_id = ii.id)
+      )
+  ) THEN
+    RAISE EXCEPTION '% qaiməsinin məhsulları artıq hərəkət edib, düzəliş mümkün deyil', v_invoice.invoice_code;
+  END IF;
+
+  RETURN v_invoice;
+END;
+$$;
+
+ALTER FUNCTION update_invoice(uuid, text, uuid, date, jsonb, text) SECURITY DEFINER SET search_path = public;
+ALTER FUNCTION cancel_invoice(uuid, text) SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION return_invoice_items(
+  p_invoice_id uuid,
+  p_date date,
+  p_items jsonb,
+  p_note text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invoice invoices%ROWTYPE;
+  v_stock_out_id uuid;
+  v_batches jsonb;
+  r record;
+BEGIN
+  SELECT * INTO v_invoice FROM invoices WHERE id = p_invoice_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Qaimə tapılmadı';
+  END IF;
+
+  IF NOT can_write_warehouse(v_invoice.warehouse_id) THEN
+    RAISE EXCEPTION '% qaiməsinin anbarı üçün icazəniz yoxdur', v_invoice.invoice_code;
+  END IF;
+
+  IF v_invoice.entry_type <> 'purchase' THEN
+    RAISE EXCEPTION '% sayım artığıdır və geri qaytarıla bilməz', v_invoice.invoice_code;
+  END IF;
+
+  IF v_invoice.status = 'returned' THEN
+    RAISE EXCEPTION '% qaiməsi artıq geri qaytarılıb', v_invoice.invoice_code;
+  END IF;
+
+  IF v_invoice.status = 'cancelled' THEN
+    RAISE EXCEPTION '% qaiməsi ləğv edilib', v_invoice.invoice_code;
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Ən azı bir məhsul seçilməlidir';
+  END IF;
+
+  FOR r IN
+    SELECT
+      req.invoice_item_id,
+      req.quantity,
+      ii.id AS item_id,
+      ii.quantity - COALESCE((
+        SELECT SUM(soi.quantity)
+        FROM invoice_returns ir
+        JOIN stock_out_items soi ON soi.stockout_id = ir.stock_out_id
+        WHERE ir.invoice_id = p_invoice_id AND soi.batch_id = ii.id
+      ), 0) AS returnable,
+      COALESCE(rg.code, cs.code, ii.product_id::text) AS product_code
+    FROM (
+      SELECT x.invoice_item_id, SUM(x.quantity) AS quantity
+      FROM jsonb_to_recordset(p_items) AS x(invoice_item_id uuid, quantity numeric)
+      GROUP BY x.invoice_item_id
+    ) req
+    LEFT JOIN invoice_items ii ON ii.id = req.invoice_item_id AND ii.invoice_id = p_invoice_id
+    LEFT JOIN reagents rg ON ii.product_type = 'reagent' AND rg.id = ii.product_id
+    LEFT JOIN consumables cs ON ii.product_type = 'consumable' AND cs.id = ii.product_id
+  LOOP
+    IF r.item_id IS NULL THEN
+      RAISE EXCEPTION 'Sətir % qaiməsinə aid deyil', v_invoice.invoice_code;
+    END IF;
+
+    IF r.quantity IS NULL OR r.quantity <= 0 THEN
+      RAISE EXCEPTION '% üçün miqdar 0-dan böyük olmalıdır', r.product_code;
+    END IF;
+
+    IF r.quantity > r.returnable THEN
+      RAISE EXCEPTION '% üçün qaytarıla bilən miqdar: %', r.product_code, r.returnable;
+    END IF;
+  END LOOP;
+
+  SELECT jsonb_agg(jsonb_build_object('batch_id', x.invoice_item_id, 'quantity', x.quantity))
+  INTO v_batches
+  FROM jsonb_to_recordset(p_items) AS x(invoice_item_id uuid, quantity numeric);
+
+  PERFORM assert_stock_available(v_invoice.warehouse_id, v_batches);
+
+  INSERT INTO stock_out (warehouse_id, date, reason, total_amount)
+  SELECT v_invoice.warehouse_id, p_date, 'invoice_return', COALESCE(SUM(x.quantity * ii.unit_price), 0)
+  FROM jsonb_to_recordset(p_items) AS x(invoice_item_id uuid, quantity numeric)
+  JOIN invoice_items ii ON ii.id = x.invoice_item_id
+  RETURNING id INTO v_stock_out_id;
+
+  INSERT INTO stock_out_items (stockout_id, product_type, product_id, batch_id, batch_date, quantity, unit_price, total_price)
+  SELECT v_stock_out_id, ii.product_type, ii.product_id, ii.id, ii.batch_date, x.quantity, ii.unit_price, x.quantity * ii.unit_price
+  FROM jsonb_to_recordset(p_items) AS x(invoice_item_id uuid, quantity numeric)
+  JOIN invoice_items ii ON ii.id = x.invoice_item_id;
+
+  INSERT INTO invoice_returns (invoice_id, stock_out_id, date, note)
+  VALUES (p_invoice_id, v_stock_out_id, p_date, NULLIF(trim(p_note), ''));
+
+  UPDATE invoices
+  SET status = CASE
+    WHEN EXISTS (
+      SELECT 1
+      FROM invoice_items ii
+      WHERE ii.invoice_id = p_invoice_id
+        AND ii.quantity > COALESCE((
+          SELECT SUM(soi.quantity)
+          FROM invoice_returns ir
+          JOIN stock_out_items soi ON soi.stockout_id = ir.stock_out_id
+          WHERE ir.invoice_id = p_invoice_id AND soi.batch_id = ii.id
+        ), 0)
+    ) THEN 'partially_returned'
+    ELSE 'returned'
+  END
+  WHERE id = p_invoice_id;
+
+  RETURN v_stock_out_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reverse_transfer(p_transfer_id uuid, p_date date)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transfer transfers%ROWTYPE;
+  v_items jsonb;
+  v_reversal_id uuid;
+BEGIN
+  SELECT * INTO v_transfer FROM transfers WHERE id = p_transfer_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transfer tapılmadı';
+  END IF;
+
+  IF NOT can_write_warehouse(v_transfer.to_warehouse_id) THEN
+    RAISE EXCEPTION 'Transferi yalnız təyinat anbarı geri qaytara bilər';
+  END IF;
+
+  IF v_transfer.status <> 'received' THEN
+    RAISE EXCEPTION 'Transfer hələ yoldadır; geri qaytarmaq üçün əvvəlcə qəbul edilməlidir';
+  END IF;
+
+  IF v_transfer.reversal_of IS NOT NULL THEN
+    RAISE EXCEPTION 'Bu transfer başqa transferin geri qaytarılmasıdır və geri qaytarıla bilməz';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM transfers WHERE reversal_of = p_transfer_id) THEN
+    RAISE EXCEPTION 'Bu transfer artıq geri qaytarılıb';
+  END IF;
+
+  IF p_date < COALESCE(v_transfer.received_date, v_transfer.date) THEN
+    RAISE EXCEPTION 'Geri qaytarma tarixi qəbul tarixindən (%) əvvəl ola bilməz', COALESCE(v_transfer.received_date, v_transfer.date);
+  END IF;
+
+  SELECT jsonb_agg(jsonb_build_object('batch_id', ti.batch_id, 'quantity', ti.received_quantity))
+  INTO v_items
+  FROM transfer_items ti
+  WHERE ti.transfer_id = p_transfer_id
+    AND ti.received_quantity > 0;
+
+  IF v_items IS NULL THEN
+    RAISE EXCEPTION 'Transferdən heç bir məhsul qəbul edilməyib, geri qaytarılacaq məhsul yoxdur';
+  END IF;
+
+  v_reversal_id := post_transfer(v_transfer.to_warehouse_id, v_transfer.from_warehouse_id, p_date, v_items);
+
+  UPDATE transfers SET reversal_of = p_transfer_id WHERE id = v_reversal_id;
+
+  RETURN v_reversal_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION receive_transfer(
+  p_transfer_id uuid,
+  p_date date,
+  p_items jsonb,
+  p_note text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transfer transfers%ROWTYPE;
+  v_stock_out_id uuid;
+  r record;
+BEGIN
+  SELECT * INTO v_transfer FROM transfers WHERE id = p_transfer_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transfer tapılmadı';
+  END IF;
+
+  IF NOT can_write_warehouse(v_transfer.to_warehouse_id) THEN
+    RAISE EXCEPTION 'Transferi yalnız təyinat anbarı qəbul edə bilər';
+  END IF;
+
+  IF v_transfer.status <> 'in_transit' THEN
+    RAISE EXCEPTION 'Bu transfer artıq qəbul edilib';
+  END IF;
+
+  IF p_date < v_transfer.date THEN
+    RAISE EXCEPTION 'Qəbul tarixi göndərmə tarixindən (%) əvvəl ola bilməz', v_transfer.date;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(COALESCE(p_items, '[]'::jsonb)) AS x(transfer_item_id uuid, received_quantity numeric)
+    LEFT JOIN transfer_items ti ON ti.id = x.transfer_item_id AND ti.transfer_id = p_transfer_id
+    WHERE ti.id IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Sətir bu transferə aid deyil';
+  END IF;
+
+  FOR r IN
+    SELECT
+      ti.quantity,
+      req.received_quantity,
+      COALESCE(rg.code, cs.code, ti.product_id::text) AS product_code
+    FROM transfer_items ti
+    LEFT JOIN (
+      SELECT x.transfer_item_id, SUM(x.received_quantity) AS received_quantity
+      FROM jsonb_to_recordset(COALESCE(p_items, '[]'::jsonb)) AS x(transfer_item_id uuid, received_quantity numeric)
+      GROUP BY x.transfer_item_id
+    ) req ON req.transfer_item_id = ti.id
+    LEFT JOIN reagents rg ON ti.product_type = 'reagent' AND rg.id = ti.product_id
+    LEFT JOIN consumables cs ON ti.product_type = 'consumable' AND cs.id = ti.product_id
+    WHERE ti.transfer_id = p_transfer_id
+  LOOP
+    IF r.received_quantity IS NULL THEN
+      RAISE EXCEPTION '% üçün qəbul edilən miqdar daxil edilməyib', r.product_code;
+    END IF;
+
+    IF r.received_quantity < 0 OR r.received_quantity > r.quantity THEN
+      RAISE EXCEPTION '% üçün qəbul edilən miqdar 0 ilə % arasında olmalıdır', r.product_code, r.quantity;
+    END IF;
+  END LOOP;
+
+  UPDATE transfer_items ti
+  SET received_quantity = req.received_quantity
+  FROM (
+    SELECT x.transfer_item_id, SUM(x.received_quantity) AS received_quantity
+    FROM jsonb_to_recordset(p_items) AS x(transfer_item_id uuid, received_quantity numeric)
+    GROUP BY x.transfer_item_id
+  ) req
+  WHERE ti.id = req.transfer_item_id;
+
+  UPDATE transfers
+  SET status = 'received',
+      received_date = p_date,
+      receipt_note = NULLIF(trim(p_note), ''),
+      received_by = auth.uid()
+  WHERE id = p_transfer_id;
+
+  IF EXISTS (SELECT 1 FROM transfer_items WHERE transfer_id = p_transfer_id AND received_quantity < quantity) THEN
+    INSERT INTO stock_out (warehouse_id, date, reason, total_amount, transfer_id)
+    SELECT v_transfer.to_warehouse_id, p_date, 'transit_loss', SUM((ti.quantity - ti.received_quantity) * ti.unit_price), p_transfer_id
+    FROM transfer_items ti
+    WHERE ti.transfer_id = p_transfer_id
+    RETURNING id INTO v_stock_out_id;
+
+    INSERT INTO stock_out_items (stockout_id, product_type, product_id, batch_id, batch_date, quantity, unit_price, total_price)
+    SELECT
+      v_stock_out_id,
+      ti.product_type,
+      ti.product_id,
+      ti.batch_id,
+      ti.batch_date,
+      ti.quantity - ti.received_quantity,
+      ti.unit_price,
+      (ti.quantity - ti.received_quantity) * ti.unit_price
+    FROM transfer_items ti
+    WHERE ti.transfer_id = p_transfer_id
+      AND ti.received_quantity < ti.quantity;
+  END IF;
+
+  RETURN v_stock_out_id;
+END;
+$$;
+
+-- Receipts move an order to partially_received or received; by hand it can only be sent
+-- or closed
+CREATE OR REPLACE FUNCTION set_purchase_order_status(p_po_id uuid, p_status text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_po purchase_orders%ROWTYPE;
+BEGIN
+  SELECT * INTO v_po FROM purchase_orders WHERE id = p_po_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sifariş tapılmadı';
+  END IF;
+
+  IF NOT can_write_warehouse(v_po.warehouse_id) THEN
+    RAISE EXCEPTION '% sifarişinin anbarı üçün icazəniz yoxdur', v_po.po_code;
+  END IF;
+
+  IF NOT (
+    (v_po.status = 'draft' AND p_status = 'sent')
+    OR (v_po.status IN ('sent', 'partially_received') AND p_status = 'closed')
+  ) THEN
+    RAISE EXCEPTION '% sifarişinin statusu % -> % dəyişdirilə bilməz', v_po.po_code, v_po.status, p_status;
+  END IF;
+
+  UPDATE purchase_orders SET status = p_status WHERE id = p_po_id;
+END;
+$$;
+
+ALTER TABLE user_roles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_warehouses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can select their own role"
+  ON user_roles FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid() OR has_role('admin', 'auditor'));
+
+CREATE POLICY "Admins can insert user_roles"
+  ON user_roles FOR INSERT
+  TO authenticated
+  WITH CHECK (has_role('admin'));
+
+CREATE POLICY "Admins can update user_roles"
+  ON user_roles FOR UPDATE
+  TO authenticated
+  USING (has_role('admin'))
+  WITH CHECK (has_role('admin'));
+
+CREATE POLICY "Admins can delete user_roles"
+  ON user_roles FOR DELETE
+  TO authenticated
+  USING (has_role('admin'));
+
+CREATE POLICY "Users can select their own warehouses"
+  ON user_warehouses FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid() OR has_role('admin', 'auditor'));
+
+CREATE POLICY "Admins can insert user_warehouses"
+  ON user_warehouses FOR INSERT
+  TO authenticated
+  WITH CHECK (has_role('admin'));
+
+CREATE POLICY "Admins can delete user_warehouses"
+  ON user_warehouses FOR DELETE
+  TO authenticated
+  USING (has_role('admin'));
+
+-- Replace the public policies
+DROP POLICY IF EXISTS "Allow public select on warehouses" ON warehouses;
+DROP POLICY IF EXISTS "Allow public insert on warehouses" ON warehouses;
+DROP POLICY IF EXISTS "Allow public update on warehouses" ON warehouses;
+DROP POLICY IF EXISTS "Allow public delete on warehouses" ON warehouses;
+
+DROP POLICY IF EXISTS "Allow public select on reagents" ON reagents;
+DROP POLICY IF EXISTS "Allow public insert on reagents" ON reagents;
+DROP POLICY IF EXISTS "Allow public update on reagents" ON reagents;
+DROP POLICY IF EXISTS "Allow public delete on reagents" ON reagents;
+
+DROP POLICY IF EXISTS "Allow public select on consumables" ON consumables;
+DROP POLICY IF EXISTS "Allow public insert on consumables" ON consumables;
+DROP POLICY IF EXISTS "Allow public update on consumables" ON consumables;
+DROP POLICY IF EXISTS "Allow public delete on consumables" ON consumables;
+
+DROP POLICY IF EXISTS "Allow public select on suppliers" ON suppliers;
+DROP POLICY IF EXISTS "Allow public insert on suppliers" ON suppliers;
+DROP POLICY IF EXISTS "Allow public update on suppliers" ON suppliers;
+DROP POLICY IF EXISTS "Allow public delete on suppliers" ON suppliers;
+
+DROP POLICY IF EXISTS "Allow public select on stock_levels" ON stock_levels;
+DROP POLICY IF EXISTS "Allow public insert on stock_levels" ON stock_levels;
+DROP POLICY IF EXISTS "Allow public update on stock_levels" ON stock_levels;
+DROP POLICY IF EXISTS "Allow public delete on stock_levels" ON stock_levels;
+
+DROP POLICY IF EXISTS "Allow public select on invoices" ON invoices;
+DROP POLICY IF EXISTS "Allow public insert on invoices" ON invoices;
+DROP POLICY IF EXISTS "Allow public update on invoices" ON invoices;
+DROP POLICY IF EXISTS "Allow public delete on invoices" ON invoices;
+
+DROP POLICY IF EXISTS "Allow public select on invoice_items" ON invoice_items;
+DROP POLICY IF EXISTS "Allow public insert on invoice_items" ON invoice_items;
+DROP POLICY IF EXISTS "Allow public update on invoice_items" ON invoice_items;
+DROP POLICY IF EXISTS "Allow public delete on invoice_items" ON invoice_items;
+
+DROP POLICY IF EXISTS "Allow public select on invoice_returns" ON invoice_returns;
+DROP POLICY IF EXISTS "Allow public insert on invoice_returns" ON invoice_returns;
+DROP POLICY IF EXISTS "Allow public update on invoice_returns" ON invoice_returns;
+DROP POLICY IF EXISTS "Allow public delete on invoice_returns" ON invoice_returns;
+
+DROP POLICY IF EXISTS "Allow public select on invoice_revisions" ON invoice_revisions;
+DROP POLICY IF EXISTS "Allow public insert on invoice_revisions" ON invoice_revisions;
+
+DROP POLICY IF EXISTS "Allow public select on purchase_orders" ON purchase_orders;
+DROP POLICY IF EXISTS "Allow public insert on purchase_orders" ON purchase_orders;
+DROP POLICY IF EXISTS "Allow public update on purchase_orders" ON purchase_orders;
+DROP POLICY IF EXISTS "Allow public delete on purchase_orders" ON purchase_orders;
+
+DROP POLICY IF EXISTS "Allow public select on purchase_order_items" ON purchase_order_items;
+DROP POLICY IF EXISTS "Allow public insert on purchase_order_items" ON purchase_order_items;
+DROP POLICY IF EXISTS "Allow public update on purchase_order_items" ON purchase_order_items;
+DROP POLICY IF EXISTS "Allow public delete on purchase_order_items" ON purchase_order_items;
+
+DROP POLICY IF EXISTS "Allow public select on transfers" ON transfers;
+DROP POLICY IF EXISTS "Allow public insert on transfers" ON transfers;
+DROP POLICY IF EXISTS "Allow public update on transfers" ON transfers;
+DROP POLICY IF EXISTS "Allow public delete on transfers" ON transfers;
+
+DROP POLICY IF EXISTS "Allow public select on transfer_items" ON transfer_items;
+DROP POLICY IF EXISTS "Allow public insert on transfer_items" ON transfer_items;
+DROP POLICY IF EXISTS "Allow public update on transfer_items" ON transfer_items;
+DROP POLICY IF EXISTS "Allow public delete on transfer_items" ON transfer_items;
+
+DROP POLICY IF EXISTS "Allow public select on transfer_requests" ON transfer_requests;
+DROP POLICY IF EXISTS "Allow public insert on transfer_requests" ON transfer_requests;
+DROP POLICY IF EXISTS "Allow public update on transfer_requests" ON transfer_requests;
+DROP POLICY IF EXISTS "Allow public delete on transfer_requests" ON transfer_requests;
+
+DROP POLICY IF EXISTS "Allow public select on transfer_request_items" ON transfer_request_items;
+DROP POLICY IF EXISTS "Allow public insert on transfer_request_items" ON transfer_request_items;
+DROP POLICY IF EXISTS "Allow public update on transfer_request_items" ON transfer_request_items;
+DROP POLICY IF EXISTS "Allow public delete on transfer_request_items" ON transfer_request_items;
+
+DROP POLICY IF EXISTS "Allow public select on stock_out" ON stock_out;
+DROP POLICY IF EXISTS "Allow public insert on stock_out" ON stock_out;
+DROP POLICY IF EXISTS "Allow public update on stock_out" ON stock_out;
+DROP POLICY IF EXISTS "Allow public delete on stock_out" ON stock_out;
+
+DROP POLICY IF EXISTS "Allow public select on stock_out_items" ON stock_out_items;
+DROP POLICY IF EXISTS "Allow public insert on stock_out_items" ON stock_out_items;
+DROP POLICY IF EXISTS "Allow public update on stock_out_items" ON stock_out_items;
+DROP POLICY IF EXISTS "Allow public delete on stock_out_items" ON stock_out_items;
+
+DROP POLICY IF EXISTS "Allow public select on inventory_count" ON inventory_count;
+DROP POLICY IF EXISTS "Allow public insert on inventory_count" ON inventory_count;
+DROP POLICY IF EXISTS "Allow public update on inventory_count" ON inventory_count;
+DROP POLICY IF EXISTS "Allow public delete on inventory_count" ON inventory_count;
+
+DROP POLICY IF EXISTS "Allow public select on inventory_count_items" ON inventory_count_items;
+DROP POLICY IF EXISTS "Allow public insert on inventory_count_items" ON inventory_count_items;
+DROP POLICY IF EXISTS "Allow public update on inventory_count_items" ON inventory_count_items;
+DROP POLICY IF EXISTS "Allow public delete on inventory_count_items" ON inventory_count_items;
+
+CREATE POLICY "Users with a role can select warehouses"
+  ON warehouses FOR SELECT
+  TO authenticated
+  USING (current_user_role() IS NOT NULL);
+
+CREATE POLICY "Permitted users can insert warehouses"
+  ON warehouses FOR INSERT
+  TO authenticated
+  WITH CHECK (has_role('admin'));
+
+CREATE POLICY "Permitted users can update warehouses"
+  ON warehouses FOR UPDATE
+  TO authenticated
+  USING (has_role('admin'))
+  WITH CHECK (has_role('admin'));
+
+CREATE POLICY "Permitted users can delete warehouses"
+  ON warehouses FOR DELETE
+  TO authenticated
+  USING (has_role('admin'));
+
+CREATE POLICY "Users with a role can select reagents"
+  ON reagents FOR SELECT
+  TO authenticated
+  USING (current_user_role() IS NOT NULL);
+
+CREATE POLICY "Permitted users can insert reagents"
+  ON reagents FOR INSERT
+  TO authenticated
+  WITH CHECK (has_role('admin'));
+
+CREATE POLICY "Permitted users can update reagents"
+  ON reagents FOR UPDATE
+  TO authenticated
+  USING (has_role('admin'))
+  WITH CHECK (has_role('admin'));
+
+CREATE POLICY "Permitted users can delete reagents"
+  ON reagents FOR DELETE
+  TO authenticated
+  USING (has_role('admin'));
+
+CREATE POLICY "Users with a role can select consumables"
+  ON consumables FOR SELECT
+  TO authenticated
+  USING (current_user_role() IS NOT NULL);
+
+CREATE POLICY "Permitted users can insert consumables"
+  ON consumables FOR INSERT
+  TO authenticated
+  WITH CHECK (has_role('admin'));
+
+CREATE POLICY "Permitted users can update consumables"
+  ON consumables FOR UPDATE
+  TO authenticated
+  USING (has_role('admin'))
+  WITH CHECK (has_role('admin'));
+
+CREATE POLICY "Permitted users can delete consumables"
+  ON consumables FOR DELETE
+  TO authenticated
+  USING (has_role('admin'));
+
+CREATE POLICY "Users with a role can select suppliers"
+  ON suppliers FOR SELECT
+  TO authenticated
+  USING (current_user_role() IS NOT NULL);
+
+CREATE POLICY "Permitted users can insert suppliers"
+  ON suppliers FOR INSERT
+  TO authenticated
+  WITH CHECK (has_role('admin'));
+
+CREATE POLICY "Permitted users can update suppliers"
+  ON suppliers FOR UPDATE
+  TO authenticated
+  USING (has_role('admin'))
+  WITH CHECK (has_role('admin'));
+
+CREATE POLICY "Permitted users can delete suppliers"
+  ON suppliers FOR DELETE
+  TO authenticated
+  USING (has_role('admin'));
+
+CREATE POLICY "Users with a role can select stock_levels"
+  ON stock_levels FOR SELECT
+  TO authenticated
+  USING (current_user_role() IS NOT NULL);
+
+CREATE POLICY "Permitted users can insert stock_levels"
+  ON stock_levels FOR INSERT
+  TO authenticated
+  WITH CHECK (has_role('admin'));
+
+CREATE POLICY "Permitted users can update stock_levels"
+  ON stock_levels FOR UPDATE
+  TO authenticated
+  USING (has_role('admin'))
+  WITH CHECK (has_role('admin'));
+
+CREATE POLICY "Permitted users can delete stock_levels"
+  ON stock_levels FOR DELETE
+  TO authenticated
+  USING (has_role('admin'));
+
+CREATE POLICY "Users with a role can select invoices"
+  ON invoices FOR SELECT
+  TO authenticated
+  USING (current_user_role() IS NOT NULL);
+
+CREATE POLICY "Permitted users can insert invoices"
+  ON invoices FOR INSERT
+  TO authenticated
+  WITH CHECK (has_role('admin'));
+
+CREATE POLICY "Permitted users can update invoices"
+  ON invoices FOR UPDATE
+  TO authenticated
+  USING (has_role('admin'))
+  WITH CHECK (has_role('admin'));
+
+CREATE POLICY "Permitted users can delete invoices"
+  ON invoices FOR DELETE
+  TO authenticated
+  USING (has_role('admin'));
+
+CREATE POLICY "Users with a role can select invoice_items"
+  ON invoice_items FOR SELECT
+  TO authenticated
+  USING (current_user_role() IS NOT NULL);
+
+CREATE POLICY "Permitted users can insert invoice_items"
+  ON invoice_items FOR INSERT
+  TO authenticated
+  WITH CHECK (has_role('admin'));
+
+CREATE POLICY "Permitted users can update invoice_items"
+  ON invoice_items FOR UPDATE
+  TO authenticated
+  USING (has_role('admin'))
+  WITH CHECK (has_role('admin'));
+
+CREATE POLICY "Permitted users can delete invoice_items"
+  ON invoice_items FOR DELETE
+  TO authenticated
+  USING (has_role('admin'));
+
+CREATE POLICY "Users with a role can select invoice_returns"
+  ON invoice_returns FOR SELECT
+  TO authenticated
+  USING (current_user_role() IS NOT NULL);
+
+CREATE POLICY "Permitted users can insert invoice_returns"
+  ON invoice_returns FOR INSERT
+  TO authenticated
+  WITH CHECK (has_role('admin'));
+
+CREATE POLICY "Permitted users can update invoice_returns"
+  ON invoice_returns FOR UPDATE
+  TO authenticated
+  USING (has_role('admin'))
+  WITH CHECK (has_role('admin'));
+
+CREATE POLICY "Permitted users can delete invoice_returns"
+  ON invoice_returns FOR DELETE
+  TO authenticated
+  USING (has_role('admin'));
+
+-- Revisions are written only by update_invoice and cancel_invoice, which run as definer
+CREATE POLICY "Users with a role can select invoice_revisions"
+  ON invoice_revisions FOR SELECT
+  TO authenticated
+  USING (current_user_role() IS NOT NULL);
+
+CREATE POLICY "Users with a role can select purchase_orders"
+  ON purchase_orders FOR SELECT
+  TO authenticated
+  USING (current_user_role() IS NOT NULL);
+
+CREATE POLICY "Permitted users can insert purchase_orders"
+  ON purchase_orders FOR INSERT
+  TO authenticated
+  WITH CHECK (can_write_warehouse(warehouse_id));
+
+-- Status changes go through set_purchase_order_status and post_invoice; only drafts can
+-- be deleted
+CREATE POLICY "Permitted users can update purchase_orders"
+  ON purchase_orders FOR UPDATE
+  TO authenticated
+  USING (has_role('admin'))
+  WITH CHECK (has_role('admin'));
+
+CREATE POLICY "Permitted users can delete purchase_orders"
+  ON purchase_orders FOR DELETE
+  TO authenticated
+  USING (can_write_warehouse(warehouse_id) AND status = 'draft');
+
+CREATE POLICY "Users with a role can select purchase_order_items"
+  ON purchase_order_items FOR SELECT
+  TO authenticated
+  USING (current_user_role() IS NOT NULL);
+
+CREATE POLICY "Permitted users can insert purchase_order_items"
+  ON purchase_order_items FOR INSERT
+  TO authenticated
+  WITH CHECK (EXISTS (SELECT 1 FROM purchase_orders po WHERE po.id = purchase_order_items.po_id AND can_write_warehouse(po.warehouse_id)));
+
+CREATE POLICY "Permitted users can update purchase_order_items"
+  ON purchase_order_items FOR UPDATE
+  TO authenticated
+  USING (has_role('admin'))
+  WITH CHECK (has_role('admin'));
+
+CREATE POLICY "Permitted users can delete purchase_order_items"
+  ON purchase_order_items FOR DELETE
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM purchase_orders po WHERE po.id = purchase_order_items.po_id AND can_write_warehouse(po.warehouse_id)));
+
+CREATE POLICY "Users with a role can select transfers"
+  ON transfers FOR SELECT
+  TO authenticated
+  USING (current_user_role() IS NOT NULL);
+
+CREATE POLICY "Permitted users can insert transfers"
+  ON transfers FOR INSERT
+  TO authenticated
+  WITH CHECK (has_role('admin'));
+
+CREATE POLICY "Permitted users can update transfers"
+  ON transfers FOR UPDATE
+  TO authenticated
+  USING (has_role('admin'))
+  WITH CHECK (has_role('admin'));
+
+CREATE POLICY "Permitted users can delete transfers"
+  ON transfers FOR DELETE
+  TO authenticated
+  USING (has_role('admin'));
+
+CREATE POLICY "Users with a role can select transfer_items"
+  ON transfer_items FOR SELECT
+  TO authenticated
+  USING (current_user_role() IS NOT NULL);
+
+CREATE POLICY "Permitted users can insert transfer_items"
+  ON transfer_items FOR INSERT
+  TO authenticated
+  WITH CHECK (has_role('admin'));
+
+CREATE POLICY "Permitted users can update transfer_items"
+  ON transfer_items FOR UPDATE
+  TO authenticated
+  USING (has_role('admin'))
+  WITH CHECK (has_role('admin'));
+
+CREATE POLICY "Permitted users can delete transfer_items"
+  ON transfer_items FOR DELETE
+  TO authenticated
+  USING (has_role('admin'));
+
+CREATE POLICY "Users with a role can select transfer_requests"
+  ON transfer_requests FOR SELECT
+  TO authenticated
+  USING (current_user_role() IS NOT NULL);
+
+CREATE POLICY "Permitted users can insert transfer_requests"
+  ON transfer_requests FOR INSERT
+  TO authenticated
+  WITH CHECK (can_write_warehouse(to_warehouse_id));
+
+CREATE POLICY "Permitted users can update transfer_requests"
+  ON transfer_requests FOR UPDATE
+  TO authenticated
+  USING (can_write_warehouse(from_warehouse_id))
+  WITH CHECK (can_write_warehouse(from_warehouse_id));
+
+CREATE POLICY "Permitted users can delete transfer_requests"
+  ON transfer_requests FOR DELETE
+  TO authenticated
+  USING (can_write_warehouse(to_warehouse_id) AND status = 'pending');
+
+CREATE POLICY "Users with a role can select transfer_request_items"
+  ON transfer_request_items FOR SELECT
+  TO authenticated
+  USING (current_user_role() IS NOT NULL);
+
+CREATE POLICY "Permitted users can insert transfer_request_items"
+  ON transfer_request_items FOR INSERT
+  TO authenticated
+  WITH CHECK (EXISTS (SELECT 1 FROM transfer_requests tr WHERE tr.id = transfer_request_items.request_id AND can_write_warehouse(tr.to_warehouse_id)));
+
+CREATE POLICY "Permitted users can update transfer_request_items"
+  ON transfer_request_items FOR UPDATE
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM transfer_requests tr WHERE tr.id = transfer_request_items.request_id AND can_write_warehouse(tr.from_warehouse_id)))
+  WITH CHECK (EXISTS (SELECT 1 FROM transfer_requests tr WHERE tr.id = transfer_request_items.request_id AND can_write_warehouse(tr.from_warehouse_id)));
+
+CREATE POLICY "Permitted users can delete transfer_request_items"
+  ON transfer_request_items FOR DELETE
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM transfer_requests tr WHERE tr.id = transfer_request_items.request_id AND can_write_warehouse(tr.to_warehouse_id)));
+
+CREATE POLICY "Users with a role can select stock_out"
+  ON stock_out FOR SELECT
+  TO authenticated
+  USING (current_user_role() IS NOT NULL);
+
+CREATE POLICY "Permitted users can insert stock_out"
+  ON stock_out FOR INSERT
+  TO authenticated
+  WITH CHECK (has_role('admin'));
+
+CREATE POLICY "Permitted users can update stock_out"
+  ON stock_out FOR UPDATE
+  TO authenticated
+  USING (has_role('admin'))
+  WITH CHECK (has_role('admin'));
+
+CREATE POLICY "Permitted users can delete stock_out"
+  ON stock_out FOR DELETE
+  TO authenticated
+  USING (has_role('admin'));
+
+CREATE POLICY "Users with a role can select stock_out_items"
+  ON stock_out_items FOR SELECT
+  TO authenticated
+  USING (current_user_role() IS NOT NULL);
+
+CREATE POLICY "Permitted users can insert stock_out_items"
+  ON stock_out_items FOR INSERT
+  TO authenticated
+  WITH CHECK (has_role('admin'));
+
+CREATE POLICY "Permitted users can update stock_out_items"
+  ON stock_out_items FOR UPDATE
+  TO authenticated
+  USING (has_role('admin'))
+  WITH CHECK (has_role('admin'));
+
+CREATE POLICY "Permitted users can delete stock_out_items"
+  ON stock_out_items FOR DELETE
+  TO authenticated
+  USING (has_role('admin'));
+
+CREATE POLICY "Users with a role can select inventory_count"
+  ON inventory_count FOR SELECT
+  TO authenticated
+  USING (current_user_role() IS NOT NULL);
+
+CREATE POLICY "Permitted users can insert inventory_count"
+  ON inventory_count FOR INSERT
+  TO authenticated
+  WITH CHECK (has_role('admin'));
+
+CREATE POLICY "Permitted users can update inventory_count"
+  ON inventory_count FOR UPDATE
+  TO authenticated
+  USING (has_role('admin'))
+  WITH CHECK (has_role('admin'));
+
+CREATE POLICY "Permitted users can delete inventory_count"
+  ON inventory_count FOR DELETE
+  TO authenticated
+  USING (has_role('admin'));
+
+CREATE POLICY "Users with a role can select inventory_count_items"
+  ON inventory_count_items FOR SELECT
+  TO authenticated
+  USING (current_user_role() IS NOT NULL);
+
+CREATE POLICY "Permitted users can insert inventory_count_items"
+  ON inventory_count_items FOR INSERT
+  TO authenticated
+  WITH CHECK (has_role('admin'));
+
+CREATE POLICY "Permitted users can update inventory_count_items"
+  ON inventory_count_items FOR UPDATE
+  TO authenticated
+  USING (has_role('admin'))
+  WITH CHECK (has_role('admin'));
+
+CREATE POLICY "Permitted users can delete inventory_count_items"
+  ON inventory_count_items FOR DELETE
+  TO authenticated
+  USING (has_role('admin'));
+
+-- Postgres lets PUBLIC execute new functions and Supabase grants them to anon and
+-- authenticated as well, so the anon key could call every function and signed-in users
+-- the internal helpers too. Execution is revoked everywhere and granted back by name on
+-- the functions the app calls and the helpers the policies use; later migrations grant
+-- their own functions the same way.
+REVOKE EXECUTE ON ALL FUNCTIONS IN SCHEMA public FROM PUBLIC, anon, authenticated;
+
+ALTER DEFAULT PRIVILEGES REVOKE EXECUTE ON FUNCTIONS FROM PUBLIC;
+ALTER DEFAULT PRIVILEGES IN SCHEMA public REVOKE EXECUTE ON FUNCTIONS FROM anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION current_user_role() TO authenticated;
+GRANT EXECUTE ON FUNCTION has_role(text[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION can_write_warehouse(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION set_user_access(uuid, text, uuid[]) TO authenticated;
+
+GRANT EXECUTE ON FUNCTION get_stock_ledger(uuid, text, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_in_transit_stock() TO authenticated;
+
+GRANT EXECUTE ON FUNCTION post_invoice(text, text, date, uuid, jsonb, uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION post_transfer(uuid, uuid, date, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION post_stock_out(uuid, date, text, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION post_inventory_count(uuid, date, text, text, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION return_invoice(uuid, date) TO authenticated;
+GRANT EXECUTE ON FUNCTION return_invoice_items(uuid, date, jsonb, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION update_invoice(uuid, text, uuid, date, jsonb, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION cancel_invoice(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION reverse_transfer(uuid, date) TO authenticated;
+GRANT EXECUTE ON FUNCTION receive_transfer(uuid, date, jsonb, text) TO authenticated;
+
+GRANT EXECUTE ON FUNCTION create_purchase_order(text, uuid, uuid, date, date, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION set_purchase_order_status(uuid, text) TO authenticated;
+
+GRANT EXECUTE ON FUNCTION create_transfer_request(uuid, uuid, date, date, text, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION approve_transfer_request(uuid, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION reject_transfer_request(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION fulfil_transfer_request(uuid, date, jsonb) TO authenticated;
@@ -0,0 +1,212 @@
+/*
+  # Audit Log
+
+  ## Overview
+  Documents only carried `created_at`, so nobody could tell who created an invoice,
+  transfer, count or return, or who changed it later. Every header table now records its
+  creator, and triggers write every change of the stock documents into an append-only
+  audit log.
+
+  ## Changes
+
+  ### created_by (uuid) on header tables
+  - invoices, invoice_returns, transfers, stock_out, inventory_count, purchase_orders,
+    transfer_requests
+  - Set by a trigger from the signed-in user on insert, so it cannot be supplied by the
+    client; existing rows stay NULL
+
+  ### audit_log
+  - `occurred_at` (timestamptz)
+  - `actor_id` (uuid), `actor_email` (text) - signed-in user, NULL for changes made
+    outside the API (migrations, SQL console)
+  - `action` (text) - insert, update, delete
+  - `table_name` (text), `row_id` (uuid)
+  - `warehouse_ids` (uuid[]) - warehouses the row belongs to; both sides for transfers and
+    transfer requests, the header's warehouse for line tables
+  - `diff` (jsonb) - `{column: {old, new}}`; inserts have only `new`, deletes only `old`,
+    updates only the changed columns
+
+  ## Audited tables
+  - invoices, invoice_items, invoice_returns, transfers, transfer_items, stock_out,
+    stock_out_items, inventory_count, inventory_count_items, purchase_orders,
+    transfer_requests
+
+  ## Security
+  - Rows are written only by the trigger function; there are no insert policies
+  - Updates, deletes and truncates are rejected by triggers, also for the table owner
+  - Admins and auditors can read the log
+*/
+
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS created_by uuid;
+ALTER TABLE invoice_returns ADD COLUMN IF NOT EXISTS created_by uuid;
+ALTER TABLE transfers ADD COLUMN IF NOT EXISTS created_by uuid;
+ALTER TABLE stock_out ADD COLUMN IF NOT EXISTS created_by uuid;
+ALTER TABLE inventory_count ADD COLUMN IF NOT EXISTS created_by uuid;
+ALTER TABLE purchase_orders ADD COLUMN IF NOT EXISTS created_by uuid;
+ALTER TABLE transfer_requests ADD COLUMN IF NOT EXISTS created_by uuid;
+
+CREATE OR REPLACE FUNCTION set_created_by()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.created_by := auth.uid();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_invoices_created_by BEFORE INSERT ON invoices
+  FOR EACH ROW EXECUTE FUNCTION set_created_by();
+CREATE TRIGGER set_invoice_returns_created_by BEFORE INSERT ON invoice_returns
+  FOR EACH ROW EXECUTE FUNCTION set_created_by();
+CREATE TRIGGER set_transfers_created_by BEFORE INSERT ON transfers
+  FOR EACH ROW EXECUTE FUNCTION set_created_by();
+CREATE TRIGGER set_stock_out_created_by BEFORE INSERT ON stock_out
+  FOR EACH ROW EXECUTE FUNCTION set_created_by();
+CREATE TRIGGER set_inventory_count_created_by BEFORE INSERT ON inventory_count
+  FOR EACH ROW EXECUTE FUNCTION set_created_by();
+CREATE TRIGGER set_purchase_orders_created_by BEFORE INSERT ON purchase_orders
+  FOR EACH ROW EXECUTE FUNCTION set_created_by();
+CREATE TRIGGER set_transfer_requests_created_by BEFORE INSERT ON transfer_requests
+  FOR EACH ROW EXECUTE FUNCTION set_created_by();
+
+CREATE TABLE IF NOT EXISTS audit_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  occurred_at timestamptz NOT NULL DEFAULT now(),
+  actor_id uuid,
+  actor_email text,
+  action text NOT NULL CHECK (action IN ('insert', 'update', 'delete')),
+  table_name text NOT NULL,
+  row_id uuid NOT NULL,
+  warehouse_ids uuid[] NOT NULL DEFAULT '{}',
+  diff jsonb NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_occurred_at ON audit_log(occurred_at);
+CREATE INDEX IF NOT EXISTS idx_audit_log_actor_id ON audit_log(actor_id);
+CREATE INDEX IF NOT EXISTS idx_audit_log_table_row ON audit_log(table_name, row_id);
+CREATE INDEX IF NOT EXISTS idx_audit_log_warehouse_ids ON audit_log USING gin(warehouse_ids);
+
+-- Line tables have no warehouse of their own; they take it from their header
+CREATE OR REPLACE FUNCTION audit_warehouse_ids(p_table text, p_row jsonb)
+RETURNS uuid[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(array_remove(
+    CASE p_table
+      WHEN 'transfers' THEN ARRAY[(p_row->>'from_warehouse_id')::uuid, (p_row->>'to_warehouse_id')::uuid]
+      WHEN 'transfer_requests' THEN ARRAY[(p_row->>'from_warehouse_id')::uuid, (p_row->>'to_warehouse_id')::uuid]
+      WHEN 'transfer_items' THEN (
+        SELECT ARRAY[t.from_warehouse_id, t.to_warehouse_id]
+        FROM transfers t WHERE t.id = (p_row->>'transfer_id')::uuid
+      )
+      WHEN 'invoice_items' THEN ARRAY(
+        SELECT i.warehouse_id FROM invoices i WHERE i.id = (p_row->>'invoice_id')::uuid
+      )
+      WHEN 'invoice_returns' THEN ARRAY(
+        SELECT i.warehouse_id FROM invoices i WHERE i.id = (p_row->>'invoice_id')::uuid
+      )
+      WHEN 'stock_out_items' THEN ARRAY(
+        SELECT so.warehouse_id FROM stock_out so WHERE so.id = (p_row->>'stockout_id')::uuid
+      )
+      WHEN 'inventory_count_items' THEN ARRAY(
+        SELECT ic.warehouse_id FROM inventory_count ic WHERE ic.id = (p_row->>'count_id')::uuid
+      )
+      ELSE ARRAY[(p_row->>'warehouse_id')::uuid]
+    END,
+    NULL
+  ), '{}');
+$$;
+
+CREATE OR REPLACE FUNCTION audit_row_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old jsonb := CASE WHEN TG_OP IN ('UPDATE', 'DELETE') THEN to_jsonb(OLD) END;
+  v_new jsonb := CASE WHEN TG_OP IN ('INSERT', 'UPDATE') THEN to_jsonb(NEW) END;
+  v_row jsonb := COALESCE(v_new, v_old);
+  v_diff jsonb;
+BEGIN
+  SELECT jsonb_object_agg(
+    k.key,
+    CASE TG_OP
+      WHEN 'INSERT' THEN jsonb_build_object('new', v_new->k.key)
+      WHEN 'DELETE' THEN jsonb_build_object('old', v_old->k.key)
+      ELSE jsonb_build_object('old', v_old->k.key, 'new', v_new->k.key)
+    END
+  )
+  INTO v_diff
+  FROM jsonb_object_keys(v_row) AS k(key)
+  WHERE TG_OP <> 'UPDATE' OR (v_old->k.key) IS DISTINCT FROM (v_new->k.key);
+
+  -- Updates that did not change anything are not worth an entry
+  IF v_diff IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO audit_log (actor_id, actor_email, action, table_name, row_id, warehouse_ids, diff)
+  VALUES (
+    auth.uid(),
+    auth.jwt() ->> 'email',
+    lower(TG_OP),
+    TG_TABLE_NAME,
+    (v_row->>'id')::uuid,
+    audit_warehouse_ids(TG_TABLE_NAME, v_row),
+    v_diff
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER audit_invoices AFTER INSERT OR UPDATE OR DELETE ON invoices
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+CREATE TRIGGER audit_invoice_items AFTER INSERT OR UPDATE OR DELETE ON invoice_items
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+CREATE TRIGGER audit_invoice_returns AFTER INSERT OR UPDATE OR DELETE ON invoice_returns
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+CREATE TRIGGER audit_transfers AFTER INSERT OR UPDATE OR DELETE ON transfers
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+CREATE TRIGGER audit_transfer_items AFTER INSERT OR UPDATE OR DELETE ON transfer_items
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+CREATE TRIGGER audit_stock_out AFTER INSERT OR UPDATE OR DELETE ON stock_out
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+CREATE TRIGGER audit_stock_out_items AFTER INSERT OR UPDATE OR DELETE ON stock_out_items
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+CREATE TRIGGER audit_inventory_count AFTER INSERT OR UPDATE OR DELETE ON inventory_count
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+CREATE TRIGGER audit_inventory_count_items AFTER INSERT OR UPDATE OR DELETE ON inventory_count_items
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+CREATE TRIGGER audit_purchase_orders AFTER INSERT OR UPDATE OR DELETE ON purchase_orders
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+CREATE TRIGGER audit_transfer_requests AFTER INSERT OR UPDATE OR DELETE ON transfer_requests
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+
+CREATE OR REPLACE FUNCTION prevent_audit_log_change()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'Audit jurnalının qeydləri dəyişdirilə və silinə bilməz';
+END;
+$$;
+
+CREATE TRIGGER audit_log_immutable BEFORE UPDATE OR DELETE ON audit_log
+  FOR EACH ROW EXECUTE FUNCTION prevent_audit_log_change();
+CREATE TRIGGER audit_log_no_truncate BEFORE TRUNCATE ON audit_log
+  FOR EACH STATEMENT EXECUTE FUNCTION prevent_audit_log_change();
+
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins and auditors can select audit_log"
+  ON audit_log FOR SELECT
+  TO authenticated
+  USING (has_role('admin', 'auditor'));
+
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON audit_log FROM anon, authenticated;
@@ -0,0 +1,173 @@
+/*
+  # Stock Movements (Product Card)
+
+  ## Overview
+  get_stock_ledger only returns the current balance of every batch, so there was no way to
+  see how a product reached that balance. get_stock_movements lists every movement of one
+  product in one warehouse in chronological order, with the running quantity and value.
+
+  ## Changes
+
+  ### get_stock_movements(p_warehouse_id, p_product_type, p_product_id)
+  - One row per document line; inflows have a positive `quantity`, outflows a negative one
+  - Uses the same movements as get_stock_ledger, so the last running balance equals the
+    ledger balance:
+    - invoice lines of invoices that are not cancelled ('purchase', 'inventory_surplus')
+    - transfers out of the warehouse on the transfer date ('transfer_out')
+    - received transfers into the warehouse on the receipt date, in the dispatched
+      quantity ('transfer_in'); the shortfall is the separate 'transit_loss' stock out
+    - stock outs by their reason ('consumption', 'expired', 'inventory_loss',
+      'transit_loss', 'invoice_return'); 'transfer' stock outs are left out because the
+      transfer lines already cover them
+  - `document_type` ('invoice', 'transfer', 'stock_out') and `document_id` identify the
+    source document; `document_code` is the invoice code, also for invoice returns
+  - `counterparty` is the supplier for invoices and returns, the other warehouse for
+    transfers and transit losses
+  - `balance_quantity` and `balance_value` are running totals in movement order: date,
+    posting time, then line and movement type, which makes the order unique so pages
+    loaded with range() neither skip nor repeat rows
+*/
+
+CREATE OR REPLACE FUNCTION get_stock_movements(
+  p_warehouse_id uuid,
+  p_product_type text,
+  p_product_id uuid
+)
+RETURNS TABLE (
+  line_id uuid,
+  movement_date date,
+  posted_at timestamptz,
+  movement_type text,
+  document_type text,
+  document_id uuid,
+  document_code text,
+  counterparty text,
+  batch_id uuid,
+  lot_number text,
+  expiry_date date,
+  quantity numeric,
+  unit_price numeric,
+  balance_quantity numeric,
+  balance_value numeric
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH movements AS (
+    SELECT
+      ii.id AS line_id,
+      inv.date AS movement_date,
+      inv.created_at AS posted_at,
+      inv.entry_type AS movement_type,
+      'invoice' AS document_type,
+      inv.id AS document_id,
+      inv.invoice_code AS document_code,
+      COALESCE(inv.supplier, '') AS counterparty,
+      ii.id AS batch_id,
+      ii.lot_number,
+      ii.expiry_date,
+      ii.quantity,
+      ii.unit_price
+    FROM invoice_items ii
+    JOIN invoices inv ON inv.id = ii.invoice_id
+    WHERE inv.status <> 'cancelled'
+      AND inv.warehouse_id = p_warehouse_id
+      AND ii.product_type = p_product_type
+      AND ii.product_id = p_product_id
+
+    UNION ALL
+
+    SELECT
+      ti.id,
+      t.received_date,
+      t.created_at,
+      'transfer_in',
+      'transfer',
+      t.id,
+      NULL,
+      w.name,
+      ti.batch_id,
+      ti.lot_number,
+      ti.expiry_date,
+      ti.quantity,
+      ti.unit_price
+    FROM transfer_items ti
+    JOIN transfers t ON t.id = ti.transfer_id
+    JOIN warehouses w ON w.id = t.from_warehouse_id
+    WHERE t.status = 'received'
+      AND t.to_warehouse_id = p_warehouse_id
+      AND ti.product_type = p_product_type
+      AND ti.product_id = p_product_id
+
+    UNION ALL
+
+    SELECT
+      ti.id,
+      t.date,
+      t.created_at,
+      'transfer_out',
+      'transfer',
+      t.id,
+      NULL,
+      w.name,
+      ti.batch_id,
+      ti.lot_number,
+      ti.expiry_date,
+      -ti.quantity,
+      ti.unit_price
+    FROM transfer_items ti
+    JOIN transfers t ON t.id = ti.transfer_id
+    JOIN warehouses w ON w.id = t.to_warehouse_id
+    WHERE t.from_warehouse_id = p_warehouse_id
+      AND ti.product_type = p_product_type
+      AND ti.product_id = p_product_id
+
+    UNION ALL
+
+    SELECT
+      soi.id,
+      so.date,
+      so.created_at,
+      so.reason,
+      'stock_out',
+      so.id,
+      inv.invoice_code,
+      COALESCE(inv.supplier, w.name, ''),
+      soi.batch_id,
+      soi.lot_number,
+      soi.expiry_date,
+      -soi.quantity,
+      soi.unit_price
+    FROM stock_out_items soi
+    JOIN stock_out so ON so.id = soi.stockout_id
+    LEFT JOIN invoice_returns ir ON ir.stock_out_id = so.id
+    LEFT JOIN invoices inv ON inv.id = ir.invoice_id
+    LEFT JOIN transfers t ON t.id = so.transfer_id
+    LEFT JOIN warehouses w ON w.id = t.from_warehouse_id
+    WHERE so.reason <> 'transfer'
+      AND so.warehouse_id = p_warehouse_id
+      AND soi.product_type = p_product_type
+      AND soi.product_id = p_product_id
+  )
+  SELECT
+    m.line_id,
+    m.movement_date,
+    m.posted_at,
+    m.movement_type,
+    m.document_type,
+    m.document_id,
+    m.document_code,
+    m.counterparty,
+    m.batch_id,
+    m.lot_number,
+    m.expiry_date,
+    m.quantity,
+    m.unit_price,
+    SUM(m.quantity) OVER running AS balance_quantity,
+    SUM(m.quantity * m.unit_price) OVER running AS balance_value
+  FROM movements m
+  WINDOW running AS (ORDER BY m.movement_date, m.posted_at, m.line_id, m.movement_type ROWS UNBOUNDED PRECEDING)
+  ORDER BY m.movement_date, m.posted_at, m.line_id, m.movement_type;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_stock_movements(uuid, text, uuid) TO authenticated;
@@ -0,0 +1,173 @@
+/*
+  # Stock As Of a Date
+
+  ## Overview
+  The stock ledger only answered "how much is there now". Auditors need the stock and its
+  value on a past date, e.g. 31 December. Both stock functions take an optional as-of date
+  and then ignore every movement dated after it.
+
+  ## Changes
+
+  ### get_stock_ledger(p_warehouse_id, p_product_type, p_product_id, p_as_of)
+  - `p_as_of` (date, default NULL) - NULL keeps the current balance
+  - Counts invoices, transfers out and stock outs dated on or before `p_as_of`, and
+    transfers in received on or before it
+  - Invoice corrections and cancellations fix entry errors, so they also apply to past
+    dates: cancelled invoices never count and corrected lines count as corrected
+
+  ### get_in_transit_stock(p_as_of)
+  - With `p_as_of`, returns transfers dispatched on or before that date and not received
+    by then, including transfers received since
+
+  ## Notes
+  - Both functions are recreated because their signatures change; existing calls without
+    the new argument keep working through the default
+*/
+
+DROP FUNCTION IF EXISTS get_stock_ledger(uuid, text, uuid);
+
+CREATE FUNCTION get_stock_ledger(
+  p_warehouse_id uuid DEFAULT NULL,
+  p_product_type text DEFAULT NULL,
+  p_product_id uuid DEFAULT NULL,
+  p_as_of date DEFAULT NULL
+)
+RETURNS TABLE (
+  warehouse_id uuid,
+  product_type text,
+  product_id uuid,
+  batch_id uuid,
+  batch_date date,
+  lot_number text,
+  expiry_date date,
+  unit_price numeric,
+  quantity numeric,
+  supplier text
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH movements AS (
+    SELECT
+      inv.warehouse_id,
+      ii.id AS batch_id,
+      ii.quantity
+    FROM invoice_items ii
+    JOIN invoices inv ON inv.id = ii.invoice_id
+    WHERE inv.status <> 'cancelled'
+      AND (p_as_of IS NULL OR inv.date <= p_as_of)
+      AND (p_warehouse_id IS NULL OR inv.warehouse_id = p_warehouse_id)
+      AND (p_product_type IS NULL OR ii.product_type = p_product_type)
+      AND (p_product_id IS NULL OR ii.product_id = p_product_id)
+
+    UNION ALL
+
+    SELECT
+      t.to_warehouse_id,
+      ti.batch_id,
+      ti.quantity
+    FROM transfer_items ti
+    JOIN transfers t ON t.id = ti.transfer_id
+    WHERE t.status = 'received'
+      AND (p_as_of IS NULL OR t.received_date <= p_as_of)
+      AND (p_warehouse_id IS NULL OR t.to_warehouse_id = p_warehouse_id)
+      AND (p_product_type IS NULL OR ti.product_type = p_product_type)
+      AND (p_product_id IS NULL OR ti.product_id = p_product_id)
+
+    UNION ALL
+
+    SELECT
+      t.from_warehouse_id,
+      ti.batch_id,
+      -ti.quantity
+    FROM transfer_items ti
+    JOIN transfers t ON t.id = ti.transfer_id
+    WHERE (p_as_of IS NULL OR t.date <= p_as_of)
+      AND (p_warehouse_id IS NULL OR t.from_warehouse_id = p_warehouse_id)
+      AND (p_product_type IS NULL OR ti.product_type = p_product_type)
+      AND (p_product_id IS NULL OR ti.product_id = p_product_id)
+
+    UNION ALL
+
+    SELECT
+      so.warehouse_id,
+      soi.batch_id,
+      -soi.quantity
+    FROM stock_out_items soi
+    JOIN stock_out so ON so.id = soi.stockout_id
+    WHERE so.reason <> 'transfer'
+      AND (p_as_of IS NULL OR so.date <= p_as_of)
+      AND (p_warehouse_id IS NULL OR so.warehouse_id = p_warehouse_id)
+      AND (p_product_type IS NULL OR soi.product_type = p_product_type)
+      AND (p_product_id IS NULL OR soi.product_id = p_product_id)
+  ),
+  balances AS (
+    SELECT
+      m.warehouse_id,
+      m.batch_id,
+      SUM(m.quantity) AS quantity
+    FROM movements m
+    GROUP BY m.warehouse_id, m.batch_id
+  )
+  SELECT
+    b.warehouse_id,
+    ii.product_type,
+    ii.product_id,
+    b.batch_id,
+    ii.batch_date,
+    ii.lot_number,
+    ii.expiry_date,
+    ii.unit_price,
+    b.quantity,
+    COALESCE(inv.supplier, '') AS supplier
+  FROM balances b
+  JOIN invoice_items ii ON ii.id = b.batch_id
+  JOIN invoices inv ON inv.id = ii.invoice_id
+  WHERE b.quantity <> 0
+  ORDER BY b.warehouse_id, ii.product_type, ii.product_id, ii.batch_date DESC, ii.unit_price, ii.created_at, ii.id;
+$$;
+
+DROP FUNCTION IF EXISTS get_in_transit_stock();
+
+CREATE FUNCTION get_in_transit_stock(p_as_of date DEFAULT NULL)
+RETURNS TABLE (
+  warehouse_id uuid,
+  product_type text,
+  product_id uuid,
+  batch_id uuid,
+  batch_date date,
+  lot_number text,
+  expiry_date date,
+  unit_price numeric,
+  quantity numeric,
+  supplier text
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    t.to_warehouse_id,
+    ii.product_type,
+    ii.product_id,
+    ti.batch_id,
+    ii.batch_date,
+    ii.lot_number,
+    ii.expiry_date,
+    ii.unit_price,
+    SUM(ti.quantity) AS quantity,
+    COALESCE(inv.supplier, '') AS supplier
+  FROM transfer_items ti
+  JOIN transfers t ON t.id = ti.transfer_id
+  JOIN invoice_items ii ON ii.id = ti.batch_id
+  JOIN invoices inv ON inv.id = ii.invoice_id
+  WHERE CASE
+    WHEN p_as_of IS NULL THEN t.status = 'in_transit'
+    ELSE t.date <= p_as_of AND (t.status = 'in_transit' OR t.received_date > p_as_of)
+  END
+  GROUP BY t.to_warehouse_id, ii.product_type, ii.product_id, ti.batch_id, ii.batch_date,
+    ii.lot_number, ii.expiry_date, ii.unit_price, inv.supplier, ii.created_at
+  ORDER BY t.to_warehouse_id, ii.product_type, ii.product_id, ii.batch_date DESC, ii.unit_price, ii.created_at, ii.id;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_stock_ledger(uuid, text, uuid, date) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_in_transit_stock(date) TO authenticated;
@@ -0,0 +1,249 @@
+/*
+  # Accounting Periods
+
+  ## Overview
+  Nothing stopped anyone from entering an invoice or a transfer dated months back after the
+  books were closed. Months can now be closed by an administrator; the database rejects
+  every document change dated in a closed month.
+
+  ## Tables Created
+
+  ### accounting_periods
+  - `period_start` (date, unique) - first day of the month
+  - `status` (text) - 'open' or 'closed'; months without a row are open
+  - `closed_at` (timestamptz), `closed_by` (uuid), `closed_by_email` (text) - the last
+    closing, cleared when the month is reopened
+
+  ## Functions
+
+  ### close_accounting_period(p_period_start) / reopen_accounting_period(p_period_start)
+  - Admin only; any day of the month identifies the month
+  - A month can only be closed once it has ended
+
+  ### assert_period_open(p_date)
+  - Raises an error when the month of p_date is closed
+
+  ## Enforcement
+  Triggers reject inserts, updates and deletes dated in a closed month:
+  - invoices: the invoice date; updates only when anything besides the status changes or
+    the invoice is cancelled, so a return posted today may still mark an old invoice as
+    returned
+  - invoice_items: the date of their invoice, so closed invoices cannot be corrected
+  - invoice_returns, stock_out, inventory_count: their date
+  - stock_out_items, inventory_count_items: the date of their stock out or count
+  - transfers: the transfer date and the receipt date, each checked when it is set or
+    changed, so a transfer dispatched in a closed month can still be received later
+  - transfer_items: the transfer date and the receipt date of their transfer; receiving
+    only sets received_quantity and is checked against the receipt date alone
+
+  ## Security
+  - Every user with a role can read the periods; only admins can change them
+  - Changes of periods are written to the audit log
+*/
+
+CREATE TABLE IF NOT EXISTS accounting_periods (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  period_start date NOT NULL UNIQUE
+    CHECK (period_start = date_trunc('month', period_start)::date),
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+  closed_at timestamptz,
+  closed_by uuid,
+  closed_by_email text,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE accounting_periods ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users with a role can select accounting_periods"
+  ON accounting_periods FOR SELECT
+  TO authenticated
+  USING (current_user_role() IS NOT NULL);
+
+CREATE POLICY "Admins can insert accounting_periods"
+  ON accounting_periods FOR INSERT
+  TO authenticated
+  WITH CHECK (has_role('admin'));
+
+CREATE POLICY "Admins can update accounting_periods"
+  ON accounting_periods FOR UPDATE
+  TO authenticated
+  USING (has_role('admin'))
+  WITH CHECK (has_role('admin'));
+
+CREATE TRIGGER audit_accounting_periods AFTER INSERT OR UPDATE OR DELETE ON accounting_periods
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+
+CREATE OR REPLACE FUNCTION close_accounting_period(p_period_start date)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_period_start date := date_trunc('month', p_period_start)::date;
+BEGIN
+  IF NOT has_role('admin') THEN
+    RAISE EXCEPTION 'Dövrü yalnız administrator bağlaya bilər';
+  END IF;
+
+  IF (v_period_start + interval '1 month')::date > current_date THEN
+    RAISE EXCEPTION '% dövrü hələ bitməyib', to_char(v_period_start, 'MM.YYYY');
+  END IF;
+
+  INSERT INTO accounting_periods (period_start, status, closed_at, closed_by, closed_by_email)
+  VALUES (v_period_start, 'closed', now(), auth.uid(), auth.jwt() ->> 'email')
+  ON CONFLICT (period_start) DO UPDATE
+    SET status = 'closed',
+        closed_at = EXCLUDED.closed_at,
+        closed_by = EXCLUDED.closed_by,
+        closed_by_email = EXCLUDED.closed_by_email;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reopen_accounting_period(p_period_start date)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NOT has_role('admin') THEN
+    RAISE EXCEPTION 'Dövrü yalnız administrator aça bilər';
+  END IF;
+
+  UPDATE accounting_periods
+  SET status = 'open',
+      closed_at = NULL,
+      closed_by = NULL,
+      closed_by_email = NULL
+  WHERE period_start = date_trunc('month', p_period_start)::date
+    AND status = 'closed';
+END;
+$$;
+
+-- Reads the periods regardless of the caller's policies, as it guards every document write
+CREATE OR REPLACE FUNCTION assert_period_open(p_date date)
+RETURNS void
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_date IS NOT NULL AND EXISTS (
+    SELECT 1 FROM accounting_periods
+    WHERE period_start = date_trunc('month', p_date)::date
+      AND status = 'closed'
+  ) THEN
+    RAISE EXCEPTION '% dövrü bağlanıb, % tarixli sənəd daxil edilə, dəyişdirilə və ya silinə bilməz',
+      to_char(p_date, 'MM.YYYY'), to_char(p_date, 'DD.MM.YYYY');
+  END IF;
+END;
+$$;
+
+-- Definer, as direct writes by admins run it as the caller and assert_period_open is
+-- not granted to users
+CREATE OR REPLACE FUNCTION check_document_period()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_parent_column text;
+  v_parent_id uuid;
+  v_transfer transfers%ROWTYPE;
+BEGIN
+  -- Lines are dated by their header; an update may move a line to another header
+  IF TG_TABLE_NAME IN ('invoice_items', 'transfer_items', 'stock_out_items', 'inventory_count_items') THEN
+    v_parent_column := CASE TG_TABLE_NAME
+      WHEN 'invoice_items' THEN 'invoice_id'
+      WHEN 'transfer_items' THEN 'transfer_id'
+      WHEN 'stock_out_items' THEN 'stockout_id'
+      ELSE 'count_id'
+    END;
+
+    FOR v_parent_id IN
+      SELECT DISTINCT id FROM unnest(ARRAY[
+        CASE WHEN TG_OP <> 'DELETE' THEN (to_jsonb(NEW) ->> v_parent_column)::uuid END,
+        CASE WHEN TG_OP <> 'INSERT' THEN (to_jsonb(OLD) ->> v_parent_column)::uuid END
+      ]) AS ids(id)
+      WHERE id IS NOT NULL
+    LOOP
+      IF TG_TABLE_NAME = 'transfer_items' THEN
+        SELECT * INTO v_transfer FROM transfers WHERE id = v_parent_id;
+
+        -- Receiving only fills received_quantity; the receipt date itself is checked when
+        -- the transfer gets it
+        IF TG_OP = 'UPDATE'
+          AND (to_jsonb(NEW) - 'received_quantity') IS NOT DISTINCT FROM (to_jsonb(OLD) - 'received_quantity') THEN
+          PERFORM assert_period_open(v_transfer.received_date);
+        ELSE
+          PERFORM assert_period_open(v_transfer.date);
+          PERFORM assert_period_open(v_transfer.received_date);
+        END IF;
+      ELSE
+        PERFORM assert_period_open(CASE TG_TABLE_NAME
+          WHEN 'invoice_items' THEN (SELECT date FROM invoices WHERE id = v_parent_id)
+          WHEN 'stock_out_items' THEN (SELECT date FROM stock_out WHERE id = v_parent_id)
+          ELSE (SELECT date FROM inventory_count WHERE id = v_parent_id)
+        END);
+      END IF;
+    END LOOP;
+
+  ELSIF TG_TABLE_NAME = 'transfers' THEN
+    IF TG_OP = 'INSERT' THEN
+      PERFORM assert_period_open(NEW.date);
+      PERFORM assert_period_open(NEW.received_date);
+    ELSIF TG_OP = 'DELETE' THEN
+      PERFORM assert_period_open(OLD.date);
+      PERFORM assert_period_open(OLD.received_date);
+    ELSE
+      IF NEW.date IS DISTINCT FROM OLD.date THEN
+        PERFORM assert_period_open(OLD.date);
+        PERFORM assert_period_open(NEW.date);
+      END IF;
+      IF NEW.received_date IS DISTINCT FROM OLD.received_date THEN
+        PERFORM assert_period_open(OLD.received_date);
+        PERFORM assert_period_open(NEW.received_date);
+      END IF;
+    END IF;
+
+  ELSIF TG_TABLE_NAME = 'invoices' AND TG_OP = 'UPDATE' THEN
+    IF (to_jsonb(NEW) - 'status') IS DISTINCT FROM (to_jsonb(OLD) - 'status')
+      OR (NEW.status = 'cancelled' AND OLD.status <> 'cancelled') THEN
+      PERFORM assert_period_open(OLD.date);
+      PERFORM assert_period_open(NEW.date);
+    END IF;
+
+  -- invoices (insert, delete), invoice_returns, stock_out, inventory_count
+  ELSE
+    IF TG_OP <> 'INSERT' THEN
+      PERFORM assert_period_open(OLD.date);
+    END IF;
+    IF TG_OP <> 'DELETE' THEN
+      PERFORM assert_period_open(NEW.date);
+    END IF;
+  END IF;
+
+  RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$$;
+
+CREATE TRIGGER check_invoices_period BEFORE INSERT OR UPDATE OR DELETE ON invoices
+  FOR EACH ROW EXECUTE FUNCTION check_document_period();
+CREATE TRIGGER check_invoice_items_period BEFORE INSERT OR UPDATE OR DELETE ON invoice_items
+  FOR EACH ROW EXECUTE FUNCTION check_document_period();
+CREATE TRIGGER check_invoice_returns_period BEFORE INSERT OR UPDATE OR DELETE ON invoice_returns
+  FOR EACH ROW EXECUTE FUNCTION check_document_period();
+CREATE TRIGGER check_transfers_period BEFORE INSERT OR UPDATE OR DELETE ON transfers
+  FOR EACH ROW EXECUTE FUNCTION check_document_period();
+CREATE TRIGGER check_stock_out_period BEFORE INSERT OR UPDATE OR DELETE ON stock_out
+  FOR EACH ROW EXECUTE FUNCTION check_document_period();
+CREATE TRIGGER check_inventory_count_period BEFORE INSERT OR UPDATE OR DELETE ON inventory_count
+  FOR EACH ROW EXECUTE FUNCTION check_document_period();
+CREATE TRIGGER check_transfer_items_period BEFORE INSERT OR UPDATE OR DELETE ON transfer_items
+  FOR EACH ROW EXECUTE FUNCTION check_document_period();
+CREATE TRIGGER check_stock_out_items_period BEFORE INSERT OR UPDATE OR DELETE ON stock_out_items
+  FOR EACH ROW EXECUTE FUNCTION check_document_period();
+CREATE TRIGGER check_inventory_count_items_period BEFORE INSERT OR UPDATE OR DELETE ON inventory_count_items
+  FOR EACH ROW EXECUTE FUNCTION check_document_period();
+
+GRANT EXECUTE ON FUNCTION close_accounting_period(date) TO authenticated;
+GRANT EXECUTE ON FUNCTION reopen_accounting_period(date) TO authenticated;
@@ -0,0 +1,194 @@
+/*
+  # Inventory Valuation
+
+  ## Overview
+  Stock is valued at the price of the batch that actually moved, while finance needs the
+  cost of goods consumed and the closing inventory value under one consistent method.
+  get_stock_movements now returns the movements of every product and warehouse up to a
+  date, and the client values them under FIFO or weighted average cost (see
+  src/lib/valuation.ts).
+
+  ## Changes
+
+  ### get_stock_movements(p_warehouse_id, p_product_type, p_product_id, p_as_of)
+  - All filters are optional (default NULL), like get_stock_ledger
+  - `p_as_of` (date) - only movements dated on or before it
+  - Returns `warehouse_id`, `product_type` and `product_id` with every row
+  - Running balances are kept per warehouse and product
+  - Both lines of a transfer share the transfer line id as `line_id`; the outgoing line
+    sorts first, so a valuation can cost the incoming line at the outgoing cost
+*/
+
+-- The signature and the return type change, so the function has to be recreated
+DROP FUNCTION IF EXISTS get_stock_movements(uuid, text, uuid);
+
+CREATE FUNCTION get_stock_movements(
+  p_warehouse_id uuid DEFAULT NULL,
+  p_product_type text DEFAULT NULL,
+  p_product_id uuid DEFAULT NULL,
+  p_as_of date DEFAULT NULL
+)
+RETURNS TABLE (
+  line_id uuid,
+  warehouse_id uuid,
+  product_type text,
+  product_id uuid,
+  movement_date date,
+  posted_at timestamptz,
+  movement_type text,
+  document_type text,
+  document_id uuid,
+  document_code text,
+  counterparty text,
+  batch_id uuid,
+  lot_number text,
+  expiry_date date,
+  quantity numeric,
+  unit_price numeric,
+  balance_quantity numeric,
+  balance_value numeric
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH movements AS (
+    SELECT
+      ii.id AS line_id,
+      inv.warehouse_id,
+      ii.product_type,
+      ii.product_id,
+      inv.date AS movement_date,
+      inv.created_at AS posted_at,
+      inv.entry_type AS movement_type,
+      'invoice' AS document_type,
+      inv.id AS document_id,
+      inv.invoice_code AS document_code,
+      COALESCE(inv.supplier, '') AS counterparty,
+      ii.id AS batch_id,
+      ii.lot_number,
+      ii.expiry_date,
+      ii.quantity,
+      ii.unit_price
+    FROM invoice_items ii
+    JOIN invoices inv ON inv.id = ii.invoice_id
+    WHERE inv.status <> 'cancelled'
+      AND (p_as_of IS NULL OR inv.date <= p_as_of)
+      AND (p_warehouse_id IS NULL OR inv.warehouse_id = p_warehouse_id)
+      AND (p_product_type IS NULL OR ii.product_type = p_product_type)
+      AND (p_product_id IS NULL OR ii.product_id = p_product_id)
+
+    UNION ALL
+
+    SELECT
+      ti.id,
+      t.to_warehouse_id,
+      ti.product_type,
+      ti.product_id,
+      t.received_date,
+      t.created_at,
+      'transfer_in',
+      'transfer',
+      t.id,
+      NULL,
+      w.name,
+      ti.batch_id,
+      ti.lot_number,
+      ti.expiry_date,
+      ti.quantity,
+      ti.unit_price
+    FROM transfer_items ti
+    JOIN transfers t ON t.id = ti.transfer_id
+    JOIN warehouses w ON w.id = t.from_warehouse_id
+    WHERE t.status = 'received'
+      AND (p_as_of IS NULL OR t.received_date <= p_as_of)
+      AND (p_warehouse_id IS NULL OR t.to_warehouse_id = p_warehouse_id)
+      AND (p_product_type IS NULL OR ti.product_type = p_product_type)
+      AND (p_product_id IS NULL OR ti.product_id = p_product_id)
+
+    UNION ALL
+
+    SELECT
+      ti.id,
+      t.from_warehouse_id,
+      ti.product_type,
+      ti.product_id,
+      t.date,
+      t.created_at,
+      'transfer_out',
+      'transfer',
+      t.id,
+      NULL,
+      w.name,
+      ti.batch_id,
+      ti.lot_number,
+      ti.expiry_date,
+      -ti.quantity,
+      ti.unit_price
+    FROM transfer_items ti
+    JOIN transfers t ON t.id = ti.transfer_id
+    JOIN warehouses w ON w.id = t.to_warehouse_id
+    WHERE (p_as_of IS NULL OR t.date <= p_as_of)
+      AND (p_warehouse_id IS NULL OR t.from_warehouse_id = p_warehouse_id)
+      AND (p_product_type IS NULL OR ti.product_type = p_product_type)
+      AND (p_product_id IS NULL OR ti.product_id = p_product_id)
+
+    UNION ALL
+
+    SELECT
+      soi.id,
+      so.warehouse_id,
+      soi.product_type,
+      soi.product_id,
+      so.date,
+      so.created_at,
+      so.reason,
+      'stock_out',
+      so.id,
+      inv.invoice_code,
+      COALESCE(inv.supplier, w.name, ''),
+      soi.batch_id,
+      soi.lot_number,
+      soi.expiry_date,
+      -soi.quantity,
+      soi.unit_price
+    FROM stock_out_items soi
+    JOIN stock_out so ON so.id = soi.stockout_id
+    LEFT JOIN invoice_returns ir ON ir.stock_out_id = so.id
+    LEFT JOIN invoices inv ON inv.id = ir.invoice_id
+    LEFT JOIN transfers t ON t.id = so.transfer_id
+    LEFT JOIN warehouses w ON w.id = t.from_warehouse_id
+    WHERE so.reason <> 'transfer'
+      AND (p_as_of IS NULL OR so.date <= p_as_of)
+      AND (p_warehouse_id IS NULL OR so.warehouse_id = p_warehouse_id)
+      AND (p_product_type IS NULL OR soi.product_type = p_product_type)
+      AND (p_product_id IS NULL OR soi.product_id = p_product_id)
+  )
+  SELECT
+    m.line_id,
+    m.warehouse_id,
+    m.product_type,
+    m.product_id,
+    m.movement_date,
+    m.posted_at,
+    m.movement_type,
+    m.document_type,
+    m.document_id,
+    m.document_code,
+    m.counterparty,
+    m.batch_id,
+    m.lot_number,
+    m.expiry_date,
+    m.quantity,
+    m.unit_price,
+    SUM(m.quantity) OVER running AS balance_quantity,
+    SUM(m.quantity * m.unit_price) OVER running AS balance_value
+  FROM movements m
+  WINDOW running AS (
+    PARTITION BY m.warehouse_id, m.product_type, m.product_id
+    ORDER BY m.movement_date, m.posted_at, m.line_id, m.movement_type
+    ROWS UNBOUNDED PRECEDING
+  )
+  ORDER BY m.movement_date, m.posted_at, m.line_id, m.movement_type;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_stock_movements(uuid, text, uuid, date) TO authenticated;
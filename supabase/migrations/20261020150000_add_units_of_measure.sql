@@ -0,0 +1,325 @@
+/*
+  # Units of Measure
+
+  ## Overview
+  Quantities were bare numbers with no unit. Reagents are bought in boxes of 10 kits but
+  consumed per kit, and test tubes come in packs of 500. Every product now has a base unit,
+  in which all stock is stored, plus an optional purchase unit and issue unit, each with the
+  number of base units it holds.
+
+  ## Changes
+
+  ### reagents, consumables
+  - `base_unit` (text, default 'ədəd') - unit of every stored quantity and price
+  - `purchase_unit` (text) - unit invoices are usually entered in; NULL means the base unit
+  - `purchase_factor` (numeric, default 1) - base units in one purchase unit
+  - `issue_unit` (text) - unit consumption is usually entered in; NULL means the base unit
+  - `issue_factor` (numeric, default 1) - base units in one issue unit
+
+  ### post_invoice, update_invoice
+  - Items may carry `total_price`, the line total as entered; without it the total is
+    quantity x unit_price as before. A price entered per box of 12 is rounded when it is
+    divided into a base-unit price, so the entered total is kept instead of recomputed
+
+  ## Notes
+  - Document quantities and prices stay in the base unit. The forms convert quantities
+    entered in a purchase or issue unit before posting, so the ledger, transfers, counts
+    and reports need no change
+  - Existing products get 'ədəd' as base unit and no other units, so existing quantities
+    keep their meaning
+*/
+
+ALTER TABLE reagents
+  ADD COLUMN IF NOT EXISTS base_unit text NOT NULL DEFAULT 'ədəd',
+  ADD COLUMN IF NOT EXISTS purchase_unit text,
+  ADD COLUMN IF NOT EXISTS purchase_factor numeric NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS issue_unit text,
+  ADD COLUMN IF NOT EXISTS issue_factor numeric NOT NULL DEFAULT 1;
+
+ALTER TABLE reagents
+  ADD CONSTRAINT reagents_base_unit_check CHECK (btrim(base_unit) <> ''),
+  ADD CONSTRAINT reagents_purchase_factor_check
+    CHECK (purchase_factor > 0 AND (purchase_unit IS NOT NULL OR purchase_factor = 1)),
+  ADD CONSTRAINT reagents_issue_factor_check
+    CHECK (issue_factor > 0 AND (issue_unit IS NOT NULL OR issue_factor = 1));
+
+ALTER TABLE consumables
+  ADD COLUMN IF NOT EXISTS base_unit text NOT NULL DEFAULT 'ədəd',
+  ADD COLUMN IF NOT EXISTS purchase_unit text,
+  ADD COLUMN IF NOT EXISTS purchase_factor numeric NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS issue_unit text,
+  ADD COLUMN IF NOT EXISTS issue_factor numeric NOT NULL DEFAULT 1;
+
+ALTER TABLE consumables
+  ADD CONSTRAINT consumables_base_unit_check CHECK (btrim(base_unit) <> ''),
+  ADD CONSTRAINT consumables_purchase_factor_check
+    CHECK (purchase_factor > 0 AND (purchase_unit IS NOT NULL OR purchase_factor = 1)),
+  ADD CONSTRAINT consumables_issue_factor_check
+    CHECK (issue_factor > 0 AND (issue_unit IS NOT NULL OR issue_factor = 1));
+
+-- Redefined to take the line total; both keep running as definer with their warehouse checks
+CREATE OR REPLACE FUNCTION post_invoice(
+  p_invoice_code text,
+  p_supplier text,
+  p_date date,
+  p_warehouse_id uuid,
+  p_items jsonb,
+  p_purchase_order_id uuid DEFAULT NULL,
+  p_supplier_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invoice_id uuid;
+  v_supplier text := p_supplier;
+  v_po purchase_orders%ROWTYPE;
+BEGIN
+  IF NOT can_write_warehouse(p_warehouse_id) THEN
+    RAISE EXCEPTION 'Bu anbara qaimə daxil etmək icazəniz yoxdur';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Qaimədə ən azı bir məhsul olmalıdır';
+  END IF;
+
+  IF p_supplier_id IS NOT NULL THEN
+    SELECT name INTO v_supplier FROM suppliers WHERE id = p_supplier_id;
+
+    IF v_supplier IS NULL THEN
+      RAISE EXCEPTION 'Təchizatçı tapılmadı';
+    END IF;
+  END IF;
+
+  IF p_purchase_order_id IS NOT NULL THEN
+    SELECT * INTO v_po FROM purchase_orders WHERE id = p_purchase_order_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Sifariş tapılmadı';
+    END IF;
+
+    IF v_po.status NOT IN ('sent', 'partially_received') THEN
+      RAISE EXCEPTION '% sifarişi qəbul üçün açıq deyil', v_po.po_code;
+    END IF;
+
+    IF v_po.warehouse_id <> p_warehouse_id THEN
+      RAISE EXCEPTION '% sifarişi başqa anbar üçündür', v_po.po_code;
+    END IF;
+
+    IF EXISTS (
+      SELECT 1
+      FROM jsonb_to_recordset(p_items) AS x(product_type text, product_id uuid, po_item_id uuid)
+      LEFT JOIN purchase_order_items poi ON poi.id = x.po_item_id
+      WHERE x.po_item_id IS NOT NULL
+        AND (poi.id IS NULL
+          OR poi.po_id <> p_purchase_order_id
+          OR poi.product_type <> x.product_type
+          OR poi.product_id <> x.product_id)
+    ) THEN
+      RAISE EXCEPTION 'Qaimə sətirləri % sifarişinin sətirlərinə uyğun deyil', v_po.po_code;
+    END IF;
+  ELSIF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(p_items) AS x(po_item_id uuid) WHERE x.po_item_id IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Sifariş sətri göstərilib, amma sifariş seçilməyib';
+  END IF;
+
+  INSERT INTO invoices (invoice_code, supplier, supplier_id, date, warehouse_id, status, purchase_order_id)
+  VALUES (p_invoice_code, v_supplier, p_supplier_id, p_date, p_warehouse_id, 'active', p_purchase_order_id)
+  RETURNING id INTO v_invoice_id;
+
+  INSERT INTO invoice_items (invoice_id, product_type, product_id, quantity, unit_price, total_price, batch_date, lot_number, expiry_date, po_item_id)
+  SELECT
+    v_invoice_id,
+    x.product_type,
+    x.product_id,
+    x.quantity,
+    x.unit_price,
+    COALESCE(x.total_price, x.quantity * x.unit_price),
+    p_date,
+    NULLIF(trim(x.lot_number), ''),
+    x.expiry_date,
+    x.po_item_id
+  FROM jsonb_to_recordset(p_items) AS x(
+    product_type text,
+    product_id uuid,
+    quantity numeric,
+    unit_price numeric,
+    total_price numeric,
+    lot_number text,
+    expiry_date date,
+    po_item_id uuid
+  );
+
+  IF p_purchase_order_id IS NOT NULL THEN
+    UPDATE purchase_order_items poi
+    SET received_qty = poi.received_qty + r.quantity
+    FROM (
+      SELECT po_item_id, SUM(quantity) AS quantity
+      FROM invoice_items
+      WHERE invoice_id = v_invoice_id AND po_item_id IS NOT NULL
+      GROUP BY po_item_id
+    ) r
+    WHERE poi.id = r.po_item_id;
+
+    UPDATE purchase_orders
+    SET status = CASE
+      WHEN NOT EXISTS (
+        SELECT 1 FROM purchase_order_items
+        WHERE po_id = p_purchase_order_id AND received_qty < ordered_qty
+      ) THEN 'received'
+      ELSE 'partially_received'
+    END
+    WHERE id = p_purchase_order_id;
+  END IF;
+
+  RETURN v_invoice_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION update_invoice(
+  p_invoice_id uuid,
+  p_invoice_code text,
+  p_supplier_id uuid,
+  p_date date,
+  p_items jsonb,
+  p_reason text
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invoice invoices%ROWTYPE;
+  v_supplier text;
+  v_before jsonb;
+BEGIN
+  IF trim(COALESCE(p_reason, '')) = '' THEN
+    RAISE EXCEPTION 'Düzəliş səbəbi daxil edilməlidir';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Qaimədə ən azı bir məhsul olmalıdır';
+  END IF;
+
+  v_invoice := lock_correctable_invoice(p_invoice_id);
+
+  SELECT name INTO v_supplier FROM suppliers WHERE id = p_supplier_id;
+
+  IF v_supplier IS NULL THEN
+    RAISE EXCEPTION 'Təchizatçı tapılmadı';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(p_items) AS x(id uuid)
+    LEFT JOIN invoice_items ii ON ii.id = x.id AND ii.invoice_id = p_invoice_id
+    WHERE x.id IS NOT NULL AND ii.id IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Sətir % qaiməsinə aid deyil', v_invoice.invoice_code;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(p_items) AS x(quantity numeric, unit_price numeric)
+    WHERE x.quantity IS NULL OR x.quantity <= 0 OR x.unit_price IS NULL OR x.unit_price < 0
+  ) THEN
+    RAISE EXCEPTION 'Bütün məhsul sətirləri düzgün doldurulmalıdır';
+  END IF;
+
+  v_before := invoice_snapshot(p_invoice_id);
+
+  -- Take the old quantities off the purchase order; the corrected ones are added back below
+  UPDATE purchase_order_items poi
+  SET received_qty = poi.received_qty - r.quantity
+  FROM (
+    SELECT po_item_id, SUM(quantity) AS quantity
+    FROM invoice_items
+    WHERE invoice_id = p_invoice_id AND po_item_id IS NOT NULL
+    GROUP BY po_item_id
+  ) r
+  WHERE poi.id = r.po_item_id;
+
+  DELETE FROM invoice_items ii
+  WHERE ii.invoice_id = p_invoice_id
+    AND NOT EXISTS (
+      SELECT 1 FROM jsonb_to_recordset(p_items) AS x(id uuid) WHERE x.id = ii.id
+    );
+
+  UPDATE invoice_items ii
+  SET product_type = x.product_type,
+      product_id = x.product_id,
+      quantity = x.quantity,
+      unit_price = x.unit_price,
+      total_price = COALESCE(x.total_price, x.quantity * x.unit_price),
+      batch_date = p_date,
+      lot_number = NULLIF(trim(x.lot_number), ''),
+      expiry_date = x.expiry_date,
+      po_item_id = CASE
+        WHEN ii.product_type = x.product_type AND ii.product_id = x.product_id THEN ii.po_item_id
+      END
+  FROM jsonb_to_recordset(p_items) AS x(
+    id uuid,
+    product_type text,
+    product_id uuid,
+    quantity numeric,
+    unit_price numeric,
+    total_price numeric,
+    lot_number text,
+    expiry_date date
+  )
+  WHERE ii.id = x.id;
+
+  INSERT INTO invoice_items (invoice_id, product_type, product_id, quantity, unit_price, total_price, batch_date, lot_number, expiry_date)
+  SELECT
+    p_invoice_id,
+    x.product_type,
+    x.product_id,
+    x.quantity,
+    x.unit_price,
+    COALESCE(x.total_price, x.quantity * x.unit_price),
+    p_date,
+    NULLIF(trim(x.lot_number), ''),
+    x.expiry_date
+  FROM jsonb_to_recordset(p_items) AS x(
+    id uuid,
+    product_type text,
+    product_id uuid,
+    quantity numeric,
+    unit_price numeric,
+    total_price numeric,
+    lot_number text,
+    expiry_date date
+  )
+  WHERE x.id IS NULL;
+
+  UPDATE purchase_order_items poi
+  SET received_qty = poi.received_qty + r.quantity
+  FROM (
+    SELECT po_item_id, SUM(quantity) AS quantity
+    FROM invoice_items
+    WHERE invoice_id = p_invoice_id AND po_item_id IS NOT NULL
+    GROUP BY po_item_id
+  ) r
+  WHERE poi.id = r.po_item_id;
+
+  UPDATE invoices
+  SET invoice_code = p_invoice_code,
+      supplier = v_supplier,
+      supplier_id = p_supplier_id,
+      date = p_date
+  WHERE id = p_invoice_id;
+
+  IF v_invoice.purchase_order_id IS NOT NULL THEN
+    PERFORM refresh_purchase_order_status(v_invoice.purchase_order_id);
+  END IF;
+
+  INSERT INTO invoice_revisions (invoice_id, action, reason, before, after)
+  VALUES (p_invoice_id, 'update', trim(p_reason), v_before, invoice_snapshot(p_invoice_id));
+
+  RETURN p_invoice_id;
+END;
+$$;